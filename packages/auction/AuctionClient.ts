@@ -0,0 +1,1540 @@
+import { ethers } from "ethers";
+import { FHEVWAPAuctionABI } from "./abi/FHEVWAPAuctionABI";
+import { MedicineAuctionABI } from "./abi/MedicineAuctionABI";
+import { auctionOptions } from "./auctionOptions";
+import type { FhevmInstance } from "./fhevm/fhevmTypes";
+import { FhevmDecryptionSignature } from "./fhevm/FhevmDecryptionSignature";
+import type { GenericStringStorage } from "./fhevm/GenericStringStorage";
+import type { TypedContract } from "./typedContract";
+import type {
+  AmendBidParams,
+  AuctionClientLogger,
+  AuctionClientParameters,
+  AuctionVariant,
+  BidderUsage,
+  Claimable,
+  CreateAuctionParams,
+  CreateRecurringAuctionParams,
+  EncryptedPrice,
+  EncryptedPriceAndCap,
+  EncryptedPriceAndQty,
+  OnChainAuction,
+  OnChainBid,
+  OnChainSeries,
+  QtyReveal,
+  ReserveCheck,
+  SettlementProgress,
+  SubmitBidParams,
+  TokenAccount,
+  TokenInfo,
+  TokenPermit,
+} from "./auctionTypes";
+import type { TokenDecimals } from "./amounts";
+import { checkBidLimits, MAX_UINT64 } from "./bidLimits";
+import {
+  checkBidderLimits,
+  hasBidderLimits,
+  validateBidderLimits
+} from "./bidderLimits";
+import { isEthQuoted, validateTokenPair } from "./tokenList";
+import {
+  auditHandlePairs,
+  readAuditDecryption,
+  verifyAudit,
+  type AuditHandles,
+  type AuditReport
+} from "./audit";
+import {
+  PROCUREMENT_REGISTRY_ABI,
+  type ParticipantRoles
+} from "./registry";
+import {
+  PERMIT2_ADDRESS,
+  PERMIT_TTL_SECONDS,
+  signErc2612Permit,
+  signPermit2,
+} from "./permits";
+
+const ERC20_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+] as const;
+
+/**
+ * MedicineAuction's ABI extends FHEVWAPAuction's; its own methods (`submitMunicipalityBid*`)
+ * are only called on the medicine variant.
+ */
+type AuctionContract = TypedContract<typeof MedicineAuctionABI.abi>;
+
+export class AuctionClientError extends Error {
+  code: string;
+  constructor(code: string, message?: string, options?: ErrorOptions) {
+    super(message, options);
+    this.code = code;
+    this.name = "AuctionClientError";
+  }
+}
+
+/**
+ * Framework-agnostic wrapper around a deployed `FHEVWAPAuction` / `MedicineAuction`.
+ *
+ * Read methods only need a provider as runner; write methods require a signer and
+ * resolve once the transaction is mined.
+ */
+export class AuctionClient {
+  #address: `0x${string}`;
+  #variant: AuctionVariant;
+  #runner: ethers.ContractRunner;
+  #contract: AuctionContract;
+  #log: AuctionClientLogger;
+  #decimals = new Map<string, Promise<number>>();
+  #weth: Promise<`0x${string}` | undefined> | undefined;
+  #registry: Promise<`0x${string}` | undefined> | undefined;
+
+  constructor(parameters: AuctionClientParameters) {
+    if (!ethers.isAddress(parameters.address)) {
+      throw new TypeError(`Invalid auction address ${parameters.address}`);
+    }
+    this.#address = parameters.address;
+    this.#variant = parameters.variant;
+    this.#runner = parameters.runner;
+    this.#log = parameters.log ?? (() => {});
+    const abi =
+      parameters.variant === "medicine"
+        ? MedicineAuctionABI.abi
+        : FHEVWAPAuctionABI.abi;
+    this.#contract = new ethers.Contract(
+      parameters.address,
+      abi,
+      parameters.runner
+    ) as unknown as AuctionContract;
+  }
+
+  public get address() {
+    return this.#address;
+  }
+
+  public get variant() {
+    return this.#variant;
+  }
+
+  /** Underlying ethers contract, exposed for event subscriptions. */
+  public get contract() {
+    return this.#contract;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Reads
+  //////////////////////////////////////////////////////////////////////////////
+
+  public async auctionsCount(): Promise<number> {
+    const count: bigint = await this.#contract.auctionsCount();
+    return Number(count);
+  }
+
+  public async getAuction(auctionId: number): Promise<OnChainAuction> {
+    const [
+      a,
+      pullPayments,
+      encryptedCaps,
+      eligibilityRequested,
+      pendingEligibility,
+      confidentialQuantities,
+      qtyReveal,
+      pendingAllocations,
+      eligibleQ,
+      baseUnit,
+      reserveCheck,
+      priceUnit,
+      metadataHash,
+      allowlistRoot,
+      limits,
+      auditor,
+    ] = await Promise.all([
+      this.#contract.auctions(auctionId),
+      this.#contract.pullPayments(auctionId),
+      this.#contract.encryptedCaps(auctionId),
+      this.#contract.eligibilityRequested(auctionId),
+      this.#contract.pendingEligibility(auctionId),
+      this.#contract.confidentialQuantities(auctionId),
+      this.#contract.qtyReveal(auctionId),
+      this.#contract.pendingAllocations(auctionId),
+      this.#contract.decryptedEligibleQ(auctionId),
+      this.#contract.baseUnit(auctionId),
+      this.#contract.reserveCheck(auctionId),
+      this.#contract.priceUnit(auctionId),
+      this.#contract.metadataHash(auctionId),
+      this.#contract.allowlistRoot(auctionId),
+      this.#contract.bidderLimits(auctionId),
+      this.#contract.auditor(auctionId),
+    ]);
+    return {
+      id: auctionId,
+      seller: a.seller,
+      S: a.S,
+      start: Number(a.start),
+      end: Number(a.end),
+      vwap: a.vwap,
+      vwapSet: a.vwapSet,
+      settled: a.settled,
+      sumQ: a.sumQ,
+      encVWAPComputed: a.encVWAPComputed,
+      baseToken: a.baseToken,
+      quoteToken: a.quoteToken,
+      pullPayments,
+      encryptedCaps,
+      eligibilityRequested,
+      pendingEligibility: Number(pendingEligibility),
+      confidentialQuantities,
+      qtyReveal: Number(qtyReveal) as QtyReveal,
+      pendingAllocations: Number(pendingAllocations),
+      eligibleQ,
+      baseUnit,
+      reserveCheck: Number(reserveCheck) as ReserveCheck,
+      priceUnit,
+      metadataHash,
+      allowlistRoot,
+      bidderLimits: {
+        maxBids: Number(limits.maxBids),
+        maxQty: limits.maxQty,
+        maxShareBps: Number(limits.maxShareBps)
+      },
+      auditor,
+    };
+  }
+
+  public async listAuctions(): Promise<OnChainAuction[]> {
+    const count = await this.auctionsCount();
+    const ids = Array.from({ length: count }, (_, i) => i + 1);
+    return Promise.all(ids.map((id) => this.getAuction(id)));
+  }
+
+  public async getBids(auctionId: number): Promise<OnChainBid[]> {
+    const bids = await this.#contract.getBids(auctionId);
+    return bids.map((b, index) => ({
+      index,
+      buyer: b.buyer,
+      qty: b.qty,
+      priceCap: b.priceCap,
+      maxSpend: b.maxSpend,
+      settled: b.settled,
+      cancelled: b.cancelled,
+      encryptedCap: b.encCap !== ethers.ZeroHash,
+      capMet: b.capMet,
+      confidentialQty: b.encQty !== ethers.ZeroHash,
+      allocation: b.allocation,
+      minFill: b.minFill,
+      minFillExcluded: b.minFillExcluded,
+    }));
+  }
+
+  public async seriesCount(): Promise<number> {
+    const count: bigint = await this.#contract.seriesCount();
+    return Number(count);
+  }
+
+  public async getSeries(seriesId: number): Promise<OnChainSeries> {
+    const s = await this.#contract.series(seriesId);
+    return {
+      id: seriesId,
+      seller: s.seller,
+      firstAuctionId: Number(s.firstAuctionId),
+      windows: Number(s.windows),
+      supplyPerWindow: s.supplyPerWindow,
+      windowLength: Number(s.windowLength),
+    };
+  }
+
+  public async listSeries(): Promise<OnChainSeries[]> {
+    const count = await this.seriesCount();
+    const ids = Array.from({ length: count }, (_, i) => i + 1);
+    return Promise.all(ids.map((id) => this.getSeries(id)));
+  }
+
+  /** Amounts `claim(auctionId)` would pay `account` (always zero for push-payment auctions). */
+  public async getClaimable(
+    auctionId: number,
+    account: string
+  ): Promise<Claimable> {
+    const [base, quote]: bigint[] = await Promise.all([
+      this.#contract.claimableBase(auctionId, account),
+      this.#contract.claimableQuote(auctionId, account),
+    ]);
+    return { base, quote };
+  }
+
+  public async getSettlementProgress(
+    auctionId: number
+  ): Promise<SettlementProgress> {
+    const [st, bids] = await Promise.all([
+      this.#contract.settlements(auctionId),
+      this.#contract.getBids(auctionId),
+    ]);
+    return {
+      started: st.started,
+      cursor: Number(st.cursor),
+      bidCount: bids.length,
+      eligibleQ: st.eligibleQ,
+    };
+  }
+
+  /**
+   * Handles an auditor decrypts to check the VWAP: every live bid's price (and qty on
+   * confidential-quantity auctions), encSumPQ and encVWAP. Throws `NOT_COMPUTED` before the
+   * encrypted VWAP exists.
+   */
+  public async getAuditHandles(auctionId: number): Promise<AuditHandles> {
+    const [a, bids, confidential] = await Promise.all([
+      this.#contract.auctions(auctionId),
+      this.#contract.getBids(auctionId),
+      this.#contract.confidentialQuantities(auctionId),
+    ]);
+    if (!a.encVWAPComputed) {
+      throw new AuctionClientError(
+        "NOT_COMPUTED",
+        `The encrypted VWAP of auction #${auctionId} is not computed yet`
+      );
+    }
+    return {
+      auctionId,
+      encSumPQ: a.encSumPQ,
+      encVWAP: a.encVWAP,
+      bids: bids.flatMap((b, index) =>
+        b.cancelled
+          ? []
+          : [
+              {
+                index,
+                buyer: b.buyer,
+                price: b.encPrice,
+                qty: b.qty,
+                qtyHandle: confidential ? b.encQty : undefined,
+              },
+            ]
+      ),
+    };
+  }
+
+  /** Whether `grantAuditAccess` accepts `account`: the appointed auditor or a registry auditor. */
+  public async canAudit(auctionId: number, account: string): Promise<boolean> {
+    const [auditor, registry] = await Promise.all([
+      this.#contract.auditor(auctionId),
+      this.registry(),
+    ]);
+    if (auditor.toLowerCase() === account.toLowerCase()) {
+      return true;
+    }
+    return registry !== undefined && (await this.getParticipantRoles(account)).auditor;
+  }
+
+  /** Returns the encrypted VWAP handle, or `undefined` if it was not computed yet. */
+  public async getEncryptedVWAP(auctionId: number): Promise<string | undefined> {
+    const a = await this.getAuction(auctionId);
+    if (!a.encVWAPComputed) {
+      return undefined;
+    }
+    return this.#contract.getEncryptedVWAP(auctionId);
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Writes
+  //////////////////////////////////////////////////////////////////////////////
+
+  public async createAuction(
+    params: CreateAuctionParams
+  ): Promise<{ auctionId: number; receipt: ethers.ContractTransactionReceipt }> {
+    this.#log("createAuctionWithOptions start");
+    const receipt = await this.#send(
+      "createAuctionWithOptions",
+      this.#contract.createAuctionWithOptions(
+        params.baseToken,
+        params.quoteToken,
+        params.S,
+        params.start,
+        params.end,
+        auctionOptions(params)
+      )
+    );
+    return this.#afterCreate(receipt);
+  }
+
+  /** Same as `createAuction`, escrowing `S` with a signed approval instead of a prior `approve`. */
+  public async createAuctionWithPermit(
+    params: CreateAuctionParams,
+    permit: TokenPermit
+  ): Promise<{ auctionId: number; receipt: ethers.ContractTransactionReceipt }> {
+    this.#log("createAuctionWithPermit start");
+    const receipt = await this.#send(
+      "createAuctionWithPermit",
+      this.#contract.createAuctionWithPermit(
+        params.baseToken,
+        params.quoteToken,
+        params.S,
+        params.start,
+        params.end,
+        auctionOptions(params),
+        permit
+      )
+    );
+    return this.#afterCreate(receipt);
+  }
+
+  #afterCreate(
+    receipt: ethers.ContractTransactionReceipt
+  ): { auctionId: number; receipt: ethers.ContractTransactionReceipt } {
+    const created = this.#findEvent(receipt, "AuctionCreated");
+    if (!created) {
+      throw new AuctionClientError(
+        "AUCTION_CREATED_EVENT_MISSING",
+        `AuctionCreated event not found in tx ${receipt.hash}`
+      );
+    }
+    return { auctionId: Number(created.args.auctionId), receipt };
+  }
+
+  public async createRecurringAuction(
+    params: CreateRecurringAuctionParams
+  ): Promise<{
+    seriesId: number;
+    auctionIds: number[];
+    receipt: ethers.ContractTransactionReceipt;
+  }> {
+    this.#log(`createRecurringAuction start (${params.windows} windows)`);
+    const receipt = await this.#send(
+      "createRecurringAuction",
+      this.#contract.createRecurringAuction(
+        params.baseToken,
+        params.quoteToken,
+        params.supplyPerWindow,
+        params.firstStart,
+        params.windowLength,
+        params.windows
+      )
+    );
+    const created = this.#findEvent(receipt, "SeriesCreated");
+    if (!created) {
+      throw new AuctionClientError(
+        "SERIES_CREATED_EVENT_MISSING",
+        `SeriesCreated event not found in tx ${receipt.hash}`
+      );
+    }
+    const first = Number(created.args.firstAuctionId);
+    return {
+      seriesId: Number(created.args.seriesId),
+      auctionIds: Array.from({ length: params.windows }, (_, i) => first + i),
+      receipt,
+    };
+  }
+
+  public async submitBid(
+    params: SubmitBidParams & { encryptedPrice: EncryptedPrice }
+  ): Promise<ethers.ContractTransactionReceipt> {
+    this.#log(`${this.#bidMethod} sending...`);
+    return this.#send(
+      this.#bidMethod,
+      this.#contract[this.#bidMethod](
+        params.auctionId,
+        params.encryptedPrice.handle,
+        params.encryptedPrice.inputProof,
+        params.qty,
+        params.priceCap,
+        params.maxSpend,
+        this.#escrowValue(params)
+      )
+    );
+  }
+
+  /** Same as `submitBid`, escrowing `maxSpend` with a signed approval instead of a prior `approve`. */
+  public async submitBidWithPermit(
+    params: SubmitBidParams & { encryptedPrice: EncryptedPrice },
+    permit: TokenPermit
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const method =
+      this.#variant === "medicine"
+        ? "submitMunicipalityBidWithPermit"
+        : "submitBidWithPermit";
+    this.#log(`${method} sending...`);
+    return this.#send(
+      method,
+      this.#contract[method](
+        params.auctionId,
+        params.encryptedPrice.handle,
+        params.encryptedPrice.inputProof,
+        params.qty,
+        params.priceCap,
+        params.maxSpend,
+        permit
+      )
+    );
+  }
+
+  /** Encrypted-caps auctions: `priceCap` travels inside `encrypted` instead of in clear. */
+  public async submitBidEncryptedCap(
+    params: Omit<SubmitBidParams, "priceCap"> & {
+      encrypted: EncryptedPriceAndCap;
+    }
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const method =
+      this.#variant === "medicine"
+        ? "submitMunicipalityBidEncryptedCap"
+        : "submitBidEncryptedCap";
+    this.#log(`${method} sending...`);
+    return this.#send(
+      method,
+      this.#contract[method](
+        params.auctionId,
+        params.encrypted.handle,
+        params.encrypted.capHandle,
+        params.encrypted.inputProof,
+        params.qty,
+        params.maxSpend,
+        this.#escrowValue(params)
+      )
+    );
+  }
+
+  /**
+   * Confidential-quantities auctions: `qty` travels inside `encrypted`. A quantity that
+   * `maxSpend` cannot pay at `priceCap` is voided to 0 on-chain instead of reverting.
+   */
+  public async submitBidConfidentialQty(
+    params: Omit<SubmitBidParams, "qty"> & {
+      encrypted: EncryptedPriceAndQty;
+    }
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const method =
+      this.#variant === "medicine"
+        ? "submitMunicipalityBidConfidentialQty"
+        : "submitBidConfidentialQty";
+    this.#log(`${method} sending...`);
+    return this.#send(
+      method,
+      this.#contract[method](
+        params.auctionId,
+        params.encrypted.handle,
+        params.encrypted.qtyHandle,
+        params.encrypted.inputProof,
+        params.priceCap,
+        params.maxSpend,
+        this.#escrowValue(params)
+      )
+    );
+  }
+
+  /**
+   * Replaces one of the signer's bids while the window is open; escrow is topped up or refunded.
+   * `topUpEth` attaches the top-up as native ETH on WETH-quoted auctions.
+   */
+  public async amendBid(
+    params: AmendBidParams & { encryptedPrice: EncryptedPrice },
+    topUpEth = 0n
+  ): Promise<ethers.ContractTransactionReceipt> {
+    this.#log(`amendBid #${params.auctionId}/${params.bidIndex} sending...`);
+    return this.#send(
+      "amendBid",
+      this.#contract.amendBid(
+        params.auctionId,
+        params.bidIndex,
+        params.encryptedPrice.handle,
+        params.encryptedPrice.inputProof,
+        params.qty,
+        params.priceCap,
+        params.maxSpend,
+        { value: topUpEth }
+      )
+    );
+  }
+
+  /** Withdraws one of the signer's bids while the window is open, refunding its escrow. */
+  public async cancelBid(
+    auctionId: number,
+    bidIndex: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      "cancelBid",
+      this.#contract.cancelBid(auctionId, bidIndex)
+    );
+  }
+
+  public async computeEncryptedVWAP(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      "computeEncryptedVWAP",
+      this.#contract.computeEncryptedVWAP(auctionId)
+    );
+  }
+
+  public async requestVWAPDecryption(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      "requestVWAPDecryption",
+      this.#contract.requestVWAPDecryption(auctionId)
+    );
+  }
+
+  public async settle(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send("settle", this.#contract.settle(auctionId));
+  }
+
+  /** Reserve-price auctions: asks the oracle whether the encrypted VWAP reached the reserve. */
+  public async requestReserveCheck(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      "requestReserveCheck",
+      this.#contract.requestReserveCheck(auctionId)
+    );
+  }
+
+  /** Encrypted-caps auctions: asks the oracle for the `cap >= vwap` result of every live bid. */
+  public async requestEligibilityDecryption(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      "requestEligibilityDecryption",
+      this.#contract.requestEligibilityDecryption(auctionId)
+    );
+  }
+
+  /**
+   * Encrypted-caps auctions: `requestEligibilityDecryption` for bids [from, from + count); `from`
+   * must be the on-chain cursor.
+   */
+  public async requestEligibilityBatch(
+    auctionId: number,
+    from: number,
+    count: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      `requestEligibilityBatch ${from}+${count}`,
+      this.#contract.requestEligibilityBatch(auctionId, from, count)
+    );
+  }
+
+  /** Confidential quantities: asks the oracle for the total demand once the window closed. */
+  public async requestSumQDecryption(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      "requestSumQDecryption",
+      this.#contract.requestSumQDecryption(auctionId)
+    );
+  }
+
+  /** Confidential quantities: asks the oracle for the demand of bids whose cap meets the VWAP. */
+  public async requestEligibleDemandDecryption(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      "requestEligibleDemandDecryption",
+      this.#contract.requestEligibleDemandDecryption(auctionId)
+    );
+  }
+
+  /** Confidential quantities: asks the oracle for the allocation of every eligible bid. */
+  public async requestAllocationDecryption(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      "requestAllocationDecryption",
+      this.#contract.requestAllocationDecryption(auctionId)
+    );
+  }
+
+  /** Settles bids [from, from + count); `from` must be the on-chain cursor. */
+  public async settleBatch(
+    auctionId: number,
+    from: number,
+    count: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      `settleBatch ${from}+${count}`,
+      this.#contract.settleBatch(auctionId, from, count)
+    );
+  }
+
+  /**
+   * Auditors only, once the encrypted VWAP is computed: allows the signer on the prices of bids
+   * [from, from + count), encSumPQ and encVWAP.
+   */
+  public async grantAuditAccess(
+    auctionId: number,
+    from: number,
+    count: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      `grantAuditAccess ${from}+${count}`,
+      this.#contract.grantAuditAccess(auctionId, from, count)
+    );
+  }
+
+  /** `account`'s live bids and qty; only tracked on auctions with bidder limits. */
+  public async getBidderUsage(
+    auctionId: number,
+    account: string
+  ): Promise<BidderUsage> {
+    const u = await this.#contract.bidderUsage(auctionId, account);
+    return { bids: Number(u.bids), qty: u.qty };
+  }
+
+  /** Proves the signer is on the auction's allowlist (see `buildAllowlist`). */
+  public async joinAllowlist(
+    auctionId: number,
+    proof: readonly `0x${string}`[]
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      "joinAllowlist",
+      this.#contract.joinAllowlist(auctionId, proof)
+    );
+  }
+
+  /**
+   * While the window is open: the smallest allocation the signer accepts for one of their bids
+   * (`ALL_OR_NOTHING` for the full qty, 0 to accept any). Clear-quantity auctions only.
+   */
+  public async setMinFill(
+    auctionId: number,
+    bidIndex: number,
+    minFill: bigint
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      "setMinFill",
+      this.#contract.setMinFill(auctionId, bidIndex, minFill)
+    );
+  }
+
+  /** Withdraws the base and quote recorded for the signer on a settled pull-payment auction. */
+  public async claim(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send("claim", this.#contract.claim(auctionId));
+  }
+
+  /**
+   * Closes a window whose revealed sumQ is 0: refunds every live bid and releases the base (rolls
+   * over inside a series).
+   */
+  public async closeEmptyAuction(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    return this.#send(
+      "closeEmptyAuction",
+      this.#contract.closeEmptyAuction(auctionId)
+    );
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Composite helpers
+  //////////////////////////////////////////////////////////////////////////////
+
+  /** Encrypts a clear price for this auction contract on behalf of the signer. */
+  public async encryptPrice(
+    instance: FhevmInstance,
+    price: number | bigint
+  ): Promise<EncryptedPrice> {
+    const userAddress = await this.#signer().getAddress();
+    this.#log(`Encrypting price with FHEVM`);
+    const input = instance.createEncryptedInput(this.#address, userAddress);
+    input.add64(price);
+    const enc = await input.encrypt();
+    return { handle: enc.handles[0], inputProof: enc.inputProof };
+  }
+
+  /** Encrypts price and cap in a single input, as encrypted-caps bids require. */
+  public async encryptPriceAndCap(
+    instance: FhevmInstance,
+    price: number | bigint,
+    cap: number | bigint
+  ): Promise<EncryptedPriceAndCap> {
+    const userAddress = await this.#signer().getAddress();
+    this.#log(`Encrypting price and cap with FHEVM`);
+    const input = instance.createEncryptedInput(this.#address, userAddress);
+    input.add64(price);
+    input.add64(cap);
+    const enc = await input.encrypt();
+    return {
+      handle: enc.handles[0],
+      capHandle: enc.handles[1],
+      inputProof: enc.inputProof,
+    };
+  }
+
+  /** Encrypts price and quantity in a single input, as confidential-quantity bids require. */
+  public async encryptPriceAndQty(
+    instance: FhevmInstance,
+    price: number | bigint,
+    qty: number | bigint
+  ): Promise<EncryptedPriceAndQty> {
+    const userAddress = await this.#signer().getAddress();
+    this.#log(`Encrypting price and quantity with FHEVM`);
+    const input = instance.createEncryptedInput(this.#address, userAddress);
+    input.add64(price);
+    input.add64(qty);
+    const enc = await input.encrypt();
+    return {
+      handle: enc.handles[0],
+      qtyHandle: enc.handles[1],
+      inputProof: enc.inputProof,
+    };
+  }
+
+  /**
+   * Approves the base token escrow (if needed) and creates the auction. Throws `INVALID_TOKEN_PAIR`
+   * before the approval when base and quote are the same token, which `createAuction` would reject.
+   */
+  public async approveAndCreateAuction(params: CreateAuctionParams) {
+    this.#assertTokenPair(params);
+    this.#assertBidderLimitsValid(params);
+    await this.ensureAllowance(params.baseToken, params.S);
+    return this.createAuction(params);
+  }
+
+  /**
+   * Creates the auction with one signature plus one transaction when the base token supports a permit
+   * (see `signPermit`), and falls back to `approveAndCreateAuction` otherwise.
+   */
+  public async permitAndCreateAuction(params: CreateAuctionParams) {
+    this.#assertTokenPair(params);
+    this.#assertBidderLimitsValid(params);
+    const permit = await this.#permitFor(params.baseToken, params.S);
+    if (!permit) {
+      return this.approveAndCreateAuction(params);
+    }
+    return this.createAuctionWithPermit(params, permit);
+  }
+
+  /** Approves the whole schedule's base escrow (if needed) and creates the series. */
+  public async approveAndCreateRecurringAuction(
+    params: CreateRecurringAuctionParams
+  ) {
+    await this.ensureAllowance(
+      params.baseToken,
+      params.supplyPerWindow * BigInt(params.windows)
+    );
+    return this.createRecurringAuction(params);
+  }
+
+  /**
+   * Approves the quote escrow (if needed), encrypts `price` (and `priceCap` on encrypted-caps
+   * auctions, `qty` on confidential-quantities ones) and submits the bid, then sets its `minFill`
+   * if given. Throws `BID_OVERFLOW` before any transaction when an amount would overflow the
+   * contract's 64-bit domain, `NOT_ETH_QUOTED` when `payWithEth` is set on an auction not quoted
+   * in WETH, and `MIN_FILL_UNSUPPORTED` for a `minFill` on a confidential-quantities auction.
+   */
+  public async approveAndSubmitBid(
+    instance: FhevmInstance,
+    params: SubmitBidParams & { price: number | bigint }
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const a = await this.getAuction(params.auctionId);
+    this.#assertBidLimits(a, params);
+    this.#assertMinFillSupported(a, params);
+    await this.#ensureMayBid(a, params);
+    await this.#assertBidderLimits(a, params.qty);
+    if (params.payWithEth) {
+      await this.#assertEthQuoted(a);
+    } else {
+      await this.ensureAllowance(a.quoteToken, params.maxSpend);
+    }
+    if (a.encryptedCaps) {
+      const encrypted = await this.encryptPriceAndCap(
+        instance,
+        params.price,
+        params.priceCap
+      );
+      return this.#afterBid(
+        await this.submitBidEncryptedCap({ ...params, encrypted }),
+        params
+      );
+    }
+    if (a.confidentialQuantities) {
+      const encrypted = await this.encryptPriceAndQty(
+        instance,
+        params.price,
+        params.qty
+      );
+      return this.submitBidConfidentialQty({ ...params, encrypted });
+    }
+    const encryptedPrice = await this.encryptPrice(instance, params.price);
+    return this.#afterBid(
+      await this.submitBid({ ...params, encryptedPrice }),
+      params
+    );
+  }
+
+  /**
+   * `approveAndSubmitBid` with one signature instead of the approve transaction when the quote token supports a
+   * permit. Encrypted-caps and confidential-quantities bids have no permit entry point and keep the approve;
+   * ETH bids need neither.
+   */
+  public async permitAndSubmitBid(
+    instance: FhevmInstance,
+    params: SubmitBidParams & { price: number | bigint }
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const a = await this.getAuction(params.auctionId);
+    if (a.encryptedCaps || a.confidentialQuantities || params.payWithEth) {
+      return this.approveAndSubmitBid(instance, params);
+    }
+    this.#assertBidLimits(a, params);
+    const permit = await this.#permitFor(a.quoteToken, params.maxSpend);
+    if (!permit) {
+      return this.approveAndSubmitBid(instance, params);
+    }
+    await this.#ensureMayBid(a, params);
+    await this.#assertBidderLimits(a, params.qty);
+    const encryptedPrice = await this.encryptPrice(instance, params.price);
+    return this.#afterBid(
+      await this.submitBidWithPermit({ ...params, encryptedPrice }, permit),
+      params
+    );
+  }
+
+  /**
+   * Approves the extra quote escrow (if `maxSpend` grows), or attaches it as ETH with `payWithEth`,
+   * encrypts `price` and amends the bid, then updates its minimum fill when `minFill` changes it.
+   */
+  public async approveAndAmendBid(
+    instance: FhevmInstance,
+    params: AmendBidParams & { price: number | bigint }
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const [a, bids] = await Promise.all([
+      this.getAuction(params.auctionId),
+      this.getBids(params.auctionId),
+    ]);
+    if (a.encryptedCaps) {
+      throw new AuctionClientError(
+        "AMEND_UNSUPPORTED",
+        `Auction #${params.auctionId} uses encrypted caps: cancel the bid and bid again`
+      );
+    }
+    if (a.confidentialQuantities) {
+      throw new AuctionClientError(
+        "AMEND_UNSUPPORTED",
+        `Auction #${params.auctionId} uses confidential quantities: cancel the bid and bid again`
+      );
+    }
+    const current = bids[params.bidIndex];
+    if (!current) {
+      throw new AuctionClientError(
+        "BID_NOT_FOUND",
+        `Auction #${params.auctionId} has no bid ${params.bidIndex}`
+      );
+    }
+    this.#assertBidLimits(a, params, current.qty);
+    await this.#assertBidderLimits(a, params.qty, current.qty);
+    const topUp =
+      params.maxSpend > current.maxSpend
+        ? params.maxSpend - current.maxSpend
+        : 0n;
+    if (params.payWithEth) {
+      await this.#assertEthQuoted(a);
+    } else if (topUp > 0n) {
+      await this.ensureAllowance(a.quoteToken, topUp);
+    }
+    const encryptedPrice = await this.encryptPrice(instance, params.price);
+    const receipt = await this.amendBid(
+      { ...params, encryptedPrice },
+      params.payWithEth ? topUp : 0n
+    );
+    if (params.minFill !== undefined && params.minFill !== current.minFill) {
+      await this.setMinFill(params.auctionId, params.bidIndex, params.minFill);
+    }
+    return receipt;
+  }
+
+  /**
+   * Sends `settleBatch` calls of `batchSize` bids from the on-chain cursor until the auction is
+   * settled, so it also resumes a settlement interrupted part-way.
+   */
+  public async settleInBatches(
+    auctionId: number,
+    batchSize: number,
+    onBatch?: (
+      progress: SettlementProgress,
+      receipt: ethers.ContractTransactionReceipt
+    ) => void
+  ): Promise<ethers.ContractTransactionReceipt[]> {
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new AuctionClientError(
+        "INVALID_BATCH_SIZE",
+        `Batch size must be a positive integer, got ${batchSize}`
+      );
+    }
+    const receipts: ethers.ContractTransactionReceipt[] = [];
+    const a = await this.getAuction(auctionId);
+    if (a.settled) {
+      this.#log(`Auction #${auctionId} already settled`);
+      return receipts;
+    }
+    let progress = await this.getSettlementProgress(auctionId);
+    do {
+      const receipt = await this.settleBatch(
+        auctionId,
+        progress.cursor,
+        batchSize
+      );
+      receipts.push(receipt);
+      progress = await this.getSettlementProgress(auctionId);
+      this.#log(
+        `Settled ${progress.cursor}/${progress.bidCount} bids of #${auctionId}`
+      );
+      onBatch?.(progress, receipt);
+    } while (progress.cursor < progress.bidCount);
+    return receipts;
+  }
+
+  /** Computes the encrypted VWAP unless already done, then requests its on-chain decryption. */
+  public async computeAndRequestVWAPDecryption(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const a = await this.getAuction(auctionId);
+    if (a.encVWAPComputed) {
+      this.#log(`Encrypted VWAP already computed for #${auctionId}`);
+    } else {
+      await this.computeEncryptedVWAP(auctionId);
+    }
+    return this.requestVWAPDecryption(auctionId);
+  }
+
+  /**
+   * Reserve-price auctions: computes the encrypted VWAP unless already done, then requests the
+   * reserve check that `requestVWAPDecryption` waits for.
+   */
+  public async computeAndRequestReserveCheck(
+    auctionId: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const a = await this.getAuction(auctionId);
+    if (a.encVWAPComputed) {
+      this.#log(`Encrypted VWAP already computed for #${auctionId}`);
+    } else {
+      await this.computeEncryptedVWAP(auctionId);
+    }
+    return this.requestReserveCheck(auctionId);
+  }
+
+  /**
+   * Sends `requestEligibilityBatch` calls of `batchSize` bids from the on-chain cursor until every
+   * bid's eligibility is requested, so it also resumes requests interrupted part-way.
+   */
+  public async requestEligibilityInBatches(
+    auctionId: number,
+    batchSize: number
+  ): Promise<ethers.ContractTransactionReceipt[]> {
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new AuctionClientError(
+        "INVALID_BATCH_SIZE",
+        `Batch size must be a positive integer, got ${batchSize}`
+      );
+    }
+    const { bidCount } = await this.getSettlementProgress(auctionId);
+    const receipts: ethers.ContractTransactionReceipt[] = [];
+    let cursor = Number(await this.#contract.eligibilityCursor(auctionId));
+    while (cursor < bidCount) {
+      receipts.push(
+        await this.requestEligibilityBatch(auctionId, cursor, batchSize)
+      );
+      cursor = Number(await this.#contract.eligibilityCursor(auctionId));
+      this.#log(
+        `Requested eligibility of ${cursor}/${bidCount} bids of #${auctionId}`
+      );
+    }
+    return receipts;
+  }
+
+  /** Sends `grantAuditAccess` calls of `batchSize` bids until every bid of the auction is covered. */
+  public async grantAuditAccessInBatches(
+    auctionId: number,
+    batchSize: number
+  ): Promise<ethers.ContractTransactionReceipt[]> {
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new AuctionClientError(
+        "INVALID_BATCH_SIZE",
+        `Batch size must be a positive integer, got ${batchSize}`
+      );
+    }
+    const { bidCount } = await this.getSettlementProgress(auctionId);
+    const receipts: ethers.ContractTransactionReceipt[] = [];
+    let from = 0;
+    do {
+      receipts.push(await this.grantAuditAccess(auctionId, from, batchSize));
+      from += batchSize;
+    } while (from < bidCount);
+    return receipts;
+  }
+
+  /**
+   * Audits the VWAP of `auctionId` as the signer: grants it access to every bid in batches of
+   * `batchSize`, decrypts the handles with a user decryption signature (loaded from `storage` or
+   * signed once) and recomputes sum(price * qty) / sumQ. Throws `NOT_AN_AUDITOR` before any
+   * transaction when the signer may not audit the auction.
+   */
+  public async auditAuction(
+    instance: FhevmInstance,
+    auctionId: number,
+    storage: GenericStringStorage,
+    batchSize = 50
+  ): Promise<AuditReport> {
+    const signer = this.#signer();
+    const account = await signer.getAddress();
+    if (!(await this.canAudit(auctionId, account))) {
+      throw new AuctionClientError(
+        "NOT_AN_AUDITOR",
+        `${account} may not audit auction #${auctionId}`
+      );
+    }
+    const [a, handles] = await Promise.all([
+      this.getAuction(auctionId),
+      this.getAuditHandles(auctionId),
+    ]);
+    await this.grantAuditAccessInBatches(auctionId, batchSize);
+
+    const sig = await FhevmDecryptionSignature.loadOrSign(
+      instance,
+      [this.#address],
+      signer,
+      storage
+    );
+    if (!sig) {
+      throw new AuctionClientError(
+        "DECRYPTION_SIGNATURE",
+        "Unable to build the FHEVM decryption signature"
+      );
+    }
+    this.#log(`Decrypting the bids of #${auctionId}`);
+    const results = await instance.userDecrypt(
+      auditHandlePairs(handles, this.#address),
+      sig.privateKey,
+      sig.publicKey,
+      sig.signature,
+      sig.contractAddresses,
+      sig.userAddress,
+      sig.startTimestamp,
+      sig.durationDays
+    );
+    return verifyAudit(a, readAuditDecryption(handles, results));
+  }
+
+  /** `decimals()` of `token`, read once per client. */
+  public getTokenDecimals(token: `0x${string}`): Promise<number> {
+    const key = token.toLowerCase();
+    let decimals = this.#decimals.get(key);
+    if (!decimals) {
+      const erc20 = new ethers.Contract(token, ERC20_ABI, this.#runner);
+      decimals = (erc20.decimals() as Promise<bigint>).then(Number);
+      // Do not cache a failed read
+      decimals.catch(() => this.#decimals.delete(key));
+      this.#decimals.set(key, decimals);
+    }
+    return decimals;
+  }
+
+  /** Decimals of an auction's base and quote tokens, to parse and format its amounts (see amounts.ts). */
+  public async getAuctionDecimals(
+    a: Pick<OnChainAuction, "baseToken" | "quoteToken">
+  ): Promise<TokenDecimals> {
+    const [base, quote] = await Promise.all([
+      this.getTokenDecimals(a.baseToken),
+      this.getTokenDecimals(a.quoteToken),
+    ]);
+    return { base, quote };
+  }
+
+  /** Name, symbol and decimals of an ERC20; throws `NOT_ERC20` when `token` does not answer them. */
+  public async getTokenInfo(token: string): Promise<TokenInfo> {
+    if (!ethers.isAddress(token)) {
+      throw new AuctionClientError(
+        "NOT_ERC20",
+        `Invalid token address ${token}`
+      );
+    }
+    const address = ethers.getAddress(token) as `0x${string}`;
+    const erc20 = new ethers.Contract(address, ERC20_ABI, this.#runner);
+    try {
+      const [name, symbol, decimals] = await Promise.all([
+        erc20.name() as Promise<string>,
+        erc20.symbol() as Promise<string>,
+        this.getTokenDecimals(address),
+      ]);
+      return { address, name, symbol, decimals };
+    } catch (e) {
+      throw new AuctionClientError(
+        "NOT_ERC20",
+        `${address} does not look like an ERC20 token`,
+        { cause: e }
+      );
+    }
+  }
+
+  /** WETH the contract escrows native ETH bids in; `undefined` when ETH bids are disabled. */
+  public weth(): Promise<`0x${string}` | undefined> {
+    if (!this.#weth) {
+      this.#weth = this.#contract.weth().then((address) =>
+        address === ethers.ZeroAddress
+          ? undefined
+          : (ethers.getAddress(address) as `0x${string}`)
+      );
+      this.#weth.catch(() => (this.#weth = undefined));
+    }
+    return this.#weth;
+  }
+
+  /** MedicineAuction's role registry; `undefined` on FHEVWAPAuction or when deployed without one. */
+  public registry(): Promise<`0x${string}` | undefined> {
+    if (this.#variant !== "medicine") {
+      return Promise.resolve(undefined);
+    }
+    if (!this.#registry) {
+      this.#registry = this.#contract.registry().then(
+        (address) =>
+          address === ethers.ZeroAddress
+            ? undefined
+            : (ethers.getAddress(address) as `0x${string}`)
+      );
+      this.#registry.catch(() => (this.#registry = undefined));
+    }
+    return this.#registry;
+  }
+
+  /** Procurement roles of `account`; every role is open when there is no registry. */
+  public async getParticipantRoles(account: string): Promise<ParticipantRoles> {
+    const registry = await this.registry();
+    if (!registry) {
+      return { registry, supplier: true, municipality: true, auditor: true };
+    }
+    const r = new ethers.Contract(
+      registry,
+      PROCUREMENT_REGISTRY_ABI,
+      this.#runner
+    );
+    const [supplier, municipality, auditor] = await Promise.all([
+      r.isSupplier(account) as Promise<boolean>,
+      r.isMunicipality(account) as Promise<boolean>,
+      r.isAuditor(account) as Promise<boolean>
+    ]);
+    return { registry, supplier, municipality, auditor };
+  }
+
+  /** Whether `account` already joined the allowlist of `auctionId`. */
+  public async isAllowlisted(
+    auctionId: number,
+    account: string
+  ): Promise<boolean> {
+    return this.#contract.allowlisted(auctionId, account);
+  }
+
+  /** `owner`'s native ETH balance. */
+  public async getEthBalance(owner: string): Promise<bigint> {
+    const provider = this.#runner.provider;
+    if (!provider) {
+      throw new AuctionClientError(
+        "PROVIDER_REQUIRED",
+        "Reading an ETH balance requires a runner with a provider"
+      );
+    }
+    return provider.getBalance(owner);
+  }
+
+  /** `owner`'s balance of `token` and the allowance it gave this auction contract. */
+  public async getTokenAccount(
+    token: `0x${string}`,
+    owner: string
+  ): Promise<TokenAccount> {
+    const erc20 = new ethers.Contract(token, ERC20_ABI, this.#runner);
+    const [balance, allowance] = await Promise.all([
+      erc20.balanceOf(owner) as Promise<bigint>,
+      erc20.allowance(owner, this.#address) as Promise<bigint>,
+    ]);
+    return { balance, allowance };
+  }
+
+  /**
+   * Signs an approval of `amount` of `token` to this auction: an EIP-2612 permit when the token has one, else a
+   * Permit2 permit when the signer already approved Permit2 for at least `amount`. `undefined` when neither applies.
+   */
+  public async signPermit(
+    token: `0x${string}`,
+    amount: bigint,
+    ttlSeconds = PERMIT_TTL_SECONDS
+  ): Promise<TokenPermit | undefined> {
+    const signer = this.#signer();
+    const latest = await signer.provider?.getBlock("latest");
+    const deadline =
+      BigInt(latest?.timestamp ?? Math.floor(Date.now() / 1000)) +
+      BigInt(ttlSeconds);
+    const permit = await signErc2612Permit(
+      signer,
+      token,
+      this.#address,
+      amount,
+      deadline
+    );
+    if (permit) {
+      this.#log(`Signed EIP-2612 permit: ${amount}`);
+      return permit;
+    }
+    const erc20 = new ethers.Contract(token, ERC20_ABI, this.#runner);
+    const owner = await signer.getAddress();
+    const toPermit2: bigint = await erc20.allowance(owner, PERMIT2_ADDRESS);
+    if (toPermit2 < amount) {
+      return undefined;
+    }
+    this.#log(`Signed Permit2 permit: ${amount}`);
+    return signPermit2(signer, token, this.#address, amount, deadline);
+  }
+
+  /** Sends `approve(auction, amount)` on `token` when the current allowance is lower. */
+  public async ensureAllowance(
+    token: `0x${string}`,
+    amount: bigint
+  ): Promise<void> {
+    const owner = await this.#signer().getAddress();
+    const erc20 = new ethers.Contract(token, ERC20_ABI, this.#runner);
+    const allowance: bigint = await erc20.allowance(owner, this.#address);
+    if (allowance >= amount) {
+      this.#log(`Allowance already sufficient (${allowance} >= ${amount})`);
+      return;
+    }
+    this.#log(`Approving allowance: ${amount}`);
+    await this.#send("approve", erc20.approve(this.#address, amount));
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Internals
+  //////////////////////////////////////////////////////////////////////////////
+
+  get #bidMethod() {
+    return this.#variant === "medicine" ? "submitMunicipalityBid" : "submitBid";
+  }
+
+  #signer(): ethers.Signer {
+    const runner = this.#runner as Partial<ethers.Signer>;
+    if (typeof runner.getAddress !== "function") {
+      throw new AuctionClientError(
+        "SIGNER_REQUIRED",
+        "This operation requires a signer as contract runner"
+      );
+    }
+    return runner as ethers.Signer;
+  }
+
+  /** A permit for `amount` unless the current allowance already covers it (or no permit is possible). */
+  async #permitFor(
+    token: `0x${string}`,
+    amount: bigint
+  ): Promise<TokenPermit | undefined> {
+    const owner = await this.#signer().getAddress();
+    const { allowance } = await this.getTokenAccount(token, owner);
+    if (allowance >= amount) {
+      return undefined;
+    }
+    return this.signPermit(token, amount);
+  }
+
+  #assertTokenPair(
+    params: Pick<CreateAuctionParams, "baseToken" | "quoteToken">
+  ) {
+    const pairError = validateTokenPair(params.baseToken, params.quoteToken);
+    if (pairError) {
+      throw new AuctionClientError(
+        "INVALID_TOKEN_PAIR",
+        pairError === "same"
+          ? "Base and quote must be different tokens"
+          : `Invalid token pair ${params.baseToken} / ${params.quoteToken}`
+      );
+    }
+  }
+
+  /** Overrides sending `maxSpend` as ETH for `payWithEth` bids. */
+  #escrowValue(params: Pick<SubmitBidParams, "maxSpend" | "payWithEth">) {
+    return { value: params.payWithEth ? params.maxSpend : 0n };
+  }
+
+  async #assertEthQuoted(a: OnChainAuction) {
+    if (!isEthQuoted(a.quoteToken, await this.weth())) {
+      throw new AuctionClientError(
+        "NOT_ETH_QUOTED",
+        `Auction #${a.id} is not quoted in WETH: bid with its quote token`
+      );
+    }
+  }
+
+  #assertBidLimits(
+    a: OnChainAuction,
+    params: Pick<SubmitBidParams, "qty" | "priceCap"> & { price: number | bigint },
+    replacedQty = 0n
+  ) {
+    const overflow = checkBidLimits(
+      a,
+      { price: BigInt(params.price), qty: params.qty, priceCap: params.priceCap },
+      replacedQty
+    );
+    if (overflow === "sumQ") {
+      throw new AuctionClientError(
+        "BID_OVERFLOW",
+        `Auction #${a.id} demand would exceed ${MAX_UINT64}: lower the quantity`
+      );
+    }
+    if (overflow) {
+      throw new AuctionClientError(
+        "BID_OVERFLOW",
+        `Bid ${overflow} must be at most ${MAX_UINT64}`
+      );
+    }
+  }
+
+  #assertBidderLimitsValid(
+    params: Pick<CreateAuctionParams, "bidderLimits" | "confidentialQuantities">
+  ) {
+    if (!params.bidderLimits) {
+      return;
+    }
+    const invalid = validateBidderLimits(
+      params.bidderLimits,
+      params.confidentialQuantities ?? false
+    );
+    if (invalid) {
+      throw new AuctionClientError(
+        "INVALID_BIDDER_LIMITS",
+        invalid === "invalid share"
+          ? "The share of S per bidder must be at most 100%"
+          : "Quantity limits need clear quantities: confidential-quantity auctions only take a bid count limit"
+      );
+    }
+  }
+
+  /**
+   * Throws `BIDDER_LIMIT` when a bid of `qty` (or an amendment replacing `replacedQty`) would take the
+   * signer past the auction's bidder limits.
+   */
+  async #assertBidderLimits(
+    a: OnChainAuction,
+    qty: bigint,
+    replacedQty?: bigint
+  ) {
+    if (!hasBidderLimits(a.bidderLimits)) {
+      return;
+    }
+    const usage = await this.getBidderUsage(
+      a.id,
+      await this.#signer().getAddress()
+    );
+    const exceeded = checkBidderLimits(a, usage, qty, replacedQty);
+    if (exceeded) {
+      throw new AuctionClientError(
+        "BIDDER_LIMIT",
+        exceeded === "bidder bid limit"
+          ? `Auction #${a.id} accepts at most ${a.bidderLimits.maxBids} live bids per address`
+          : `Auction #${a.id} caps each address's total quantity: you already have ${usage.qty} live`
+      );
+    }
+  }
+
+  /**
+   * Throws `NOT_REGISTERED` when the registry does not list the signer as a municipality, and
+   * `NOT_ALLOWLISTED` when the auction has an allowlist the signer has not joined and
+   * `allowlistProof` is missing; with a proof, joins first.
+   */
+  async #ensureMayBid(
+    a: OnChainAuction,
+    params: Pick<SubmitBidParams, "allowlistProof">
+  ) {
+    const account = await this.#signer().getAddress();
+    const roles = await this.getParticipantRoles(account);
+    if (!roles.municipality) {
+      throw new AuctionClientError(
+        "NOT_REGISTERED",
+        `${account} is not a registered municipality in ${roles.registry}`
+      );
+    }
+    if (
+      a.allowlistRoot === ethers.ZeroHash ||
+      (await this.isAllowlisted(a.id, account))
+    ) {
+      return;
+    }
+    if (!params.allowlistProof) {
+      throw new AuctionClientError(
+        "NOT_ALLOWLISTED",
+        `Auction #${a.id} is limited to an allowlist: pass the proof of ${account}`
+      );
+    }
+    await this.joinAllowlist(a.id, params.allowlistProof);
+  }
+
+  #assertMinFillSupported(
+    a: OnChainAuction,
+    params: Pick<SubmitBidParams, "minFill">
+  ) {
+    if (params.minFill && a.confidentialQuantities) {
+      throw new AuctionClientError(
+        "MIN_FILL_UNSUPPORTED",
+        `Auction #${a.id} uses confidential quantities: a minimum fill cannot be set`
+      );
+    }
+  }
+
+  /** Sets `params.minFill` on the bid just placed: the signer's last bid as of the bid's block. */
+  async #afterBid(
+    receipt: ethers.ContractTransactionReceipt,
+    params: Pick<SubmitBidParams, "auctionId" | "minFill">
+  ): Promise<ethers.ContractTransactionReceipt> {
+    if (!params.minFill) return receipt;
+    const buyer = (await this.#signer().getAddress()).toLowerCase();
+    const bids = await this.#contract.getBids(params.auctionId, {
+      blockTag: receipt.blockNumber
+    });
+    let bidIndex = bids.length - 1;
+    while (bidIndex >= 0 && bids[bidIndex].buyer.toLowerCase() !== buyer) {
+      bidIndex--;
+    }
+    if (bidIndex < 0) {
+      throw new AuctionClientError(
+        "BID_NOT_FOUND",
+        `No bid of ${buyer} found on auction #${params.auctionId} after tx ${receipt.hash}`
+      );
+    }
+    await this.setMinFill(params.auctionId, bidIndex, params.minFill);
+    return receipt;
+  }
+
+  async #send(
+    label: string,
+    pending: Promise<ethers.ContractTransactionResponse>
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const tx = await pending;
+    this.#log(`${label} tx: ${tx.hash}`);
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new AuctionClientError(
+        "TX_DROPPED",
+        `${label} tx ${tx.hash} was dropped`
+      );
+    }
+    this.#log(`${label} confirmed (block ${receipt.blockNumber})`);
+    return receipt;
+  }
+
+  #findEvent(
+    receipt: ethers.ContractTransactionReceipt,
+    name: string
+  ): ethers.LogDescription | undefined {
+    for (const log of receipt.logs) {
+      try {
+        const parsed = this.#contract.interface.parseLog(log);
+        if (parsed?.name === name) {
+          return parsed;
+        }
+      } catch {
+        // log emitted by another contract (token transfers)
+      }
+    }
+    return undefined;
+  }
+}
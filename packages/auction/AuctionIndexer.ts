@@ -0,0 +1,230 @@
+import { ethers } from "ethers";
+import { MedicineAuctionABI } from "./abi/MedicineAuctionABI";
+import { reduceAuctionEvents, indexedBidsOf } from "./auctionIndexProjection";
+import {
+  AUCTION_INDEX_SNAPSHOT_VERSION,
+  INDEXED_AUCTION_EVENTS,
+  type AuctionIndexProjection,
+  type AuctionIndexSnapshot,
+  type AuctionIndexStorage,
+  type IndexedAuction,
+  type IndexedAuctionEvent,
+  type IndexedAuctionEventName,
+  type IndexedBid,
+} from "./indexerTypes";
+
+export type AuctionIndexerParameters = {
+  runner: ethers.ContractRunner;
+  address: `0x${string}`;
+  chainId: number;
+  storage: AuctionIndexStorage;
+  startBlock?: number;
+  batchSize?: number;
+  maxReorgDepth?: number;
+  log?: (message: string) => void;
+};
+
+// MedicineAuction's ABI is a superset of FHEVWAPAuction's (adds MunicipalityBid),
+// so it decodes logs of both deployments.
+const AUCTION_INTERFACE = new ethers.Interface(MedicineAuctionABI.abi);
+
+/**
+ * Replays auction contract logs into a local projection, persisted through an
+ * `AuctionIndexStorage` so later runs resume from the last processed block.
+ *
+ * Reorgs are detected by comparing the stored hash of the last processed block with
+ * the chain; on mismatch, events are rolled back to the newest block whose hash still
+ * matches (bounded by `maxReorgDepth`) and re-fetched from there.
+ */
+export class AuctionIndexer {
+  #provider: ethers.Provider;
+  #address: `0x${string}`;
+  #chainId: number;
+  #storage: AuctionIndexStorage;
+  #startBlock: number;
+  #batchSize: number;
+  #maxReorgDepth: number;
+  #log: (message: string) => void;
+  #snapshot: AuctionIndexSnapshot | undefined;
+  #projection: AuctionIndexProjection = { auctions: {}, bids: {} };
+  #syncing: Promise<AuctionIndexProjection> | undefined;
+
+  constructor(parameters: AuctionIndexerParameters) {
+    if (!parameters.runner.provider) {
+      throw new TypeError("AuctionIndexer runner must be connected to a provider");
+    }
+    this.#provider = parameters.runner.provider;
+    this.#address = parameters.address;
+    this.#chainId = parameters.chainId;
+    this.#storage = parameters.storage;
+    this.#startBlock = parameters.startBlock ?? 0;
+    this.#batchSize = parameters.batchSize ?? 2000;
+    this.#maxReorgDepth = parameters.maxReorgDepth ?? 64;
+    this.#log = parameters.log ?? (() => {});
+  }
+
+  public get key(): string {
+    return `${this.#chainId}:${this.#address.toLowerCase()}`;
+  }
+
+  public get lastBlock(): number | undefined {
+    return this.#snapshot?.lastBlock;
+  }
+
+  public get projection(): AuctionIndexProjection {
+    return this.#projection;
+  }
+
+  public auctions(): IndexedAuction[] {
+    return Object.values(this.#projection.auctions).sort((a, b) => a.id - b.id);
+  }
+
+  public auction(auctionId: number): IndexedAuction | undefined {
+    return this.#projection.auctions[auctionId];
+  }
+
+  public bids(auctionId: number): IndexedBid[] {
+    return this.#projection.bids[auctionId] ?? [];
+  }
+
+  public bidsOf(buyer: string): IndexedBid[] {
+    return indexedBidsOf(this.#projection, buyer);
+  }
+
+  /** Loads the persisted snapshot (if any) and rebuilds the projection from it. */
+  public async load(): Promise<void> {
+    const stored = await this.#storage.load(this.key);
+    if (
+      stored &&
+      stored.version === AUCTION_INDEX_SNAPSHOT_VERSION &&
+      stored.chainId === this.#chainId &&
+      stored.address.toLowerCase() === this.#address.toLowerCase() &&
+      stored.startBlock === this.#startBlock
+    ) {
+      this.#snapshot = stored;
+    } else {
+      this.#snapshot = {
+        version: AUCTION_INDEX_SNAPSHOT_VERSION,
+        chainId: this.#chainId,
+        address: this.#address,
+        startBlock: this.#startBlock,
+        lastBlock: this.#startBlock - 1,
+        lastBlockHash: undefined,
+        events: [],
+      };
+    }
+    this.#projection = reduceAuctionEvents(this.#snapshot.events);
+  }
+
+  /** Fetches new logs up to the chain head. Concurrent calls share the same run. */
+  public sync(): Promise<AuctionIndexProjection> {
+    if (!this.#syncing) {
+      this.#syncing = this.#sync().finally(() => {
+        this.#syncing = undefined;
+      });
+    }
+    return this.#syncing;
+  }
+
+  async #sync(): Promise<AuctionIndexProjection> {
+    if (!this.#snapshot) {
+      await this.load();
+    }
+    const snapshot = this.#snapshot!;
+
+    await this.#rollbackReorg(snapshot);
+
+    const head = await this.#provider.getBlockNumber();
+    const topics = [
+      INDEXED_AUCTION_EVENTS.map((name) => AUCTION_INTERFACE.getEvent(name)!.topicHash),
+    ];
+
+    for (let from = snapshot.lastBlock + 1; from <= head; from += this.#batchSize) {
+      const to = Math.min(from + this.#batchSize - 1, head);
+      const logs = await this.#provider.getLogs({
+        address: this.#address,
+        fromBlock: from,
+        toBlock: to,
+        topics,
+      });
+      const events = logs
+        .map((log) => this.#decode(log))
+        .filter((ev): ev is IndexedAuctionEvent => ev !== undefined);
+      await this.#enrich(events);
+
+      const toBlock = await this.#provider.getBlock(to);
+      snapshot.events.push(...events);
+      snapshot.lastBlock = to;
+      snapshot.lastBlockHash = toBlock?.hash ?? undefined;
+      await this.#storage.save(this.key, snapshot);
+      this.#log(`Indexed blocks ${from}..${to} (${events.length} events)`);
+    }
+
+    this.#projection = reduceAuctionEvents(snapshot.events);
+    return this.#projection;
+  }
+
+  async #rollbackReorg(snapshot: AuctionIndexSnapshot): Promise<void> {
+    if (snapshot.lastBlockHash === undefined) {
+      return;
+    }
+    const last = await this.#provider.getBlock(snapshot.lastBlock);
+    if (last?.hash === snapshot.lastBlockHash) {
+      return;
+    }
+
+    const floor = Math.max(snapshot.startBlock - 1, snapshot.lastBlock - this.#maxReorgDepth);
+    const hashes = new Map<number, string>();
+    for (const ev of snapshot.events) {
+      if (ev.blockNumber > floor) hashes.set(ev.blockNumber, ev.blockHash);
+    }
+
+    let forkPoint = floor;
+    for (const n of [...hashes.keys()].sort((a, b) => b - a)) {
+      const block = await this.#provider.getBlock(n);
+      if (block?.hash === hashes.get(n)) {
+        forkPoint = n;
+        break;
+      }
+    }
+
+    const before = snapshot.events.length;
+    snapshot.events = snapshot.events.filter((ev) => ev.blockNumber <= forkPoint);
+    snapshot.lastBlock = forkPoint;
+    snapshot.lastBlockHash = undefined;
+    this.#log(
+      `Reorg detected: rolled back to block ${forkPoint}, dropped ${before - snapshot.events.length} events`
+    );
+  }
+
+  #decode(log: ethers.Log): IndexedAuctionEvent | undefined {
+    const parsed = AUCTION_INTERFACE.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) {
+      return undefined;
+    }
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name] = String(parsed.args[i]);
+    });
+    return {
+      name: parsed.name as IndexedAuctionEventName,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      args,
+    };
+  }
+
+  // Token addresses are not part of AuctionCreated; they are immutable, so one
+  // read per new auction is enough and gets stored alongside the event.
+  async #enrich(events: IndexedAuctionEvent[]): Promise<void> {
+    const contract = new ethers.Contract(this.#address, AUCTION_INTERFACE, this.#provider);
+    for (const ev of events) {
+      if (ev.name !== "AuctionCreated") continue;
+      const a = await contract.auctions(ev.args.auctionId);
+      ev.args.baseToken = String(a.baseToken);
+      ev.args.quoteToken = String(a.quoteToken);
+    }
+  }
+}
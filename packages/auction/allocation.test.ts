@@ -0,0 +1,47 @@
+import { describe, expect, test } from "vitest";
+import { ALL_OR_NOTHING, effectiveMinFill, excludeBelowMinFill, proRataShare } from "./allocation";
+
+const bid = (index: number, qty: bigint, minFill = 0n) => ({ index, qty, minFill });
+
+describe("effectiveMinFill", () => {
+  test("caps the minimum at the bid's qty", () => {
+    expect(effectiveMinFill(bid(0, 500n, 300n))).toBe(300n);
+    expect(effectiveMinFill(bid(0, 500n, ALL_OR_NOTHING))).toBe(500n);
+    expect(effectiveMinFill(bid(0, 500n))).toBe(0n);
+  });
+});
+
+describe("proRataShare", () => {
+  test("fills in full when supply covers demand and floors the pro-rata share otherwise", () => {
+    expect(proRataShare(60n, 100n, 100n)).toBe(60n);
+    expect(proRataShare(60n, 100n, 160n)).toBe(37n);
+  });
+});
+
+describe("excludeBelowMinFill", () => {
+  test("leaves Q alone when supply covers demand", () => {
+    expect(excludeBelowMinFill([bid(0, 60n, ALL_OR_NOTHING), bid(1, 40n)], 100n, 100n)).toEqual({ Q: 100n, excluded: new Set() });
+  });
+
+  test("excludes a bid whose share falls below its minimum and redistributes its qty", () => {
+    // B's share is floor(60 * 100 / 160) = 37 < 55; without B, A and C fit in full
+    const { Q, excluded } = excludeBelowMinFill([bid(0, 60n), bid(1, 60n, 55n), bid(2, 40n)], 100n, 160n);
+    expect(Q).toBe(100n);
+    expect([...excluded]).toEqual([1]);
+    expect(proRataShare(60n, 100n, Q)).toBe(60n);
+  });
+
+  test("keeps bids whose share reaches their minimum exactly", () => {
+    // A: 100 * 100 / 250 = 40 >= 40; B is all-or-nothing at 40 < 100; C: 20 >= 10
+    const { Q, excluded } = excludeBelowMinFill([bid(0, 100n, 40n), bid(1, 100n, ALL_OR_NOTHING), bid(2, 50n, 10n)], 100n, 250n);
+    expect(Q).toBe(150n);
+    expect([...excluded]).toEqual([1]);
+  });
+
+  test("judges every bid against the same Q, so bid order does not matter", () => {
+    // Two all-or-nothing bids that each see a share of 50 < 60 are both refunded
+    const bids = [bid(0, 60n, ALL_OR_NOTHING), bid(1, 60n, ALL_OR_NOTHING)];
+    expect(excludeBelowMinFill(bids, 100n, 120n)).toEqual({ Q: 0n, excluded: new Set([0, 1]) });
+    expect(excludeBelowMinFill([...bids].reverse(), 100n, 120n)).toEqual({ Q: 0n, excluded: new Set([0, 1]) });
+  });
+});
@@ -0,0 +1,39 @@
+import type { OnChainBid } from "./auctionTypes";
+
+/** `type(uint256).max`: as a minimum fill, makes a bid all-or-nothing. */
+export const ALL_OR_NOTHING = 2n ** 256n - 1n;
+
+/** The minimum fill settle enforces: capped at `qty`, so any value from `qty` up means all-or-nothing. */
+export function effectiveMinFill(bid: Pick<OnChainBid, "qty" | "minFill">): bigint {
+  return bid.minFill < bid.qty ? bid.minFill : bid.qty;
+}
+
+/** Clear-quantity allocation of an eligible bid: `qty` when supply covers demand, `floor(qty * S / Q)` otherwise. */
+export function proRataShare(qty: bigint, S: bigint, Q: bigint): bigint {
+  return S >= Q ? qty : (qty * S) / Q;
+}
+
+/**
+ * Pure mirror of `FHEVWAPAuctionDecryptions.startingEligibleQ` minimum fills: when supply falls
+ * short of `Q`, every bid in `eligible` whose pro-rata share is below its minimum fill is excluded
+ * (settle refunds it) and its qty removed from `Q`. All bids are judged against the same `Q` in a
+ * single pass, like the contract: a smaller `Q` only raises the shares of the bids that remain.
+ *
+ * `eligible` are the live bids that meet the VWAP and `Q` the sum of their quantities.
+ */
+export function excludeBelowMinFill(
+  eligible: readonly Pick<OnChainBid, "index" | "qty" | "minFill">[],
+  S: bigint,
+  Q: bigint
+): { Q: bigint; excluded: Set<number> } {
+  const excluded = new Set<number>();
+  if (Q <= S) return { Q, excluded };
+
+  let left = Q;
+  for (const b of eligible) {
+    if (b.qty * S >= effectiveMinFill(b) * Q) continue;
+    excluded.add(b.index);
+    left -= b.qty;
+  }
+  return { Q: left, excluded };
+}
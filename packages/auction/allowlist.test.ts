@@ -0,0 +1,37 @@
+import { describe, expect, test } from "vitest";
+import { ethers } from "ethers";
+import { buildAllowlist, parseAddressList, verifyAllowlistProof } from "./allowlist";
+
+const accounts = Array.from({ length: 5 }, (_, i) => ethers.getAddress(`0x${(i + 1).toString(16).padStart(40, "0")}`));
+const OUTSIDER = "0x00000000000000000000000000000000000000ff";
+
+describe("buildAllowlist", () => {
+  test.each([1, 2, 3, 5])("gives every member of a %i-address list a valid proof", (n) => {
+    const list = buildAllowlist(accounts.slice(0, n));
+    for (const a of accounts.slice(0, n)) {
+      expect(verifyAllowlistProof(list.root, a, list.proofs[a.toLowerCase()])).toBe(true);
+    }
+  });
+
+  test("does not depend on the order or case of the input, and ignores duplicates", () => {
+    const list = buildAllowlist(accounts);
+    expect(buildAllowlist([...accounts].reverse().map((a) => a.toLowerCase())).root).toBe(list.root);
+    expect(buildAllowlist([...accounts, accounts[0]]).root).toBe(list.root);
+  });
+
+  test("rejects outsiders and proofs against another root", () => {
+    const list = buildAllowlist(accounts);
+    expect(verifyAllowlistProof(list.root, OUTSIDER, list.proofs[accounts[0].toLowerCase()])).toBe(false);
+    expect(verifyAllowlistProof(buildAllowlist(accounts.slice(1)).root, accounts[1], list.proofs[accounts[1].toLowerCase()])).toBe(false);
+    expect(() => buildAllowlist([])).toThrow("allowlist is empty");
+  });
+});
+
+describe("parseAddressList", () => {
+  test("splits on commas and whitespace and reports invalid entries", () => {
+    expect(parseAddressList(`${accounts[0].toLowerCase()},\n ${accounts[1]}  nope`)).toEqual({
+      addresses: [accounts[0], accounts[1]],
+      invalid: ["nope"],
+    });
+  });
+});
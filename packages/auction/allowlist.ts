@@ -0,0 +1,69 @@
+import { ethers } from "ethers";
+
+/*
+  Per-auction bidder allowlists. The seller publishes the list and passes its Merkle root when creating the auction;
+  each member proves membership once with `joinAllowlist` before bidding. Leaves and pair hashing match
+  OpenZeppelin's MerkleProof (sorted pairs) with StandardMerkleTree's double-hashed `abi.encode(address)` leaf.
+*/
+
+export type Allowlist = {
+  root: `0x${string}`;
+  proofs: Record<string, `0x${string}`[]>; // lower-cased address => proof
+};
+
+export function allowlistLeaf(account: string): `0x${string}` {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(["address"], [account]);
+  return ethers.keccak256(ethers.keccak256(encoded)) as `0x${string}`;
+}
+
+function hashPair(a: string, b: string): `0x${string}` {
+  return ethers.keccak256(ethers.concat(a < b ? [a, b] : [b, a])) as `0x${string}`;
+}
+
+/** Builds the tree of `accounts` (duplicates ignored). Throws on an empty list, which has no root. */
+export function buildAllowlist(accounts: readonly string[]): Allowlist {
+  const members = [...new Set(accounts.map((a) => ethers.getAddress(a).toLowerCase()))];
+  if (members.length === 0) {
+    throw new Error("allowlist is empty");
+  }
+  const leafOf = new Map(members.map((m) => [allowlistLeaf(m), m]));
+  let layer = [...leafOf.keys()].sort();
+  const proofs: Record<string, `0x${string}`[]> = Object.fromEntries(members.map((m) => [m, []]));
+  // Leaf hashes under each node of the current layer, to extend their proofs with the node's sibling
+  let under: `0x${string}`[][] = layer.map((leaf) => [leaf]);
+  while (layer.length > 1) {
+    const next: `0x${string}`[] = [];
+    const nextUnder: `0x${string}`[][] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      if (i + 1 === layer.length) {
+        // An odd node is carried up unchanged
+        next.push(layer[i]);
+        nextUnder.push(under[i]);
+        continue;
+      }
+      for (const leaf of under[i]) proofs[leafOf.get(leaf)!].push(layer[i + 1]);
+      for (const leaf of under[i + 1]) proofs[leafOf.get(leaf)!].push(layer[i]);
+      next.push(hashPair(layer[i], layer[i + 1]));
+      nextUnder.push([...under[i], ...under[i + 1]]);
+    }
+    layer = next;
+    under = nextUnder;
+  }
+  return { root: layer[0], proofs };
+}
+
+/** Same check as `MerkleProof.verify` for `account`'s leaf. */
+export function verifyAllowlistProof(root: string, account: string, proof: readonly string[]): boolean {
+  let node: string = allowlistLeaf(account);
+  for (const sibling of proof) node = hashPair(node, sibling);
+  return node === root.toLowerCase();
+}
+
+/** Splits pasted text on commas, whitespace or newlines into checksummed addresses and the rest. */
+export function parseAddressList(text: string): { addresses: `0x${string}`[]; invalid: string[] } {
+  const entries = text.split(/[\s,;]+/).filter(Boolean);
+  return {
+    addresses: entries.filter((e) => ethers.isAddress(e)).map((e) => ethers.getAddress(e) as `0x${string}`),
+    invalid: entries.filter((e) => !ethers.isAddress(e)),
+  };
+}
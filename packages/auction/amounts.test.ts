@@ -0,0 +1,40 @@
+import { describe, expect, test } from "vitest";
+import { formatAmount, maxSpendFor, parseAmount, spendFor, unitOf } from "./amounts";
+
+describe("parseAmount / formatAmount", () => {
+  test("round-trips 0-, 6- and 18-decimal amounts", () => {
+    expect(parseAmount("12", 0)).toBe(12n);
+    expect(parseAmount("2.5", 6)).toBe(2_500_000n);
+    expect(parseAmount("0.000001", 6)).toBe(1n);
+    expect(parseAmount("1.5", 18)).toBe(1_500_000_000_000_000_000n);
+    expect(formatAmount(12n, 0)).toBe("12");
+    expect(formatAmount(2_500_000n, 6)).toBe("2.5");
+    expect(formatAmount(3_000_000n, 6)).toBe("3");
+    expect(formatAmount(1n, 18)).toBe("0.000000000000000001");
+  });
+
+  test("rejects negatives, exponents, empty input and more fractional digits than the token has", () => {
+    expect(parseAmount("-1", 6)).toBeUndefined();
+    expect(parseAmount("1e6", 6)).toBeUndefined();
+    expect(parseAmount("", 6)).toBeUndefined();
+    expect(parseAmount("1.5", 0)).toBeUndefined();
+    expect(parseAmount("0.0000001", 6)).toBeUndefined();
+  });
+});
+
+describe("spendFor / maxSpendFor", () => {
+  test("prices are quote units per whole base token", () => {
+    // 5 tokens of an 18-decimal base at 2 USD (6 decimals)
+    expect(spendFor(5n * unitOf(18), 2_000_000n, unitOf(18))).toBe(10_000_000n);
+    // 0-decimal base: one unit is one token
+    expect(spendFor(7n, 30n, unitOf(0))).toBe(210n);
+  });
+
+  test("spend rounds down and the escrow for a cap rounds up", () => {
+    // 1 base unit of a 6-decimal base at 1.5 quote units per token
+    expect(spendFor(1n, 1_500_000n, unitOf(6))).toBe(1n);
+    expect(spendFor(1n, 1n, unitOf(6))).toBe(0n);
+    expect(maxSpendFor(1n, 1n, unitOf(6))).toBe(1n);
+    expect(maxSpendFor(3_500_000n, 1_500_000n, unitOf(6))).toBe(5_250_000n);
+  });
+});
@@ -0,0 +1,50 @@
+import { ethers } from "ethers";
+
+/*
+  Token amounts are raw integer units on-chain. Quantities are base token units; prices, caps and the
+  VWAP are quote token units per whole base token, i.e. per `baseUnit` = 10^baseDecimals base units.
+  So an allocation of `alloc` base units at `vwap` costs `alloc * vwap / baseUnit` quote units.
+*/
+
+export type TokenDecimals = {
+  base: number;
+  quote: number;
+};
+
+/** Raw units of one whole token. */
+export function unitOf(decimals: number): bigint {
+  return 10n ** BigInt(decimals);
+}
+
+/**
+ * Parses a non-negative human amount ("12", "0.5") into raw units; `undefined` for anything else,
+ * including more fractional digits than the token has.
+ */
+export function parseAmount(value: string, decimals: number): bigint | undefined {
+  const trimmed = value.trim();
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) return undefined;
+  try {
+    return ethers.parseUnits(trimmed, decimals);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Formats raw units as a human amount, without a trailing ".0" on whole values. */
+export function formatAmount(value: bigint, decimals: number): string {
+  const formatted = ethers.formatUnits(value, decimals);
+  return formatted.endsWith(".0") ? formatted.slice(0, -2) : formatted;
+}
+
+/** Quote units paid for `alloc` base units at `vwap`: floor(alloc * vwap / baseUnit), as `FHEVWAPAuction` settles. */
+export function spendFor(alloc: bigint, vwap: bigint, baseUnit: bigint): bigint {
+  return (alloc * vwap) / baseUnit;
+}
+
+/**
+ * Smallest escrow covering `qty` at `priceCap`: ceil(qty * priceCap / baseUnit). Rounding up keeps a
+ * confidential quantity within `maxSpend * baseUnit / priceCap`, so the contract does not void it.
+ */
+export function maxSpendFor(qty: bigint, priceCap: bigint, baseUnit: bigint): bigint {
+  return (qty * priceCap + baseUnit - 1n) / baseUnit;
+}
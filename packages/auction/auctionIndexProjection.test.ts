@@ -0,0 +1,332 @@
+import { describe, expect, test } from "vitest";
+import { ZeroAddress, ZeroHash } from "ethers";
+import { indexedBidsOf, reduceAuctionEvents } from "./auctionIndexProjection";
+import { ReserveCheck } from "./auctionTypes";
+import type { IndexedAuctionEvent, IndexedAuctionEventName } from "./indexerTypes";
+
+const SELLER = "0x00000000000000000000000000000000000000aA";
+const ALICE = "0x00000000000000000000000000000000000000A1";
+const BOB = "0x00000000000000000000000000000000000000B0";
+
+let logIndex = 0;
+function ev(
+  name: IndexedAuctionEventName,
+  blockNumber: number,
+  args: Record<string, string | number | bigint>,
+  transactionHash = `0x${blockNumber.toString(16).padStart(64, "0")}`
+): IndexedAuctionEvent {
+  return {
+    name,
+    blockNumber,
+    blockHash: `0xb${blockNumber}`,
+    transactionHash,
+    logIndex: logIndex++,
+    args: Object.fromEntries(Object.entries(args).map(([k, v]) => [k, String(v)])),
+  };
+}
+
+function created(blockNumber = 1) {
+  return ev("AuctionCreated", blockNumber, { auctionId: 1, seller: SELLER, S: 100, start: 10, end: 20 });
+}
+
+function bid(blockNumber: number, buyer: string, qty: number, priceCap: number, maxSpend: number) {
+  return ev("BidSubmitted", blockNumber, { auctionId: 1, buyer, qty, priceCap, maxSpend });
+}
+
+describe("reduceAuctionEvents", () => {
+  test("builds auctions and bids, marking municipality bids from the same tx", () => {
+    const b = bid(2, ALICE, 30, 120, 3600);
+    const m = ev(
+      "MunicipalityBid",
+      2,
+      { auctionId: 1, municipality: ALICE, kitsRequested: 30, priceCap: 120, maxSpend: 3600 },
+      b.transactionHash
+    );
+    const p = reduceAuctionEvents([created(), b, m, bid(3, BOB, 50, 105, 5250)]);
+    expect(p.auctions[1].sumQ).toBe(80n);
+    expect(p.auctions[1].bidCount).toBe(2);
+    expect(p.bids[1].map((x) => x.municipality)).toEqual([true, false]);
+    expect(p.bids[1].map((x) => x.index)).toEqual([0, 1]);
+  });
+
+  test("is order independent (sorted by block and log index)", () => {
+    const events = [created(), bid(2, ALICE, 30, 120, 3600), bid(3, BOB, 50, 105, 5250)];
+    const p = reduceAuctionEvents([...events].reverse());
+    expect(p.bids[1].map((x) => x.buyer)).toEqual([ALICE, BOB]);
+  });
+
+  test("attributes allocations to eligible bids and refunds ineligible ones", () => {
+    const p = reduceAuctionEvents([
+      created(),
+      bid(2, ALICE, 30, 120, 3600),
+      bid(3, BOB, 50, 90, 4500),
+      bid(4, ALICE, 10, 100, 1000),
+      ev("EncryptedVWAPComputed", 5, { auctionId: 1 }),
+      ev("VWAPDecrypted", 6, { auctionId: 1, vwap: 98 }),
+      ev("Refunded", 7, { auctionId: 1, buyer: ALICE, amount: 3600 - 30 * 98 }),
+      ev("Allocated", 7, { auctionId: 1, buyer: ALICE, alloc: 30, spend: 30 * 98 }),
+      ev("Refunded", 7, { auctionId: 1, buyer: BOB, amount: 4500 }),
+      ev("Refunded", 7, { auctionId: 1, buyer: ALICE, amount: 1000 - 10 * 98 }),
+      ev("Allocated", 7, { auctionId: 1, buyer: ALICE, alloc: 10, spend: 10 * 98 }),
+      ev("BaseRemainderReturned", 7, { auctionId: 1, seller: SELLER, amount: 60 }),
+      ev("SellerPaid", 7, { auctionId: 1, seller: SELLER, amount: 40 * 98 }),
+    ]);
+    const a = p.auctions[1];
+    expect(a.settled).toBe(true);
+    expect(a.sellerPaid).toBe(3920n);
+    expect(a.baseReturned).toBe(60n);
+    expect(a.refunds[ALICE.toLowerCase()]).toBe(3600n - 2940n + 20n);
+
+    const [b0, b1, b2] = p.bids[1];
+    expect([b0.allocation, b0.spend, b0.refund]).toEqual([30n, 2940n, 660n]);
+    expect([b1.allocation, b1.spend, b1.refund]).toEqual([0n, 0n, 4500n]);
+    expect([b2.allocation, b2.spend, b2.refund]).toEqual([10n, 980n, 20n]);
+    expect(indexedBidsOf(p, ALICE.toLowerCase())).toHaveLength(2);
+  });
+
+  test("settles on base return when nobody is eligible", () => {
+    const p = reduceAuctionEvents([
+      created(),
+      bid(2, ALICE, 1, 60, 100),
+      ev("VWAPDecrypted", 3, { auctionId: 1, vwap: 100 }),
+      ev("Refunded", 4, { auctionId: 1, buyer: ALICE, amount: 100 }),
+      ev("BaseRemainderReturned", 4, { auctionId: 1, seller: SELLER, amount: 100 }),
+    ]);
+    expect(p.auctions[1].settled).toBe(true);
+    expect(p.bids[1][0].refund).toBe(100n);
+  });
+
+  test("tracks series windows and base rolled into the next window", () => {
+    const p = reduceAuctionEvents([
+      ev("AuctionCreated", 1, { auctionId: 1, seller: SELLER, S: 100, start: 10, end: 20 }),
+      ev("AuctionCreated", 1, { auctionId: 2, seller: SELLER, S: 100, start: 20, end: 30 }),
+      ev("SeriesCreated", 1, {
+        seriesId: 1,
+        seller: SELLER,
+        firstAuctionId: 1,
+        windows: 2,
+        supplyPerWindow: 100,
+        windowLength: 10,
+      }),
+      ev("BaseRolledOver", 2, { auctionId: 1, nextAuctionId: 2, amount: 100 }),
+    ]);
+    expect([p.auctions[1].seriesId, p.auctions[2].seriesId]).toEqual([1, 1]);
+    // closeEmptyAuction: no bids, whole supply rolled over
+    expect(p.auctions[1].settled).toBe(true);
+    expect(p.auctions[1].rolledOver).toBe(100n);
+    expect(p.auctions[2].S).toBe(200n);
+  });
+
+  test("applies amendments and cancellations, skipping cancelled bids at settlement", () => {
+    const p = reduceAuctionEvents([
+      created(),
+      bid(2, ALICE, 30, 120, 3600),
+      bid(3, BOB, 50, 110, 5500),
+      ev("BidAmended", 4, { auctionId: 1, bidIndex: 0, buyer: ALICE, qty: 20, priceCap: 100, maxSpend: 2000 }),
+      ev("Refunded", 4, { auctionId: 1, buyer: ALICE, amount: 1600 }),
+      ev("Refunded", 5, { auctionId: 1, buyer: BOB, amount: 5500 }),
+      ev("BidCancelled", 5, { auctionId: 1, bidIndex: 1, buyer: BOB, refund: 5500 }),
+    ]);
+    expect(p.auctions[1].sumQ).toBe(20n);
+    const [b0, b1] = p.bids[1];
+    expect([b0.qty, b0.priceCap, b0.maxSpend, b0.cancelled]).toEqual([20n, 100n, 2000n, false]);
+    expect([b1.cancelled, b1.settled, b1.refund]).toEqual([true, true, 5500n]);
+
+    const settled = reduceAuctionEvents([
+      created(),
+      bid(2, ALICE, 30, 120, 3600),
+      bid(3, BOB, 50, 110, 5500),
+      ev("BidCancelled", 4, { auctionId: 1, bidIndex: 0, buyer: ALICE, refund: 3600 }),
+      ev("VWAPDecrypted", 5, { auctionId: 1, vwap: 100 }),
+      ev("Allocated", 6, { auctionId: 1, buyer: BOB, alloc: 50, spend: 5000 }),
+      ev("SellerPaid", 6, { auctionId: 1, seller: SELLER, amount: 5000 }),
+    ]);
+    expect(settled.bids[1].map((b) => b.allocation)).toEqual([0n, 50n]);
+  });
+
+  test("tracks pull-payment mode and claims", () => {
+    const p = reduceAuctionEvents([
+      created(),
+      ev("PullPaymentsSet", 2, { auctionId: 1, enabled: "true" }),
+      bid(3, ALICE, 30, 120, 3600),
+      ev("VWAPDecrypted", 4, { auctionId: 1, vwap: 100 }),
+      ev("Allocated", 5, { auctionId: 1, buyer: ALICE, alloc: 30, spend: 3000 }),
+      ev("Refunded", 5, { auctionId: 1, buyer: ALICE, amount: 600 }),
+      ev("BaseRemainderReturned", 5, { auctionId: 1, seller: SELLER, amount: 70 }),
+      ev("SellerPaid", 5, { auctionId: 1, seller: SELLER, amount: 3000 }),
+      ev("Claimed", 6, { auctionId: 1, account: ALICE, baseAmount: 30, quoteAmount: 600 }),
+    ]);
+    const a = p.auctions[1];
+    expect([a.pullPayments, a.settled]).toEqual([true, true]);
+    expect(a.claims).toEqual({ [ALICE.toLowerCase()]: { base: 30n, quote: 600n } });
+    expect(a.claims[SELLER.toLowerCase()]).toBeUndefined();
+  });
+
+  test("attributes allocations of encrypted-cap bids from the decrypted eligibility", () => {
+    const events = [
+      created(),
+      ev("EncryptedCapsSet", 2, { auctionId: 1, enabled: "true" }),
+      bid(3, ALICE, 30, 0, 3600),
+      bid(4, BOB, 50, 0, 4500),
+      ev("VWAPDecrypted", 5, { auctionId: 1, vwap: 100 }),
+      ev("EligibilityDecryptionRequested", 6, { auctionId: 1, bids: 1, cursor: 1 }),
+      ev("EligibilityDecryptionRequested", 6, { auctionId: 1, bids: 1, cursor: 2 }),
+      ev("EligibilityDecrypted", 7, { auctionId: 1, bidIndex: 1, capMet: "true" }),
+    ];
+    expect(reduceAuctionEvents(events.slice(0, 6)).auctions[1].eligibilityRequested).toBe(false);
+    const p = reduceAuctionEvents(events);
+    expect(p.auctions[1].eligibilityRequested).toBe(true);
+    expect(p.auctions[1].pendingEligibility).toBe(1);
+    expect(p.bids[1].map((b) => [b.encryptedCap, b.capMet])).toEqual([
+      [true, false],
+      [true, true],
+    ]);
+
+    const settled = reduceAuctionEvents([
+      ...events,
+      ev("EligibilityDecrypted", 7, { auctionId: 1, bidIndex: 0, capMet: "false" }),
+      ev("Refunded", 8, { auctionId: 1, buyer: ALICE, amount: 3600 }),
+      ev("Allocated", 8, { auctionId: 1, buyer: BOB, alloc: 50, spend: 5000 }),
+      ev("SellerPaid", 8, { auctionId: 1, seller: SELLER, amount: 5000 }),
+    ]);
+    expect(settled.auctions[1].pendingEligibility).toBe(0);
+    expect(settled.bids[1].map((b) => b.allocation)).toEqual([0n, 50n]);
+  });
+
+  test("takes sumQ and eligible demand of confidential-quantity auctions from their decryptions", () => {
+    const events = [
+      created(),
+      ev("ConfidentialQuantitiesSet", 2, { auctionId: 1, enabled: "true" }),
+      bid(3, ALICE, 0, 120, 7200),
+      bid(4, BOB, 0, 70, 2800),
+      ev("SumQDecrypted", 5, { auctionId: 1, sumQ: 100 }),
+      ev("VWAPDecrypted", 6, { auctionId: 1, vwap: 92 }),
+      ev("EligibleDemandDecrypted", 7, { auctionId: 1, eligibleQ: 60 }),
+      ev("AllocationDecryptionRequested", 8, { auctionId: 1, bids: 1 }),
+    ];
+    const p = reduceAuctionEvents(events);
+    expect(p.auctions[1]).toMatchObject({ confidentialQuantities: true, sumQ: 100n, eligibleQ: 60n, pendingAllocations: 1 });
+    expect(p.bids[1].map((b) => b.confidentialQty)).toEqual([true, true]);
+
+    const settled = reduceAuctionEvents([
+      ...events,
+      ev("AllocationDecrypted", 9, { auctionId: 1, bidIndex: 0, allocation: 60 }),
+      ev("Refunded", 10, { auctionId: 1, buyer: ALICE, amount: 1680 }),
+      ev("Allocated", 10, { auctionId: 1, buyer: ALICE, alloc: 60, spend: 5520 }),
+      ev("Refunded", 10, { auctionId: 1, buyer: BOB, amount: 2800 }),
+      ev("BaseRemainderReturned", 10, { auctionId: 1, seller: SELLER, amount: 40 }),
+      ev("SellerPaid", 10, { auctionId: 1, seller: SELLER, amount: 5520 }),
+    ]);
+    expect(settled.auctions[1].pendingAllocations).toBe(0);
+    expect(settled.bids[1].map((b) => [b.decryptedAllocation, b.allocation])).toEqual([
+      [60n, 60n],
+      [undefined, 0n],
+    ]);
+  });
+
+  test("keeps the price unit the seller set at creation", () => {
+    expect(reduceAuctionEvents([created()]).auctions[1].priceUnit).toBe("");
+    const p = reduceAuctionEvents([created(), ev("PriceUnitSet", 2, { auctionId: 1, unit: "sUSD per kit" })]);
+    expect(p.auctions[1].priceUnit).toBe("sUSD per kit");
+  });
+
+  test("records the metadata hash the seller committed to", () => {
+    const hash = `0x${"ab".repeat(32)}`;
+    expect(reduceAuctionEvents([created()]).auctions[1].metadataHash).toBe(ZeroHash);
+    expect(reduceAuctionEvents([created(), ev("MetadataSet", 2, { auctionId: 1, metadataHash: hash })]).auctions[1].metadataHash).toBe(hash);
+  });
+
+  test("tracks the allowlist root and the accounts that joined it", () => {
+    const root = `0x${"cd".repeat(32)}`;
+    const p = reduceAuctionEvents([
+      created(),
+      ev("AllowlistSet", 2, { auctionId: 1, root }),
+      ev("AllowlistJoined", 3, { auctionId: 1, account: ALICE }),
+      ev("AllowlistJoined", 4, { auctionId: 1, account: BOB }),
+    ]);
+    expect(p.auctions[1].allowlistRoot).toBe(root);
+    expect(p.auctions[1].allowlistMembers).toEqual([ALICE, BOB]);
+    expect(reduceAuctionEvents([created()]).auctions[1].allowlistRoot).toBe(ZeroHash);
+  });
+
+  test("records the auditor and who was granted access to the prices", () => {
+    const p = reduceAuctionEvents([
+      created(),
+      ev("AuditorSet", 2, { auctionId: 1, auditor: BOB }),
+      ev("AuditAccessGranted", 3, { auctionId: 1, auditor: BOB, from: 0, to: 50 }),
+      ev("AuditAccessGranted", 4, { auctionId: 1, auditor: BOB, from: 50, to: 80 }),
+      ev("AuditAccessGranted", 5, { auctionId: 1, auditor: ALICE, from: 0, to: 80 }),
+    ]);
+    expect(p.auctions[1].auditor).toBe(BOB);
+    expect(p.auctions[1].auditedBy).toEqual([BOB, ALICE]);
+    expect(reduceAuctionEvents([created()]).auctions[1].auditor).toBe(ZeroAddress);
+  });
+
+  test("aggregates each buyer's live bids and qty against the bidder limits", () => {
+    const events = [
+      created(),
+      ev("BidderLimitsSet", 2, { auctionId: 1, maxBids: 2, maxQty: 0, maxShareBps: 2500 }),
+      bid(3, ALICE, 10, 120, 1200),
+      bid(4, ALICE, 15, 120, 1800),
+      bid(5, BOB, 20, 110, 2200),
+      ev("BidAmended", 6, { auctionId: 1, bidIndex: 1, buyer: ALICE, qty: 5, priceCap: 120, maxSpend: 600 }),
+      ev("BidCancelled", 7, { auctionId: 1, bidIndex: 0, buyer: ALICE, refund: 1200 }),
+    ];
+    const a = reduceAuctionEvents(events).auctions[1];
+    expect(a.bidderLimits).toEqual({ maxBids: 2, maxQty: 0n, maxShareBps: 2500 });
+    expect(a.bidders[ALICE.toLowerCase()]).toEqual({ bids: 1, qty: 5n });
+    expect(a.bidders[BOB.toLowerCase()]).toEqual({ bids: 1, qty: 20n });
+  });
+
+  test("refunds every bid of an auction whose reserve was not met", () => {
+    const events = [
+      created(),
+      ev("ReservePriceSet", 2, { auctionId: 1 }),
+      bid(3, ALICE, 30, 120, 3600),
+      bid(4, BOB, 50, 105, 5250),
+      ev("EncryptedVWAPComputed", 5, { auctionId: 1 }),
+    ];
+    expect(reduceAuctionEvents(events).auctions[1].reserveCheck).toBe(ReserveCheck.Unchecked);
+
+    const p = reduceAuctionEvents([
+      ...events,
+      ev("ReserveChecked", 6, { auctionId: 1, met: "false" }),
+      ev("Refunded", 7, { auctionId: 1, buyer: ALICE, amount: 3600 }),
+      ev("Refunded", 7, { auctionId: 1, buyer: BOB, amount: 5250 }),
+      ev("BaseRemainderReturned", 7, { auctionId: 1, seller: SELLER, amount: 100 }),
+    ]);
+    expect(p.auctions[1]).toMatchObject({ reserveCheck: ReserveCheck.NotMet, vwapSet: false, settled: true, baseReturned: 100n });
+    expect(p.bids[1].map((b) => [b.allocation, b.refund])).toEqual([
+      [0n, 3600n],
+      [0n, 5250n],
+    ]);
+  });
+
+  test("does not attribute allocations to bids excluded for their minimum fill", () => {
+    const p = reduceAuctionEvents([
+      created(),
+      bid(2, ALICE, 60, 120, 7200),
+      ev("MinFillSet", 3, { auctionId: 1, bidIndex: 0, minFill: 55 }),
+      bid(4, ALICE, 60, 120, 7200),
+      bid(5, BOB, 40, 120, 4800),
+      ev("VWAPDecrypted", 6, { auctionId: 1, vwap: 100 }),
+      ev("MinFillExcluded", 7, { auctionId: 1, bidIndex: 0 }),
+      ev("Refunded", 7, { auctionId: 1, buyer: ALICE, amount: 7200 }),
+      ev("Refunded", 7, { auctionId: 1, buyer: ALICE, amount: 1200 }),
+      ev("Allocated", 7, { auctionId: 1, buyer: ALICE, alloc: 60, spend: 6000 }),
+      ev("Refunded", 7, { auctionId: 1, buyer: BOB, amount: 800 }),
+      ev("Allocated", 7, { auctionId: 1, buyer: BOB, alloc: 40, spend: 4000 }),
+      ev("SellerPaid", 7, { auctionId: 1, seller: SELLER, amount: 10000 }),
+    ]);
+    expect(p.bids[1].map((b) => [b.minFill, b.minFillExcluded, b.allocation, b.refund])).toEqual([
+      [55n, true, 0n, 7200n],
+      [0n, false, 60n, 1200n],
+      [0n, false, 40n, 800n],
+    ]);
+  });
+
+  test("ignores events of auctions created before the start block", () => {
+    const p = reduceAuctionEvents([bid(2, ALICE, 1, 60, 100)]);
+    expect(p.auctions).toEqual({});
+  });
+});
@@ -0,0 +1,332 @@
+import { ethers } from "ethers";
+import { QtyReveal, ReserveCheck } from "./auctionTypes";
+import { NO_BIDDER_LIMITS } from "./bidderLimits";
+import type {
+  AuctionIndexProjection,
+  IndexedAuction,
+  IndexedAuctionEvent,
+  IndexedBid,
+} from "./indexerTypes";
+
+function _compareEvents(a: IndexedAuctionEvent, b: IndexedAuctionEvent) {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+function _isEligible(auction: IndexedAuction, bid: IndexedBid) {
+  if (bid.cancelled || bid.minFillExcluded || !auction.vwapSet) return false;
+  return bid.encryptedCap ? bid.capMet : bid.priceCap >= auction.vwap;
+}
+
+function _trackBidder(auction: IndexedAuction, buyer: string, bids: number, qty: bigint) {
+  const key = buyer.toLowerCase();
+  const usage = (auction.bidders[key] ??= { bids: 0, qty: 0n });
+  usage.bids += bids;
+  usage.qty += qty;
+}
+
+function _finalize(auction: IndexedAuction, bids: IndexedBid[]) {
+  auction.settled = true;
+  for (const bid of bids) {
+    if (bid.settled) continue;
+    // Bids without an `Allocated` event were refunded in full
+    bid.settled = true;
+    bid.allocation = 0n;
+    bid.spend = 0n;
+    bid.refund = bid.maxSpend;
+  }
+}
+
+/**
+ * Folds auction contract events into a queryable projection.
+ *
+ * `Allocated`/`Refunded` do not carry a bid index, so allocations are attributed the
+ * same way `settle` iterates: in bid order, skipping cancelled bids, those whose cap is
+ * below the VWAP (for encrypted caps, as reported by `EligibilityDecrypted`) and those
+ * excluded for their minimum fill (`MinFillExcluded`, emitted before the allocations).
+ */
+export function reduceAuctionEvents(
+  events: readonly IndexedAuctionEvent[]
+): AuctionIndexProjection {
+  const projection: AuctionIndexProjection = { auctions: {}, bids: {} };
+  const sorted = [...events].sort(_compareEvents);
+
+  for (const ev of sorted) {
+    if (ev.name === "SeriesCreated") {
+      // Emitted after the AuctionCreated events of its windows, in the same tx
+      const first = Number(ev.args.firstAuctionId);
+      for (let i = 0; i < Number(ev.args.windows); i++) {
+        const auction = projection.auctions[first + i];
+        if (auction) auction.seriesId = Number(ev.args.seriesId);
+      }
+      continue;
+    }
+
+    const id = Number(ev.args.auctionId);
+    if (ev.name === "AuctionCreated") {
+      projection.auctions[id] = {
+        id,
+        seller: ev.args.seller as `0x${string}`,
+        S: BigInt(ev.args.S),
+        start: Number(ev.args.start),
+        end: Number(ev.args.end),
+        baseToken: ev.args.baseToken as `0x${string}` | undefined,
+        quoteToken: ev.args.quoteToken as `0x${string}` | undefined,
+        sumQ: 0n,
+        bidCount: 0,
+        encVWAPComputed: false,
+        vwap: 0n,
+        vwapSet: false,
+        settled: false,
+        sellerPaid: 0n,
+        baseReturned: 0n,
+        rolledOver: 0n,
+        seriesId: undefined,
+        refunds: {},
+        pullPayments: false,
+        claims: {},
+        encryptedCaps: false,
+        eligibilityRequested: false,
+        pendingEligibility: 0,
+        confidentialQuantities: false,
+        eligibleQ: 0n,
+        qtyReveal: QtyReveal.Hidden,
+        pendingAllocations: 0,
+        reserveCheck: ReserveCheck.None,
+        priceUnit: "",
+        metadataHash: ethers.ZeroHash,
+        allowlistRoot: ethers.ZeroHash,
+        allowlistMembers: [],
+        bidderLimits: { ...NO_BIDDER_LIMITS },
+        bidders: {},
+        auditor: ethers.ZeroAddress,
+        auditedBy: [],
+        createdBlock: ev.blockNumber,
+      };
+      projection.bids[id] = [];
+      continue;
+    }
+
+    const auction = projection.auctions[id];
+    const bids = projection.bids[id];
+    if (!auction || !bids) {
+      // Auction created before the indexer start block
+      continue;
+    }
+
+    switch (ev.name) {
+      case "BidSubmitted": {
+        const qty = BigInt(ev.args.qty);
+        bids.push({
+          auctionId: id,
+          index: bids.length,
+          buyer: ev.args.buyer as `0x${string}`,
+          qty,
+          priceCap: BigInt(ev.args.priceCap),
+          maxSpend: BigInt(ev.args.maxSpend),
+          municipality: false,
+          blockNumber: ev.blockNumber,
+          transactionHash: ev.transactionHash,
+          settled: false,
+          cancelled: false,
+          encryptedCap: auction.encryptedCaps,
+          capMet: false,
+          confidentialQty: auction.confidentialQuantities,
+          decryptedAllocation: undefined,
+          minFill: 0n,
+          minFillExcluded: false,
+          allocation: undefined,
+          spend: undefined,
+          refund: undefined,
+        });
+        auction.sumQ += qty;
+        auction.bidCount = bids.length;
+        _trackBidder(auction, ev.args.buyer, 1, qty);
+        break;
+      }
+      case "MunicipalityBid": {
+        // Emitted right after BidSubmitted in the same tx by MedicineAuction
+        const bid = [...bids]
+          .reverse()
+          .find((b) => b.transactionHash === ev.transactionHash);
+        if (bid) bid.municipality = true;
+        break;
+      }
+      case "BidAmended": {
+        const bid = bids[Number(ev.args.bidIndex)];
+        if (!bid) break;
+        const qty = BigInt(ev.args.qty);
+        auction.sumQ += qty - bid.qty;
+        _trackBidder(auction, bid.buyer, 0, qty - bid.qty);
+        bid.qty = qty;
+        bid.priceCap = BigInt(ev.args.priceCap);
+        bid.maxSpend = BigInt(ev.args.maxSpend);
+        break;
+      }
+      case "BidCancelled": {
+        const bid = bids[Number(ev.args.bidIndex)];
+        if (!bid) break;
+        auction.sumQ -= bid.qty;
+        _trackBidder(auction, bid.buyer, -1, -bid.qty);
+        bid.cancelled = true;
+        bid.settled = true;
+        bid.allocation = 0n;
+        bid.spend = 0n;
+        bid.refund = BigInt(ev.args.refund);
+        break;
+      }
+      case "EncryptedVWAPComputed":
+        auction.encVWAPComputed = true;
+        break;
+      case "VWAPDecrypted":
+        auction.vwap = BigInt(ev.args.vwap);
+        auction.vwapSet = true;
+        break;
+      case "Allocated": {
+        const buyer = ev.args.buyer.toLowerCase();
+        const bid = bids.find(
+          (b) =>
+            !b.settled &&
+            _isEligible(auction, b) &&
+            b.buyer.toLowerCase() === buyer
+        );
+        if (bid) {
+          bid.settled = true;
+          bid.allocation = BigInt(ev.args.alloc);
+          bid.spend = BigInt(ev.args.spend);
+          bid.refund = bid.maxSpend - bid.spend;
+        }
+        break;
+      }
+      case "Refunded": {
+        const buyer = ev.args.buyer.toLowerCase();
+        auction.refunds[buyer] =
+          (auction.refunds[buyer] ?? 0n) + BigInt(ev.args.amount);
+        break;
+      }
+      case "BaseRemainderReturned":
+      case "BaseRolledOver": {
+        const amount = BigInt(ev.args.amount);
+        if (ev.name === "BaseRolledOver") {
+          auction.rolledOver += amount;
+          const next = projection.auctions[Number(ev.args.nextAuctionId)];
+          if (next) next.S += amount;
+        } else {
+          auction.baseReturned += amount;
+        }
+        // With no eligible demand `settle` (or `closeEmptyAuction`) returns without SellerPaid. So does
+        // `settle` of an auction whose reserve was not met: no VWAP, so no bid is eligible
+        const noDemand = auction.confidentialQuantities
+          ? auction.eligibleQ === 0n
+          : !bids.some((b) => _isEligible(auction, b));
+        if (noDemand) {
+          _finalize(auction, bids);
+        }
+        break;
+      }
+      case "PullPaymentsSet":
+        auction.pullPayments = ev.args.enabled === "true";
+        break;
+      case "EncryptedCapsSet":
+        auction.encryptedCaps = ev.args.enabled === "true";
+        break;
+      case "EligibilityDecryptionRequested":
+        // One event per batch; the batch reaching the last bid completes the requests
+        auction.eligibilityRequested = Number(ev.args.cursor) >= bids.length;
+        auction.pendingEligibility += Number(ev.args.bids);
+        break;
+      case "EligibilityDecrypted": {
+        const bid = bids[Number(ev.args.bidIndex)];
+        if (bid) bid.capMet = ev.args.capMet === "true";
+        auction.pendingEligibility -= 1;
+        break;
+      }
+      case "ConfidentialQuantitiesSet":
+        auction.confidentialQuantities = ev.args.enabled === "true";
+        break;
+      case "SumQDecrypted":
+        auction.sumQ = BigInt(ev.args.sumQ);
+        auction.qtyReveal = QtyReveal.SumQRevealed;
+        break;
+      case "EligibleDemandDecrypted":
+        auction.eligibleQ = BigInt(ev.args.eligibleQ);
+        auction.qtyReveal = QtyReveal.EligibleQRevealed;
+        break;
+      case "AllocationDecryptionRequested":
+        auction.qtyReveal = QtyReveal.AllocationsRequested;
+        auction.pendingAllocations = Number(ev.args.bids);
+        break;
+      case "AllocationDecrypted": {
+        const bid = bids[Number(ev.args.bidIndex)];
+        if (bid) bid.decryptedAllocation = BigInt(ev.args.allocation);
+        auction.pendingAllocations -= 1;
+        break;
+      }
+      case "ReservePriceSet":
+        auction.reserveCheck = ReserveCheck.Unchecked;
+        break;
+      case "ReserveChecked":
+        auction.reserveCheck =
+          ev.args.met === "true" ? ReserveCheck.Met : ReserveCheck.NotMet;
+        break;
+      case "MinFillSet": {
+        const bid = bids[Number(ev.args.bidIndex)];
+        if (bid) bid.minFill = BigInt(ev.args.minFill);
+        break;
+      }
+      case "MinFillExcluded": {
+        const bid = bids[Number(ev.args.bidIndex)];
+        if (bid) bid.minFillExcluded = true;
+        break;
+      }
+      case "PriceUnitSet":
+        auction.priceUnit = ev.args.unit;
+        break;
+      case "MetadataSet":
+        auction.metadataHash = ev.args.metadataHash;
+        break;
+      case "AllowlistSet":
+        auction.allowlistRoot = ev.args.root;
+        break;
+      case "BidderLimitsSet":
+        auction.bidderLimits = {
+          maxBids: Number(ev.args.maxBids),
+          maxQty: BigInt(ev.args.maxQty),
+          maxShareBps: Number(ev.args.maxShareBps),
+        };
+        break;
+      case "AuditorSet":
+        auction.auditor = ev.args.auditor;
+        break;
+      case "AuditAccessGranted":
+        if (!auction.auditedBy.some((a) => a.toLowerCase() === ev.args.auditor.toLowerCase())) {
+          auction.auditedBy.push(ev.args.auditor as `0x${string}`);
+        }
+        break;
+      case "AllowlistJoined":
+        auction.allowlistMembers.push(ev.args.account as `0x${string}`);
+        break;
+      case "Claimed":
+        auction.claims[ev.args.account.toLowerCase()] = {
+          base: BigInt(ev.args.baseAmount),
+          quote: BigInt(ev.args.quoteAmount),
+        };
+        break;
+      case "SellerPaid":
+        auction.sellerPaid = BigInt(ev.args.amount);
+        _finalize(auction, bids);
+        break;
+    }
+  }
+
+  return projection;
+}
+
+export function indexedBidsOf(
+  projection: AuctionIndexProjection,
+  buyer: string
+): IndexedBid[] {
+  const needle = buyer.toLowerCase();
+  return Object.values(projection.bids)
+    .flat()
+    .filter((b) => b.buyer.toLowerCase() === needle);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "vitest";
+import { toUtf8Bytes } from "ethers";
+import { auctionMetadataHash, canonicalAuctionMetadata, documentHashOf, parseStoredAuctionMetadata, validateAuctionMetadata } from "./auctionMetadata";
+
+const DOC = documentHashOf(toUtf8Bytes("Tender 42/2026"));
+
+const lot = {
+  title: "Amoxicillin for municipal clinics",
+  drug: "Amoxicillin",
+  dosage: "500 mg, box of 21 capsules",
+  deliveryTerms: "Central warehouse, within 30 days of settlement",
+  documentHash: DOC,
+};
+
+describe("validateAuctionMetadata", () => {
+  test("accepts a complete lot, trims values and stamps the version", () => {
+    const result = validateAuctionMetadata({ ...lot, title: `  ${lot.title} `, description: " " });
+    expect(result).toEqual({ ok: true, metadata: { version: 1, ...lot } });
+  });
+
+  test("accepts IPFS CIDs as document hashes", () => {
+    expect(validateAuctionMetadata({ ...lot, documentHash: "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG" }).ok).toBe(true);
+    expect(validateAuctionMetadata({ ...lot, documentHash: "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi" }).ok).toBe(true);
+  });
+
+  test("lists every problem at once", () => {
+    const result = validateAuctionMetadata({ title: "", drug: 5, dosage: "x".repeat(121), documentHash: "0x1234", extra: true, version: 2 });
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        "unsupported version 2",
+        'unknown field "extra"',
+        "drug must be a string",
+        "dosage is longer than 120 characters",
+        "title is required",
+        "deliveryTerms is required",
+        "documentHash must be a 0x-prefixed 32-byte hex digest or an IPFS CID",
+      ],
+    });
+    expect(validateAuctionMetadata([])).toEqual({ ok: false, errors: ["metadata must be a JSON object"] });
+  });
+});
+
+describe("auctionMetadataHash", () => {
+  test("does not depend on the key order of the input", () => {
+    const a = validateAuctionMetadata({ ...lot, description: "Cold chain not required" });
+    const b = validateAuctionMetadata({ description: "Cold chain not required", documentHash: DOC, dosage: lot.dosage, drug: lot.drug, deliveryTerms: lot.deliveryTerms, title: lot.title });
+    if (!a.ok || !b.ok) throw new Error("invalid fixture");
+    expect(canonicalAuctionMetadata(b.metadata)).toBe(canonicalAuctionMetadata(a.metadata));
+    expect(auctionMetadataHash(b.metadata)).toBe(auctionMetadataHash(a.metadata));
+  });
+
+  test("stored JSON is only trusted when it hashes to the committed value", () => {
+    const result = validateAuctionMetadata(lot);
+    if (!result.ok) throw new Error("invalid fixture");
+    const hash = auctionMetadataHash(result.metadata);
+    const json = canonicalAuctionMetadata(result.metadata);
+    expect(parseStoredAuctionMetadata(json, hash.toUpperCase().replace("0X", "0x"))).toEqual(result.metadata);
+    expect(parseStoredAuctionMetadata(json.replace("500 mg", "250 mg"), hash)).toBeUndefined();
+    expect(parseStoredAuctionMetadata("not json", hash)).toBeUndefined();
+  });
+});
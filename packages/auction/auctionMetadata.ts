@@ -0,0 +1,129 @@
+import { ethers } from "ethers";
+
+/*
+  Off-chain description of an auction's lot. Only its hash is stored on-chain (`metadataHash`, set in the
+  creation options); the JSON itself lives in an `AuctionMetadataStore`, keyed by that
+  hash, so anyone holding the JSON can check it is the one the seller committed to.
+*/
+
+export const AUCTION_METADATA_VERSION = 1;
+
+export type AuctionMetadata = {
+  version: typeof AUCTION_METADATA_VERSION;
+  title: string;
+  drug: string; // active ingredient or product name
+  dosage: string; // e.g. "500 mg, box of 30 tablets"
+  deliveryTerms: string; // place, deadline, incoterm...
+  documentHash: string; // tender document: 0x-prefixed 32-byte hex digest or an IPFS CID
+  description?: string;
+};
+
+export type AuctionMetadataField = Exclude<keyof AuctionMetadata, "version">;
+
+/** Longest accepted value per field, in characters. */
+export const AUCTION_METADATA_LIMITS: Record<AuctionMetadataField, number> = {
+  title: 120,
+  drug: 120,
+  dosage: 120,
+  deliveryTerms: 500,
+  documentHash: 100,
+  description: 2000,
+};
+
+const REQUIRED_FIELDS = ["title", "drug", "dosage", "deliveryTerms", "documentHash"] as const;
+
+export type AuctionMetadataValidation =
+  | { ok: true; metadata: AuctionMetadata }
+  | { ok: false; errors: string[] };
+
+const HEX_DIGEST = /^0x[0-9a-fA-F]{64}$/;
+const CID_V0 = /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/;
+const CID_V1_BASE32 = /^b[a-z2-7]{58,}$/;
+
+export function isDocumentHash(value: string): boolean {
+  return HEX_DIGEST.test(value) || CID_V0.test(value) || CID_V1_BASE32.test(value);
+}
+
+/**
+ * Checks parsed JSON (or form input) against the schema. Strings are trimmed, an empty description is dropped
+ * and unknown keys are rejected, so a valid result always hashes the same way.
+ */
+export function validateAuctionMetadata(raw: unknown): AuctionMetadataValidation {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { ok: false, errors: ["metadata must be a JSON object"] };
+  }
+  const input = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  if (input.version !== undefined && input.version !== AUCTION_METADATA_VERSION) {
+    errors.push(`unsupported version ${String(input.version)}`);
+  }
+  for (const key of Object.keys(input)) {
+    if (key !== "version" && !(key in AUCTION_METADATA_LIMITS)) errors.push(`unknown field "${key}"`);
+  }
+  const values: Partial<Record<AuctionMetadataField, string>> = {};
+  for (const field of Object.keys(AUCTION_METADATA_LIMITS) as AuctionMetadataField[]) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string") {
+      errors.push(`${field} must be a string`);
+      continue;
+    }
+    const trimmed = value.trim();
+    if (trimmed.length > AUCTION_METADATA_LIMITS[field]) {
+      errors.push(`${field} is longer than ${AUCTION_METADATA_LIMITS[field]} characters`);
+    }
+    if (trimmed) values[field] = trimmed;
+  }
+  for (const field of REQUIRED_FIELDS) {
+    if (input[field] === undefined || (typeof input[field] === "string" && !values[field])) errors.push(`${field} is required`);
+  }
+  if (values.documentHash && !isDocumentHash(values.documentHash)) {
+    errors.push("documentHash must be a 0x-prefixed 32-byte hex digest or an IPFS CID");
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  const metadata: AuctionMetadata = {
+    version: AUCTION_METADATA_VERSION,
+    title: values.title!,
+    drug: values.drug!,
+    dosage: values.dosage!,
+    deliveryTerms: values.deliveryTerms!,
+    documentHash: values.documentHash!,
+  };
+  if (values.description) metadata.description = values.description;
+  return { ok: true, metadata };
+}
+
+/** JSON with the fields in schema order, which is what gets hashed and stored. */
+export function canonicalAuctionMetadata(metadata: AuctionMetadata): string {
+  const { version, title, drug, dosage, deliveryTerms, documentHash, description } = metadata;
+  return JSON.stringify({ version, title, drug, dosage, deliveryTerms, documentHash, description });
+}
+
+/** The `metadataHash` an auction commits to: keccak256 of the canonical JSON. */
+export function auctionMetadataHash(metadata: AuctionMetadata): `0x${string}` {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalAuctionMetadata(metadata))) as `0x${string}`;
+}
+
+/** keccak256 of a tender document's bytes, for `documentHash`. */
+export function documentHashOf(bytes: Uint8Array): `0x${string}` {
+  return ethers.keccak256(bytes) as `0x${string}`;
+}
+
+/** Content-addressed persistence for metadata JSON. `get` returns `undefined` for unknown or tampered entries. */
+export interface AuctionMetadataStore {
+  get(hash: string): Promise<AuctionMetadata | undefined>;
+  put(metadata: AuctionMetadata): Promise<`0x${string}`>;
+}
+
+/** Parses stored JSON and keeps it only when it validates and hashes to `hash`. */
+export function parseStoredAuctionMetadata(json: string, hash: string): AuctionMetadata | undefined {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+  const result = validateAuctionMetadata(raw);
+  if (!result.ok || auctionMetadataHash(result.metadata) !== hash.toLowerCase()) return undefined;
+  return result.metadata;
+}
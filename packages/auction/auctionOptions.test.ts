@@ -0,0 +1,32 @@
+import { ethers } from "ethers";
+import { describe, expect, test } from "vitest";
+import { auctionOptions } from "./auctionOptions";
+import { NO_BIDDER_LIMITS } from "./bidderLimits";
+
+describe("auctionOptions", () => {
+  test("leaves every setting off by default", () => {
+    expect(auctionOptions({})).toEqual({ pullPayments: false, encryptedCaps: false, confidentialQuantities: false, priceUnit: "", metadataHash: ethers.ZeroHash, encReserve: ethers.ZeroHash, reserveProof: "0x", allowlistRoot: ethers.ZeroHash, bidderLimits: NO_BIDDER_LIMITS, auditor: ethers.ZeroAddress });
+  });
+
+  test("carries the settings of the create params", () => {
+    const metadataHash = ethers.id("lot") as `0x${string}`;
+    expect(auctionOptions({ pullPayments: true, confidentialQuantities: true, priceUnit: "sUSD per kit", metadataHash })).toEqual({
+      pullPayments: true,
+      encryptedCaps: false,
+      confidentialQuantities: true,
+      priceUnit: "sUSD per kit",
+      metadataHash,
+      encReserve: ethers.ZeroHash,
+      reserveProof: "0x",
+      allowlistRoot: ethers.ZeroHash,
+      bidderLimits: NO_BIDDER_LIMITS,
+      auditor: ethers.ZeroAddress,
+    });
+  });
+
+  test("passes the encrypted reserve with its proof", () => {
+    const encryptedReserve = { handle: new Uint8Array([1, 2]), inputProof: new Uint8Array([3]) };
+    const options = auctionOptions({ encryptedReserve });
+    expect([options.encReserve, options.reserveProof]).toEqual([encryptedReserve.handle, encryptedReserve.inputProof]);
+  });
+});
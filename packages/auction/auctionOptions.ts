@@ -0,0 +1,24 @@
+import { ethers } from "ethers";
+import type { AuctionOptions, CreateAuctionParams } from "./auctionTypes";
+import { NO_BIDDER_LIMITS } from "./bidderLimits";
+
+/*
+  The settings of an auction travel with `createAuctionWithOptions` / `createAuctionWithPermit`, so they are in
+  place before anyone can bid. Settings left out of the params are off.
+*/
+
+/** The `AuctionOptions` struct for the optional settings of `params`. */
+export function auctionOptions(params: Omit<CreateAuctionParams, "baseToken" | "quoteToken" | "S" | "start" | "end">): AuctionOptions {
+  return {
+    pullPayments: params.pullPayments ?? false,
+    encryptedCaps: params.encryptedCaps ?? false,
+    confidentialQuantities: params.confidentialQuantities ?? false,
+    priceUnit: params.priceUnit ?? "",
+    metadataHash: params.metadataHash ?? ethers.ZeroHash,
+    encReserve: params.encryptedReserve?.handle ?? ethers.ZeroHash,
+    reserveProof: params.encryptedReserve?.inputProof ?? "0x",
+    allowlistRoot: params.allowlistRoot ?? ethers.ZeroHash,
+    bidderLimits: params.bidderLimits ?? NO_BIDDER_LIMITS,
+    auditor: params.auditor ?? ethers.ZeroAddress,
+  };
+}
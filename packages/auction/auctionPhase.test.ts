@@ -0,0 +1,201 @@
+import { describe, expect, test } from "vitest";
+import {
+  allowedActions,
+  AuctionPhase,
+  auctionRolesOf,
+  canPerform,
+  deriveAuctionPhase,
+  SETTLEMENT_GRACE_PERIOD,
+} from "./auctionPhase";
+import { QtyReveal, ReserveCheck } from "./auctionTypes";
+
+const SELLER = "0x00000000000000000000000000000000000000aA";
+const BIDDER = "0x00000000000000000000000000000000000000bB";
+
+function auction(overrides: Partial<Parameters<typeof deriveAuctionPhase>[0]> = {}) {
+  return {
+    seller: SELLER as `0x${string}`,
+    start: 1_000,
+    end: 2_000,
+    sumQ: 0n,
+    encVWAPComputed: false,
+    vwapSet: false,
+    settled: false,
+    pullPayments: false,
+    encryptedCaps: false,
+    eligibilityRequested: false,
+    pendingEligibility: 0,
+    confidentialQuantities: false,
+    qtyReveal: QtyReveal.Hidden,
+    pendingAllocations: 0,
+    reserveCheck: ReserveCheck.None,
+    ...overrides,
+  };
+}
+
+describe("deriveAuctionPhase", () => {
+  test("scheduled before start", () => {
+    const info = deriveAuctionPhase(auction(), 999);
+    expect(info.phase).toBe(AuctionPhase.Scheduled);
+    expect(allowedActions(info, ["seller", "bidder"])).toEqual([]);
+  });
+
+  test("open inside the window, boundaries inclusive", () => {
+    expect(deriveAuctionPhase(auction(), 1_000).phase).toBe(AuctionPhase.Open);
+    expect(deriveAuctionPhase(auction(), 2_000).phase).toBe(AuctionPhase.Open);
+    const info = deriveAuctionPhase(auction(), 1_500);
+    expect(info.actions.bidder).toEqual(["bid", "amendBid", "cancelBid"]);
+    expect(info.actions.seller).toEqual([]);
+  });
+
+  test("closed without demand can be closed by anyone", () => {
+    const info = deriveAuctionPhase(auction(), 2_001);
+    expect(info.phase).toBe(AuctionPhase.ClosedNoDemand);
+    expect(allowedActions(info, [])).toEqual(["closeEmptyAuction"]);
+  });
+
+  test("closed with demand waits for encrypted VWAP, computable by anyone", () => {
+    const info = deriveAuctionPhase(auction({ sumQ: 10n }), 2_001);
+    expect(info.phase).toBe(AuctionPhase.ClosedAwaitingEncryptedVWAP);
+    expect(allowedActions(info, [])).toEqual(["computeEncryptedVWAP"]);
+  });
+
+  test("awaiting decryption once encrypted VWAP is computed, seller only", () => {
+    const info = deriveAuctionPhase(
+      auction({ sumQ: 10n, encVWAPComputed: true }),
+      2_001
+    );
+    expect(info.phase).toBe(AuctionPhase.AwaitingDecryption);
+    expect(allowedActions(info, ["bidder"])).toEqual([]);
+    expect(allowedActions(info, ["seller"])).toEqual(["requestVWAPDecryption"]);
+  });
+
+  test("a reserve price is checked before the VWAP may be decrypted", () => {
+    const closed = { sumQ: 10n, encVWAPComputed: true };
+    let info = deriveAuctionPhase(auction({ ...closed, reserveCheck: ReserveCheck.Unchecked }), 2_001);
+    expect(info.phase).toBe(AuctionPhase.AwaitingReserveCheck);
+    expect(allowedActions(info, ["bidder"])).toEqual([]);
+    expect(allowedActions(info, ["seller"])).toEqual(["requestReserveCheck"]);
+    info = deriveAuctionPhase(auction({ ...closed, reserveCheck: ReserveCheck.Unchecked }), 2_000 + SETTLEMENT_GRACE_PERIOD + 1);
+    expect(allowedActions(info, [])).toEqual(["requestReserveCheck"]);
+
+    info = deriveAuctionPhase(auction({ ...closed, reserveCheck: ReserveCheck.Requested }), 2_001);
+    expect(info.phase).toBe(AuctionPhase.AwaitingReserveCheck);
+    expect(allowedActions(info, ["seller"])).toEqual([]);
+
+    info = deriveAuctionPhase(auction({ ...closed, reserveCheck: ReserveCheck.Met }), 2_001);
+    expect(info.phase).toBe(AuctionPhase.AwaitingDecryption);
+  });
+
+  test("anyone settles an auction whose reserve was not met, refunding every bid", () => {
+    const info = deriveAuctionPhase(auction({ sumQ: 10n, encVWAPComputed: true, reserveCheck: ReserveCheck.NotMet }), 2_001);
+    expect(info.phase).toBe(AuctionPhase.ReserveNotMet);
+    expect(allowedActions(info, [])).toEqual(["settle"]);
+  });
+
+  test("vwap revealed allows seller to settle", () => {
+    const info = deriveAuctionPhase(
+      auction({ sumQ: 10n, encVWAPComputed: true, vwapSet: true }),
+      2_001
+    );
+    expect(info.phase).toBe(AuctionPhase.VWAPRevealed);
+    expect(info.actions.seller).toEqual(["settle"]);
+  });
+
+  test("settled is terminal", () => {
+    const info = deriveAuctionPhase(
+      auction({ sumQ: 10n, encVWAPComputed: true, vwapSet: true, settled: true }),
+      2_001
+    );
+    expect(info.phase).toBe(AuctionPhase.Settled);
+    expect(allowedActions(info, ["seller", "bidder", "anyone"])).toEqual([]);
+  });
+
+  test("settled pull-payment auctions can be claimed by participants", () => {
+    const info = deriveAuctionPhase(
+      auction({ sumQ: 10n, encVWAPComputed: true, vwapSet: true, settled: true, pullPayments: true }),
+      2_001
+    );
+    expect(allowedActions(info, ["seller"])).toEqual(["claim"]);
+    expect(allowedActions(info, ["bidder"])).toEqual(["claim"]);
+    expect(allowedActions(info, [])).toEqual([]);
+  });
+
+  test("anyone may decrypt and settle once the grace period is over", () => {
+    const lastSellerOnly = 2_000 + SETTLEMENT_GRACE_PERIOD;
+    const computed = auction({ sumQ: 10n, encVWAPComputed: true });
+    expect(allowedActions(deriveAuctionPhase(computed, lastSellerOnly), [])).toEqual([]);
+    expect(allowedActions(deriveAuctionPhase(computed, lastSellerOnly + 1), [])).toEqual(["requestVWAPDecryption"]);
+
+    const revealed = auction({ sumQ: 10n, encVWAPComputed: true, vwapSet: true });
+    expect(canPerform(revealed, BIDDER, "settle", lastSellerOnly)).toBe(false);
+    expect(canPerform(revealed, BIDDER, "settle", lastSellerOnly + 1)).toBe(true);
+  });
+
+  test("encrypted caps wait for the per-bid eligibility before settling", () => {
+    const open = deriveAuctionPhase(auction({ encryptedCaps: true }), 1_500);
+    expect(open.actions.bidder).toEqual(["bid", "cancelBid"]);
+
+    const revealed = auction({ sumQ: 10n, encVWAPComputed: true, vwapSet: true, encryptedCaps: true });
+    const info = deriveAuctionPhase(revealed, 2_001);
+    expect(info.phase).toBe(AuctionPhase.AwaitingEligibility);
+    expect(allowedActions(info, ["seller"])).toEqual(["requestEligibilityDecryption"]);
+
+    const requested = { ...revealed, eligibilityRequested: true, pendingEligibility: 2 };
+    expect(allowedActions(deriveAuctionPhase(requested, 2_001), ["seller"])).toEqual([]);
+    const resolved = { ...requested, pendingEligibility: 0 };
+    expect(deriveAuctionPhase(resolved, 2_001).phase).toBe(AuctionPhase.VWAPRevealed);
+  });
+
+  test("confidential quantities reveal sumQ, eligible demand and allocations around the VWAP", () => {
+    const open = deriveAuctionPhase(auction({ confidentialQuantities: true }), 1_500);
+    expect(open.actions.bidder).toEqual(["bid", "cancelBid"]);
+
+    // sumQ reads 0 on-chain until revealed, which must not look like an empty window
+    const hidden = auction({ confidentialQuantities: true });
+    const info = deriveAuctionPhase(hidden, 2_001);
+    expect(info.phase).toBe(AuctionPhase.ClosedAwaitingSumQ);
+    expect(allowedActions(info, [])).toEqual(["requestSumQDecryption"]);
+    expect(allowedActions(deriveAuctionPhase({ ...hidden, qtyReveal: QtyReveal.SumQRequested }, 2_001), [])).toEqual([]);
+    expect(deriveAuctionPhase({ ...hidden, qtyReveal: QtyReveal.SumQRevealed }, 2_001).phase).toBe(
+      AuctionPhase.ClosedNoDemand
+    );
+
+    const revealed = auction({
+      sumQ: 10n,
+      encVWAPComputed: true,
+      vwapSet: true,
+      confidentialQuantities: true,
+      qtyReveal: QtyReveal.SumQRevealed,
+    });
+    const eligible = deriveAuctionPhase(revealed, 2_001);
+    expect(eligible.phase).toBe(AuctionPhase.AwaitingAllocations);
+    expect(allowedActions(eligible, [])).toEqual(["requestEligibleDemandDecryption"]);
+
+    const eligibleQ = { ...revealed, qtyReveal: QtyReveal.EligibleQRevealed };
+    expect(allowedActions(deriveAuctionPhase(eligibleQ, 2_001), ["seller"])).toEqual(["requestAllocationDecryption"]);
+    expect(canPerform(eligibleQ, BIDDER, "requestAllocationDecryption", 2_001)).toBe(false);
+    expect(canPerform(eligibleQ, BIDDER, "requestAllocationDecryption", 2_001 + SETTLEMENT_GRACE_PERIOD)).toBe(true);
+
+    const requested = { ...revealed, qtyReveal: QtyReveal.AllocationsRequested, pendingAllocations: 2 };
+    expect(allowedActions(deriveAuctionPhase(requested, 2_001), ["seller"])).toEqual([]);
+    const resolved = { ...requested, pendingAllocations: 0 };
+    expect(deriveAuctionPhase(resolved, 2_001).phase).toBe(AuctionPhase.VWAPRevealed);
+  });
+});
+
+describe("roles", () => {
+  test("seller match is case-insensitive", () => {
+    expect(auctionRolesOf(auction(), SELLER.toLowerCase())).toContain("seller");
+    expect(auctionRolesOf(auction(), BIDDER)).not.toContain("seller");
+    expect(auctionRolesOf(auction(), undefined)).toEqual(["anyone"]);
+  });
+
+  test("canPerform combines phase and roles", () => {
+    const revealed = auction({ sumQ: 10n, encVWAPComputed: true, vwapSet: true });
+    expect(canPerform(revealed, SELLER, "settle", 3_000)).toBe(true);
+    expect(canPerform(revealed, BIDDER, "settle", 3_000)).toBe(false);
+    expect(canPerform(auction(), BIDDER, "bid", 1_500)).toBe(true);
+    expect(canPerform(auction(), undefined, "bid", 1_500)).toBe(false);
+  });
+});
@@ -0,0 +1,277 @@
+import { QtyReveal, ReserveCheck, type OnChainAuction } from "./auctionTypes";
+
+/**
+ * Lifecycle phases of an auction, derived purely from on-chain state and the
+ * current time. Mirrors the `require` guards of `FHEVWAPAuction`.
+ */
+export const AuctionPhase = {
+  Scheduled: "Scheduled",
+  Open: "Open",
+  ClosedAwaitingSumQ: "Closed-AwaitingSumQ",
+  ClosedNoDemand: "Closed-NoDemand",
+  ClosedAwaitingEncryptedVWAP: "Closed-AwaitingEncryptedVWAP",
+  AwaitingReserveCheck: "AwaitingReserveCheck",
+  ReserveNotMet: "ReserveNotMet",
+  AwaitingDecryption: "AwaitingDecryption",
+  AwaitingEligibility: "AwaitingEligibility",
+  AwaitingAllocations: "AwaitingAllocations",
+  VWAPRevealed: "VWAPRevealed",
+  Settled: "Settled",
+} as const;
+
+export type AuctionPhase = (typeof AuctionPhase)[keyof typeof AuctionPhase];
+
+export type AuctionAction =
+  | "bid"
+  | "amendBid"
+  | "cancelBid"
+  | "computeEncryptedVWAP"
+  | "requestVWAPDecryption"
+  | "requestReserveCheck"
+  | "requestEligibilityDecryption"
+  | "requestSumQDecryption"
+  | "requestEligibleDemandDecryption"
+  | "requestAllocationDecryption"
+  | "settle"
+  | "closeEmptyAuction"
+  | "claim";
+
+export type AuctionRole = "seller" | "bidder" | "anyone";
+
+/** Mirrors `FHEVWAPAuction.SETTLEMENT_GRACE_PERIOD`: after `end` + this, anyone may decrypt and settle. */
+export const SETTLEMENT_GRACE_PERIOD = 3 * 24 * 60 * 60;
+
+export function isGracePeriodOver(
+  auction: Pick<OnChainAuction, "end">,
+  now: number
+): boolean {
+  return now > auction.end + SETTLEMENT_GRACE_PERIOD;
+}
+
+/** Clear-cap auctions always are; encrypted-caps ones once every per-bid decryption came back. */
+export function isEligibilityResolved(
+  auction: Pick<
+    OnChainAuction,
+    "encryptedCaps" | "eligibilityRequested" | "pendingEligibility"
+  >
+): boolean {
+  return (
+    !auction.encryptedCaps ||
+    (auction.eligibilityRequested && auction.pendingEligibility === 0)
+  );
+}
+
+/** Clear-quantity auctions always are; confidential ones once every per-bid allocation came back. */
+export function isAllocationResolved(
+  auction: Pick<
+    OnChainAuction,
+    "confidentialQuantities" | "qtyReveal" | "pendingAllocations"
+  >
+): boolean {
+  return (
+    !auction.confidentialQuantities ||
+    (auction.qtyReveal === QtyReveal.AllocationsRequested &&
+      auction.pendingAllocations === 0)
+  );
+}
+
+export type AuctionPhaseInput = Pick<
+  OnChainAuction,
+  | "start"
+  | "end"
+  | "sumQ"
+  | "encVWAPComputed"
+  | "vwapSet"
+  | "settled"
+  | "pullPayments"
+  | "encryptedCaps"
+  | "eligibilityRequested"
+  | "pendingEligibility"
+  | "confidentialQuantities"
+  | "qtyReveal"
+  | "pendingAllocations"
+  | "reserveCheck"
+>;
+
+export type AuctionPhaseInfo = {
+  phase: AuctionPhase;
+  actions: Record<AuctionRole, AuctionAction[]>;
+};
+
+function _actions(
+  partial: Partial<Record<AuctionRole, AuctionAction[]>> = {}
+): Record<AuctionRole, AuctionAction[]> {
+  return {
+    seller: partial.seller ?? [],
+    bidder: partial.bidder ?? [],
+    anyone: partial.anyone ?? [],
+  };
+}
+
+/**
+ * @param now Unix timestamp in seconds (use the latest block timestamp when available).
+ */
+export function deriveAuctionPhase(
+  auction: AuctionPhaseInput,
+  now: number
+): AuctionPhaseInfo {
+  if (auction.settled) {
+    // Participants withdraw what settle recorded for them (the UI checks the amounts)
+    const claim: AuctionAction[] = auction.pullPayments ? ["claim"] : [];
+    return {
+      phase: AuctionPhase.Settled,
+      actions: _actions({ seller: claim, bidder: claim }),
+    };
+  }
+  if (auction.reserveCheck === ReserveCheck.NotMet) {
+    // The VWAP stays encrypted; settle refunds every bid and returns the base
+    return {
+      phase: AuctionPhase.ReserveNotMet,
+      actions: _actions({ anyone: ["settle"] }),
+    };
+  }
+  // An absent seller cannot lock escrow forever: after the grace period anyone may finish
+  const graceOver = isGracePeriodOver(auction, now);
+  if (auction.vwapSet && !isEligibilityResolved(auction)) {
+    // Encrypted caps: FHE.ge(cap, vwap) is decrypted bid by bid before settle can run
+    const request: AuctionAction[] = auction.eligibilityRequested
+      ? []
+      : ["requestEligibilityDecryption"];
+    return {
+      phase: AuctionPhase.AwaitingEligibility,
+      actions: _actions({
+        seller: request,
+        anyone: graceOver ? request : [],
+      }),
+    };
+  }
+  if (auction.vwapSet && !isAllocationResolved(auction)) {
+    // Confidential quantities: eligible demand, then each eligible bid's allocation, is decrypted
+    let actions = _actions();
+    if (auction.qtyReveal === QtyReveal.SumQRevealed) {
+      actions = _actions({ anyone: ["requestEligibleDemandDecryption"] });
+    } else if (auction.qtyReveal === QtyReveal.EligibleQRevealed) {
+      const request: AuctionAction[] = ["requestAllocationDecryption"];
+      actions = _actions({ seller: request, anyone: graceOver ? request : [] });
+    }
+    return { phase: AuctionPhase.AwaitingAllocations, actions };
+  }
+  if (auction.vwapSet) {
+    return {
+      phase: AuctionPhase.VWAPRevealed,
+      actions: _actions({
+        seller: ["settle"],
+        anyone: graceOver ? ["settle"] : [],
+      }),
+    };
+  }
+  if (now < auction.start) {
+    return { phase: AuctionPhase.Scheduled, actions: _actions() };
+  }
+  if (now <= auction.end) {
+    return {
+      phase: AuctionPhase.Open,
+      // Amending would post the cap (or qty) in clear, so such bids can only be cancelled
+      actions: _actions({
+        bidder:
+          auction.encryptedCaps || auction.confidentialQuantities
+            ? ["bid", "cancelBid"]
+            : ["bid", "amendBid", "cancelBid"],
+      }),
+    };
+  }
+  if (
+    auction.confidentialQuantities &&
+    auction.qtyReveal < QtyReveal.SumQRevealed
+  ) {
+    // Total demand stays encrypted until the oracle reveals it; anyone may ask once
+    return {
+      phase: AuctionPhase.ClosedAwaitingSumQ,
+      actions: _actions({
+        anyone:
+          auction.qtyReveal === QtyReveal.Hidden
+            ? ["requestSumQDecryption"]
+            : [],
+      }),
+    };
+  }
+  if (auction.sumQ === 0n) {
+    // No VWAP can be computed; live bids (e.g. voided confidential quantities) are refunded and the base is
+    // released (or rolled into the next window)
+    return {
+      phase: AuctionPhase.ClosedNoDemand,
+      actions: _actions({ anyone: ["closeEmptyAuction"] }),
+    };
+  }
+  if (!auction.encVWAPComputed) {
+    return {
+      phase: AuctionPhase.ClosedAwaitingEncryptedVWAP,
+      actions: _actions({ anyone: ["computeEncryptedVWAP"] }),
+    };
+  }
+  if (
+    auction.reserveCheck === ReserveCheck.Unchecked ||
+    auction.reserveCheck === ReserveCheck.Requested
+  ) {
+    // FHE.ge(encVWAP, reserve) is decrypted before the VWAP may be
+    const request: AuctionAction[] =
+      auction.reserveCheck === ReserveCheck.Unchecked
+        ? ["requestReserveCheck"]
+        : [];
+    return {
+      phase: AuctionPhase.AwaitingReserveCheck,
+      actions: _actions({
+        seller: request,
+        anyone: graceOver ? request : [],
+      }),
+    };
+  }
+  return {
+    phase: AuctionPhase.AwaitingDecryption,
+    actions: _actions({
+      seller: ["requestVWAPDecryption"],
+      anyone: graceOver ? ["requestVWAPDecryption"] : [],
+    }),
+  };
+}
+
+/** Actions available to a wallet holding the given roles (`anyone` is always implied). */
+export function allowedActions(
+  info: AuctionPhaseInfo,
+  roles: AuctionRole[]
+): AuctionAction[] {
+  const set = new Set<AuctionAction>(info.actions.anyone);
+  for (const role of roles) {
+    for (const action of info.actions[role]) {
+      set.add(action);
+    }
+  }
+  return [...set];
+}
+
+/** Roles of `account` on `auction`: every connected wallet may bid, the seller also gets `seller`. */
+export function auctionRolesOf(
+  auction: Pick<OnChainAuction, "seller">,
+  account: string | undefined
+): AuctionRole[] {
+  if (!account) {
+    return ["anyone"];
+  }
+  const roles: AuctionRole[] = ["anyone", "bidder"];
+  if (account.toLowerCase() === auction.seller.toLowerCase()) {
+    roles.push("seller");
+  }
+  return roles;
+}
+
+export function canPerform(
+  auction: AuctionPhaseInput & Pick<OnChainAuction, "seller">,
+  account: string | undefined,
+  action: AuctionAction,
+  now: number
+): boolean {
+  const info = deriveAuctionPhase(auction, now);
+  return allowedActions(info, auctionRolesOf(auction, account)).includes(
+    action
+  );
+}
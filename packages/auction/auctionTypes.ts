@@ -0,0 +1,231 @@
+import type { ethers } from "ethers";
+
+/**
+ * Which deployed contract flavour a client talks to. `medicine` routes create/bid
+ * through the `MedicineAuction` wrappers so the semantic events are emitted too.
+ */
+export type AuctionVariant = "generic" | "medicine";
+
+/** Mirrors `FHEVWAPAuctionStorage.QtyReveal`: progress of a confidential-quantities auction's decryptions. */
+export const QtyReveal = {
+  Hidden: 0,
+  SumQRequested: 1,
+  SumQRevealed: 2,
+  EligibleQRequested: 3,
+  EligibleQRevealed: 4,
+  AllocationsRequested: 5,
+} as const;
+
+export type QtyReveal = (typeof QtyReveal)[keyof typeof QtyReveal];
+
+/** Mirrors `FHEVWAPAuctionStorage.ReserveCheck`: whether the encrypted VWAP reached the seller's encrypted reserve. */
+export const ReserveCheck = {
+  None: 0,
+  Unchecked: 1,
+  Requested: 2,
+  Met: 3,
+  NotMet: 4,
+} as const;
+
+export type ReserveCheck = (typeof ReserveCheck)[keyof typeof ReserveCheck];
+
+/** Mirrors `FHEVWAPAuctionStorage.BidderLimits`: per-buyer caps, 0 for unlimited (see bidderLimits.ts). */
+export type BidderLimits = {
+  maxBids: number; // live bids per address
+  maxQty: bigint; // total live qty per address, raw base units
+  maxShareBps: number; // total live qty per address as a share of S, in basis points
+};
+
+/** A buyer's live bids and their total qty, as tracked on auctions with bidder limits. */
+export type BidderUsage = {
+  bids: number;
+  qty: bigint;
+};
+
+export type OnChainAuction = {
+  id: number;
+  seller: `0x${string}`;
+  S: bigint;
+  start: number; // Unix timestamp in seconds
+  end: number; // Unix timestamp in seconds
+  vwap: bigint; // quote units per whole base token
+  vwapSet: boolean;
+  settled: boolean;
+  sumQ: bigint;
+  encVWAPComputed: boolean;
+  baseToken: `0x${string}`;
+  quoteToken: `0x${string}`;
+  pullPayments: boolean; // settle records amounts that participants withdraw with `claim`
+  encryptedCaps: boolean; // bids carry an encrypted cap; eligibility is decrypted per bid before settle
+  eligibilityRequested: boolean;
+  pendingEligibility: number; // per-bid eligibility decryptions the oracle has not answered yet
+  confidentialQuantities: boolean; // bid quantities are encrypted; sumQ and allocations are decrypted after the window
+  qtyReveal: QtyReveal;
+  pendingAllocations: number; // per-bid allocation decryptions the oracle has not answered yet
+  eligibleQ: bigint; // confidential quantities: decrypted eligible demand, 0 until revealed
+  baseUnit: bigint; // 10^decimals of the base token (see amounts.ts)
+  reserveCheck: ReserveCheck; // NotMet: the auction failed, settle refunds every bid
+  priceUnit: string; // display label of prices, e.g. "sUSD per kit"; empty when the seller set none
+  metadataHash: string; // keccak256 of the off-chain metadata JSON (auctionMetadata.ts); ZeroHash when none
+  allowlistRoot: string; // Merkle root of the bidders allowed in (allowlist.ts); ZeroHash: anyone may bid
+  bidderLimits: BidderLimits;
+  auditor: string; // account the seller appointed to audit bid prices (audit.ts); ZeroAddress when none
+};
+
+export type OnChainBid = {
+  index: number;
+  buyer: `0x${string}`;
+  qty: bigint;
+  priceCap: bigint;
+  maxSpend: bigint;
+  settled: boolean; // also true once cancelled
+  cancelled: boolean;
+  encryptedCap: boolean; // priceCap is then 0
+  capMet: boolean; // encrypted cap: decrypted `cap >= vwap`, false until resolved
+  confidentialQty: boolean; // qty is then 0
+  allocation: bigint; // confidential qty: decrypted allocation, 0 until resolved
+  minFill: bigint; // smallest acceptable allocation, capped at qty (ALL_OR_NOTHING in allocation.ts); 0: none
+  minFillExcluded: boolean; // set by settle: the pro-rata share fell below minFill, so the bid is refunded
+};
+
+export type EncryptedPrice = {
+  handle: Uint8Array;
+  inputProof: Uint8Array;
+};
+
+/** Price and cap encrypted in one input: both handles share `inputProof`. */
+export type EncryptedPriceAndCap = EncryptedPrice & {
+  capHandle: Uint8Array;
+};
+
+/** Price and quantity encrypted in one input, as confidential-quantity bids require. */
+export type EncryptedPriceAndQty = EncryptedPrice & {
+  qtyHandle: Uint8Array;
+};
+
+export type CreateAuctionParams = {
+  baseToken: `0x${string}`;
+  quoteToken: `0x${string}`;
+  S: bigint;
+  start: number;
+  end: number;
+  pullPayments?: boolean;
+  encryptedCaps?: boolean;
+  confidentialQuantities?: boolean;
+  // Encrypted with `encryptPrice` by the seller, in quote units per whole base token
+  encryptedReserve?: EncryptedPrice;
+  // Label shown next to prices, at most 32 bytes
+  priceUnit?: string;
+  // `auctionMetadataHash` of the lot description, stored in an `AuctionMetadataStore` beforehand
+  metadataHash?: `0x${string}`;
+  // `buildAllowlist(...).root` of the only addresses allowed to bid
+  allowlistRoot?: `0x${string}`;
+  bidderLimits?: BidderLimits;
+  // Account allowed to decrypt every bid's price once the encrypted VWAP is computed (see audit.ts)
+  auditor?: `0x${string}`;
+};
+
+/** ERC20 metadata read by `AuctionClient.getTokenInfo`. */
+export type TokenInfo = {
+  address: `0x${string}`;
+  name: string;
+  symbol: string;
+  decimals: number;
+  // Native ETH: `address` is the auction's WETH, which escrows it (see tokenList.nativeEthToken)
+  native?: boolean;
+};
+
+/** An account's position in a token, with the allowance it granted the auction contract. */
+export type TokenAccount = {
+  balance: bigint;
+  allowance: bigint;
+};
+
+/**
+ * Mirrors `FHEVWAPAuctionStorage.TokenPermit`: a signed approval taken by the *WithPermit entry points
+ * (EIP-2612 on the token, or Permit2 when `usePermit2`). Built by the helpers in permits.ts.
+ */
+export type TokenPermit = {
+  usePermit2: boolean;
+  amount: bigint;
+  deadline: bigint;
+  nonce: bigint; // Permit2 only
+  v: number;
+  r: string;
+  s: string;
+};
+
+/**
+ * Mirrors `FHEVWAPAuctionStorage.AuctionOptions`: the settings `createAuctionWithOptions` applies in the
+ * creation transaction. Built from `CreateAuctionParams` by `auctionOptions` (auctionOptions.ts).
+ */
+export type AuctionOptions = {
+  pullPayments: boolean;
+  encryptedCaps: boolean;
+  confidentialQuantities: boolean;
+  priceUnit: string;
+  metadataHash: string;
+  encReserve: ethers.BytesLike;
+  // Empty for no reserve
+  reserveProof: ethers.BytesLike;
+  allowlistRoot: string;
+  bidderLimits: BidderLimits;
+  auditor: string;
+};
+
+/** What `claim(auctionId)` would transfer to an account on a pull-payment auction. */
+export type Claimable = {
+  base: bigint;
+  quote: bigint;
+};
+
+/** Cursor of a settlement driven through `settleBatch`; `cursor === bidCount` once every bid is settled. */
+export type SettlementProgress = {
+  started: boolean;
+  cursor: number;
+  bidCount: number;
+  eligibleQ: bigint;
+};
+
+/** Recurring schedule created by `createRecurringAuction`: windows are consecutive auction ids. */
+export type OnChainSeries = {
+  id: number;
+  seller: `0x${string}`;
+  firstAuctionId: number;
+  windows: number;
+  supplyPerWindow: bigint;
+  windowLength: number; // seconds
+};
+
+export type CreateRecurringAuctionParams = {
+  baseToken: `0x${string}`;
+  quoteToken: `0x${string}`;
+  supplyPerWindow: bigint;
+  firstStart: number;
+  windowLength: number;
+  windows: number;
+};
+
+export type SubmitBidParams = {
+  auctionId: number;
+  qty: bigint;
+  priceCap: bigint;
+  maxSpend: bigint;
+  // Attach the escrow as native ETH instead of pulling the quote token; WETH-quoted auctions only
+  payWithEth?: boolean;
+  // Smallest acceptable allocation, set right after the bid (`setMinFill`); clear-quantity auctions only
+  minFill?: bigint;
+  // The signer's proof from the auction's published allowlist, used to `joinAllowlist` before the first bid
+  allowlistProof?: `0x${string}`[];
+};
+
+export type AmendBidParams = SubmitBidParams & { bidIndex: number };
+
+export type AuctionClientLogger = (message: string) => void;
+
+export type AuctionClientParameters = {
+  address: `0x${string}`;
+  runner: ethers.ContractRunner;
+  variant: AuctionVariant;
+  log?: AuctionClientLogger;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "vitest";
+import { auditHandlePairs, readAuditDecryption, verifyAudit, type AuditHandles } from "./audit";
+
+const AUCTION = "0x00000000000000000000000000000000000000aa";
+const ALICE = "0x0000000000000000000000000000000000000001";
+const BOB = "0x0000000000000000000000000000000000000002";
+const h = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+
+const clearQty: AuditHandles = {
+  auctionId: 1,
+  encSumPQ: h(1),
+  encVWAP: h(2),
+  bids: [
+    { index: 0, buyer: ALICE, price: h(3), qty: 30n },
+    { index: 2, buyer: BOB, price: h(4), qty: 50n },
+  ],
+};
+const confidentialQty: AuditHandles = {
+  ...clearQty,
+  bids: [
+    { index: 0, buyer: ALICE, price: h(3), qty: 0n, qtyHandle: h(5) },
+    { index: 2, buyer: BOB, price: h(4), qty: 0n, qtyHandle: h(6) },
+  ],
+};
+// Alice at 100, Bob at 120: sum(p*q) = 9000, sumQ = 80, VWAP = floor(112.5)
+const results = { [h(1)]: 9000n, [h(2)]: 112n, [h(3)]: 100n, [h(4)]: 120n, [h(5)]: 30n, [h(6)]: 50n };
+const revealed = { sumQ: 80n, vwap: 112n, vwapSet: true };
+
+describe("auditHandlePairs", () => {
+  test("lists the aggregates, every price and the encrypted quantities", () => {
+    expect(auditHandlePairs(clearQty, AUCTION).map((p) => p.handle)).toEqual([h(1), h(2), h(3), h(4)]);
+    expect(auditHandlePairs(confidentialQty, AUCTION).map((p) => p.handle)).toEqual([h(1), h(2), h(3), h(5), h(4), h(6)]);
+    expect(auditHandlePairs(clearQty, AUCTION).every((p) => p.contractAddress === AUCTION)).toBe(true);
+  });
+});
+
+describe("readAuditDecryption", () => {
+  test("takes clear quantities from the bids and encrypted ones from the results", () => {
+    const expected = [
+      { index: 0, buyer: ALICE, price: 100n, qty: 30n },
+      { index: 2, buyer: BOB, price: 120n, qty: 50n },
+    ];
+    expect(readAuditDecryption(clearQty, results)).toEqual({ encSumPQ: 9000n, encVWAP: 112n, bids: expected });
+    expect(readAuditDecryption(confidentialQty, results).bids).toEqual(expected);
+  });
+
+  test("throws when a handle was not decrypted", () => {
+    const partial = Object.fromEntries(Object.entries(results).filter(([handle]) => handle !== h(4)));
+    expect(() => readAuditDecryption(clearQty, partial)).toThrow(/was not decrypted/);
+  });
+});
+
+describe("verifyAudit", () => {
+  const decryption = readAuditDecryption(clearQty, results);
+
+  test("accepts a VWAP that matches the decrypted bids", () => {
+    const report = verifyAudit(revealed, decryption);
+    expect(report).toMatchObject({ sumQ: 80n, sumPQ: 9000n, vwap: 112n, vwapMatches: true, ok: true });
+  });
+
+  test("leaves the revealed VWAP unchecked until it is public", () => {
+    const report = verifyAudit({ ...revealed, vwap: 0n, vwapSet: false }, decryption);
+    expect(report.vwapMatches).toBeUndefined();
+    expect(report.ok).toBe(true);
+  });
+
+  test("flags each figure that does not add up", () => {
+    expect(verifyAudit({ ...revealed, vwap: 113n }, decryption)).toMatchObject({ vwapMatches: false, ok: false });
+    expect(verifyAudit({ ...revealed, sumQ: 81n }, decryption)).toMatchObject({ sumQMatches: false, ok: false });
+    expect(verifyAudit(revealed, { ...decryption, encSumPQ: 9001n })).toMatchObject({ sumPQMatches: false, ok: false });
+    expect(verifyAudit(revealed, { ...decryption, encVWAP: 111n })).toMatchObject({ encVWAPMatches: false, ok: false });
+  });
+});
@@ -0,0 +1,110 @@
+import type { DecryptedResults, HandleContractPair } from "./fhevm/fhevmTypes";
+import type { OnChainAuction } from "./auctionTypes";
+
+/*
+  Auditing an auction's VWAP. Once the encrypted VWAP is computed, an auditor (the one the seller appointed when
+  creating the auction, or a registry auditor on MedicineAuction) calls `grantAuditAccess` to be allowed on every
+  live bid's encrypted price (and encrypted qty in confidential-quantity mode), encSumPQ and encVWAP, decrypts them
+  with a user decryption signature and recomputes sum(price * qty) / sumQ off-chain, without any price becoming
+  public.
+*/
+
+/** Handles of one live bid; `qtyHandle` is set on confidential-quantity auctions, where `qty` is 0. */
+export type AuditBidHandles = {
+  index: number;
+  buyer: `0x${string}`;
+  price: string;
+  qty: bigint;
+  qtyHandle?: string;
+};
+
+export type AuditHandles = {
+  auctionId: number;
+  encSumPQ: string;
+  encVWAP: string;
+  bids: AuditBidHandles[];
+};
+
+export type AuditedBid = {
+  index: number;
+  buyer: `0x${string}`;
+  price: bigint;
+  qty: bigint;
+};
+
+/** Clear values of an `AuditHandles`. */
+export type AuditDecryption = {
+  bids: AuditedBid[];
+  encSumPQ: bigint;
+  encVWAP: bigint;
+};
+
+export type AuditReport = {
+  bids: AuditedBid[];
+  // Recomputed from the decrypted bids
+  sumQ: bigint;
+  sumPQ: bigint;
+  vwap: bigint; // floor(sumPQ / sumQ), as the contract's FHE.div
+  sumQMatches: boolean; // against the auction's public sumQ
+  sumPQMatches: boolean; // against the decrypted encSumPQ
+  encVWAPMatches: boolean; // against the decrypted encVWAP
+  vwapMatches: boolean | undefined; // against the revealed VWAP; undefined until it is revealed
+  ok: boolean;
+};
+
+/** Every handle of `handles` paired with the auction contract, as `userDecrypt` takes them. */
+export function auditHandlePairs(handles: AuditHandles, contractAddress: string): HandleContractPair[] {
+  const list = [handles.encSumPQ, handles.encVWAP];
+  for (const b of handles.bids) {
+    list.push(b.price);
+    if (b.qtyHandle) list.push(b.qtyHandle);
+  }
+  return list.map((handle) => ({ handle, contractAddress }));
+}
+
+function clearValue(results: DecryptedResults, handle: string): bigint {
+  const value = results[handle] ?? results[handle.toLowerCase()];
+  if (typeof value !== "bigint") {
+    throw new Error(`handle ${handle} was not decrypted`);
+  }
+  return value;
+}
+
+/** Reads the clear values of `handles` out of a `userDecrypt` result; throws when one is missing. */
+export function readAuditDecryption(handles: AuditHandles, results: DecryptedResults): AuditDecryption {
+  return {
+    encSumPQ: clearValue(results, handles.encSumPQ),
+    encVWAP: clearValue(results, handles.encVWAP),
+    bids: handles.bids.map((b) => ({
+      index: b.index,
+      buyer: b.buyer,
+      price: clearValue(results, b.price),
+      qty: b.qtyHandle ? clearValue(results, b.qtyHandle) : b.qty,
+    })),
+  };
+}
+
+/** Recomputes the VWAP from the decrypted bids and checks it against the auction's encrypted and public figures. */
+export function verifyAudit(
+  auction: Pick<OnChainAuction, "sumQ" | "vwap" | "vwapSet">,
+  decryption: AuditDecryption
+): AuditReport {
+  const sumQ = decryption.bids.reduce((sum, b) => sum + b.qty, 0n);
+  const sumPQ = decryption.bids.reduce((sum, b) => sum + b.price * b.qty, 0n);
+  const vwap = sumQ === 0n ? 0n : sumPQ / sumQ;
+  const sumQMatches = sumQ === auction.sumQ;
+  const sumPQMatches = sumPQ === decryption.encSumPQ;
+  const encVWAPMatches = vwap === decryption.encVWAP;
+  const vwapMatches = auction.vwapSet ? vwap === auction.vwap : undefined;
+  return {
+    bids: decryption.bids,
+    sumQ,
+    sumPQ,
+    vwap,
+    sumQMatches,
+    sumPQMatches,
+    encVWAPMatches,
+    vwapMatches,
+    ok: sumQMatches && sumPQMatches && encVWAPMatches && vwapMatches !== false,
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "vitest";
+import { checkBidLimits, MAX_UINT64, parseBidAmount } from "./bidLimits";
+
+const clear = { sumQ: 0n, confidentialQuantities: false };
+
+describe("parseBidAmount", () => {
+  test("accepts whole numbers up to 2^64 - 1 without losing precision", () => {
+    expect(parseBidAmount(" 120 ")).toBe(120n);
+    expect(parseBidAmount("18446744073709551615")).toBe(MAX_UINT64);
+    expect(parseBidAmount("9007199254740993")).toBe(9007199254740993n);
+  });
+
+  test("scales by the token decimals before applying the uint64 bound", () => {
+    expect(parseBidAmount("2.5", 6)).toBe(2_500_000n);
+    expect(parseBidAmount("18", 18)).toBe(18n * 10n ** 18n);
+    expect(parseBidAmount("19", 18)).toBeUndefined();
+  });
+
+  test("rejects decimals, negatives, empty input and values past uint64", () => {
+    expect(parseBidAmount("1.5")).toBeUndefined();
+    expect(parseBidAmount("-1")).toBeUndefined();
+    expect(parseBidAmount("")).toBeUndefined();
+    expect(parseBidAmount("1e3")).toBeUndefined();
+    expect(parseBidAmount("18446744073709551616")).toBeUndefined();
+  });
+});
+
+describe("checkBidLimits", () => {
+  test("passes bids within the 64-bit domain", () => {
+    expect(checkBidLimits(clear, { price: MAX_UINT64, qty: MAX_UINT64, priceCap: MAX_UINT64 })).toBeUndefined();
+  });
+
+  test("flags the field that would wrap", () => {
+    expect(checkBidLimits(clear, { price: MAX_UINT64 + 1n, qty: 1n, priceCap: 1n })).toBe("price");
+    expect(checkBidLimits(clear, { price: 1n, qty: MAX_UINT64 + 1n, priceCap: 1n })).toBe("qty");
+    expect(checkBidLimits(clear, { price: 1n, qty: 1n, priceCap: MAX_UINT64 + 1n })).toBe("cap");
+  });
+
+  test("keeps the clear sumQ within 2^64 - 1, crediting the qty an amendment replaces", () => {
+    const auction = { sumQ: MAX_UINT64 - 10n, confidentialQuantities: false };
+    expect(checkBidLimits(auction, { price: 1n, qty: 10n, priceCap: 1n })).toBeUndefined();
+    expect(checkBidLimits(auction, { price: 1n, qty: 11n, priceCap: 1n })).toBe("sumQ");
+    expect(checkBidLimits(auction, { price: 1n, qty: 15n, priceCap: 1n }, 5n)).toBeUndefined();
+  });
+
+  test("leaves the sumQ bound to the contract on confidential-quantity auctions", () => {
+    const auction = { sumQ: MAX_UINT64, confidentialQuantities: true };
+    expect(checkBidLimits(auction, { price: 1n, qty: 1n, priceCap: 1n })).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { parseAmount } from "./amounts";
+import type { OnChainAuction } from "./auctionTypes";
+
+/** Largest value an euint64 (prices, encrypted caps and quantities) or the clear `sumQ` can hold. */
+export const MAX_UINT64 = 2n ** 64n - 1n;
+
+export type BidAmounts = {
+  price: bigint;
+  qty: bigint;
+  priceCap: bigint;
+};
+
+/** Same revert string as `FHEVWAPAuction` for "sumQ"; the others would wrap silently inside FHE. */
+export type BidOverflow = "price" | "qty" | "cap" | "sumQ";
+
+/**
+ * Parses a bid form field in human units of a token with `decimals` (see `parseAmount`);
+ * `undefined` when it is not an amount or its raw value is past the uint64 domain.
+ */
+export function parseBidAmount(value: string, decimals = 0): bigint | undefined {
+  const n = parseAmount(value, decimals);
+  return n !== undefined && n <= MAX_UINT64 ? n : undefined;
+}
+
+/**
+ * Which field would overflow the contract's 64-bit domain, if any. On clear-quantity auctions the
+ * auction's `sumQ` plus `qty` (minus `replacedQty` when amending) must stay within 2^64 - 1 too;
+ * confidential-quantity auctions void such a qty on-chain instead, which only the bidder can see.
+ */
+export function checkBidLimits(
+  auction: Pick<OnChainAuction, "sumQ" | "confidentialQuantities">,
+  bid: BidAmounts,
+  replacedQty = 0n
+): BidOverflow | undefined {
+  if (bid.price < 0n || bid.price > MAX_UINT64) return "price";
+  if (bid.qty < 0n || bid.qty > MAX_UINT64) return "qty";
+  if (bid.priceCap < 0n || bid.priceCap > MAX_UINT64) return "cap";
+  if (!auction.confidentialQuantities && auction.sumQ - replacedQty + bid.qty > MAX_UINT64) return "sumQ";
+  return undefined;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "vitest";
+import { checkBidderLimits, maxBidderQty, NO_BIDDER_LIMITS, validateBidderLimits } from "./bidderLimits";
+
+const auction = (limits: Partial<typeof NO_BIDDER_LIMITS>) => ({ S: 1000n, bidderLimits: { ...NO_BIDDER_LIMITS, ...limits } });
+const none = { bids: 0, qty: 0n };
+
+describe("maxBidderQty", () => {
+  test("takes the tighter of the qty cap and the share of S", () => {
+    expect(maxBidderQty(1000n, NO_BIDDER_LIMITS)).toBeUndefined();
+    expect(maxBidderQty(1000n, { ...NO_BIDDER_LIMITS, maxQty: 300n })).toBe(300n);
+    expect(maxBidderQty(1000n, { ...NO_BIDDER_LIMITS, maxShareBps: 2500 })).toBe(250n);
+    expect(maxBidderQty(1000n, { ...NO_BIDDER_LIMITS, maxQty: 200n, maxShareBps: 2500 })).toBe(200n);
+  });
+});
+
+describe("checkBidderLimits", () => {
+  test("counts live bids against maxBids, except for amendments", () => {
+    const a = auction({ maxBids: 2 });
+    expect(checkBidderLimits(a, { bids: 1, qty: 10n }, 10n)).toBeUndefined();
+    expect(checkBidderLimits(a, { bids: 2, qty: 20n }, 10n)).toBe("bidder bid limit");
+    expect(checkBidderLimits(a, { bids: 2, qty: 20n }, 10n, 10n)).toBeUndefined();
+  });
+
+  test("blocks splitting a demand over the cap into several bids", () => {
+    const a = auction({ maxShareBps: 2500 });
+    expect(checkBidderLimits(a, none, 250n)).toBeUndefined();
+    expect(checkBidderLimits(a, { bids: 1, qty: 150n }, 100n)).toBeUndefined();
+    expect(checkBidderLimits(a, { bids: 1, qty: 150n }, 101n)).toBe("bidder qty limit");
+  });
+
+  test("lets amendments lower the qty, and raise it up to the cap", () => {
+    const a = auction({ maxQty: 100n });
+    expect(checkBidderLimits(a, { bids: 2, qty: 120n }, 10n, 30n)).toBeUndefined();
+    expect(checkBidderLimits(a, { bids: 2, qty: 90n }, 40n, 30n)).toBeUndefined();
+    expect(checkBidderLimits(a, { bids: 2, qty: 90n }, 41n, 30n)).toBe("bidder qty limit");
+  });
+});
+
+describe("validateBidderLimits", () => {
+  test("rejects shares over 100% and qty caps on confidential quantities", () => {
+    expect(validateBidderLimits({ ...NO_BIDDER_LIMITS, maxShareBps: 10_001 }, false)).toBe("invalid share");
+    expect(validateBidderLimits({ ...NO_BIDDER_LIMITS, maxQty: 5n }, true)).toBe("confidential qty");
+    expect(validateBidderLimits({ ...NO_BIDDER_LIMITS, maxBids: 3 }, true)).toBeUndefined();
+  });
+});
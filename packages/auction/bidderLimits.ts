@@ -0,0 +1,48 @@
+import type { BidderLimits, BidderUsage, OnChainAuction } from "./auctionTypes";
+
+/*
+  Per-buyer caps of an auction (`bidderLimits`, set at creation), which stop one address from dominating the pro-rata
+  allocation by splitting its demand over many bids. Mirrors the checks of `FHEVWAPAuctionDecryptions.trackBidder`.
+*/
+
+export const BPS = 10_000;
+
+export const NO_BIDDER_LIMITS: BidderLimits = { maxBids: 0, maxQty: 0n, maxShareBps: 0 };
+
+export function hasBidderLimits(limits: BidderLimits): boolean {
+  return limits.maxBids !== 0 || limits.maxQty !== 0n || limits.maxShareBps !== 0;
+}
+
+/** The tighter of `maxQty` and `maxShareBps` of `S`; `undefined` when neither is set. */
+export function maxBidderQty(S: bigint, limits: BidderLimits): bigint | undefined {
+  const byShare = limits.maxShareBps !== 0 ? (S * BigInt(limits.maxShareBps)) / BigInt(BPS) : undefined;
+  if (limits.maxQty === 0n) return byShare;
+  return byShare !== undefined && byShare < limits.maxQty ? byShare : limits.maxQty;
+}
+
+/** Why the contract would reject the limits, as its revert string; `undefined` when they are valid. */
+export function validateBidderLimits(
+  limits: BidderLimits,
+  confidentialQuantities: boolean
+): "invalid share" | "confidential qty" | undefined {
+  if (limits.maxShareBps < 0 || limits.maxShareBps > BPS) return "invalid share";
+  if (confidentialQuantities && (limits.maxQty !== 0n || limits.maxShareBps !== 0)) return "confidential qty";
+  return undefined;
+}
+
+/**
+ * Which limit a new bid of `qty` (or an amendment replacing `replacedQty`) would break, as the contract's
+ * revert string; `undefined` when it fits. `usage` is the buyer's current live bids and qty.
+ */
+export function checkBidderLimits(
+  auction: Pick<OnChainAuction, "S" | "bidderLimits">,
+  usage: BidderUsage,
+  qty: bigint,
+  replacedQty?: bigint
+): "bidder bid limit" | "bidder qty limit" | undefined {
+  const limits = auction.bidderLimits;
+  if (replacedQty === undefined && limits.maxBids !== 0 && usage.bids + 1 > limits.maxBids) return "bidder bid limit";
+  const max = maxBidderQty(auction.S, limits);
+  if (max !== undefined && qty > (replacedQty ?? 0n) && usage.qty - (replacedQty ?? 0n) + qty > max) return "bidder qty limit";
+  return undefined;
+}
@@ -0,0 +1,141 @@
+import type { BidderLimits, BidderUsage, QtyReveal, ReserveCheck } from "./auctionTypes";
+
+export const INDEXED_AUCTION_EVENTS = [
+  "AuctionCreated",
+  "BidSubmitted",
+  "MunicipalityBid",
+  "EncryptedVWAPComputed",
+  "VWAPDecrypted",
+  "Allocated",
+  "Refunded",
+  "SellerPaid",
+  "BaseRemainderReturned",
+  "SeriesCreated",
+  "BaseRolledOver",
+  "BidAmended",
+  "BidCancelled",
+  "PullPaymentsSet",
+  "Claimed",
+  "EncryptedCapsSet",
+  "EligibilityDecryptionRequested",
+  "EligibilityDecrypted",
+  "ConfidentialQuantitiesSet",
+  "SumQDecrypted",
+  "EligibleDemandDecrypted",
+  "AllocationDecryptionRequested",
+  "AllocationDecrypted",
+  "ReservePriceSet",
+  "ReserveChecked",
+  "MinFillSet",
+  "MinFillExcluded",
+  "PriceUnitSet",
+  "MetadataSet",
+  "AllowlistSet",
+  "AllowlistJoined",
+  "BidderLimitsSet",
+  "AuditorSet",
+  "AuditAccessGranted",
+] as const;
+
+// Bump whenever INDEXED_AUCTION_EVENTS changes so stale snapshots get re-synced
+export const AUCTION_INDEX_SNAPSHOT_VERSION = 13;
+
+export type IndexedAuctionEventName = (typeof INDEXED_AUCTION_EVENTS)[number];
+
+/**
+ * JSON-safe copy of a decoded contract log. Every argument is stored as a string
+ * (bigints in base 10) so snapshots survive `JSON.stringify` and IndexedDB.
+ */
+export type IndexedAuctionEvent = {
+  name: IndexedAuctionEventName;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, string>;
+};
+
+/** What gets persisted: the event log plus the sync cursor. The projection is derived from it. */
+export type AuctionIndexSnapshot = {
+  version: typeof AUCTION_INDEX_SNAPSHOT_VERSION;
+  chainId: number;
+  address: string;
+  startBlock: number;
+  lastBlock: number; // last fully processed block (startBlock - 1 when empty)
+  lastBlockHash: string | undefined;
+  events: IndexedAuctionEvent[];
+};
+
+export type IndexedAuction = {
+  id: number;
+  seller: `0x${string}`;
+  S: bigint;
+  start: number;
+  end: number;
+  baseToken: `0x${string}` | undefined;
+  quoteToken: `0x${string}` | undefined;
+  sumQ: bigint;
+  bidCount: number;
+  encVWAPComputed: boolean;
+  vwap: bigint;
+  vwapSet: boolean;
+  settled: boolean;
+  sellerPaid: bigint;
+  baseReturned: bigint;
+  rolledOver: bigint; // unsold base moved into the next window of its series
+  seriesId: number | undefined;
+  refunds: Record<string, bigint>; // lower-cased buyer => total refunded
+  pullPayments: boolean;
+  claims: Record<string, { base: bigint; quote: bigint }>; // lower-cased account => claimed
+  encryptedCaps: boolean;
+  eligibilityRequested: boolean;
+  pendingEligibility: number;
+  confidentialQuantities: boolean; // sumQ stays 0 until `SumQDecrypted`
+  eligibleQ: bigint; // confidential quantities: decrypted eligible demand
+  qtyReveal: QtyReveal; // requests without an event (sumQ, eligible demand) are not seen
+  pendingAllocations: number;
+  reserveCheck: ReserveCheck; // the check request has no event: Unchecked until the result
+  priceUnit: string;
+  metadataHash: string; // ZeroHash until `MetadataSet`
+  allowlistRoot: string; // ZeroHash until `AllowlistSet`
+  allowlistMembers: `0x${string}`[]; // accounts that joined the allowlist, in join order
+  bidderLimits: BidderLimits;
+  bidders: Record<string, BidderUsage>; // lower-cased buyer => live bids and clear qty (0 for confidential qty)
+  auditor: string; // ZeroAddress until `AuditorSet`
+  auditedBy: `0x${string}`[]; // accounts granted access to the bid prices by `grantAuditAccess`, in grant order
+  createdBlock: number;
+};
+
+export type IndexedBid = {
+  auctionId: number;
+  index: number;
+  buyer: `0x${string}`;
+  qty: bigint;
+  priceCap: bigint;
+  maxSpend: bigint;
+  municipality: boolean;
+  blockNumber: number;
+  transactionHash: string;
+  settled: boolean;
+  cancelled: boolean;
+  encryptedCap: boolean;
+  capMet: boolean; // decrypted `cap >= vwap` of an encrypted cap
+  confidentialQty: boolean; // qty is then 0
+  decryptedAllocation: bigint | undefined; // confidential qty: revealed before settle
+  minFill: bigint; // 0: none; capped at qty by settle
+  minFillExcluded: boolean; // refunded by settle: the pro-rata share fell below minFill
+  // Known once the auction is settled
+  allocation: bigint | undefined;
+  spend: bigint | undefined;
+  refund: bigint | undefined;
+};
+
+export type AuctionIndexProjection = {
+  auctions: Record<number, IndexedAuction>;
+  bids: Record<number, IndexedBid[]>;
+};
+
+export interface AuctionIndexStorage {
+  load(key: string): Promise<AuctionIndexSnapshot | undefined>;
+  save(key: string, snapshot: AuctionIndexSnapshot): Promise<void>;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, test } from "vitest";
+import { ZeroAddress, ZeroHash } from "ethers";
+import { reduceAuctionEvents } from "./auctionIndexProjection";
+import { QtyReveal, ReserveCheck, type OnChainAuction, type OnChainBid } from "./auctionTypes";
+import type { IndexedAuctionEvent, IndexedAuctionEventName } from "./indexerTypes";
+import { buildMyBids } from "./myBids";
+import { NO_BIDDER_LIMITS } from "./bidderLimits";
+
+const SELLER = "0x00000000000000000000000000000000000000aA";
+const ALICE = "0x00000000000000000000000000000000000000A1";
+const BOB = "0x00000000000000000000000000000000000000B0";
+
+let logIndex = 0;
+function ev(name: IndexedAuctionEventName, blockNumber: number, args: Record<string, string | number>): IndexedAuctionEvent {
+  return {
+    name,
+    blockNumber,
+    blockHash: `0xb${blockNumber}`,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+    logIndex: logIndex++,
+    args: Object.fromEntries(Object.entries(args).map(([k, v]) => [k, String(v)])),
+  };
+}
+
+function auction(overrides: Partial<OnChainAuction> = {}): OnChainAuction {
+  return {
+    id: 1,
+    seller: SELLER,
+    S: 100n,
+    start: 10,
+    end: 20,
+    vwap: 0n,
+    vwapSet: false,
+    settled: false,
+    sumQ: 40n,
+    encVWAPComputed: false,
+    baseToken: "0x0000000000000000000000000000000000000001",
+    quoteToken: "0x0000000000000000000000000000000000000002",
+    pullPayments: false,
+    encryptedCaps: false,
+    eligibilityRequested: false,
+    pendingEligibility: 0,
+    confidentialQuantities: false,
+    qtyReveal: QtyReveal.Hidden,
+    pendingAllocations: 0,
+    reserveCheck: ReserveCheck.None,
+    priceUnit: "",
+    metadataHash: ZeroHash,
+    allowlistRoot: ZeroHash,
+    bidderLimits: NO_BIDDER_LIMITS,
+    auditor: ZeroAddress,
+    eligibleQ: 0n,
+    baseUnit: 1n,
+    ...overrides,
+  };
+}
+
+function bids(settled: boolean): OnChainBid[] {
+  return [
+    { index: 0, buyer: ALICE, qty: 30n, priceCap: 120n, maxSpend: 3600n, settled, cancelled: false, encryptedCap: false, capMet: false, confidentialQty: false, allocation: 0n, minFill: 0n, minFillExcluded: false },
+    { index: 1, buyer: BOB, qty: 50n, priceCap: 90n, maxSpend: 4500n, settled, cancelled: false, encryptedCap: false, capMet: false, confidentialQty: false, allocation: 0n, minFill: 0n, minFillExcluded: false },
+    { index: 2, buyer: ALICE, qty: 10n, priceCap: 80n, maxSpend: 800n, settled, cancelled: false, encryptedCap: false, capMet: false, confidentialQty: false, allocation: 0n, minFill: 0n, minFillExcluded: false },
+  ];
+}
+
+describe("buildMyBids", () => {
+  test("lists only the account's bids and counts them as escrowed while open", () => {
+    const s = buildMyBids(ALICE.toLowerCase(), [auction()], { 1: bids(false) }, undefined, 15);
+    expect(s.rows.map((r) => [r.index, r.status])).toEqual([
+      [0, "Escrowed"],
+      [2, "Escrowed"],
+    ]);
+    expect(s.escrowed).toBe(4400n);
+    expect(s.spent).toBe(0n);
+  });
+
+  test("reports eligibility once the VWAP is public", () => {
+    const s = buildMyBids(ALICE, [auction({ vwap: 98n, vwapSet: true })], { 1: bids(false) }, undefined, 30);
+    expect(s.rows.map((r) => [r.status, r.eligible])).toEqual([
+      ["AwaitingSettlement", true],
+      ["AwaitingSettlement", false],
+    ]);
+  });
+
+  test("reconstructs allocation, spend and refund after settlement", () => {
+    const projection = reduceAuctionEvents([
+      ev("AuctionCreated", 1, { auctionId: 1, seller: SELLER, S: 100, start: 10, end: 20 }),
+      ev("BidSubmitted", 2, { auctionId: 1, buyer: ALICE, qty: 30, priceCap: 120, maxSpend: 3600 }),
+      ev("BidSubmitted", 3, { auctionId: 1, buyer: BOB, qty: 50, priceCap: 90, maxSpend: 4500 }),
+      ev("BidSubmitted", 4, { auctionId: 1, buyer: ALICE, qty: 10, priceCap: 80, maxSpend: 800 }),
+      ev("VWAPDecrypted", 5, { auctionId: 1, vwap: 98 }),
+      ev("Refunded", 6, { auctionId: 1, buyer: ALICE, amount: 660 }),
+      ev("Allocated", 6, { auctionId: 1, buyer: ALICE, alloc: 30, spend: 2940 }),
+      ev("Refunded", 6, { auctionId: 1, buyer: BOB, amount: 4500 }),
+      ev("Refunded", 6, { auctionId: 1, buyer: ALICE, amount: 800 }),
+      ev("BaseRemainderReturned", 6, { auctionId: 1, seller: SELLER, amount: 70 }),
+      ev("SellerPaid", 6, { auctionId: 1, seller: SELLER, amount: 2940 }),
+    ]);
+    const settled = auction({ vwap: 98n, vwapSet: true, settled: true });
+    const s = buildMyBids(ALICE, [settled], { 1: bids(true) }, projection, 30);
+    expect(s.rows.map((r) => r.status)).toEqual(["Allocated", "Refunded"]);
+    expect([s.escrowed, s.spent, s.refunded, s.allocated]).toEqual([0n, 2940n, 1460n, 30n]);
+    expect(s.rows[0].transactionHash).toBe(projection.bids[1][0].transactionHash);
+  });
+
+  test("reports cancelled bids without counting them as escrowed", () => {
+    const onChain = bids(false);
+    onChain[2] = { ...onChain[2], settled: true, cancelled: true };
+    const s = buildMyBids(ALICE, [auction()], { 1: onChain }, undefined, 15);
+    expect(s.rows.map((r) => r.status)).toEqual(["Escrowed", "Cancelled"]);
+    expect(s.escrowed).toBe(3600n);
+  });
+
+  test("falls back to Settled when the projection lags behind the chain", () => {
+    const settled = auction({ vwap: 98n, vwapSet: true, settled: true });
+    const s = buildMyBids(ALICE, [settled], { 1: bids(true) }, undefined, 30);
+    expect(s.rows.every((r) => r.status === "Settled" && r.spend === undefined)).toBe(true);
+    expect(s.escrowed).toBe(0n);
+  });
+});
@@ -0,0 +1,110 @@
+import { deriveAuctionPhase, isEligibilityResolved, type AuctionPhase } from "./auctionPhase";
+import type { OnChainAuction, OnChainBid } from "./auctionTypes";
+import type { AuctionIndexProjection } from "./indexerTypes";
+import { meetsVWAP } from "./simulateSettlement";
+
+export type MyBidStatus =
+  | "Escrowed" // window still open
+  | "AwaitingVWAP"
+  | "AwaitingSettlement"
+  | "Allocated"
+  | "Refunded"
+  | "Cancelled" // withdrawn during the window, escrow refunded
+  | "Settled"; // settled on-chain but allocation not indexed (yet)
+
+export type MyBidRow = {
+  auctionId: number;
+  index: number;
+  qty: bigint;
+  confidentialQty: boolean; // qty is not on-chain; only the decrypted allocation is
+  priceCap: bigint;
+  encryptedCap: boolean; // priceCap is not on-chain; amending is not possible
+  maxSpend: bigint;
+  phase: AuctionPhase;
+  status: MyBidStatus;
+  vwap: bigint | undefined;
+  eligible: boolean | undefined; // priceCap >= vwap, once the VWAP is public
+  allocation: bigint | undefined;
+  spend: bigint | undefined;
+  refund: bigint | undefined;
+  transactionHash: string | undefined;
+  blockNumber: number | undefined;
+};
+
+export type MyBidsSummary = {
+  rows: MyBidRow[];
+  escrowed: bigint; // quote still locked in unsettled bids
+  spent: bigint;
+  refunded: bigint;
+  allocated: bigint;
+};
+
+/**
+ * Joins `getBids` (source of truth for what is escrowed) with the indexer projection
+ * (allocation/spend/refund reconstructed from `Allocated`/`Refunded`) for one wallet.
+ */
+export function buildMyBids(
+  account: string,
+  auctions: readonly OnChainAuction[],
+  bidsByAuction: Readonly<Record<number, readonly OnChainBid[]>>,
+  projection: AuctionIndexProjection | undefined,
+  now: number
+): MyBidsSummary {
+  const me = account.toLowerCase();
+  const rows: MyBidRow[] = [];
+
+  for (const auction of auctions) {
+    const phase = deriveAuctionPhase(auction, now).phase;
+    const indexed = projection?.bids[auction.id] ?? [];
+    for (const bid of bidsByAuction[auction.id] ?? []) {
+      if (bid.buyer.toLowerCase() !== me) continue;
+      const ib = indexed[bid.index];
+      const settledInfo = ib?.settled ? ib : undefined;
+
+      let status: MyBidStatus;
+      if (bid.cancelled) {
+        status = "Cancelled";
+      } else if (bid.settled) {
+        if (!settledInfo) status = "Settled";
+        else status = settledInfo.allocation! > 0n ? "Allocated" : "Refunded";
+      } else if (auction.vwapSet) {
+        status = "AwaitingSettlement";
+      } else if (now <= auction.end) {
+        status = "Escrowed";
+      } else {
+        status = "AwaitingVWAP";
+      }
+
+      rows.push({
+        auctionId: auction.id,
+        index: bid.index,
+        qty: bid.qty,
+        confidentialQty: bid.confidentialQty,
+        priceCap: bid.priceCap,
+        encryptedCap: bid.encryptedCap,
+        maxSpend: bid.maxSpend,
+        phase,
+        status,
+        vwap: auction.vwapSet ? auction.vwap : undefined,
+        eligible:
+          auction.vwapSet && !bid.cancelled && isEligibilityResolved(auction) ? meetsVWAP(bid, auction.vwap) : undefined,
+        allocation: settledInfo?.allocation,
+        spend: settledInfo?.spend,
+        refund: settledInfo?.refund,
+        transactionHash: ib?.transactionHash,
+        blockNumber: ib?.blockNumber,
+      });
+    }
+  }
+
+  const sum = (pick: (r: MyBidRow) => bigint | undefined) =>
+    rows.reduce((acc, r) => acc + (pick(r) ?? 0n), 0n);
+
+  return {
+    rows,
+    escrowed: sum((r) => (r.status === "Escrowed" || r.status === "AwaitingVWAP" || r.status === "AwaitingSettlement" ? r.maxSpend : 0n)),
+    spent: sum((r) => r.spend),
+    refunded: sum((r) => r.refund),
+    allocated: sum((r) => r.allocation),
+  };
+}
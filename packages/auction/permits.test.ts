@@ -0,0 +1,27 @@
+import { ethers } from "ethers";
+import { describe, expect, test } from "vitest";
+import { erc2612PermitTypedData, PERMIT2_ADDRESS, permit2TypedData, toTokenPermit } from "./permits";
+
+const wallet = new ethers.Wallet("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const AUCTION = "0x00000000000000000000000000000000000000b0";
+
+describe("permit typed data", () => {
+  test("Permit2 PermitSingle uses a domain without version and the deadline as expiration", async () => {
+    const typed = permit2TypedData({ chainId: 31337n, token: TOKEN, spender: AUCTION, amount: 1_200n, nonce: 3n, deadline: 1_000n });
+    expect(typed.domain).toEqual({ name: "Permit2", chainId: 31337n, verifyingContract: PERMIT2_ADDRESS });
+    expect(typed.message).toEqual({ details: { token: TOKEN, amount: 1_200n, expiration: 1_000n, nonce: 3n }, spender: AUCTION, sigDeadline: 1_000n });
+
+    const signature = await wallet.signTypedData(typed.domain, typed.types, typed.message);
+    expect(ethers.verifyTypedData(typed.domain, typed.types, typed.message, signature)).toBe(wallet.address);
+  });
+
+  test("splits a signature into the TokenPermit struct", async () => {
+    const domain = { name: "Stable USD", version: "1", chainId: 31337n, verifyingContract: TOKEN };
+    const typed = erc2612PermitTypedData({ domain, owner: wallet.address, spender: AUCTION, value: 1_200n, nonce: 0n, deadline: 1_000n });
+    const signature = await wallet.signTypedData(typed.domain, typed.types, typed.message);
+    const permit = toTokenPermit(signature, { usePermit2: false, amount: 1_200n, deadline: 1_000n, nonce: 0n });
+    expect(permit).toMatchObject({ usePermit2: false, amount: 1_200n, deadline: 1_000n });
+    expect(ethers.Signature.from({ r: permit.r, s: permit.s, v: permit.v }).serialized).toBe(signature);
+  });
+});
@@ -0,0 +1,134 @@
+import { ethers } from "ethers";
+import type { TokenPermit } from "./auctionTypes";
+
+/*
+  Signed approvals for the auction's *WithPermit entry points, so creating or bidding takes one signature plus one
+  transaction instead of approve + wait + transaction. Tokens implementing EIP-2612 sign a `Permit` on the token
+  itself; any other token can go through Permit2 once the owner has approved Permit2 on it.
+*/
+
+/** Canonical Uniswap Permit2 deployment, the same on every chain (`FHEVWAPAuction.PERMIT2`). */
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3" as const;
+
+/** How long a signed permit stays valid by default. */
+export const PERMIT_TTL_SECONDS = 20 * 60;
+
+export const ERC2612_PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const PERMIT2_SINGLE_TYPES = {
+  PermitDetails: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint160" },
+    { name: "expiration", type: "uint48" },
+    { name: "nonce", type: "uint48" },
+  ],
+  PermitSingle: [
+    { name: "details", type: "PermitDetails" },
+    { name: "spender", type: "address" },
+    { name: "sigDeadline", type: "uint256" },
+  ],
+};
+
+const PERMIT_TOKEN_ABI = [
+  "function name() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+] as const;
+
+const PERMIT2_ABI = [
+  "function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)",
+] as const;
+
+export type TypedData = {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, ethers.TypedDataField[]>;
+  message: Record<string, unknown>;
+};
+
+export function erc2612PermitTypedData(params: {
+  domain: ethers.TypedDataDomain;
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}): TypedData {
+  const { domain, owner, spender, value, nonce, deadline } = params;
+  return { domain, types: ERC2612_PERMIT_TYPES, message: { owner, spender, value, nonce, deadline } };
+}
+
+/** PermitSingle as `FHEVWAPAuction._usePermit` rebuilds it: `deadline` is both the expiration and the sigDeadline. */
+export function permit2TypedData(params: {
+  chainId: bigint;
+  token: string;
+  spender: string;
+  amount: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}): TypedData {
+  const { chainId, token, spender, amount, nonce, deadline } = params;
+  return {
+    domain: { name: "Permit2", chainId, verifyingContract: PERMIT2_ADDRESS },
+    types: PERMIT2_SINGLE_TYPES,
+    message: { details: { token, amount, expiration: deadline, nonce }, spender, sigDeadline: deadline },
+  };
+}
+
+/** Splits a 65-byte signature into the `TokenPermit` struct the contract takes. */
+export function toTokenPermit(signature: string, fields: Omit<TokenPermit, "v" | "r" | "s">): TokenPermit {
+  const { v, r, s } = ethers.Signature.from(signature);
+  return { ...fields, v, r, s };
+}
+
+/**
+ * EIP-712 domain of an EIP-2612 token: its ERC-5267 `eip712Domain()`, else `name()` with version "1" checked against
+ * `DOMAIN_SEPARATOR()`. `undefined` when the token does not implement permit.
+ */
+export async function readPermitDomain(token: string, runner: ethers.ContractRunner, chainId: bigint): Promise<ethers.TypedDataDomain | undefined> {
+  const erc20 = new ethers.Contract(token, PERMIT_TOKEN_ABI, runner);
+  let separator: string;
+  try {
+    separator = await erc20.DOMAIN_SEPARATOR();
+  } catch {
+    return undefined;
+  }
+  let domain: ethers.TypedDataDomain;
+  try {
+    const d = await erc20.eip712Domain();
+    domain = { name: d.name, version: d.version, chainId: d.chainId, verifyingContract: d.verifyingContract };
+  } catch {
+    domain = { name: await erc20.name(), version: "1", chainId, verifyingContract: token };
+  }
+  return ethers.TypedDataEncoder.hashDomain(domain) === separator ? domain : undefined;
+}
+
+/** Signs an EIP-2612 permit of `value` to `spender`; `undefined` when the token has no permit. */
+export async function signErc2612Permit(signer: ethers.Signer, token: string, spender: string, value: bigint, deadline: bigint): Promise<TokenPermit | undefined> {
+  const chainId = (await signer.provider!.getNetwork()).chainId;
+  const domain = await readPermitDomain(token, signer, chainId);
+  if (!domain) return undefined;
+  const owner = await signer.getAddress();
+  const nonce: bigint = await new ethers.Contract(token, PERMIT_TOKEN_ABI, signer).nonces(owner);
+  const typed = erc2612PermitTypedData({ domain, owner, spender, value, nonce, deadline });
+  const signature = await signer.signTypedData(typed.domain, typed.types, typed.message);
+  return toTokenPermit(signature, { usePermit2: false, amount: value, deadline, nonce: 0n });
+}
+
+/** Signs a Permit2 PermitSingle of `amount` to `spender`. The owner must have approved Permit2 on `token`. */
+export async function signPermit2(signer: ethers.Signer, token: string, spender: string, amount: bigint, deadline: bigint): Promise<TokenPermit> {
+  const chainId = (await signer.provider!.getNetwork()).chainId;
+  const owner = await signer.getAddress();
+  const [, , nonce]: bigint[] = await new ethers.Contract(PERMIT2_ADDRESS, PERMIT2_ABI, signer).allowance(owner, token, spender);
+  const typed = permit2TypedData({ chainId, token, spender, amount, nonce, deadline });
+  const signature = await signer.signTypedData(typed.domain, typed.types, typed.message);
+  return toTokenPermit(signature, { usePermit2: true, amount, deadline, nonce });
+}
@@ -0,0 +1,41 @@
+import { describe, expect, test } from "vitest";
+import { ethers } from "ethers";
+import { buildAllowlist } from "./allowlist";
+import { allowlistAccess, bidBlockReason, procurementRoleId, type ParticipantRoles } from "./registry";
+
+const MEMBER = "0x0000000000000000000000000000000000000001";
+const OUTSIDER = "0x00000000000000000000000000000000000000ff";
+const list = buildAllowlist([MEMBER, "0x0000000000000000000000000000000000000002"]);
+const municipality: ParticipantRoles = { registry: undefined, supplier: false, municipality: true, auditor: false };
+
+describe("allowlistAccess", () => {
+  test("is open without a root and joined once the account joined", () => {
+    expect(allowlistAccess(ethers.ZeroHash, false, undefined, OUTSIDER)).toBe("open");
+    expect(allowlistAccess(list.root, true, undefined, MEMBER)).toBe("joined");
+  });
+
+  test("checks the published list against the committed root", () => {
+    expect(allowlistAccess(list.root, false, undefined, MEMBER)).toBe("needsList");
+    expect(allowlistAccess(list.root, false, list, MEMBER)).toBe("canJoin");
+    expect(allowlistAccess(list.root, false, list, OUTSIDER)).toBe("notListed");
+    expect(allowlistAccess(buildAllowlist([OUTSIDER]).root, false, list, MEMBER)).toBe("notListed");
+  });
+});
+
+describe("bidBlockReason", () => {
+  test("explains a missing municipality role before the allowlist", () => {
+    expect(bidBlockReason({ ...municipality, municipality: false }, "open")).toMatch(/not registered as a municipality/);
+    expect(bidBlockReason(municipality, "needsList")).toMatch(/allowlist/);
+    expect(bidBlockReason(municipality, "notListed")).toMatch(/not on the auction's allowlist/);
+  });
+
+  test("lets municipalities bid on open auctions and allowlists they can join", () => {
+    expect(bidBlockReason(municipality, "open")).toBeUndefined();
+    expect(bidBlockReason(municipality, "canJoin")).toBeUndefined();
+    expect(bidBlockReason(municipality, "joined")).toBeUndefined();
+  });
+
+  test("uses the registry's role ids", () => {
+    expect(procurementRoleId("municipality")).toBe(ethers.id("MUNICIPALITY_ROLE"));
+  });
+});
@@ -0,0 +1,64 @@
+import { ethers } from "ethers";
+import { verifyAllowlistProof, type Allowlist } from "./allowlist";
+
+/*
+  Procurement roles of MedicineAuction's `registry()` (ProcurementRegistry.sol): suppliers create auctions,
+  municipalities bid, auditors review. A MedicineAuction deployed without a registry, and FHEVWAPAuction, leave
+  every role open.
+*/
+
+export type ProcurementRole = "supplier" | "municipality" | "auditor";
+
+export const PROCUREMENT_ROLES: readonly ProcurementRole[] = ["supplier", "municipality", "auditor"];
+
+/** AccessControl role ids, as the registry's SUPPLIER_ROLE, MUNICIPALITY_ROLE and AUDITOR_ROLE. */
+export function procurementRoleId(role: ProcurementRole): `0x${string}` {
+  return ethers.id(`${role.toUpperCase()}_ROLE`) as `0x${string}`;
+}
+
+export const PROCUREMENT_REGISTRY_ABI = [
+  "function isSupplier(address account) view returns (bool)",
+  "function isMunicipality(address account) view returns (bool)",
+  "function isAuditor(address account) view returns (bool)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function grantRole(bytes32 role, address account)",
+  "function revokeRole(bytes32 role, address account)",
+];
+
+export type ParticipantRoles = {
+  registry: `0x${string}` | undefined; // undefined: no registry, every role is open
+} & Record<ProcurementRole, boolean>;
+
+/**
+ * Where `account` stands with an auction's allowlist: "open" without one, "joined" once `joinAllowlist` went
+ * through, "canJoin" when the published `list` has a valid proof for it, "needsList" while the list is unknown
+ * and "notListed" when the list leaves it out.
+ */
+export type AllowlistAccess = "open" | "joined" | "canJoin" | "needsList" | "notListed";
+
+export function allowlistAccess(
+  allowlistRoot: string,
+  joined: boolean,
+  list: Allowlist | undefined,
+  account: string
+): AllowlistAccess {
+  if (allowlistRoot === ethers.ZeroHash) return "open";
+  if (joined) return "joined";
+  if (!list) return "needsList";
+  const proof = list.proofs[account.toLowerCase()];
+  return proof && verifyAllowlistProof(allowlistRoot, account, proof) ? "canJoin" : "notListed";
+}
+
+/** Why the wallet cannot bid, in words for the bid form; undefined when it can (joining first if "canJoin"). */
+export function bidBlockReason(roles: ParticipantRoles, access: AllowlistAccess): string | undefined {
+  if (!roles.municipality) {
+    return "This wallet is not registered as a municipality. Ask a registry admin to grant it the municipality role.";
+  }
+  if (access === "needsList") {
+    return "This auction only accepts bids from its allowlist. Paste the list published by the supplier to prove this wallet is on it.";
+  }
+  if (access === "notListed") {
+    return "This wallet is not on the auction's allowlist, or the list does not match the one the supplier committed to.";
+  }
+  return undefined;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "vitest";
+import { ZeroAddress, ZeroHash } from "ethers";
+import { AuctionPhase } from "./auctionPhase";
+import { NO_BIDDER_LIMITS } from "./bidderLimits";
+import {
+  QtyReveal,
+  ReserveCheck,
+  type OnChainAuction,
+  type OnChainSeries,
+} from "./auctionTypes";
+import {
+  findSeriesOf,
+  planSeriesWindows,
+  seriesAuctionIds,
+  summarizeSeries,
+} from "./series";
+
+const SELLER = "0x00000000000000000000000000000000000000aA";
+
+const SERIES: OnChainSeries = {
+  id: 1,
+  seller: SELLER,
+  firstAuctionId: 3,
+  windows: 3,
+  supplyPerWindow: 100n,
+  windowLength: 1_000,
+};
+
+function auction(
+  id: number,
+  start: number,
+  overrides: Partial<OnChainAuction> = {}
+): OnChainAuction {
+  return {
+    id,
+    seller: SELLER,
+    S: 100n,
+    start,
+    end: start + 1_000,
+    vwap: 0n,
+    vwapSet: false,
+    settled: false,
+    sumQ: 0n,
+    encVWAPComputed: false,
+    baseToken: "0x0000000000000000000000000000000000000001",
+    quoteToken: "0x0000000000000000000000000000000000000002",
+    pullPayments: false,
+    encryptedCaps: false,
+    eligibilityRequested: false,
+    pendingEligibility: 0,
+    confidentialQuantities: false,
+    qtyReveal: QtyReveal.Hidden,
+    pendingAllocations: 0,
+    reserveCheck: ReserveCheck.None,
+    priceUnit: "",
+    metadataHash: ZeroHash,
+    allowlistRoot: ZeroHash,
+    bidderLimits: NO_BIDDER_LIMITS,
+    auditor: ZeroAddress,
+    eligibleQ: 0n,
+    baseUnit: 1n,
+    ...overrides,
+  };
+}
+
+describe("series helpers", () => {
+  test("plans back-to-back windows like createRecurringAuction", () => {
+    expect(
+      planSeriesWindows({ firstStart: 10, windowLength: 5, windows: 3 })
+    ).toEqual([
+      { index: 0, start: 10, end: 15 },
+      { index: 1, start: 15, end: 20 },
+      { index: 2, start: 20, end: 25 },
+    ]);
+  });
+
+  test("maps auction ids to their series window", () => {
+    expect(seriesAuctionIds(SERIES)).toEqual([3, 4, 5]);
+    expect(findSeriesOf([SERIES], 4)).toEqual({ series: SERIES, window: 1 });
+    expect(findSeriesOf([SERIES], 2)).toBeUndefined();
+    expect(findSeriesOf([SERIES], 6)).toBeUndefined();
+  });
+
+  test("summarizes rollovers and the current window", () => {
+    const auctions = [
+      auction(3, 1_000, { settled: true }),
+      auction(4, 2_000, { S: 160n }),
+      auction(5, 3_000),
+    ];
+    const summary = summarizeSeries(SERIES, auctions, 2_500);
+    expect(
+      summary.windows.map((w) => [w.auctionId, w.rolledIn, w.phase])
+    ).toEqual([
+      [3, 0n, AuctionPhase.Settled],
+      [4, 60n, AuctionPhase.Open],
+      [5, 0n, AuctionPhase.Scheduled],
+    ]);
+    expect(summary.current?.auctionId).toBe(4);
+  });
+
+  test("falls back to the planned schedule for windows not loaded yet", () => {
+    const summary = summarizeSeries(SERIES, [auction(3, 1_000)], 0);
+    expect(summary.windows[2]).toMatchObject({
+      start: 3_000,
+      end: 4_000,
+      S: undefined,
+      phase: undefined,
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { AuctionPhase, deriveAuctionPhase } from "./auctionPhase";
+import type {
+  CreateRecurringAuctionParams,
+  OnChainAuction,
+  OnChainSeries,
+} from "./auctionTypes";
+
+export type SeriesWindow = {
+  index: number; // 0-based window number inside the series
+  auctionId: number;
+  start: number;
+  end: number;
+  S: bigint | undefined; // undefined when the auction was not loaded
+  rolledIn: bigint; // base carried over from earlier windows
+  phase: AuctionPhase | undefined;
+};
+
+export type SeriesSummary = {
+  series: OnChainSeries;
+  windows: SeriesWindow[];
+  // First window still accepting (or about to accept) bids
+  current: SeriesWindow | undefined;
+};
+
+export function seriesAuctionIds(
+  series: Pick<OnChainSeries, "firstAuctionId" | "windows">
+): number[] {
+  return Array.from(
+    { length: series.windows },
+    (_, i) => series.firstAuctionId + i
+  );
+}
+
+/** Window boundaries `createRecurringAuction` will use, for previews before sending the tx. */
+export function planSeriesWindows(
+  params: Pick<
+    CreateRecurringAuctionParams,
+    "firstStart" | "windowLength" | "windows"
+  >
+): { index: number; start: number; end: number }[] {
+  return Array.from({ length: params.windows }, (_, index) => {
+    const start = params.firstStart + index * params.windowLength;
+    return { index, start, end: start + params.windowLength };
+  });
+}
+
+export function findSeriesOf(
+  seriesList: readonly OnChainSeries[],
+  auctionId: number
+): { series: OnChainSeries; window: number } | undefined {
+  for (const series of seriesList) {
+    const window = auctionId - series.firstAuctionId;
+    if (window >= 0 && window < series.windows) {
+      return { series, window };
+    }
+  }
+  return undefined;
+}
+
+export function summarizeSeries(
+  series: OnChainSeries,
+  auctions: readonly OnChainAuction[],
+  now: number
+): SeriesSummary {
+  const byId = new Map(auctions.map((a) => [a.id, a]));
+  const first = byId.get(series.firstAuctionId);
+  const planned = planSeriesWindows({
+    firstStart: first?.start ?? 0,
+    windowLength: series.windowLength,
+    windows: series.windows,
+  });
+  const windows = seriesAuctionIds(series).map(
+    (auctionId, index): SeriesWindow => {
+      const a = byId.get(auctionId);
+      return {
+        index,
+        auctionId,
+        start: a?.start ?? planned[index].start,
+        end: a?.end ?? planned[index].end,
+        S: a?.S,
+        // The contract only ever grows a window's S through rollovers
+        rolledIn: a ? a.S - series.supplyPerWindow : 0n,
+        phase: a ? deriveAuctionPhase(a, now).phase : undefined,
+      };
+    }
+  );
+  const current = windows.find(
+    (w) => w.phase === AuctionPhase.Open || w.phase === AuctionPhase.Scheduled
+  );
+  return { series, windows, current };
+}
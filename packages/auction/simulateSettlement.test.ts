@@ -0,0 +1,221 @@
+import { describe, expect, test } from "vitest";
+import { ALL_OR_NOTHING } from "./allocation";
+import { SETTLEMENT_GRACE_PERIOD } from "./auctionPhase";
+import { QtyReveal, ReserveCheck, type OnChainBid } from "./auctionTypes";
+import { simulateSettlement } from "./simulateSettlement";
+
+const SELLER = "0x00000000000000000000000000000000000000aA";
+const ALICE = "0x00000000000000000000000000000000000000A1";
+const BOB = "0x00000000000000000000000000000000000000B0";
+
+function auction(
+  S: bigint,
+  vwap: bigint,
+  overrides: Partial<Parameters<typeof simulateSettlement>[0]> = {}
+) {
+  return {
+    seller: SELLER as `0x${string}`,
+    S,
+    end: 2_000,
+    sumQ: 1n,
+    vwap,
+    vwapSet: true,
+    settled: false,
+    encryptedCaps: false,
+    eligibilityRequested: false,
+    pendingEligibility: 0,
+    confidentialQuantities: false,
+    qtyReveal: QtyReveal.Hidden,
+    pendingAllocations: 0,
+    reserveCheck: ReserveCheck.None,
+    eligibleQ: 0n,
+    baseUnit: 1n,
+    ...overrides,
+  };
+}
+
+function bid(index: number, buyer: string, qty: bigint, priceCap: bigint, maxSpend = qty * priceCap, settled = false): OnChainBid {
+  return { index, buyer: buyer as `0x${string}`, qty, priceCap, maxSpend, settled, cancelled: false, encryptedCap: false, capMet: false, confidentialQty: false, allocation: 0n, minFill: 0n, minFillExcluded: false };
+}
+
+describe("simulateSettlement", () => {
+  test("fills eligible demand in full when supply covers it", () => {
+    const sim = simulateSettlement(auction(100n, 98n), [bid(0, ALICE, 30n, 120n), bid(1, BOB, 50n, 90n)]);
+    expect(sim.ok).toBe(true);
+    if (!sim.ok) return;
+    expect(sim.Q).toBe(30n);
+    expect(sim.bids.map((b) => [b.eligible, b.allocation, b.spend, b.refund])).toEqual([
+      [true, 30n, 2940n, 660n],
+      [false, 0n, 0n, 4500n],
+    ]);
+    expect(sim.sellerProceeds).toBe(2940n);
+    expect(sim.baseReturned).toBe(70n);
+  });
+
+  test("allocates floor(q * S / Q) pro rata and returns the rounding dust", () => {
+    const sim = simulateSettlement(auction(10n, 100n), [
+      bid(0, ALICE, 4n, 100n),
+      bid(1, BOB, 4n, 100n),
+      bid(2, ALICE, 4n, 100n),
+    ]);
+    if (!sim.ok) throw new Error(sim.reason);
+    expect(sim.bids.map((b) => b.allocation)).toEqual([3n, 3n, 3n]);
+    expect(sim.baseReturned).toBe(1n);
+  });
+
+  test("refunds everyone and returns all base when no bid is eligible", () => {
+    const sim = simulateSettlement(auction(10n, 100n), [bid(0, ALICE, 5n, 99n, 1000n)]);
+    if (!sim.ok) throw new Error(sim.reason);
+    expect(sim.Q).toBe(0n);
+    expect(sim.bids[0].refund).toBe(1000n);
+    expect(sim.baseReturned).toBe(10n);
+  });
+
+  test("refunds everyone, without a VWAP and for any caller, when the reserve was not met", () => {
+    const failed = auction(10n, 0n, { vwapSet: false, reserveCheck: ReserveCheck.NotMet });
+    const sim = simulateSettlement(failed, [bid(0, ALICE, 5n, 120n, 1000n)], undefined, BOB);
+    if (!sim.ok) throw new Error(sim.reason);
+    expect(sim.Q).toBe(0n);
+    expect(sim.bids[0]).toMatchObject({ eligible: false, refund: 1000n });
+    expect(sim.baseReturned).toBe(10n);
+  });
+
+  test("refunds everyone, without a VWAP and for any caller, once an auction closed without demand", () => {
+    const empty = auction(10n, 0n, {
+      vwapSet: false,
+      sumQ: 0n,
+      confidentialQuantities: true,
+      qtyReveal: QtyReveal.SumQRevealed,
+    });
+    // A confidential bid whose encrypted quantity was voided counts 0 towards sumQ but still holds its deposit
+    const voided = { ...bid(0, ALICE, 0n, 120n, 1000n), confidentialQty: true };
+    const sim = simulateSettlement(empty, [voided], undefined, BOB, 2_001);
+    if (!sim.ok) throw new Error(sim.reason);
+    expect(sim.Q).toBe(0n);
+    expect(sim.bids[0]).toMatchObject({ eligible: false, refund: 1000n });
+    expect(sim.baseReturned).toBe(10n);
+
+    expect(simulateSettlement(empty, [voided], undefined, BOB, 2_000)).toEqual({ ok: false, reason: "no vwap" });
+    const unrevealed = { ...empty, qtyReveal: QtyReveal.SumQRequested };
+    expect(simulateSettlement(unrevealed, [voided], undefined, BOB, 2_001)).toEqual({ ok: false, reason: "no vwap" });
+  });
+
+  test("refunds bids whose pro-rata share falls below their minimum fill and reallocates their share", () => {
+    const sim = simulateSettlement(auction(100n, 100n), [
+      bid(0, ALICE, 60n, 120n),
+      { ...bid(1, BOB, 60n, 120n), minFill: 55n },
+      { ...bid(2, ALICE, 50n, 120n), minFill: ALL_OR_NOTHING },
+      bid(3, BOB, 30n, 120n),
+    ]);
+    if (!sim.ok) throw new Error(sim.reason);
+    // Q = 200: B's share 30 < 55 and C's 25 < 50, leaving Q = 90 for A and D in full
+    expect(sim.Q).toBe(90n);
+    expect(sim.bids.map((b) => [b.eligible, b.belowMinFill, b.allocation, b.refund])).toEqual([
+      [true, false, 60n, 60n * 20n],
+      [false, true, 0n, 7200n],
+      [false, true, 0n, 6000n],
+      [true, false, 30n, 30n * 20n],
+    ]);
+    expect(sim.baseReturned).toBe(10n);
+  });
+
+  test("keeps refunding bids settle already excluded", () => {
+    const sim = simulateSettlement(auction(100n, 100n), [{ ...bid(0, ALICE, 60n, 120n), minFill: 60n, minFillExcluded: true }, bid(1, BOB, 60n, 120n)]);
+    if (!sim.ok) throw new Error(sim.reason);
+    expect(sim.bids.map((b) => [b.belowMinFill, b.allocation])).toEqual([
+      [true, 0n],
+      [false, 60n],
+    ]);
+  });
+
+  test("skips bids that are already settled", () => {
+    const sim = simulateSettlement(auction(10n, 100n), [bid(0, ALICE, 20n, 100n, 2000n, true), bid(1, BOB, 5n, 100n)]);
+    if (!sim.ok) throw new Error(sim.reason);
+    expect(sim.Q).toBe(5n);
+    expect(sim.bids[0]).toMatchObject({ skipped: true, allocation: 0n, refund: 0n });
+    expect(sim.bids[1].allocation).toBe(5n);
+  });
+
+  test("reverts with insufficient escrow when maxSpend does not cover alloc * vwap", () => {
+    const sim = simulateSettlement(auction(100n, 100n), [bid(0, ALICE, 10n, 120n, 999n)]);
+    expect(sim).toEqual({ ok: false, reason: "insufficient escrow", bidIndex: 0 });
+  });
+
+  test("prices per whole base token: spend divides by the base unit", () => {
+    // 18-decimal base against a 6-decimal quote: 5 tokens each at 2 USD
+    const unit = 10n ** 18n;
+    const sim = simulateSettlement(auction(10n * unit, 2_000_000n, { baseUnit: unit }), [
+      bid(0, ALICE, 6n * unit, 2_500_000n, 15_000_000n),
+      bid(1, BOB, 6n * unit, 2_000_000n, 12_000_000n),
+    ]);
+    if (!sim.ok) throw new Error(sim.reason);
+    expect(sim.bids.map((b) => [b.allocation, b.spend, b.refund])).toEqual([
+      [5n * unit, 10_000_000n, 5_000_000n],
+      [5n * unit, 10_000_000n, 2_000_000n],
+    ]);
+    expect(sim.sellerProceeds).toBe(20_000_000n);
+  });
+
+  test("mirrors the guard clauses", () => {
+    expect(simulateSettlement(auction(1n, 0n, { vwapSet: false }), [])).toMatchObject({ reason: "no vwap" });
+    expect(simulateSettlement(auction(1n, 1n, { settled: true }), [])).toMatchObject({ reason: "settled" });
+    expect(simulateSettlement(auction(1n, 1n), [], undefined, BOB)).toMatchObject({ reason: "only seller" });
+    expect(simulateSettlement(auction(1n, 1n), [], undefined, SELLER.toLowerCase()).ok).toBe(true);
+    // Anyone may settle once the grace period after `end` is over
+    const afterGrace = 2_000 + SETTLEMENT_GRACE_PERIOD + 1;
+    expect(simulateSettlement(auction(1n, 1n), [], undefined, BOB, afterGrace - 1)).toMatchObject({ reason: "only seller" });
+    expect(simulateSettlement(auction(1n, 1n), [], undefined, BOB, afterGrace).ok).toBe(true);
+  });
+
+  test("accepts a what-if VWAP before the real one is revealed", () => {
+    const sim = simulateSettlement(auction(100n, 0n, { vwapSet: false }), [bid(0, ALICE, 10n, 120n)], 110n);
+    if (!sim.ok) throw new Error(sim.reason);
+    expect(sim.bids[0].spend).toBe(1100n);
+  });
+
+  test("uses the decrypted per-bid eligibility of encrypted caps", () => {
+    const hidden = (index: number, buyer: string, qty: bigint, capMet: boolean, maxSpend: bigint): OnChainBid => ({
+      ...bid(index, buyer, qty, 0n, maxSpend),
+      encryptedCap: true,
+      capMet,
+    });
+    const bids = [hidden(0, ALICE, 60n, true, 7200n), hidden(1, BOB, 40n, false, 2800n)];
+
+    const pending = auction(100n, 92n, { encryptedCaps: true, eligibilityRequested: true, pendingEligibility: 1 });
+    expect(simulateSettlement(pending, bids)).toEqual({ ok: false, reason: "eligibility pending" });
+
+    const sim = simulateSettlement(auction(100n, 92n, { encryptedCaps: true, eligibilityRequested: true }), bids);
+    if (!sim.ok) throw new Error(sim.reason);
+    expect(sim.Q).toBe(60n);
+    expect(sim.bids.map((b) => [b.eligible, b.allocation, b.refund])).toEqual([
+      [true, 60n, 7200n - 60n * 92n],
+      [false, 0n, 2800n],
+    ]);
+  });
+
+  test("settles confidential quantities on the decrypted eligible demand and allocations", () => {
+    const hidden = (index: number, buyer: string, priceCap: bigint, maxSpend: bigint, allocation: bigint): OnChainBid => ({
+      ...bid(index, buyer, 0n, priceCap, maxSpend),
+      confidentialQty: true,
+      allocation,
+    });
+    const bids = [hidden(0, ALICE, 120n, 7200n, 54n), hidden(1, BOB, 70n, 2800n, 0n), hidden(2, ALICE, 115n, 5750n, 45n)];
+    const confidential = { confidentialQuantities: true, eligibleQ: 110n };
+
+    const pending = auction(100n, 92n, { ...confidential, qtyReveal: QtyReveal.AllocationsRequested, pendingAllocations: 1 });
+    expect(simulateSettlement(pending, bids)).toEqual({ ok: false, reason: "allocations pending" });
+    expect(simulateSettlement(auction(100n, 92n, { ...confidential, qtyReveal: QtyReveal.EligibleQRevealed }), bids)).toMatchObject({
+      reason: "allocations pending",
+    });
+
+    const sim = simulateSettlement(auction(100n, 92n, { ...confidential, qtyReveal: QtyReveal.AllocationsRequested }), bids);
+    if (!sim.ok) throw new Error(sim.reason);
+    expect(sim.Q).toBe(110n);
+    expect(sim.bids.map((b) => [b.eligible, b.allocation, b.spend])).toEqual([
+      [true, 54n, 54n * 92n],
+      [false, 0n, 0n],
+      [true, 45n, 45n * 92n],
+    ]);
+    expect(sim.baseReturned).toBe(1n);
+  });
+});
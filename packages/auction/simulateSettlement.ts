@@ -0,0 +1,162 @@
+import { excludeBelowMinFill, proRataShare } from "./allocation";
+import { spendFor } from "./amounts";
+import { isAllocationResolved, isEligibilityResolved, isGracePeriodOver } from "./auctionPhase";
+import { QtyReveal, ReserveCheck, type OnChainAuction, type OnChainBid } from "./auctionTypes";
+
+export type SimulatedBidSettlement = {
+  index: number;
+  buyer: `0x${string}`;
+  qty: bigint;
+  priceCap: bigint;
+  maxSpend: bigint;
+  // Bids already flagged `settled` on-chain are skipped by the contract
+  skipped: boolean;
+  eligible: boolean;
+  // Eligible, but the pro-rata share fell below the bid's minimum fill: refunded in full
+  belowMinFill: boolean;
+  allocation: bigint;
+  spend: bigint;
+  refund: bigint;
+};
+
+export type SettlementSimulation =
+  | {
+      ok: true;
+      vwap: bigint;
+      Q: bigint; // eligible demand
+      S: bigint;
+      bids: SimulatedBidSettlement[];
+      sellerProceeds: bigint;
+      baseReturned: bigint;
+    }
+  | {
+      ok: false;
+      // Same revert string as `FHEVWAPAuction.settle`
+      reason: "no auction" | "no vwap" | "settled" | "only seller" | "eligibility pending" | "allocations pending" | "insufficient escrow";
+      // Bid that triggers "insufficient escrow"
+      bidIndex?: number;
+    };
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/** Whether a live bid clears `vwap`: its clear cap, or the decrypted result for an encrypted cap. */
+export function meetsVWAP(bid: Pick<OnChainBid, "priceCap" | "encryptedCap" | "capMet">, vwap: bigint): boolean {
+  return bid.encryptedCap ? bid.capMet : bid.priceCap >= vwap;
+}
+
+/**
+ * Mirror of `FHEVWAPAuction._closedWithoutDemand`: the window is over and the (revealed, on confidential-quantities
+ * auctions) total demand is 0, so no VWAP can ever be computed.
+ */
+export function closedWithoutDemand(
+  auction: Pick<OnChainAuction, "end" | "sumQ" | "confidentialQuantities" | "qtyReveal">,
+  now: number
+): boolean {
+  return (
+    now > auction.end &&
+    auction.sumQ === 0n &&
+    (!auction.confidentialQuantities || auction.qtyReveal >= QtyReveal.SumQRevealed)
+  );
+}
+
+/**
+ * Pure mirror of `FHEVWAPAuction.settle`: eligibility is `priceCap >= vwap` (the decrypted per-bid
+ * result on encrypted-caps auctions, so a what-if `vwap` does not change it), eligible bids get
+ * `qty` when supply covers demand and `floor(qty * S / Q)` otherwise (clamped to what is left, in
+ * bid order) once bids whose share falls below their minimum fill are refunded and dropped from `Q`
+ * (see `excludeBelowMinFill`), spend is `alloc * vwap / baseUnit` and the rest of `maxSpend` is refunded. On
+ * confidential-quantities auctions `Q` and each allocation are the decrypted on-chain values. An
+ * auction whose reserve was not met, or that closed without demand (see `closedWithoutDemand`, only known when
+ * `now` is given), settles without a VWAP, by anyone: every bid is refunded.
+ *
+ * `vwap` defaults to the revealed on-chain value; pass one explicitly for a what-if preview.
+ * `caller`, when given, is checked against the seller like the contract does; pass `now` to
+ * let non-sellers through once the settlement grace period is over.
+ */
+export function simulateSettlement(
+  auction: Pick<
+    OnChainAuction,
+    | "seller" | "S" | "end" | "sumQ" | "vwap" | "vwapSet" | "settled"
+    | "encryptedCaps" | "eligibilityRequested" | "pendingEligibility"
+    | "confidentialQuantities" | "qtyReveal" | "pendingAllocations" | "eligibleQ" | "baseUnit" | "reserveCheck"
+  >,
+  bids: readonly OnChainBid[],
+  vwap: bigint | undefined = auction.vwapSet ? auction.vwap : undefined,
+  caller?: string,
+  now?: number
+): SettlementSimulation {
+  if (auction.seller === ZERO_ADDRESS) return { ok: false, reason: "no auction" };
+  const failed =
+    auction.reserveCheck === ReserveCheck.NotMet || (now !== undefined && closedWithoutDemand(auction, now));
+  if (failed) vwap = 0n;
+  if (vwap === undefined) return { ok: false, reason: "no vwap" };
+  if (auction.settled) return { ok: false, reason: "settled" };
+  const graceOver = now !== undefined && isGracePeriodOver(auction, now);
+  if (!failed && caller !== undefined && caller.toLowerCase() !== auction.seller.toLowerCase() && !graceOver) {
+    return { ok: false, reason: "only seller" };
+  }
+
+  if (!failed && !isEligibilityResolved(auction)) return { ok: false, reason: "eligibility pending" };
+  if (!failed && !isAllocationResolved(auction)) return { ok: false, reason: "allocations pending" };
+
+  const S = auction.S;
+  // Nothing is eligible on a failed auction: Q stays 0 and every bid is refunded
+  let Q = 0n;
+  let belowMinFill = new Set<number>();
+  if (!failed && auction.confidentialQuantities) {
+    Q = auction.eligibleQ;
+  } else if (!failed) {
+    const eligible = bids.filter((b) => !b.settled && !b.minFillExcluded && meetsVWAP(b, vwap));
+    for (const b of eligible) Q += b.qty;
+    ({ Q, excluded: belowMinFill } = excludeBelowMinFill(eligible, S, Q));
+  }
+  const isBelowMinFill = (b: OnChainBid) => b.minFillExcluded || belowMinFill.has(b.index);
+
+  const result: SimulatedBidSettlement[] = [];
+  const row = (b: OnChainBid, fields: Partial<SimulatedBidSettlement>): SimulatedBidSettlement => ({
+    index: b.index,
+    buyer: b.buyer,
+    qty: b.qty,
+    priceCap: b.priceCap,
+    maxSpend: b.maxSpend,
+    skipped: false,
+    eligible: false,
+    belowMinFill: false,
+    allocation: 0n,
+    spend: 0n,
+    refund: 0n,
+    ...fields,
+  });
+
+  if (Q === 0n) {
+    for (const b of bids) {
+      result.push(b.settled ? row(b, { skipped: true }) : row(b, { belowMinFill: isBelowMinFill(b), refund: b.maxSpend }));
+    }
+    return { ok: true, vwap, Q, S, bids: result, sellerProceeds: 0n, baseReturned: S };
+  }
+
+  let remainingBase = S;
+  let sellerProceeds = 0n;
+  for (const b of bids) {
+    if (b.settled) {
+      result.push(row(b, { skipped: true }));
+      continue;
+    }
+    if (!meetsVWAP(b, vwap) || isBelowMinFill(b)) {
+      result.push(row(b, { belowMinFill: isBelowMinFill(b), refund: b.maxSpend }));
+      continue;
+    }
+
+    let alloc = auction.confidentialQuantities ? b.allocation : proRataShare(b.qty, S, Q);
+    if (alloc > remainingBase) alloc = remainingBase;
+
+    const spend = spendFor(alloc, vwap, auction.baseUnit);
+    if (spend > b.maxSpend) return { ok: false, reason: "insufficient escrow", bidIndex: b.index };
+
+    remainingBase -= alloc;
+    sellerProceeds += spend;
+    result.push(row(b, { eligible: true, allocation: alloc, spend, refund: b.maxSpend - spend }));
+  }
+
+  return { ok: true, vwap, Q, S, bids: result, sellerProceeds, baseReturned: remainingBase };
+}
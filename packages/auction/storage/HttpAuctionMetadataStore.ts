@@ -0,0 +1,39 @@
+import { auctionMetadataHash, canonicalAuctionMetadata, parseStoredAuctionMetadata, type AuctionMetadata, type AuctionMetadataStore } from "../auctionMetadata";
+
+/**
+ * Browser client of a metadata endpoint such as the dev route in app/api/auction-metadata. Entries are
+ * re-hashed on read, so the server does not have to be trusted.
+ */
+export class HttpAuctionMetadataStore implements AuctionMetadataStore {
+  #baseUrl: string;
+
+  constructor(baseUrl = "/api/auction-metadata") {
+    this.#baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  async get(hash: string): Promise<AuctionMetadata | undefined> {
+    try {
+      const res = await fetch(`${this.#baseUrl}/${hash}`);
+      return res.ok ? parseStoredAuctionMetadata(await res.text(), hash) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async put(metadata: AuctionMetadata): Promise<`0x${string}`> {
+    const hash = auctionMetadataHash(metadata);
+    const res = await fetch(this.#baseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: canonicalAuctionMetadata(metadata),
+    });
+    if (!res.ok) {
+      throw new Error(`metadata store rejected the entry (${res.status}): ${await res.text()}`);
+    }
+    const stored = ((await res.json()) as { hash?: string }).hash;
+    if (stored !== hash) {
+      throw new Error(`metadata store returned hash ${stored}, expected ${hash}`);
+    }
+    return hash;
+  }
+}
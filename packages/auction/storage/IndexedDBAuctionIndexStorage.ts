@@ -0,0 +1,51 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import type { AuctionIndexSnapshot, AuctionIndexStorage } from "../indexerTypes";
+
+interface AuctionIndexDB extends DBSchema {
+  snapshots: {
+    key: string;
+    value: AuctionIndexSnapshot;
+  };
+}
+
+let __dbPromise: Promise<IDBPDatabase<AuctionIndexDB>> | undefined = undefined;
+
+async function _getDB(): Promise<IDBPDatabase<AuctionIndexDB> | undefined> {
+  if (__dbPromise) {
+    return __dbPromise;
+  }
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+  __dbPromise = openDB<AuctionIndexDB>("fhevwap-indexer", 1, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains("snapshots")) {
+        db.createObjectStore("snapshots");
+      }
+    },
+  });
+  return __dbPromise;
+}
+
+/** Browser persistence for `AuctionIndexer`. No-op during SSR. */
+export class IndexedDBAuctionIndexStorage implements AuctionIndexStorage {
+  async load(key: string): Promise<AuctionIndexSnapshot | undefined> {
+    const db = await _getDB();
+    if (!db) {
+      return undefined;
+    }
+    try {
+      return await db.get("snapshots", key);
+    } catch {
+      return undefined;
+    }
+  }
+
+  async save(key: string, snapshot: AuctionIndexSnapshot): Promise<void> {
+    const db = await _getDB();
+    if (!db) {
+      return;
+    }
+    await db.put("snapshots", snapshot, key);
+  }
+}
@@ -0,0 +1,33 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { AuctionIndexSnapshot, AuctionIndexStorage } from "../indexerTypes";
+
+/** Node persistence for `AuctionIndexer`: one JSON file per chain/contract in `dir`. */
+export class JsonFileAuctionIndexStorage implements AuctionIndexStorage {
+  #dir: string;
+
+  constructor(dir: string) {
+    this.#dir = dir;
+  }
+
+  #file(key: string): string {
+    return path.join(this.#dir, `${key.replace(/[^0-9a-zA-Z]+/g, "-")}.json`);
+  }
+
+  async load(key: string): Promise<AuctionIndexSnapshot | undefined> {
+    try {
+      const json = await fs.readFile(this.#file(key), "utf-8");
+      return JSON.parse(json) as AuctionIndexSnapshot;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async save(key: string, snapshot: AuctionIndexSnapshot): Promise<void> {
+    await fs.mkdir(this.#dir, { recursive: true });
+    const file = this.#file(key);
+    // Write then rename so an interrupted run never leaves a truncated snapshot
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(snapshot, null, 2), "utf-8");
+    await fs.rename(`${file}.tmp`, file);
+  }
+}
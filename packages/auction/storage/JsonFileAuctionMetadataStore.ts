@@ -0,0 +1,38 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { auctionMetadataHash, canonicalAuctionMetadata, parseStoredAuctionMetadata, type AuctionMetadata, type AuctionMetadataStore } from "../auctionMetadata";
+
+/** Development store for auction metadata: one `<hash>.json` file per entry in `dir`. */
+export class JsonFileAuctionMetadataStore implements AuctionMetadataStore {
+  #dir: string;
+
+  constructor(dir: string) {
+    this.#dir = dir;
+  }
+
+  #file(hash: string): string | undefined {
+    return /^0x[0-9a-fA-F]{64}$/.test(hash) ? path.join(this.#dir, `${hash.toLowerCase()}.json`) : undefined;
+  }
+
+  async get(hash: string): Promise<AuctionMetadata | undefined> {
+    const file = this.#file(hash);
+    if (!file) {
+      return undefined;
+    }
+    try {
+      return parseStoredAuctionMetadata(await fs.readFile(file, "utf-8"), hash);
+    } catch {
+      return undefined;
+    }
+  }
+
+  async put(metadata: AuctionMetadata): Promise<`0x${string}`> {
+    const hash = auctionMetadataHash(metadata);
+    await fs.mkdir(this.#dir, { recursive: true });
+    const file = this.#file(hash)!;
+    // Write then rename so a concurrent reader never sees a truncated entry
+    await fs.writeFile(`${file}.tmp`, canonicalAuctionMetadata(metadata), "utf-8");
+    await fs.rename(`${file}.tmp`, file);
+    return hash;
+  }
+}
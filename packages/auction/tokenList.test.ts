@@ -0,0 +1,44 @@
+import { describe, expect, test } from "vitest";
+import type { TokenInfo } from "./auctionTypes";
+import { addToken, findToken, isEthQuoted, nativeEthToken, parseTokenList, removeToken, validateTokenPair } from "./tokenList";
+
+const USDC: TokenInfo = { address: "0x00000000000000000000000000000000000000aa", name: "USD Coin", symbol: "USDC", decimals: 6 };
+const WETH: TokenInfo = { address: "0x00000000000000000000000000000000000000b0", name: "Wrapped Ether", symbol: "WETH", decimals: 18 };
+
+describe("token list", () => {
+  test("adds by address, case-insensitively, keeping the list sorted by symbol", () => {
+    const list = addToken(addToken([], WETH), USDC);
+    expect(list.map((t) => t.symbol)).toEqual(["USDC", "WETH"]);
+    const renamed = addToken(list, { ...USDC, address: "0x00000000000000000000000000000000000000AA", name: "USDC v2" });
+    expect(renamed).toHaveLength(2);
+    expect(findToken(renamed, USDC.address)?.name).toBe("USDC v2");
+    expect(removeToken(renamed, USDC.address)).toEqual([WETH]);
+  });
+
+  test("parses a stored list and drops malformed entries", () => {
+    const stored = JSON.stringify([USDC, { ...WETH, decimals: -1 }, { ...WETH, address: "0x123" }, "junk", WETH]);
+    expect(parseTokenList(stored)).toEqual([USDC, WETH]);
+    expect(parseTokenList(null)).toEqual([]);
+    expect(parseTokenList("{not json")).toEqual([]);
+    expect(parseTokenList(JSON.stringify({ tokens: [USDC] }))).toEqual([]);
+  });
+});
+
+describe("native ETH", () => {
+  test("is listed under the WETH address and only matches WETH-quoted auctions", () => {
+    expect(nativeEthToken(WETH.address)).toEqual({ address: WETH.address, name: "Ether", symbol: "ETH", decimals: 18, native: true });
+    expect(isEthQuoted("0x00000000000000000000000000000000000000B0", WETH.address)).toBe(true);
+    expect(isEthQuoted(USDC.address, WETH.address)).toBe(false);
+    expect(isEthQuoted(WETH.address, undefined)).toBe(false);
+  });
+});
+
+describe("validateTokenPair", () => {
+  test("requires two distinct, non-zero token addresses", () => {
+    expect(validateTokenPair(WETH.address, USDC.address)).toBeUndefined();
+    expect(validateTokenPair(WETH.address, undefined)).toBe("missing");
+    expect(validateTokenPair(WETH.address, "0xnot-an-address")).toBe("invalid");
+    expect(validateTokenPair("0x0000000000000000000000000000000000000000", USDC.address)).toBe("invalid");
+    expect(validateTokenPair(USDC.address, "0x00000000000000000000000000000000000000AA")).toBe("same");
+  });
+});
@@ -0,0 +1,74 @@
+import { ethers } from "ethers";
+import type { TokenInfo } from "./auctionTypes";
+
+/*
+  Tokens the user picked in the generic app, remembered per chain (see hooks/useTokenList.tsx). Entries
+  only cache metadata for the picker: balances and allowances are always read on-chain.
+*/
+
+export function tokenListKey(chainId: number): string {
+  return `fhevwap.tokens.${chainId}`;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Adds `token` (or replaces the entry with the same address), keeping the list sorted by symbol. */
+export function addToken(list: readonly TokenInfo[], token: TokenInfo): TokenInfo[] {
+  return [...list.filter((t) => !sameAddress(t.address, token.address)), token].sort((a, b) => a.symbol.localeCompare(b.symbol));
+}
+
+export function removeToken(list: readonly TokenInfo[], address: string): TokenInfo[] {
+  return list.filter((t) => !sameAddress(t.address, address));
+}
+
+export function findToken(list: readonly TokenInfo[], address: string): TokenInfo | undefined {
+  return list.find((t) => sameAddress(t.address, address));
+}
+
+/** Parses a stored list, dropping malformed entries; `[]` for anything that is not a JSON array. */
+export function parseTokenList(json: string | null): TokenInfo[] {
+  if (!json) return [];
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (t): t is TokenInfo =>
+      typeof t === "object" &&
+      t !== null &&
+      typeof t.address === "string" &&
+      ethers.isAddress(t.address) &&
+      typeof t.name === "string" &&
+      typeof t.symbol === "string" &&
+      Number.isInteger(t.decimals) &&
+      t.decimals >= 0 &&
+      t.decimals <= 255
+  );
+}
+
+/** Native ETH as a quote choice. Auctions escrow it as WETH, so it is listed under the auction contract's `weth()`. */
+export function nativeEthToken(weth: `0x${string}`): TokenInfo {
+  return { address: weth, name: "Ether", symbol: "ETH", decimals: 18, native: true };
+}
+
+/** Whether bids on an auction quoted in `quoteToken` can attach native ETH. */
+export function isEthQuoted(quoteToken: string, weth: string | undefined): boolean {
+  return weth !== undefined && sameAddress(quoteToken, weth);
+}
+
+export type TokenPairError = "missing" | "invalid" | "same";
+
+/** `createAuction`'s "same token" check plus address sanity, so a pair is refused before any transaction. */
+export function validateTokenPair(base: string | undefined, quote: string | undefined): TokenPairError | undefined {
+  if (!base || !quote) return "missing";
+  if (!ethers.isAddress(base) || !ethers.isAddress(quote) || sameAddress(base, ethers.ZeroAddress) || sameAddress(quote, ethers.ZeroAddress)) {
+    return "invalid";
+  }
+  if (sameAddress(base, quote)) return "same";
+  return undefined;
+}
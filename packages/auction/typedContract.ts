@@ -0,0 +1,61 @@
+import type { ethers } from "ethers";
+
+/*
+  Typed methods of an ethers contract, inferred from an `as const` ABI like the ones `npm run genabi` writes to abi/:
+  `TypedContract<typeof FHEVWAPAuctionABI.abi>` has one method per ABI function, taking the values ethers accepts
+  for its inputs and resolving to what ethers decodes from its outputs (or to the transaction for non-view functions).
+*/
+
+type AbiParameter = {
+  readonly type: string;
+  readonly name?: string;
+  readonly components?: readonly AbiParameter[];
+};
+
+type AbiFunction = {
+  readonly type: "function";
+  readonly name: string;
+  readonly inputs: readonly AbiParameter[];
+  readonly outputs: readonly AbiParameter[];
+  readonly stateMutability: string;
+};
+
+type Direction = "in" | "out";
+
+/** Struct fields by name; ethers also returns them positionally, which the client never relies on. */
+type TupleValue<Components extends readonly AbiParameter[], D extends Direction> = {
+  [P in Components[number] as P["name"] & string]: AbiValue<P, D>;
+};
+
+/** What ethers takes (`in`) or returns (`out`) for one ABI parameter. */
+export type AbiValue<P extends AbiParameter, D extends Direction> = P["type"] extends `${infer Item}[]`
+  ? D extends "in"
+    ? readonly AbiValue<{ type: Item; components: P["components"] }, D>[]
+    : AbiValue<{ type: Item; components: P["components"] }, D>[]
+  : P["type"] extends "tuple"
+    ? TupleValue<NonNullable<P["components"]>, D>
+    : P["type"] extends `uint${string}` | `int${string}`
+      ? D extends "in" ? ethers.BigNumberish : bigint
+      : P["type"] extends "address"
+        ? D extends "in" ? ethers.AddressLike : `0x${string}` // checksummed
+        : P["type"] extends "bool"
+          ? boolean
+          : P["type"] extends "string"
+            ? string
+            : D extends "in" ? ethers.BytesLike : string; // bytes, bytesN (encrypted handles are bytes32)
+
+type Inputs<P extends readonly AbiParameter[]> = { [K in keyof P]: P[K] extends AbiParameter ? AbiValue<P[K], "in"> : never };
+
+type Output<F extends AbiFunction> = F["outputs"] extends readonly [infer Only extends AbiParameter]
+  ? AbiValue<Only, "out">
+  : F["outputs"] extends readonly []
+    ? void
+    : TupleValue<F["outputs"], "out">;
+
+type Method<F extends AbiFunction> = (
+  ...args: [...Inputs<F["inputs"]>, overrides?: ethers.Overrides]
+) => Promise<F["stateMutability"] extends "view" | "pure" ? Output<F> : ethers.ContractTransactionResponse>;
+
+export type TypedContract<TAbi extends readonly unknown[]> = ethers.BaseContract & {
+  [F in Extract<TAbi[number], AbiFunction> as F["name"]]: Method<F>;
+};
@@ -4,52 +4,53 @@ pragma solidity ^0.8.24;
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-import {FHE, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import {FHE, ebool, euint64, euint128, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHEVWAPAuctionStorage} from "./FHEVWAPAuctionStorage.sol";
+import {FHEVWAPAuctionDecryptions} from "./FHEVWAPAuctionDecryptions.sol";
+import {IWETH} from "./IWETH.sol";
 
 /// @title VWAP Batch Auction with Escrow and Zama FHE
 /// @notice Implements encrypted per-bid prices and homomorphic aggregation of price*qty. VWAP is revealed post-window.
-contract FHEVWAPAuction is SepoliaConfig, ReentrancyGuard {
+/// Quantities are in baseToken units; prices, caps and the VWAP are quoteToken units per whole base token
+/// (baseUnit = 10^decimals base units), so an allocation costs alloc * vwap / baseUnit.
+/// Decryption and settlement are seller-only until SETTLEMENT_GRACE_PERIOD after the window, then anyone may run them.
+/// Large bid sets can be settled over several transactions with settleBatch.
+/// Escrow is pulled with the ERC20 allowance when it covers the amount and through Permit2 otherwise; the
+/// *WithPermit entry points take a signed EIP-2612 or Permit2 approval so no approve transaction is needed.
+/// Auctions quoted in `weth` also take native ETH: bids attach maxSpend as msg.value, which is wrapped in escrow, and
+/// refunds, seller proceeds and claims are unwrapped back to ETH.
+/// In encrypted-caps mode price caps are encrypted too: eligibility (cap >= VWAP) is evaluated with FHE.ge and only
+/// the per-bid result is decrypted before settlement.
+/// In confidential-quantity mode quantities are encrypted as well: sumQ, the eligible demand and the per-bid
+/// allocations are each obtained through a decryption step, so no bidder's demand is public while the auction runs.
+/// A seller may set an encrypted reserve price; if the encrypted VWAP is below it the auction fails without revealing
+/// the reserve or the VWAP, and settle refunds every bid.
+contract FHEVWAPAuction is FHEVWAPAuctionStorage, SepoliaConfig, ReentrancyGuard {
     using SafeERC20 for IERC20;
-    struct Auction {
-        address seller;
-        uint256 S; // total baseToken supplied by seller
-        uint64 start;
-        uint64 end;
-        uint256 vwap; // public VWAP (integer)
-        bool vwapSet;
-        bool settled;
-        uint256 sumQ; // clear sum of quantities
-        euint64 encSumPQ; // encrypted sum of price*qty (approx on uint64 domain)
-        euint64 encVWAP; // encrypted VWAP (encSumPQ / sumQ)
-        bool encVWAPComputed;
-        IERC20 baseToken;
-        IERC20 quoteToken;
-    }
-
-    struct Bid {
-        address buyer;
-        uint256 qty; // requested base amount (clear)
-        uint256 priceCap; // clear price cap
-        uint256 maxSpend; // approved quote to escrow
-        bool settled;
-        // We don't store per-bid encrypted price beyond the homomorphic aggregation
-    }
-
-    event AuctionCreated(uint256 indexed auctionId, address indexed seller, uint256 S, uint64 start, uint64 end);
-    event BidSubmitted(uint256 indexed auctionId, address indexed buyer, uint256 qty, uint256 priceCap, uint256 maxSpend);
-    event EncryptedVWAPComputed(uint256 indexed auctionId);
-    event VWAPDecryptionRequested(uint256 indexed auctionId, uint256 requestId);
-    event VWAPDecrypted(uint256 indexed auctionId, uint256 vwap);
-    event Allocated(uint256 indexed auctionId, address indexed buyer, uint256 alloc, uint256 spend);
-    event Refunded(uint256 indexed auctionId, address indexed buyer, uint256 amount);
-    event SellerPaid(uint256 indexed auctionId, address indexed seller, uint256 amount);
-    event BaseRemainderReturned(uint256 indexed auctionId, address indexed seller, uint256 amount);
-
-    uint256 public auctionsCount;
-    mapping(uint256 => Auction) public auctions;
-    mapping(uint256 => Bid[]) internal _bidsByAuction;
-    mapping(uint256 => uint256) internal _decryptReqToAuction; // requestId => auctionId
+
+    /// @notice Module with the per-auction settings and the per-bid and confidential-quantity decryption flows (see
+    /// _delegateToDecryptions), kept in a separate contract so this one stays under the EIP-170 code size limit.
+    address public immutable decryptions;
+
+    /// @notice Wrapped ether of this chain; auctions quoted in it accept native ETH bids. Zero disables ETH.
+    IWETH public immutable weth;
+
+    /// @notice Gas forwarded with an ETH payout. A recipient that needs more, or rejects ETH, is paid in WETH,
+    /// so no bidder can block or grief a settlement run.
+    uint256 public constant ETH_PAYOUT_GAS = 50_000;
+
+    constructor(IWETH weth_) {
+        decryptions = address(new FHEVWAPAuctionDecryptions());
+        weth = weth_;
+    }
+
+    /// @dev Only WETH unwrapping sends ETH here; bids attach theirs through the payable submit functions
+    receive() external payable {
+        require(msg.sender == address(weth), "only weth");
+    }
 
     /// @notice Create a new VWAP auction, deposits seller baseToken into escrow
     function createAuction(
@@ -59,38 +60,130 @@ contract FHEVWAPAuction is SepoliaConfig, ReentrancyGuard {
         uint64 start,
         uint64 end
     ) public nonReentrant returns (uint256 auctionId) {
+        _authorizeSeller();
         require(start < end, "invalid window");
         require(S > 0, "zero S");
         require(address(baseToken) != address(quoteToken), "same token");
 
-        auctionId = ++auctionsCount;
-
         // Pull base from seller to escrow
-        baseToken.safeTransferFrom(msg.sender, address(this), S);
+        _pullFrom(baseToken, S);
 
-        // Initialize encSumPQ to zero handle (implicit)
-        Auction storage a = auctions[auctionId];
-        a.seller = msg.sender;
-        a.S = S;
-        a.start = start;
-        a.end = end;
-        a.vwap = 0;
-        a.vwapSet = false;
-        a.settled = false;
-        a.sumQ = 0;
-        a.encSumPQ = FHE.asEuint64(0);
-        a.encVWAP = FHE.asEuint64(0);
-        a.encVWAPComputed = false;
-        a.baseToken = baseToken;
-        a.quoteToken = quoteToken;
-
-        // allow contract to decrypt its own aggregate if needed in mock/testing
-        FHE.allowThis(a.encSumPQ);
+        auctionId = _initAuction(baseToken, quoteToken, S, start, end);
+    }
+
+    /// @notice createAuction with the auction's settings, applied in the same transaction. See
+    /// FHEVWAPAuctionDecryptions.
+    function createAuctionWithOptions(
+        IERC20 baseToken,
+        IERC20 quoteToken,
+        uint256 S,
+        uint64 start,
+        uint64 end,
+        AuctionOptions calldata
+    ) external returns (uint256) {
+        createAuction(baseToken, quoteToken, S, start, end);
+        _delegateToDecryptions();
+    }
+
+    /// @notice createAuctionWithOptions with a signed approval of the base token instead of a prior approve
+    /// transaction
+    function createAuctionWithPermit(
+        IERC20 baseToken,
+        IERC20 quoteToken,
+        uint256 S,
+        uint64 start,
+        uint64 end,
+        AuctionOptions calldata,
+        TokenPermit calldata permit
+    ) external returns (uint256) {
+        _usePermit(baseToken, permit);
+        createAuction(baseToken, quoteToken, S, start, end);
+        _delegateToDecryptions();
+    }
+
+    /// @notice Create `windows` back-to-back auctions of `windowLength` seconds, each selling `supplyPerWindow`.
+    /// The whole schedule is escrowed upfront; base left unsold in a window rolls into the next one.
+    function createRecurringAuction(
+        IERC20 baseToken,
+        IERC20 quoteToken,
+        uint256 supplyPerWindow,
+        uint64 firstStart,
+        uint64 windowLength,
+        uint32 windows
+    ) public nonReentrant returns (uint256 seriesId) {
+        _authorizeSeller();
+        require(windows > 0 && windows <= MAX_SERIES_WINDOWS, "invalid windows");
+        require(windowLength > 0, "invalid window");
+        require(supplyPerWindow > 0, "zero S");
+        require(address(baseToken) != address(quoteToken), "same token");
+
+        _pullFrom(baseToken, supplyPerWindow * windows);
+
+        bytes memory ret = _delegateInternal(
+            abi.encodeCall(
+                FHEVWAPAuctionDecryptions.initSeries,
+                (baseToken, quoteToken, supplyPerWindow, firstStart, windowLength, windows)
+            )
+        );
+        seriesId = abi.decode(ret, (uint256));
+    }
 
-        emit AuctionCreated(auctionId, msg.sender, S, start, end);
+    /// @dev Hook for specializations, run by createAuction and createRecurringAuction for msg.sender.
+    function _authorizeSeller() internal view virtual {}
+
+    /// @dev Records a new auction of msg.sender. See FHEVWAPAuctionDecryptions.initAuction.
+    function _initAuction(
+        IERC20 baseToken,
+        IERC20 quoteToken,
+        uint256 S,
+        uint64 start,
+        uint64 end
+    ) internal returns (uint256) {
+        bytes memory ret = _delegateInternal(
+            abi.encodeCall(FHEVWAPAuctionDecryptions.initAuction, (baseToken, quoteToken, S, start, end))
+        );
+        return abi.decode(ret, (uint256));
+    }
+
+    /// @dev Grants this contract the signed allowance. See FHEVWAPAuctionDecryptions.usePermit.
+    function _usePermit(IERC20 token, TokenPermit calldata p) internal {
+        _delegateInternal(abi.encodeCall(FHEVWAPAuctionDecryptions.usePermit, (token, p)));
     }
 
-    /// @notice Submit a bid with encrypted price and clear qty/caps. Transfers maxSpend quote to escrow.
+    /// @dev Escrows `amount` from the caller: attached ETH wrapped into `weth`, else through the ERC20 allowance when
+    /// it suffices, else through Permit2 where it is deployed
+    function _pullFrom(IERC20 token, uint256 amount) internal {
+        if (msg.value > 0) {
+            require(address(token) == address(weth), "quote not weth");
+            require(msg.value == amount, "value != amount");
+            weth.deposit{value: amount}();
+        } else if (token.allowance(msg.sender, address(this)) >= amount) {
+            token.safeTransferFrom(msg.sender, address(this), amount);
+        } else {
+            require(address(PERMIT2).code.length > 0, "allowance too low");
+            PERMIT2.transferFrom(msg.sender, address(this), SafeCast.toUint160(amount), address(token));
+        }
+    }
+
+    /// @dev Pays out quote: `weth` is unwrapped and sent as ETH, falling back to WETH when the recipient rejects it
+    function _sendQuote(IERC20 token, address to, uint256 amount) internal {
+        if (address(token) == address(weth)) {
+            weth.withdraw(amount);
+            // solhint-disable-next-line avoid-low-level-calls
+            (bool sent, ) = to.call{value: amount, gas: ETH_PAYOUT_GAS}("");
+            if (sent) return;
+            weth.deposit{value: amount}();
+        }
+        token.safeTransfer(to, amount);
+    }
+
+    /// @notice Prove allowlist membership once before bidding. See FHEVWAPAuctionDecryptions.
+    function joinAllowlist(uint256, bytes32[] calldata) external {
+        _delegateToDecryptions();
+    }
+
+    /// @notice Submit a bid with encrypted price and clear qty/caps. Transfers maxSpend quote to escrow, or takes it
+    /// as msg.value in native ETH when the auction is quoted in `weth`.
     function submitBid(
         uint256 auctionId,
         externalEuint64 encPrice,
@@ -98,50 +191,274 @@ contract FHEVWAPAuction is SepoliaConfig, ReentrancyGuard {
         uint256 qty,
         uint256 priceCap,
         uint256 maxSpend
-    ) public nonReentrant {
+    ) public payable nonReentrant {
+        require(!encryptedCaps[auctionId], "encrypted caps");
+        require(!confidentialQuantities[auctionId], "confidential qty");
+        require(qty > 0, "qty=0");
+        euint64 price = FHE.fromExternal(encPrice, inputProof);
+        _recordBid(auctionId, price, _encryptedProduct(price, qty), qty, priceCap, maxSpend);
+        _addSumQ(auctions[auctionId], qty);
+        _addDemand(auctionId, priceCap, qty);
+    }
+
+    /// @notice submitBid with a signed approval of the quote token instead of a prior approve transaction
+    function submitBidWithPermit(
+        uint256 auctionId,
+        externalEuint64 encPrice,
+        bytes calldata inputProof,
+        uint256 qty,
+        uint256 priceCap,
+        uint256 maxSpend,
+        TokenPermit calldata permit
+    ) external {
+        _usePermit(auctions[auctionId].quoteToken, permit);
+        submitBid(auctionId, encPrice, inputProof, qty, priceCap, maxSpend);
+    }
+
+    /// @notice Encrypted-caps bid: price and cap come from one encrypted input sharing `inputProof`.
+    /// BidSubmitted reports a zero cap; maxSpend stays clear since it is the escrowed amount.
+    function submitBidEncryptedCap(
+        uint256 auctionId,
+        externalEuint64 encPrice,
+        externalEuint64 encCap,
+        bytes calldata inputProof,
+        uint256 qty,
+        uint256 maxSpend
+    ) public payable nonReentrant {
+        require(encryptedCaps[auctionId], "clear caps");
+        require(qty > 0, "qty=0");
+        euint64 price = FHE.fromExternal(encPrice, inputProof);
+        Bid storage b = _recordBid(auctionId, price, _encryptedProduct(price, qty), qty, 0, maxSpend);
+        b.encCap = FHE.fromExternal(encCap, inputProof);
+        FHE.allowThis(b.encCap);
+        _addSumQ(auctions[auctionId], qty);
+    }
+
+    /// @notice Confidential-quantity bid: price and qty come from one encrypted input sharing `inputProof`.
+    /// BidSubmitted reports a zero qty. A qty the escrow cannot pay for at `priceCap`
+    /// (qty > maxSpend * baseUnit / priceCap), or that would push the encrypted sumQ past 2^64 - 1, is voided to 0
+    /// rather than reverting, which would reveal it; the bid is then refunded at settlement.
+    function submitBidConfidentialQty(
+        uint256 auctionId,
+        externalEuint64 encPrice,
+        externalEuint64 encQty,
+        bytes calldata inputProof,
+        uint256 priceCap,
+        uint256 maxSpend
+    ) public payable nonReentrant {
+        require(confidentialQuantities[auctionId], "clear qty");
+        require(priceCap > 0, "cap=0");
+        euint64 qty = _fittingQty(
+            auctionId,
+            FHE.fromExternal(encQty, inputProof),
+            Math.mulDiv(maxSpend, baseUnit[auctionId], priceCap)
+        );
+        FHE.allowThis(qty);
+        FHE.allow(qty, msg.sender);
+
+        euint64 price = FHE.fromExternal(encPrice, inputProof);
+        euint128 product = FHE.mul(FHE.asEuint128(price), FHE.asEuint128(qty));
+        FHE.allowThis(product);
+        Bid storage b = _recordBid(auctionId, price, product, 0, priceCap, maxSpend);
+        b.encQty = qty;
+        _encSumQ[auctionId] = FHE.add(_encSumQ[auctionId], qty);
+        FHE.allowThis(_encSumQ[auctionId]);
+    }
+
+    /// @dev `qty`, or 0 when it exceeds what maxSpend covers at the cap or would push the encrypted sumQ past
+    /// 2^64 - 1. A voided bid keeps its escrow, refunded by settle or, when sumQ ends at 0, by closeEmptyAuction.
+    function _fittingQty(uint256 auctionId, euint64 qty, uint256 maxQty) internal returns (euint64) {
+        ebool fits = FHE.and(
+            FHE.le(qty, uint64(maxQty < type(uint64).max ? maxQty : type(uint64).max)),
+            FHE.le(qty, FHE.sub(type(uint64).max, _encSumQ[auctionId]))
+        );
+        return FHE.select(fits, qty, FHE.asEuint64(0));
+    }
+
+    /// @dev Checks the window, escrows maxSpend and adds `product` (encrypted price*qty) to encSumPQ. Callers
+    /// account the quantity.
+    function _recordBid(
+        uint256 auctionId,
+        euint64 price,
+        euint128 product,
+        uint256 qty,
+        uint256 priceCap,
+        uint256 maxSpend
+    ) internal returns (Bid storage b) {
         Auction storage a = auctions[auctionId];
         require(a.seller != address(0), "no auction");
         require(block.timestamp >= a.start && block.timestamp <= a.end, "not in window");
-        require(qty > 0, "qty=0");
         require(maxSpend > 0, "maxSpend=0");
+        _authorizeBidder(auctionId);
+        _trackBidder(auctionId, 1, 0, qty);
 
         // Pull quoteToken funds into escrow up to maxSpend
-        a.quoteToken.safeTransferFrom(msg.sender, address(this), maxSpend);
+        _pullFrom(a.quoteToken, maxSpend);
 
-        // Convert external encrypted price and accumulate encSumPQ += encPrice * qty
-        euint64 price = FHE.fromExternal(encPrice, inputProof);
-        // ct * pt then sum
-        euint64 product = FHE.mul(price, uint64(qty));
+        // Accumulate encSumPQ += encPrice * qty
         a.encSumPQ = FHE.add(a.encSumPQ, product);
         // keep permission to this contract
         FHE.allowThis(a.encSumPQ);
 
-        a.sumQ += qty;
-
-        _bidsByAuction[auctionId].push(
-            Bid({buyer: msg.sender, qty: qty, priceCap: priceCap, maxSpend: maxSpend, settled: false})
-        );
+        b = _bidsByAuction[auctionId].push();
+        b.buyer = msg.sender;
+        b.qty = qty;
+        b.priceCap = priceCap;
+        b.maxSpend = maxSpend;
+        b.encPQ = product;
+        b.encPrice = price;
+        FHE.allowThis(price);
 
         emit BidSubmitted(auctionId, msg.sender, qty, priceCap, maxSpend);
     }
 
-    /// @notice Computes encrypted VWAP = encSumPQ / sumQ (ciphertext/plaintext division). Does not reveal result.
-    function computeEncryptedVWAP(uint256 auctionId) external {
+    /// @dev Run for msg.sender on every new bid: enforces the auction's allowlist. Specializations add their own
+    /// checks on top.
+    function _authorizeBidder(uint256 auctionId) internal view virtual {
+        require(allowlistRoot[auctionId] == bytes32(0) || allowlisted[auctionId][msg.sender], "not allowlisted");
+    }
+
+    /// @dev Enforces bidderLimits on the caller's live bids and qty. Limits are fixed before the first bid, so
+    /// auctions without any skip the bookkeeping.
+    function _trackBidder(uint256 auctionId, int256 bids, uint256 oldQty, uint256 newQty) internal {
+        BidderLimits storage l = bidderLimits[auctionId];
+        if (l.maxBids != 0 || l.maxQty != 0 || l.maxShareBps != 0) {
+            _delegateInternal(abi.encodeCall(FHEVWAPAuctionDecryptions.trackBidder, (auctionId, bids, oldQty, newQty)));
+        }
+    }
+
+    /// @notice Replace price, qty, cap and escrow of one of the caller's bids while the window is open.
+    /// The old contribution is subtracted from encSumPQ; escrow is topped up or refunded by the difference.
+    /// Not available in encrypted-caps or confidential-quantity mode (the cap or qty would be posted in clear):
+    /// cancel and bid again instead. A top-up of a `weth` auction may be attached as msg.value.
+    function amendBid(
+        uint256 auctionId,
+        uint256 bidIndex,
+        externalEuint64 encPrice,
+        bytes calldata inputProof,
+        uint256 qty,
+        uint256 priceCap,
+        uint256 maxSpend
+    ) public payable nonReentrant {
         Auction storage a = auctions[auctionId];
-        require(a.seller != address(0), "no auction");
-        require(block.timestamp > a.end, "too early");
-        require(a.sumQ > 0, "no demand");
-        require(!a.encVWAPComputed, "already computed");
+        Bid storage b = _openBidOf(auctionId, bidIndex);
+        require(!encryptedCaps[auctionId], "encrypted caps");
+        require(!confidentialQuantities[auctionId], "confidential qty");
+        require(qty > 0, "qty=0");
+        require(maxSpend > 0, "maxSpend=0");
+        _trackBidder(auctionId, 0, b.qty, qty);
+
+        if (maxSpend > b.maxSpend) {
+            _pullFrom(a.quoteToken, maxSpend - b.maxSpend);
+        } else {
+            require(msg.value == 0, "value != amount");
+            if (maxSpend < b.maxSpend) {
+                _sendQuote(a.quoteToken, msg.sender, b.maxSpend - maxSpend);
+                emit Refunded(auctionId, msg.sender, b.maxSpend - maxSpend);
+            }
+        }
+
+        b.encPrice = FHE.fromExternal(encPrice, inputProof);
+        FHE.allowThis(b.encPrice);
+        euint128 product = _encryptedProduct(b.encPrice, qty);
+        a.encSumPQ = FHE.add(FHE.sub(a.encSumPQ, b.encPQ), product);
+        FHE.allowThis(a.encSumPQ);
+
+        a.sumQ -= b.qty;
+        _addSumQ(a, qty);
+        _removeDemand(auctionId, b.priceCap, b.qty);
+        _addDemand(auctionId, priceCap, qty);
+
+        b.qty = qty;
+        b.priceCap = priceCap;
+        b.maxSpend = maxSpend;
+        b.encPQ = product;
+
+        emit BidAmended(auctionId, bidIndex, msg.sender, qty, priceCap, maxSpend);
+    }
+
+    /// @notice Withdraw one of the caller's bids while the window is open, refunding its whole escrow.
+    function cancelBid(uint256 auctionId, uint256 bidIndex) public nonReentrant {
+        Auction storage a = auctions[auctionId];
+        Bid storage b = _openBidOf(auctionId, bidIndex);
+        _trackBidder(auctionId, -1, b.qty, 0);
+
+        a.encSumPQ = FHE.sub(a.encSumPQ, b.encPQ);
+        FHE.allowThis(a.encSumPQ);
+        a.sumQ -= b.qty;
+        if (confidentialQuantities[auctionId]) {
+            _encSumQ[auctionId] = FHE.sub(_encSumQ[auctionId], b.encQty);
+            FHE.allowThis(_encSumQ[auctionId]);
+        } else if (!encryptedCaps[auctionId]) {
+            _removeDemand(auctionId, b.priceCap, b.qty);
+        }
 
-        // encVWAP = floor(encSumPQ / sumQ)
-        a.encVWAP = FHE.div(a.encSumPQ, uint64(a.sumQ));
-        a.encVWAPComputed = true;
+        uint256 refund = b.maxSpend;
+        b.cancelled = true;
+        b.settled = true;
+
+        _sendQuote(a.quoteToken, msg.sender, refund);
+        emit Refunded(auctionId, msg.sender, refund);
+        emit BidCancelled(auctionId, bidIndex, msg.sender, refund);
+    }
 
-        // Allow this contract and caller to decrypt handle off-chain if needed
-        FHE.allowThis(a.encVWAP);
-        FHE.allow(a.encVWAP, msg.sender);
+    function _encryptedProduct(euint64 price, uint256 qty) internal returns (euint128 product) {
+        // ct * pt on 128 bits (price and qty are both < 2^64); retained per bid so amend/cancel can subtract it later
+        product = FHE.mul(FHE.asEuint128(price), uint128(qty));
+        FHE.allowThis(product);
+    }
 
-        emit EncryptedVWAPComputed(auctionId);
+    /// @dev Keeps sumQ within 64 bits: every price is an euint64, so encSumPQ <= max price * sumQ < 2^128 never wraps
+    function _addSumQ(Auction storage a, uint256 qty) internal {
+        a.sumQ += qty;
+        require(a.sumQ <= type(uint64).max, "sumQ overflow");
+    }
+
+    function _addDemand(uint256 auctionId, uint256 priceCap, uint256 qty) internal {
+        if (_capLevelIndex[auctionId][priceCap] == 0) {
+            uint256[] storage caps = _capLevels[auctionId];
+            require(caps.length < MAX_CAP_LEVELS, "too many caps");
+            caps.push(priceCap);
+            _capLevelIndex[auctionId][priceCap] = caps.length;
+        }
+        _demandAtCap[auctionId][priceCap] += qty;
+    }
+
+    /// @dev Drops the level of `priceCap` once no live demand is left at it (swapping the last level into its place)
+    function _removeDemand(uint256 auctionId, uint256 priceCap, uint256 qty) internal {
+        uint256 left = _demandAtCap[auctionId][priceCap] - qty;
+        _demandAtCap[auctionId][priceCap] = left;
+        if (left > 0) return;
+
+        uint256[] storage caps = _capLevels[auctionId];
+        uint256 position = _capLevelIndex[auctionId][priceCap];
+        uint256 last = caps[caps.length - 1];
+        caps[position - 1] = last;
+        _capLevelIndex[auctionId][last] = position;
+        caps.pop();
+        delete _capLevelIndex[auctionId][priceCap];
+    }
+
+    /// @notice Total qty of live clear-cap bids whose cap is at least `price`. Gas grows with the number of
+    /// distinct caps of live bids, at most MAX_CAP_LEVELS.
+    function eligibleDemand(uint256 auctionId, uint256 price) external view returns (uint256) {
+        return _eligibleDemand(auctionId, price);
+    }
+
+    /// @dev Bid `bidIndex` of `auctionId`, checked to belong to the caller and to still be amendable.
+    function _openBidOf(uint256 auctionId, uint256 bidIndex) internal view returns (Bid storage b) {
+        Auction storage a = auctions[auctionId];
+        require(a.seller != address(0), "no auction");
+        require(block.timestamp >= a.start && block.timestamp <= a.end, "not in window");
+        require(bidIndex < _bidsByAuction[auctionId].length, "no bid");
+        b = _bidsByAuction[auctionId][bidIndex];
+        require(b.buyer == msg.sender, "only buyer");
+        require(!b.cancelled, "cancelled");
+    }
+
+    /// @notice Computes encrypted VWAP = encSumPQ / sumQ without revealing it. See FHEVWAPAuctionDecryptions.
+    function computeEncryptedVWAP(uint256) external {
+        _delegateToDecryptions();
     }
 
     /// @notice Returns the encrypted VWAP handle (requires computeEncryptedVWAP to be called first).
@@ -151,26 +468,25 @@ contract FHEVWAPAuction is SepoliaConfig, ReentrancyGuard {
         return a.encVWAP;
     }
 
-    /// @notice Request on-chain decryption of the encrypted VWAP via FHE oracle.
-    /// The caller may need to attach a fee depending on the deployed oracle configuration.
-    function requestVWAPDecryption(uint256 auctionId) external payable returns (uint256 requestId) {
-        Auction storage a = auctions[auctionId];
-        require(a.seller != address(0), "no auction");
-        require(block.timestamp > a.end, "too early");
-        require(a.sumQ > 0, "no demand");
-        require(a.encVWAPComputed, "not computed");
-        require(!a.vwapSet, "already set");
-        require(msg.sender == a.seller, "only seller");
+    /// @notice Auditors only: grants the caller access to the prices of bids from..from+count-1, encSumPQ and
+    /// encVWAP. See FHEVWAPAuctionDecryptions.
+    function grantAuditAccess(uint256 auctionId, uint256, uint256) external returns (uint256) {
+        require(_isAuditor(auctionId, msg.sender), "not an auditor");
+        _delegateToDecryptions();
+    }
 
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(a.encVWAP);
-        requestId = FHE.requestDecryption(cts, this.resolveVWAPCallback.selector);
-        _decryptReqToAuction[requestId] = auctionId;
-        emit VWAPDecryptionRequested(auctionId, requestId);
+    /// @dev The auction's appointed auditor. Specializations may recognise other auditors.
+    function _isAuditor(uint256 auctionId, address account) internal view virtual returns (bool) {
+        return account == auditor[auctionId];
+    }
+
+    /// @notice Request on-chain decryption of the encrypted VWAP via FHE oracle. See FHEVWAPAuctionDecryptions.
+    function requestVWAPDecryption(uint256) external payable returns (uint256) {
+        _delegateToDecryptions();
     }
 
     /// @notice Oracle callback invoked with clear VWAP. Validates signatures and persists VWAP on-chain.
-    function resolveVWAPCallback(uint256 requestId, uint64 clearVWAP, bytes[] memory signatures) public virtual {
+    function resolveVWAPCallback(uint256 requestId, uint64 clearVWAP, bytes[] memory signatures) public {
         uint256 auctionId = _decryptReqToAuction[requestId];
         require(auctionId != 0, "unknown requestId");
         FHE.checkSignatures(requestId, signatures);
@@ -181,109 +497,305 @@ contract FHEVWAPAuction is SepoliaConfig, ReentrancyGuard {
         emit VWAPDecrypted(auctionId, a.vwap);
 
         delete _decryptReqToAuction[requestId];
+        _afterVWAPDecrypted(auctionId);
+    }
+
+    /// @dev Hook for specializations, run by resolveVWAPCallback once the VWAP of `auctionId` is public.
+    function _afterVWAPDecrypted(uint256 auctionId) internal virtual {}
+
+    /// @notice Smallest allocation the caller accepts for one of their bids (all-or-nothing with type(uint256).max).
+    /// See FHEVWAPAuctionDecryptions.
+    function setMinFill(uint256, uint256, uint256) external {
+        _delegateToDecryptions();
+    }
+
+    /// @notice Reserve-price auctions: decrypts whether the encrypted VWAP reached the reserve. See
+    /// FHEVWAPAuctionDecryptions.
+    function requestReserveCheck(uint256) external {
+        _delegateToDecryptions();
+    }
+
+    function resolveReserveCallback(uint256, bool, bytes[] calldata) external {
+        _delegateToDecryptions();
+    }
+
+    /// @notice Encrypted-caps mode: decrypts cap >= VWAP bid by bid. See FHEVWAPAuctionDecryptions.
+    function requestEligibilityDecryption(uint256) external {
+        _delegateToDecryptions();
+    }
+
+    /// @notice requestEligibilityDecryption for bids [from, from + count), for large bid sets. Returns the next
+    /// cursor. See FHEVWAPAuctionDecryptions.
+    function requestEligibilityBatch(uint256, uint256, uint256) external returns (uint256) {
+        _delegateToDecryptions();
+    }
+
+    function resolveEligibilityCallback(uint256, bool, bytes[] calldata) external {
+        _delegateToDecryptions();
+    }
+
+    /// @notice Confidential-quantity mode, after the window: decrypts sumQ. See FHEVWAPAuctionDecryptions.
+    function requestSumQDecryption(uint256) external {
+        _delegateToDecryptions();
+    }
+
+    function resolveSumQCallback(uint256, uint64, bytes[] calldata) external {
+        _delegateToDecryptions();
+    }
+
+    /// @notice Confidential-quantity mode, after the VWAP: decrypts the eligible demand. See FHEVWAPAuctionDecryptions.
+    function requestEligibleDemandDecryption(uint256) external {
+        _delegateToDecryptions();
+    }
+
+    function resolveEligibleDemandCallback(uint256, uint64, bytes[] calldata) external {
+        _delegateToDecryptions();
+    }
+
+    /// @notice Confidential-quantity mode: decrypts each eligible bid's allocation. See FHEVWAPAuctionDecryptions.
+    function requestAllocationDecryption(uint256) external {
+        _delegateToDecryptions();
+    }
+
+    function resolveAllocationCallback(uint256, uint64, bytes[] calldata) external {
+        _delegateToDecryptions();
+    }
+
+    /// @dev Runs the current call in the decryptions module against this contract's storage and returns its result.
+    function _delegateToDecryptions() internal {
+        address module = decryptions;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let ok := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch ok
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+
+    /// @dev Runs `data` in the decryptions module against this contract's storage, bubbling its revert reason.
+    function _delegateInternal(bytes memory data) internal returns (bytes memory ret) {
+        bool ok;
+        // solhint-disable-next-line avoid-low-level-calls
+        (ok, ret) = decryptions.delegatecall(data);
+        if (!ok) {
+            assembly {
+                revert(add(ret, 32), mload(ret))
+            }
+        }
     }
 
     /// @notice Settle allocations and payments. Performs pro-rata if needed. Requires on-chain decrypted VWAP.
+    /// Seller-only until the grace period has elapsed; with pull payments, amounts are recorded for claim().
+    /// Settles every remaining bid in one transaction; use settleBatch when that would exceed the block gas limit.
+    /// An auction whose reserve was not met, or that closed with a revealed sumQ of 0 (see closeEmptyAuction),
+    /// settles without a VWAP, by anyone: every bid is refunded.
     function settle(uint256 auctionId) external nonReentrant {
+        uint256 from = settlements[auctionId].cursor;
+        _settleBatch(auctionId, from, _bidsByAuction[auctionId].length - from);
+    }
+
+    /// @notice Settle bids [from, from + count) of an auction. `from` must equal the persisted cursor, so
+    /// concurrent callers cannot settle a bid twice. The batch reaching the last bid completes the settlement.
+    /// @return next Cursor after this batch (equals the bid count once settled)
+    function settleBatch(uint256 auctionId, uint256 from, uint256 count) external nonReentrant returns (uint256 next) {
+        require(count > 0, "count=0");
+        next = _settleBatch(auctionId, from, count);
+    }
+
+    function _settleBatch(uint256 auctionId, uint256 from, uint256 count) internal returns (uint256 to) {
         Auction storage a = auctions[auctionId];
         require(a.seller != address(0), "no auction");
-        require(a.vwapSet, "no vwap");
+        bool failed = reserveCheck[auctionId] == ReserveCheck.NotMet || _closedWithoutDemand(auctionId, a);
+        require(a.vwapSet || failed, "no vwap");
         require(!a.settled, "settled");
-        require(msg.sender == a.seller, "only seller");
+        if (!failed) _requireSellerOrGraceElapsed(a);
+
+        Settlement storage st = settlements[auctionId];
+        require(from == st.cursor, "bad cursor");
+        if (!st.started) {
+            st.started = true;
+            st.eligibleQ = failed ? 0 : _startingEligibleQ(auctionId);
+            st.supply = a.S;
+            st.remainingBase = a.S;
+        }
 
         Bid[] storage bids = _bidsByAuction[auctionId];
+        to = from + count < bids.length ? from + count : bids.length;
+        for (uint256 j = from; j < to; j++) {
+            if (bids[j].settled) continue;
+            bool eligible = !failed &&
+                !bids[j].minFillExcluded &&
+                (encryptedCaps[auctionId] ? bids[j].capMet : bids[j].priceCap >= a.vwap);
+            _settleBid(auctionId, a, st, bids[j], eligible);
+        }
+        st.cursor = to;
+        emit SettlementProgress(auctionId, to, bids.length);
+        if (to < bids.length) return to;
 
-        // First, compute eligible demand Q (priceCap >= vwap)
-        uint256 Q = 0;
-        for (uint256 i = 0; i < bids.length; i++) {
-            if (bids[i].settled) continue;
-            if (bids[i].priceCap >= a.vwap) {
-                Q += bids[i].qty;
-            }
+        // Return any unallocated base to seller (or roll it into the next window of a series), including
+        // base rolled in from the previous window after the first batch
+        a.settled = true;
+        uint256 remainingBase = st.remainingBase + (a.S - st.supply);
+        if (st.eligibleQ == 0) {
+            // every bid was refunded in full
+            _releaseBase(auctionId, remainingBase);
+            return to;
+        }
+        if (remainingBase > 0) {
+            _releaseBase(auctionId, remainingBase);
         }
 
-        uint256 S = a.S;
-        uint256 sellerProceeds = 0;
-
-        if (Q == 0) {
-            // refund all maxSpend and return base to seller
-            for (uint256 i2 = 0; i2 < bids.length; i2++) {
-                if (bids[i2].settled) continue;
-                bids[i2].settled = true;
-                // refund full maxSpend
-                if (bids[i2].maxSpend > 0) {
-                    a.quoteToken.safeTransfer(bids[i2].buyer, bids[i2].maxSpend);
-                    emit Refunded(auctionId, bids[i2].buyer, bids[i2].maxSpend);
-                }
-            }
+        emit SellerPaid(auctionId, a.seller, st.sellerProceeds);
+    }
+
+    /// @dev Eligible demand Q (priceCap >= vwap) comes from the buckets maintained while bidding, from the
+    /// decrypted per-bid eligibility in encrypted-caps mode, or decrypted in confidential-quantity mode, less the
+    /// bids below their minimum fill. Runs FHEVWAPAuctionDecryptions.startingEligibleQ.
+    function _startingEligibleQ(uint256 auctionId) internal returns (uint256) {
+        bytes memory ret = _delegateInternal(abi.encodeCall(FHEVWAPAuctionDecryptions.startingEligibleQ, (auctionId)));
+        return abi.decode(ret, (uint256));
+    }
 
-            // return all base to seller
-            require(a.baseToken.transfer(a.seller, S), "base back failed");
-            emit BaseRemainderReturned(auctionId, a.seller, S);
-            a.settled = true;
+    function _settleBid(
+        uint256 auctionId,
+        Auction storage a,
+        Settlement storage st,
+        Bid storage b,
+        bool eligible
+    ) internal {
+        b.settled = true;
+        if (!eligible) {
+            // ineligible: full refund
+            if (b.maxSpend > 0) {
+                _payQuote(auctionId, b.buyer, b.maxSpend);
+                emit Refunded(auctionId, b.buyer, b.maxSpend);
+            }
             return;
         }
 
-        // Compute allocations
-        uint256 remainingBase = S;
-        for (uint256 j = 0; j < bids.length; j++) {
-            if (bids[j].settled) continue;
-            if (bids[j].priceCap < a.vwap) {
-                // ineligible: full refund
-                bids[j].settled = true;
-                if (bids[j].maxSpend > 0) {
-                    a.quoteToken.safeTransfer(bids[j].buyer, bids[j].maxSpend);
-                    emit Refunded(auctionId, bids[j].buyer, bids[j].maxSpend);
-                }
-                continue;
-            }
+        uint256 alloc = _allocationOf(auctionId, st, b);
+        if (alloc > st.remainingBase) {
+            alloc = st.remainingBase;
+        }
 
-            uint256 alloc;
-            if (S >= Q) {
-                alloc = bids[j].qty;
-            } else {
-                // floor((q_i / Q) * S)
-                alloc = (bids[j].qty * S) / Q;
-            }
+        uint256 spend = (alloc * a.vwap) / baseUnit[auctionId];
+        require(spend <= b.maxSpend, "insufficient escrow");
 
-            if (alloc > remainingBase) {
-                alloc = remainingBase;
-            }
+        // Transfers
+        if (alloc > 0) {
+            _payBase(auctionId, b.buyer, alloc);
+            st.remainingBase -= alloc;
+        }
 
-            uint256 spend = alloc * a.vwap;
-            require(spend <= bids[j].maxSpend, "insufficient escrow");
+        if (spend > 0) {
+            // move spend to seller
+            _payQuote(auctionId, a.seller, spend);
+            st.sellerProceeds += spend;
+        }
 
-            // Transfers
-            if (alloc > 0) {
-                a.baseToken.safeTransfer(bids[j].buyer, alloc);
-                remainingBase -= alloc;
-            }
+        // refund remaining of maxSpend
+        uint256 refund = b.maxSpend - spend;
+        if (refund > 0) {
+            _payQuote(auctionId, b.buyer, refund);
+            emit Refunded(auctionId, b.buyer, refund);
+        }
 
-            if (spend > 0) {
-                // move spend to seller
-                a.quoteToken.safeTransfer(a.seller, spend);
-                sellerProceeds += spend;
-            }
+        emit Allocated(auctionId, b.buyer, alloc, spend);
+    }
 
-            // refund remaining of maxSpend
-            uint256 refund = bids[j].maxSpend - spend;
-            if (refund > 0) {
-                a.quoteToken.safeTransfer(bids[j].buyer, refund);
-                emit Refunded(auctionId, bids[j].buyer, refund);
-            }
+    function _allocationOf(uint256 auctionId, Settlement storage st, Bid storage b) internal view returns (uint256) {
+        if (confidentialQuantities[auctionId]) {
+            // computed homomorphically and decrypted by requestAllocationDecryption
+            return b.allocation;
+        }
+        if (st.supply >= st.eligibleQ) {
+            return b.qty;
+        }
+        // floor((q_i / Q) * S)
+        return (b.qty * st.supply) / st.eligibleQ;
+    }
 
-            bids[j].settled = true;
-            emit Allocated(auctionId, bids[j].buyer, alloc, spend);
+    /// @notice Closes a window whose revealed sumQ is 0 (no VWAP can be computed): refunds the escrow of every live
+    /// bid, e.g. confidential-quantity bids voided to 0, and releases the base. Permissionless: funds only move back
+    /// to the bidders, the seller or into the next window of the series. Same as settle, in one transaction.
+    function closeEmptyAuction(uint256 auctionId) external nonReentrant {
+        Auction storage a = auctions[auctionId];
+        require(a.seller != address(0), "no auction");
+        require(block.timestamp > a.end, "too early");
+        _requireSumQRevealed(auctionId);
+        require(a.sumQ == 0, "has demand");
+
+        uint256 from = settlements[auctionId].cursor;
+        _settleBatch(auctionId, from, _bidsByAuction[auctionId].length - from);
+    }
+
+    /// @dev The window closed with a revealed sumQ of 0, so it can only refund its bids
+    function _closedWithoutDemand(uint256 auctionId, Auction storage a) internal view returns (bool) {
+        return
+            block.timestamp > a.end &&
+            a.sumQ == 0 &&
+            (!confidentialQuantities[auctionId] || qtyReveal[auctionId] >= QtyReveal.SumQRevealed);
+    }
+
+    /// @notice Next window of the series `auctionId` belongs to, or 0 for standalone/last windows.
+    function nextWindowOf(uint256 auctionId) public view returns (uint256) {
+        uint256 seriesId = seriesOfAuction[auctionId];
+        if (seriesId == 0) return 0;
+        Series storage s = series[seriesId];
+        return auctionId + 1 < s.firstAuctionId + s.windows ? auctionId + 1 : 0;
+    }
+
+    /// @dev Unsold base of a settled window: rolls into the next window while that one is unsettled,
+    /// otherwise goes back to the seller.
+    function _releaseBase(uint256 auctionId, uint256 amount) internal {
+        Auction storage a = auctions[auctionId];
+        uint256 next = nextWindowOf(auctionId);
+        if (next != 0 && !auctions[next].settled) {
+            auctions[next].S += amount;
+            emit BaseRolledOver(auctionId, next, amount);
+            return;
         }
+        _payBase(auctionId, a.seller, amount);
+        emit BaseRemainderReturned(auctionId, a.seller, amount);
+    }
 
-        // Return any unallocated base to seller
-        if (remainingBase > 0) {
-            a.baseToken.safeTransfer(a.seller, remainingBase);
-            emit BaseRemainderReturned(auctionId, a.seller, remainingBase);
+    /// @notice Withdraw the base and quote that settle recorded for the caller on a pull-payment auction.
+    function claim(uint256 auctionId) external nonReentrant returns (uint256 baseAmount, uint256 quoteAmount) {
+        Auction storage a = auctions[auctionId];
+        require(a.seller != address(0), "no auction");
+        require(a.settled, "not settled");
+        baseAmount = claimableBase[auctionId][msg.sender];
+        quoteAmount = claimableQuote[auctionId][msg.sender];
+        require(baseAmount > 0 || quoteAmount > 0, "nothing to claim");
+
+        claimableBase[auctionId][msg.sender] = 0;
+        claimableQuote[auctionId][msg.sender] = 0;
+        if (baseAmount > 0) a.baseToken.safeTransfer(msg.sender, baseAmount);
+        if (quoteAmount > 0) _sendQuote(a.quoteToken, msg.sender, quoteAmount);
+        emit Claimed(auctionId, msg.sender, baseAmount, quoteAmount);
+    }
+
+    /// @dev Transfers now, or records a claim when the auction uses pull payments.
+    function _payBase(uint256 auctionId, address to, uint256 amount) internal {
+        if (pullPayments[auctionId]) {
+            claimableBase[auctionId][to] += amount;
+        } else {
+            auctions[auctionId].baseToken.safeTransfer(to, amount);
         }
+    }
 
-        emit SellerPaid(auctionId, a.seller, sellerProceeds);
-        a.settled = true;
+    function _payQuote(uint256 auctionId, address to, uint256 amount) internal {
+        if (pullPayments[auctionId]) {
+            claimableQuote[auctionId][to] += amount;
+        } else {
+            _sendQuote(auctions[auctionId].quoteToken, to, amount);
+        }
     }
 
     // Convenience getters
@@ -291,5 +803,3 @@ contract FHEVWAPAuction is SepoliaConfig, ReentrancyGuard {
         return _bidsByAuction[auctionId];
     }
 }
-
-
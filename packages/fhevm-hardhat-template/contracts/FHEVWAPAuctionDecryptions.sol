@@ -0,0 +1,586 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, euint128, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import {FHEVWAPAuctionStorage} from "./FHEVWAPAuctionStorage.sol";
+import {IPermit2} from "./IPermit2.sol";
+
+/// @title Encrypted VWAP, decryption flows and auction settings of FHEVWAPAuction
+/// @notice The encrypted VWAP, the reserve price check, per-bid eligibility of encrypted caps, the
+/// confidential-quantity reveal steps, minimum fills, allowlists and the per-auction settings. Only meaningful through
+/// FHEVWAPAuction, which delegatecalls into it: state, FHE permissions and oracle requests all belong to the auction.
+contract FHEVWAPAuctionDecryptions is FHEVWAPAuctionStorage {
+    /// @notice Second half of FHEVWAPAuction.createAuctionWithOptions, run through delegatecall once createAuction
+    /// has recorded the auction: applies `options` to it.
+    function createAuctionWithOptions(
+        IERC20,
+        IERC20,
+        uint256,
+        uint64,
+        uint64,
+        AuctionOptions calldata options
+    ) external returns (uint256) {
+        return _applyOptions(options);
+    }
+
+    /// @notice Second half of FHEVWAPAuction.createAuctionWithPermit, see createAuctionWithOptions.
+    function createAuctionWithPermit(
+        IERC20,
+        IERC20,
+        uint256,
+        uint64,
+        uint64,
+        AuctionOptions calldata options,
+        TokenPermit calldata
+    ) external returns (uint256) {
+        return _applyOptions(options);
+    }
+
+    /// @dev Applies the settings of the auction createAuction has just recorded, the latest one. Bidders must know
+    /// them before bidding, so they cannot be changed afterwards.
+    function _applyOptions(AuctionOptions calldata options) internal returns (uint256 auctionId) {
+        auctionId = auctionsCount;
+        require(!options.encryptedCaps || !options.confidentialQuantities, "incompatible modes");
+        require(bytes(options.priceUnit).length <= MAX_PRICE_UNIT_LENGTH, "unit too long");
+
+        if (options.pullPayments) {
+            pullPayments[auctionId] = true;
+            emit PullPaymentsSet(auctionId, true);
+        }
+        if (options.encryptedCaps) {
+            encryptedCaps[auctionId] = true;
+            emit EncryptedCapsSet(auctionId, true);
+        }
+        if (options.confidentialQuantities) {
+            confidentialQuantities[auctionId] = true;
+            emit ConfidentialQuantitiesSet(auctionId, true);
+        }
+        if (bytes(options.priceUnit).length > 0) {
+            priceUnit[auctionId] = options.priceUnit;
+            emit PriceUnitSet(auctionId, options.priceUnit);
+        }
+        if (options.metadataHash != bytes32(0)) {
+            metadataHash[auctionId] = options.metadataHash;
+            emit MetadataSet(auctionId, options.metadataHash);
+        }
+        _applyBidderRules(auctionId, options);
+    }
+
+    /// @dev The part of _applyOptions that decides who may bid, how much, at what price the auction fails and who
+    /// may audit the prices
+    function _applyBidderRules(uint256 auctionId, AuctionOptions calldata options) internal {
+        BidderLimits calldata limits = options.bidderLimits;
+        require(limits.maxShareBps <= BPS, "invalid share");
+        require((limits.maxQty == 0 && limits.maxShareBps == 0) || !options.confidentialQuantities, "confidential qty");
+
+        if (options.reserveProof.length > 0) {
+            // Only the seller may decrypt the reserve; anyone else only learns whether the VWAP reached it
+            euint64 reserve = FHE.fromExternal(options.encReserve, options.reserveProof);
+            FHE.allowThis(reserve);
+            FHE.allow(reserve, msg.sender);
+            _encReserve[auctionId] = reserve;
+            reserveCheck[auctionId] = ReserveCheck.Unchecked;
+            emit ReservePriceSet(auctionId);
+        }
+        if (options.allowlistRoot != bytes32(0)) {
+            allowlistRoot[auctionId] = options.allowlistRoot;
+            emit AllowlistSet(auctionId, options.allowlistRoot);
+        }
+        if (limits.maxBids != 0 || limits.maxQty != 0 || limits.maxShareBps != 0) {
+            bidderLimits[auctionId] = limits;
+            emit BidderLimitsSet(auctionId, limits.maxBids, limits.maxQty, limits.maxShareBps);
+        }
+        if (options.auditor != address(0)) {
+            auditor[auctionId] = options.auditor;
+            emit AuditorSet(auctionId, options.auditor);
+        }
+    }
+
+    /// @notice Computes encrypted VWAP = encSumPQ / sumQ (ciphertext/plaintext division). Does not reveal result.
+    function computeEncryptedVWAP(uint256 auctionId) external {
+        Auction storage a = auctions[auctionId];
+        require(a.seller != address(0), "no auction");
+        require(block.timestamp > a.end, "too early");
+        _requireSumQRevealed(auctionId);
+        require(a.sumQ > 0, "no demand");
+        require(!a.encVWAPComputed, "already computed");
+
+        // encVWAP = floor(encSumPQ / sumQ); a weighted mean of euint64 prices, so narrowing back to 64 bits is exact
+        a.encVWAP = FHE.asEuint64(FHE.div(a.encSumPQ, uint128(a.sumQ)));
+        a.encVWAPComputed = true;
+
+        // Allow this contract and caller to decrypt handle off-chain if needed
+        FHE.allowThis(a.encVWAP);
+        FHE.allow(a.encVWAP, msg.sender);
+
+        emit EncryptedVWAPComputed(auctionId);
+    }
+
+    /// @notice Proves the caller is under the auction's allowlist root, which lets them bid on it.
+    function joinAllowlist(uint256 auctionId, bytes32[] calldata proof) external {
+        bytes32 root = allowlistRoot[auctionId];
+        require(root != bytes32(0), "no allowlist");
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender))));
+        require(MerkleProof.verifyCalldata(proof, root, leaf), "invalid proof");
+
+        allowlisted[auctionId][msg.sender] = true;
+        emit AllowlistJoined(auctionId, msg.sender);
+    }
+
+    /// @notice Run by the auction through delegatecall when msg.sender opens (`bids` = 1), amends (0) or cancels
+    /// (-1) a bid whose qty goes from `oldQty` to `newQty`; enforces bidderLimits on the buyer's new totals.
+    function trackBidder(uint256 auctionId, int256 bids, uint256 oldQty, uint256 newQty) external {
+        BidderUsage storage u = bidderUsage[auctionId][msg.sender];
+        u.bids = SafeCast.toUint32(SafeCast.toUint256(int256(uint256(u.bids)) + bids));
+        u.qty = u.qty - oldQty + newQty;
+
+        uint32 maxBids = bidderLimits[auctionId].maxBids;
+        require(bids <= 0 || maxBids == 0 || u.bids <= maxBids, "bidder bid limit");
+        require(newQty <= oldQty || u.qty <= _maxBidderQty(auctionId), "bidder qty limit");
+    }
+
+    /// @dev The tighter of maxQty and maxShareBps of S; type(uint256).max without either.
+    function _maxBidderQty(uint256 auctionId) internal view returns (uint256 maxQty) {
+        BidderLimits storage l = bidderLimits[auctionId];
+        maxQty = l.maxQty == 0 ? type(uint256).max : l.maxQty;
+        if (l.maxShareBps != 0) {
+            maxQty = Math.min(maxQty, Math.mulDiv(auctions[auctionId].S, l.maxShareBps, BPS));
+        }
+    }
+
+    /// @notice Called through the auction, which checked that msg.sender is an auditor. Once the encrypted VWAP is
+    /// computed (the window is closed, so the handles are final), allows msg.sender to decrypt the price of each live
+    /// bid in from..from+count-1 (and its qty in confidential-quantity mode), encSumPQ and encVWAP. Returns the
+    /// next bid index; call again from there until it reaches the bid count.
+    function grantAuditAccess(uint256 auctionId, uint256 from, uint256 count) external returns (uint256 to) {
+        Auction storage a = auctions[auctionId];
+        require(a.encVWAPComputed, "not computed");
+        Bid[] storage bids = _bidsByAuction[auctionId];
+        to = Math.min(from + count, bids.length);
+        bool confidential = confidentialQuantities[auctionId];
+        for (uint256 i = from; i < to; i++) {
+            Bid storage b = bids[i];
+            if (b.cancelled) continue;
+            FHE.allow(b.encPrice, msg.sender);
+            if (confidential) FHE.allow(b.encQty, msg.sender);
+        }
+        FHE.allow(a.encSumPQ, msg.sender);
+        FHE.allow(a.encVWAP, msg.sender);
+        emit AuditAccessGranted(auctionId, msg.sender, from, to);
+    }
+
+    /// @notice Reserve-price auctions, once the encrypted VWAP is computed: requests the decryption of
+    /// FHE.ge(encVWAP, reserve) alone. requestVWAPDecryption waits for it. Seller-only until the grace period has
+    /// elapsed.
+    function requestReserveCheck(uint256 auctionId) external {
+        Auction storage a = auctions[auctionId];
+        require(a.seller != address(0), "no auction");
+        require(reserveCheck[auctionId] == ReserveCheck.Unchecked, "no pending reserve");
+        require(a.encVWAPComputed, "not computed");
+        _requireSellerOrGraceElapsed(a);
+
+        reserveCheck[auctionId] = ReserveCheck.Requested;
+        ebool met = FHE.ge(a.encVWAP, _encReserve[auctionId]);
+        FHE.allowThis(met);
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(met);
+        uint256 requestId = FHE.requestDecryption(cts, this.resolveReserveCallback.selector);
+        _reserveReqToAuction[requestId] = auctionId;
+    }
+
+    /// @notice Oracle callback with the clear reserve check. When it failed the VWAP is never revealed and settle
+    /// refunds every bid.
+    function resolveReserveCallback(uint256 requestId, bool met, bytes[] memory signatures) public {
+        uint256 auctionId = _reserveReqToAuction[requestId];
+        require(auctionId != 0, "unknown requestId");
+        FHE.checkSignatures(requestId, signatures);
+
+        reserveCheck[auctionId] = met ? ReserveCheck.Met : ReserveCheck.NotMet;
+        emit ReserveChecked(auctionId, met);
+
+        delete _reserveReqToAuction[requestId];
+    }
+
+    /// @dev FHEVWAPAuction.resolveVWAPCallback, which stays in the auction so specializations can hook into it
+    bytes4 private constant _RESOLVE_VWAP_SELECTOR = bytes4(keccak256("resolveVWAPCallback(uint256,uint64,bytes[])"));
+
+    /// @notice Request on-chain decryption of the encrypted VWAP via FHE oracle.
+    /// The caller may need to attach a fee depending on the deployed oracle configuration.
+    /// Seller-only until the grace period after the window has elapsed.
+    function requestVWAPDecryption(uint256 auctionId) external payable returns (uint256 requestId) {
+        Auction storage a = auctions[auctionId];
+        require(a.seller != address(0), "no auction");
+        require(block.timestamp > a.end, "too early");
+        require(a.sumQ > 0, "no demand");
+        require(a.encVWAPComputed, "not computed");
+        require(!a.vwapSet, "already set");
+        ReserveCheck reserve = reserveCheck[auctionId];
+        require(reserve == ReserveCheck.None || reserve == ReserveCheck.Met, "reserve not met");
+        _requireSellerOrGraceElapsed(a);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(a.encVWAP);
+        requestId = FHE.requestDecryption(cts, _RESOLVE_VWAP_SELECTOR);
+        _decryptReqToAuction[requestId] = auctionId;
+        emit VWAPDecryptionRequested(auctionId, requestId);
+    }
+
+    /// @notice Sets the smallest allocation, in base units, the caller accepts for one of their bids while the
+    /// window is open: settle refunds the bid rather than allocate less. type(uint256).max (or any value >= qty)
+    /// makes it all-or-nothing. Not available on confidential-quantity bids, whose qty is hidden.
+    function setMinFill(uint256 auctionId, uint256 bidIndex, uint256 minFill) external {
+        Auction storage a = auctions[auctionId];
+        require(block.timestamp <= a.end, "not in window");
+        require(!confidentialQuantities[auctionId], "confidential qty");
+        require(bidIndex < _bidsByAuction[auctionId].length, "no bid");
+        Bid storage b = _bidsByAuction[auctionId][bidIndex];
+        require(b.buyer == msg.sender, "only buyer");
+        require(!b.cancelled, "cancelled");
+
+        if (minFill != 0 && !_minFillListed[auctionId][bidIndex]) {
+            // A bid cleared later stays listed; settle skips it while its minFill is 0
+            require(_minFillBids[auctionId].length < MAX_MIN_FILL_BIDS, "too many min fills");
+            _minFillListed[auctionId][bidIndex] = true;
+            _minFillBids[auctionId].push(bidIndex);
+        }
+        b.minFill = minFill;
+        emit MinFillSet(auctionId, bidIndex, minFill);
+    }
+
+    /// @notice Run by FHEVWAPAuction through delegatecall from createAuction, after the checks and the escrow:
+    /// records an auction of msg.sender.
+    function initAuction(
+        IERC20 baseToken,
+        IERC20 quoteToken,
+        uint256 S,
+        uint64 start,
+        uint64 end
+    ) external returns (uint256) {
+        return _initAuction(baseToken, quoteToken, S, start, end);
+    }
+
+    /// @notice Run by FHEVWAPAuction through delegatecall from createRecurringAuction, after the checks and the
+    /// escrow of the whole schedule: records the series of msg.sender and its windows.
+    function initSeries(
+        IERC20 baseToken,
+        IERC20 quoteToken,
+        uint256 supplyPerWindow,
+        uint64 firstStart,
+        uint64 windowLength,
+        uint32 windows
+    ) external returns (uint256 seriesId) {
+        seriesId = ++seriesCount;
+        uint256 firstAuctionId = auctionsCount + 1;
+        for (uint32 i = 0; i < windows; i++) {
+            uint64 start = firstStart + i * windowLength;
+            uint256 auctionId = _initAuction(baseToken, quoteToken, supplyPerWindow, start, start + windowLength);
+            seriesOfAuction[auctionId] = seriesId;
+        }
+        series[seriesId] = Series({
+            seller: msg.sender,
+            firstAuctionId: firstAuctionId,
+            windows: windows,
+            supplyPerWindow: supplyPerWindow,
+            windowLength: windowLength
+        });
+
+        emit SeriesCreated(seriesId, msg.sender, firstAuctionId, windows, supplyPerWindow, windowLength);
+    }
+
+    function _initAuction(
+        IERC20 baseToken,
+        IERC20 quoteToken,
+        uint256 S,
+        uint64 start,
+        uint64 end
+    ) internal returns (uint256 auctionId) {
+        auctionId = ++auctionsCount;
+
+        // Initialize encSumPQ to zero handle (implicit)
+        Auction storage a = auctions[auctionId];
+        a.seller = msg.sender;
+        a.S = S;
+        a.start = start;
+        a.end = end;
+        a.vwap = 0;
+        a.vwapSet = false;
+        a.settled = false;
+        a.sumQ = 0;
+        a.encSumPQ = FHE.asEuint128(0);
+        a.encVWAP = FHE.asEuint64(0);
+        a.encVWAPComputed = false;
+        a.baseToken = baseToken;
+        a.quoteToken = quoteToken;
+        baseUnit[auctionId] = _baseUnitOf(baseToken);
+
+        // allow contract to decrypt its own aggregate if needed in mock/testing
+        FHE.allowThis(a.encSumPQ);
+
+        emit AuctionCreated(auctionId, msg.sender, S, start, end);
+    }
+
+    /// @dev 10^decimals of the base token; tokens without decimals() are priced per raw unit
+    function _baseUnitOf(IERC20 token) internal view returns (uint256) {
+        try IERC20Metadata(address(token)).decimals() returns (uint8 decimals) {
+            return 10 ** decimals;
+        } catch {
+            return 1;
+        }
+    }
+
+    /// @notice Run by FHEVWAPAuction through delegatecall from the *WithPermit entry points: grants the auction the
+    /// signed allowance, on the token itself (EIP-2612) or in Permit2. A failing EIP-2612 permit is ignored when the
+    /// allowance is already in place, since anyone can submit a signed permit first and front-running it must not
+    /// block the bid.
+    function usePermit(IERC20 token, TokenPermit calldata p) external {
+        if (p.usePermit2) {
+            require(address(PERMIT2).code.length > 0, "no permit2");
+            IPermit2.PermitSingle memory single = IPermit2.PermitSingle({
+                details: IPermit2.PermitDetails({
+                    token: address(token),
+                    amount: SafeCast.toUint160(p.amount),
+                    expiration: SafeCast.toUint48(p.deadline),
+                    nonce: p.nonce
+                }),
+                spender: address(this),
+                sigDeadline: p.deadline
+            });
+            PERMIT2.permit(msg.sender, single, abi.encodePacked(p.r, p.s, p.v));
+            return;
+        }
+        try IERC20Permit(address(token)).permit(msg.sender, address(this), p.amount, p.deadline, p.v, p.r, p.s) {
+            // allowance granted
+        } catch {
+            require(token.allowance(msg.sender, address(this)) >= p.amount, "permit failed");
+        }
+    }
+
+    /// @notice Run by FHEVWAPAuction through delegatecall on the first settlement batch: the eligible demand Q
+    /// that pro-rata shares are computed from, once bids below their minimum fill are excluded.
+    function startingEligibleQ(uint256 auctionId) external returns (uint256 Q) {
+        Auction storage a = auctions[auctionId];
+        if (encryptedCaps[auctionId]) {
+            require(eligibilityRequested[auctionId] && pendingEligibility[auctionId] == 0, "eligibility pending");
+            Q = decryptedEligibleQ[auctionId];
+        } else if (confidentialQuantities[auctionId]) {
+            // allocations were computed homomorphically; minimum fills are not available in this mode
+            require(
+                qtyReveal[auctionId] == QtyReveal.AllocationsRequested && pendingAllocations[auctionId] == 0,
+                "allocations pending"
+            );
+            return decryptedEligibleQ[auctionId];
+        } else {
+            Q = _eligibleDemand(auctionId, a.vwap);
+        }
+        if (Q > a.S && _minFillBids[auctionId].length > 0) {
+            Q = _excludeBelowMinFill(auctionId, a, Q);
+        }
+    }
+
+    /// @dev Supply falls short of Q: excludes every bid whose share floor(qty * S / Q) is below its minimum fill and
+    /// removes its qty from Q. One pass suffices: a smaller Q only raises the remaining shares. All bids are judged
+    /// against the same Q, so the result does not depend on bid order.
+    function _excludeBelowMinFill(uint256 auctionId, Auction storage a, uint256 Q) internal returns (uint256 left) {
+        uint256[] storage listed = _minFillBids[auctionId];
+        Bid[] storage bids = _bidsByAuction[auctionId];
+        bool capsEncrypted = encryptedCaps[auctionId];
+        left = Q;
+        for (uint256 k = 0; k < listed.length; k++) {
+            Bid storage b = bids[listed[k]];
+            if (b.cancelled || b.minFillExcluded) continue;
+            if (!(capsEncrypted ? b.capMet : b.priceCap >= a.vwap)) continue;
+            uint256 minimum = b.minFill < b.qty ? b.minFill : b.qty;
+            if (b.qty * a.S >= minimum * Q) continue;
+            b.minFillExcluded = true;
+            left -= b.qty;
+            emit MinFillExcluded(auctionId, listed[k]);
+        }
+    }
+
+    /// @notice Encrypted-caps mode: evaluates FHE.ge(cap, vwap) for every live bid not requested yet and requests the
+    /// decryption of each result separately, so only per-bid eligibility is revealed. Settlement waits for all
+    /// callbacks. Requests every remaining bid in one transaction; use requestEligibilityBatch when that would exceed
+    /// the block gas limit. Seller-only until the grace period after the window has elapsed.
+    function requestEligibilityDecryption(uint256 auctionId) external {
+        uint256 from = eligibilityCursor[auctionId];
+        _requestEligibility(auctionId, from, _bidsByAuction[auctionId].length - from);
+    }
+
+    /// @notice requestEligibilityDecryption for bids [from, from + count). `from` must equal eligibilityCursor, so
+    /// no bid is requested twice. The batch reaching the last bid sets eligibilityRequested.
+    function requestEligibilityBatch(uint256 auctionId, uint256 from, uint256 count) external returns (uint256) {
+        require(count > 0, "count=0");
+        return _requestEligibility(auctionId, from, count);
+    }
+
+    function _requestEligibility(uint256 auctionId, uint256 from, uint256 count) internal returns (uint256 to) {
+        Auction storage a = auctions[auctionId];
+        require(a.seller != address(0), "no auction");
+        require(encryptedCaps[auctionId], "clear caps");
+        require(a.vwapSet, "no vwap");
+        require(!eligibilityRequested[auctionId], "already requested");
+        require(from == eligibilityCursor[auctionId], "bad cursor");
+        _requireSellerOrGraceElapsed(a);
+
+        Bid[] storage bids = _bidsByAuction[auctionId];
+        to = Math.min(from + count, bids.length);
+        uint256 requested = 0;
+        for (uint256 i = from; i < to; i++) {
+            if (bids[i].cancelled) continue;
+            ebool met = FHE.ge(bids[i].encCap, uint64(a.vwap));
+            FHE.allowThis(met);
+            bytes32[] memory cts = new bytes32[](1);
+            cts[0] = FHE.toBytes32(met);
+            uint256 requestId = FHE.requestDecryption(cts, this.resolveEligibilityCallback.selector);
+            _eligibilityReqs[requestId] = BidDecryptionRequest({auctionId: auctionId, bidIndex: i});
+            requested++;
+        }
+        eligibilityCursor[auctionId] = to;
+        pendingEligibility[auctionId] += requested;
+        if (to == bids.length) eligibilityRequested[auctionId] = true;
+        emit EligibilityDecryptionRequested(auctionId, requested, to);
+    }
+
+    /// @notice Oracle callback with the clear eligibility of one encrypted-cap bid.
+    function resolveEligibilityCallback(uint256 requestId, bool capMet, bytes[] memory signatures) public {
+        BidDecryptionRequest memory r = _eligibilityReqs[requestId];
+        require(r.auctionId != 0, "unknown requestId");
+        FHE.checkSignatures(requestId, signatures);
+
+        if (capMet) {
+            Bid storage b = _bidsByAuction[r.auctionId][r.bidIndex];
+            b.capMet = true;
+            decryptedEligibleQ[r.auctionId] += b.qty;
+        }
+        pendingEligibility[r.auctionId] -= 1;
+        emit EligibilityDecrypted(r.auctionId, r.bidIndex, capMet);
+
+        delete _eligibilityReqs[requestId];
+    }
+
+    /// @notice Confidential-quantity mode: requests the decryption of the total quantity once the window closed,
+    /// the divisor computeEncryptedVWAP needs. Permissionless, like sumQ is public in clear-quantity auctions.
+    function requestSumQDecryption(uint256 auctionId) external {
+        Auction storage a = auctions[auctionId];
+        require(a.seller != address(0), "no auction");
+        require(confidentialQuantities[auctionId], "clear qty");
+        require(block.timestamp > a.end, "too early");
+        require(qtyReveal[auctionId] == QtyReveal.Hidden, "already requested");
+
+        if (!FHE.isInitialized(_encSumQ[auctionId])) {
+            // No bid ever: nothing to decrypt
+            qtyReveal[auctionId] = QtyReveal.SumQRevealed;
+            emit SumQDecrypted(auctionId, 0);
+            return;
+        }
+        qtyReveal[auctionId] = QtyReveal.SumQRequested;
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(_encSumQ[auctionId]);
+        uint256 requestId = FHE.requestDecryption(cts, this.resolveSumQCallback.selector);
+        _sumQReqToAuction[requestId] = auctionId;
+    }
+
+    function resolveSumQCallback(uint256 requestId, uint64 clearSumQ, bytes[] memory signatures) public {
+        uint256 auctionId = _sumQReqToAuction[requestId];
+        require(auctionId != 0, "unknown requestId");
+        FHE.checkSignatures(requestId, signatures);
+
+        auctions[auctionId].sumQ = clearSumQ;
+        qtyReveal[auctionId] = QtyReveal.SumQRevealed;
+        emit SumQDecrypted(auctionId, clearSumQ);
+
+        delete _sumQReqToAuction[requestId];
+    }
+
+    /// @notice Confidential-quantity mode: sums the encrypted qty of live bids with priceCap >= VWAP and requests
+    /// its decryption, the pro-rata divisor. Permissionless, like eligibleDemand is public for clear quantities.
+    function requestEligibleDemandDecryption(uint256 auctionId) external {
+        Auction storage a = auctions[auctionId];
+        require(a.seller != address(0), "no auction");
+        require(confidentialQuantities[auctionId], "clear qty");
+        require(a.vwapSet, "no vwap");
+        require(qtyReveal[auctionId] == QtyReveal.SumQRevealed, "already requested");
+
+        qtyReveal[auctionId] = QtyReveal.EligibleQRequested;
+        Bid[] storage bids = _bidsByAuction[auctionId];
+        euint64 eligibleQ = FHE.asEuint64(0);
+        for (uint256 i = 0; i < bids.length; i++) {
+            if (!bids[i].cancelled && bids[i].priceCap >= a.vwap) {
+                eligibleQ = FHE.add(eligibleQ, bids[i].encQty);
+            }
+        }
+        FHE.allowThis(eligibleQ);
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(eligibleQ);
+        uint256 requestId = FHE.requestDecryption(cts, this.resolveEligibleDemandCallback.selector);
+        _eligibleQReqToAuction[requestId] = auctionId;
+    }
+
+    function resolveEligibleDemandCallback(uint256 requestId, uint64 clearEligibleQ, bytes[] memory signatures) public {
+        uint256 auctionId = _eligibleQReqToAuction[requestId];
+        require(auctionId != 0, "unknown requestId");
+        FHE.checkSignatures(requestId, signatures);
+
+        decryptedEligibleQ[auctionId] = clearEligibleQ;
+        qtyReveal[auctionId] = QtyReveal.EligibleQRevealed;
+        emit EligibleDemandDecrypted(auctionId, clearEligibleQ);
+
+        delete _eligibleQReqToAuction[requestId];
+    }
+
+    /// @notice Confidential-quantity mode: computes each eligible bid's allocation (qty, or floor(qty * S / Q) when
+    /// demand exceeds supply) homomorphically and requests its decryption, one request per bid; the buyer may also
+    /// decrypt it. Settlement waits for all callbacks. Seller-only until the grace period has elapsed.
+    function requestAllocationDecryption(uint256 auctionId) external {
+        Auction storage a = auctions[auctionId];
+        require(a.seller != address(0), "no auction");
+        require(confidentialQuantities[auctionId], "clear qty");
+        require(qtyReveal[auctionId] == QtyReveal.EligibleQRevealed, "eligible demand hidden");
+        _requireSellerOrGraceElapsed(a);
+
+        qtyReveal[auctionId] = QtyReveal.AllocationsRequested;
+        uint256 Q = decryptedEligibleQ[auctionId];
+        Bid[] storage bids = _bidsByAuction[auctionId];
+        uint256 requested = 0;
+        for (uint256 i = 0; i < bids.length; i++) {
+            if (bids[i].cancelled || bids[i].priceCap < a.vwap) continue;
+            euint64 alloc = _encryptedAllocation(bids[i].encQty, a.S, Q);
+            FHE.allowThis(alloc);
+            FHE.allow(alloc, bids[i].buyer);
+            bytes32[] memory cts = new bytes32[](1);
+            cts[0] = FHE.toBytes32(alloc);
+            uint256 requestId = FHE.requestDecryption(cts, this.resolveAllocationCallback.selector);
+            _allocationReqs[requestId] = BidDecryptionRequest({auctionId: auctionId, bidIndex: i});
+            requested++;
+        }
+        pendingAllocations[auctionId] = requested;
+        emit AllocationDecryptionRequested(auctionId, requested);
+    }
+
+    /// @dev floor(q * S / Q) under FHE. Q (hence S < Q) fits in 64 bits since the encrypted sumQ is capped; the
+    /// product only needs 128 bits when Q * S does, which keeps the cheaper 64-bit ops for most auctions.
+    function _encryptedAllocation(euint64 qty, uint256 S, uint256 Q) internal returns (euint64) {
+        if (S >= Q) return qty;
+        if (Q * S <= type(uint64).max) return FHE.div(FHE.mul(qty, uint64(S)), uint64(Q));
+        return FHE.asEuint64(FHE.div(FHE.mul(FHE.asEuint128(qty), uint128(S)), uint128(Q)));
+    }
+
+    /// @notice Oracle callback with the clear allocation of one confidential-quantity bid.
+    function resolveAllocationCallback(uint256 requestId, uint64 allocation, bytes[] memory signatures) public {
+        BidDecryptionRequest memory r = _allocationReqs[requestId];
+        require(r.auctionId != 0, "unknown requestId");
+        FHE.checkSignatures(requestId, signatures);
+
+        _bidsByAuction[r.auctionId][r.bidIndex].allocation = allocation;
+        pendingAllocations[r.auctionId] -= 1;
+        emit AllocationDecrypted(r.auctionId, r.bidIndex, allocation);
+
+        delete _allocationReqs[requestId];
+    }
+}
@@ -0,0 +1,289 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {euint64, euint128, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {IPermit2} from "./IPermit2.sol";
+
+/// @title Storage layout, events and shared guards of FHEVWAPAuction
+/// @dev Inherited first by FHEVWAPAuction and by FHEVWAPAuctionDecryptions, which runs through delegatecall, so both
+/// contracts see the same layout. Append new state at the end.
+abstract contract FHEVWAPAuctionStorage {
+    struct Auction {
+        address seller;
+        uint256 S; // total baseToken supplied by seller
+        uint64 start;
+        uint64 end;
+        uint256 vwap; // public VWAP, in quote units per whole base token
+        bool vwapSet;
+        bool settled;
+        uint256 sumQ; // clear sum of quantities
+        euint128 encSumPQ; // encrypted sum of price*qty (exact: sumQ is capped at 2^64 - 1)
+        euint64 encVWAP; // encrypted VWAP (encSumPQ / sumQ)
+        bool encVWAPComputed;
+        IERC20 baseToken;
+        IERC20 quoteToken;
+    }
+
+    struct Bid {
+        address buyer;
+        uint256 qty; // requested base amount (clear)
+        uint256 priceCap; // clear price cap
+        uint256 maxSpend; // approved quote to escrow
+        bool settled; // also set on cancellation: nothing is left in escrow
+        bool cancelled;
+        euint128 encPQ; // encrypted price*qty contribution, kept so amend/cancel can subtract it from encSumPQ
+        euint64 encCap; // encrypted-caps mode only (priceCap is then 0)
+        bool capMet; // encrypted-caps mode: decrypted FHE.ge(encCap, vwap)
+        euint64 encQty; // confidential-quantity mode only (qty is then 0)
+        uint256 allocation; // confidential-quantity mode: decrypted allocation
+        uint256 minFill; // smallest acceptable allocation; capped at qty, so type(uint256).max is all-or-nothing
+        bool minFillExcluded; // set by settle: the pro-rata share fell below minFill, so the bid is refunded
+        euint64 encPrice; // kept for auditors, who are granted access to it by grantAuditAccess
+    }
+
+    /// @dev Recurring schedule: `windows` consecutive auctions with ids firstAuctionId..firstAuctionId+windows-1
+    struct Series {
+        address seller;
+        uint256 firstAuctionId;
+        uint32 windows;
+        uint256 supplyPerWindow;
+        uint64 windowLength;
+    }
+
+    /// @dev Progress of a settlement run through one or more settleBatch calls.
+    /// `supply` snapshots S at the first batch so pro-rata shares stay stable across batches.
+    struct Settlement {
+        bool started;
+        uint256 cursor; // next bid index to settle
+        uint256 eligibleQ;
+        uint256 supply;
+        uint256 remainingBase;
+        uint256 sellerProceeds;
+    }
+
+    event AuctionCreated(uint256 indexed auctionId, address indexed seller, uint256 S, uint64 start, uint64 end);
+    event BidSubmitted(
+        uint256 indexed auctionId,
+        address indexed buyer,
+        uint256 qty,
+        uint256 priceCap,
+        uint256 maxSpend
+    );
+    event EncryptedVWAPComputed(uint256 indexed auctionId);
+    event VWAPDecryptionRequested(uint256 indexed auctionId, uint256 requestId);
+    event VWAPDecrypted(uint256 indexed auctionId, uint256 vwap);
+    event Allocated(uint256 indexed auctionId, address indexed buyer, uint256 alloc, uint256 spend);
+    event Refunded(uint256 indexed auctionId, address indexed buyer, uint256 amount);
+    event SellerPaid(uint256 indexed auctionId, address indexed seller, uint256 amount);
+    event BaseRemainderReturned(uint256 indexed auctionId, address indexed seller, uint256 amount);
+    event SeriesCreated(
+        uint256 indexed seriesId,
+        address indexed seller,
+        uint256 firstAuctionId,
+        uint32 windows,
+        uint256 supplyPerWindow,
+        uint64 windowLength
+    );
+    event BaseRolledOver(uint256 indexed auctionId, uint256 indexed nextAuctionId, uint256 amount);
+    event BidAmended(
+        uint256 indexed auctionId,
+        uint256 indexed bidIndex,
+        address indexed buyer,
+        uint256 qty,
+        uint256 priceCap,
+        uint256 maxSpend
+    );
+    event BidCancelled(uint256 indexed auctionId, uint256 indexed bidIndex, address indexed buyer, uint256 refund);
+    event PullPaymentsSet(uint256 indexed auctionId, bool enabled);
+    event Claimed(uint256 indexed auctionId, address indexed account, uint256 baseAmount, uint256 quoteAmount);
+    event SettlementProgress(uint256 indexed auctionId, uint256 cursor, uint256 bidCount);
+    event EncryptedCapsSet(uint256 indexed auctionId, bool enabled);
+    event EligibilityDecryptionRequested(uint256 indexed auctionId, uint256 bids, uint256 cursor);
+    event EligibilityDecrypted(uint256 indexed auctionId, uint256 indexed bidIndex, bool capMet);
+    event ConfidentialQuantitiesSet(uint256 indexed auctionId, bool enabled);
+    event SumQDecrypted(uint256 indexed auctionId, uint256 sumQ);
+    event EligibleDemandDecrypted(uint256 indexed auctionId, uint256 eligibleQ);
+    event AllocationDecryptionRequested(uint256 indexed auctionId, uint256 bids);
+    event AllocationDecrypted(uint256 indexed auctionId, uint256 indexed bidIndex, uint256 allocation);
+    event ReservePriceSet(uint256 indexed auctionId);
+    event ReserveChecked(uint256 indexed auctionId, bool met);
+    event MinFillSet(uint256 indexed auctionId, uint256 indexed bidIndex, uint256 minFill);
+    event MinFillExcluded(uint256 indexed auctionId, uint256 indexed bidIndex);
+    event PriceUnitSet(uint256 indexed auctionId, string unit);
+    event MetadataSet(uint256 indexed auctionId, bytes32 metadataHash);
+    event AllowlistSet(uint256 indexed auctionId, bytes32 root);
+    event AllowlistJoined(uint256 indexed auctionId, address indexed account);
+    event BidderLimitsSet(uint256 indexed auctionId, uint256 maxBids, uint256 maxQty, uint256 maxShareBps);
+    event AuditorSet(uint256 indexed auctionId, address auditor);
+    event AuditAccessGranted(uint256 indexed auctionId, address indexed auditor, uint256 from, uint256 to);
+
+    uint256 public auctionsCount;
+    mapping(uint256 => Auction) public auctions;
+    mapping(uint256 => Bid[]) internal _bidsByAuction;
+    mapping(uint256 => uint256) internal _decryptReqToAuction; // requestId => auctionId
+
+    uint32 public constant MAX_SERIES_WINDOWS = 52;
+    uint256 public seriesCount;
+    mapping(uint256 => Series) public series;
+    mapping(uint256 => uint256) public seriesOfAuction; // auctionId => seriesId (0 = standalone)
+
+    uint64 public constant SETTLEMENT_GRACE_PERIOD = 3 days;
+    // Kept outside Auction so the public `auctions` getter stays within the stack limit
+    mapping(uint256 => bool) public pullPayments; // settle only records amounts; participants withdraw with claim()
+    // Pull-payment balances recorded by settle: auctionId => account => amount
+    mapping(uint256 => mapping(address => uint256)) public claimableBase;
+    mapping(uint256 => mapping(address => uint256)) public claimableQuote;
+
+    mapping(uint256 => Settlement) public settlements;
+    // Demand bucketed by price cap while bidding, so settlement gets the eligible demand without a pass over bids.
+    // Summing the buckets loops over the distinct caps of live demand, so their number is bounded; a cap whose
+    // demand drops back to 0 through amendments and cancellations frees its level.
+    uint256 public constant MAX_CAP_LEVELS = 256;
+    mapping(uint256 => uint256[]) internal _capLevels; // auctionId => distinct price caps
+    mapping(uint256 => mapping(uint256 => uint256)) internal _capLevelIndex; // auctionId => priceCap => position + 1
+    mapping(uint256 => mapping(uint256 => uint256)) internal _demandAtCap; // auctionId => priceCap => qty
+
+    /// @dev One oracle request per bid, so each callback decrypts a single value
+    struct BidDecryptionRequest {
+        uint256 auctionId;
+        uint256 bidIndex;
+    }
+
+    mapping(uint256 => bool) public encryptedCaps; // bids carry an encrypted cap; see requestEligibilityDecryption
+    mapping(uint256 => bool) public eligibilityRequested; // every live bid's eligibility decryption was requested
+    mapping(uint256 => uint256) public pendingEligibility; // auctionId => per-bid decryptions not yet resolved
+    // Eligible demand obtained through decryption (encrypted caps or confidential quantities)
+    mapping(uint256 => uint256) public decryptedEligibleQ;
+    mapping(uint256 => BidDecryptionRequest) internal _eligibilityReqs; // requestId => bid
+
+    /// @dev Confidential-quantity decryption steps, in the order they must happen
+    enum QtyReveal {
+        Hidden,
+        SumQRequested,
+        SumQRevealed, // Auction.sumQ now holds the clear total
+        EligibleQRequested,
+        EligibleQRevealed,
+        AllocationsRequested
+    }
+
+    mapping(uint256 => bool) public confidentialQuantities; // bids carry an encrypted qty; see submitBidConfidentialQty
+    mapping(uint256 => QtyReveal) public qtyReveal;
+    mapping(uint256 => uint256) public pendingAllocations; // auctionId => per-bid decryptions not yet resolved
+    mapping(uint256 => euint64) internal _encSumQ;
+    // Separate request maps per callback: a signed result cannot be replayed into another callback
+    mapping(uint256 => uint256) internal _sumQReqToAuction;
+    mapping(uint256 => uint256) internal _eligibleQReqToAuction;
+    mapping(uint256 => BidDecryptionRequest) internal _allocationReqs;
+
+    // 10^decimals of the auction's base token: prices are quote units per whole base token (see _settleBid)
+    mapping(uint256 => uint256) public baseUnit;
+
+    /// @dev Signed approval taken by the *WithPermit entry points instead of a prior approve transaction.
+    /// `usePermit2` false: EIP-2612 `permit` on the token for `amount`, valid until `deadline`.
+    /// `usePermit2` true: Permit2 PermitSingle for `amount` with `nonce`; `deadline` is both the allowance expiration
+    /// and the signature deadline.
+    struct TokenPermit {
+        bool usePermit2;
+        uint256 amount;
+        uint256 deadline;
+        uint48 nonce;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    /// @dev Per-auction settings taken by createAuctionWithOptions and createAuctionWithPermit. They are applied in
+    /// the creation transaction, so no bid can come before them; false, empty and zero leave a setting off.
+    struct AuctionOptions {
+        bool pullPayments; // settle only records amounts; participants withdraw with claim()
+        bool encryptedCaps; // bids go through submitBidEncryptedCap
+        bool confidentialQuantities; // bids go through submitBidConfidentialQty; not with encryptedCaps
+        string priceUnit; // label of the prices, e.g. "sUSD per kit"; at most MAX_PRICE_UNIT_LENGTH bytes
+        bytes32 metadataHash; // see metadataHash
+        externalEuint64 encReserve; // reserve price in quote units per whole base token, see requestReserveCheck
+        bytes reserveProof; // input proof of encReserve; empty for no reserve
+        bytes32 allowlistRoot; // only members under this Merkle root may bid, see joinAllowlist
+        BidderLimits bidderLimits; // qty caps only with clear quantities
+        address auditor; // may decrypt every bid's price once the encrypted VWAP is computed, see grantAuditAccess
+    }
+
+    /// @notice Canonical Uniswap Permit2 deployment, the fallback for tokens without EIP-2612 permit
+    IPermit2 public constant PERMIT2 = IPermit2(0x000000000022D473030F116dDEE9F6B43aC78BA3);
+
+    /// @dev Reserve price check: FHE.ge(encVWAP, reserve) is decrypted before the VWAP itself, which stays hidden
+    /// when the reserve is not met. The reserve is never decrypted on-chain.
+    enum ReserveCheck {
+        None, // no reserve price
+        Unchecked,
+        Requested,
+        Met,
+        NotMet // the auction failed: settle refunds every bid and releases the base
+    }
+
+    mapping(uint256 => ReserveCheck) public reserveCheck;
+    mapping(uint256 => euint64) internal _encReserve;
+    mapping(uint256 => uint256) internal _reserveReqToAuction;
+
+    /// @dev Bids that were given a minimum fill, each listed once, which settle checks against their pro-rata share.
+    /// Bounded so that check fits in the first settlement batch.
+    uint256 public constant MAX_MIN_FILL_BIDS = 100;
+    mapping(uint256 => uint256[]) internal _minFillBids;
+
+    /// @dev Display label of an auction's prices, e.g. "sUSD per kit". Bounded so events carrying it stay cheap in
+    /// oracle callbacks.
+    uint256 public constant MAX_PRICE_UNIT_LENGTH = 32;
+    mapping(uint256 => string) public priceUnit;
+
+    /// @dev keccak256 of the auction's canonical metadata JSON (title, drug, dosage, delivery terms, tender document
+    /// hash), which lives off-chain. See packages/auction/auctionMetadata.ts.
+    mapping(uint256 => bytes32) public metadataHash;
+
+    /// @dev Merkle root of the addresses allowed to bid (leaf: keccak256(bytes.concat(keccak256(abi.encode(account))))
+    /// as in OpenZeppelin's StandardMerkleTree); zero leaves the auction open. Members join once with a proof.
+    mapping(uint256 => bytes32) public allowlistRoot;
+    mapping(uint256 => mapping(address => bool)) public allowlisted;
+
+    /// @dev Per-buyer caps so that one address cannot dominate the pro-rata allocation by splitting its demand over
+    /// many bids. Zero fields are unlimited; maxQty and maxShareBps (of S) bound the buyer's total live qty, so they
+    /// need clear quantities.
+    struct BidderLimits {
+        uint32 maxBids;
+        uint16 maxShareBps;
+        uint256 maxQty;
+    }
+    /// @dev A buyer's live (not cancelled) bids and their total qty; only tracked on auctions with limits.
+    struct BidderUsage {
+        uint32 bids;
+        uint256 qty;
+    }
+    uint256 public constant BPS = 10_000;
+    mapping(uint256 => BidderLimits) public bidderLimits;
+    mapping(uint256 => mapping(address => BidderUsage)) public bidderUsage;
+
+    /// @dev Account the seller appointed to audit the auction: once the encrypted VWAP is computed, it may decrypt
+    /// every live bid's price, encSumPQ and encVWAP (see grantAuditAccess) and recompute the VWAP off-chain.
+    mapping(uint256 => address) public auditor;
+
+    mapping(uint256 => mapping(uint256 => bool)) internal _minFillListed; // auctionId => bidIndex => in _minFillBids
+    // Encrypted caps: next bid index to request eligibility for; see requestEligibilityBatch
+    mapping(uint256 => uint256) public eligibilityCursor;
+
+    /// @dev Confidential-quantity auctions keep Auction.sumQ at 0 until requestSumQDecryption resolved.
+    function _requireSumQRevealed(uint256 auctionId) internal view {
+        require(!confidentialQuantities[auctionId] || qtyReveal[auctionId] >= QtyReveal.SumQRevealed, "sumQ hidden");
+    }
+
+    function _eligibleDemand(uint256 auctionId, uint256 price) internal view returns (uint256 Q) {
+        uint256[] storage caps = _capLevels[auctionId];
+        for (uint256 i = 0; i < caps.length; i++) {
+            if (caps[i] >= price) {
+                Q += _demandAtCap[auctionId][caps[i]];
+            }
+        }
+    }
+
+    function _requireSellerOrGraceElapsed(Auction storage a) internal view {
+        require(msg.sender == a.seller || block.timestamp > a.end + SETTLEMENT_GRACE_PERIOD, "only seller");
+    }
+}
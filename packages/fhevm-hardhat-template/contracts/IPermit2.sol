@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Subset of Uniswap's Permit2 AllowanceTransfer used by FHEVWAPAuction
+/// @dev Permit2 is deployed at the same address on every chain (see FHEVWAPAuction.PERMIT2).
+interface IPermit2 {
+    struct PermitDetails {
+        address token;
+        uint160 amount;
+        uint48 expiration;
+        uint48 nonce;
+    }
+
+    struct PermitSingle {
+        PermitDetails details;
+        address spender;
+        uint256 sigDeadline;
+    }
+
+    function permit(address owner, PermitSingle memory permitSingle, bytes calldata signature) external;
+
+    function transferFrom(address from, address to, uint160 amount, address token) external;
+
+    function allowance(
+        address owner,
+        address token,
+        address spender
+    ) external view returns (uint160 amount, uint48 expiration, uint48 nonce);
+}
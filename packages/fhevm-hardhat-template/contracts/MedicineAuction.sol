@@ -2,8 +2,12 @@
 pragma solidity ^0.8.24;
 
 import {FHEVWAPAuction} from "./FHEVWAPAuction.sol";
+import {FHEVWAPAuctionDecryptions} from "./FHEVWAPAuctionDecryptions.sol";
 import {FHE, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {IWETH} from "./IWETH.sol";
+import {ProcurementRegistry} from "./ProcurementRegistry.sol";
 
 /// @title MedicineAuction
 /// @notice Semantic specialization for the medicines use-case. Reuses FHEVWAPAuction logic.
@@ -18,6 +22,14 @@ contract MedicineAuction is FHEVWAPAuction {
 
     event VWAPFinal(uint256 indexed auctionId, uint256 vwap, string unit);
 
+    /// @notice Roles checked on create (supplier), on every new bid (municipality) and on grantAuditAccess (auditor).
+    /// address(0) leaves the first two open and recognises only each auction's appointed auditor.
+    ProcurementRegistry public immutable registry;
+
+    constructor(IWETH weth_, ProcurementRegistry registry_) FHEVWAPAuction(weth_) {
+        registry = registry_;
+    }
+
     function createMedicineAuction(
         IERC20 medicineToken,
         IERC20 stableBRL,
@@ -28,6 +40,25 @@ contract MedicineAuction is FHEVWAPAuction {
         auctionId = createAuction(medicineToken, stableBRL, kitsAvailable, start, end);
     }
 
+    /// @notice createMedicineAuction with the lot's settings, e.g. its priceUnit and the metadataHash of the tender
+    /// details, applied in the same transaction. Open to registry suppliers only, like createMedicineAuction.
+    function createMedicineAuctionWithOptions(
+        IERC20 medicineToken,
+        IERC20 stableBRL,
+        uint256 kitsAvailable,
+        uint64 start,
+        uint64 end,
+        AuctionOptions calldata options
+    ) external returns (uint256 auctionId) {
+        auctionId = createAuction(medicineToken, stableBRL, kitsAvailable, start, end);
+        _delegateInternal(
+            abi.encodeCall(
+                FHEVWAPAuctionDecryptions.createAuctionWithOptions,
+                (medicineToken, stableBRL, kitsAvailable, start, end, options)
+            )
+        );
+    }
+
     function submitMunicipalityBid(
         uint256 auctionId,
         externalEuint64 encPriceSBRL,
@@ -35,15 +66,76 @@ contract MedicineAuction is FHEVWAPAuction {
         uint256 kitsRequested,
         uint256 priceCap,
         uint256 maxSpend
+    ) external payable {
+        submitBid(auctionId, encPriceSBRL, inputProof, kitsRequested, priceCap, maxSpend);
+        emit MunicipalityBid(auctionId, msg.sender, kitsRequested, priceCap, maxSpend);
+    }
+
+    /// @notice submitMunicipalityBid with a signed sBRL approval instead of a prior approve transaction
+    function submitMunicipalityBidWithPermit(
+        uint256 auctionId,
+        externalEuint64 encPriceSBRL,
+        bytes calldata inputProof,
+        uint256 kitsRequested,
+        uint256 priceCap,
+        uint256 maxSpend,
+        TokenPermit calldata permit
     ) external {
+        _usePermit(auctions[auctionId].quoteToken, permit);
         submitBid(auctionId, encPriceSBRL, inputProof, kitsRequested, priceCap, maxSpend);
         emit MunicipalityBid(auctionId, msg.sender, kitsRequested, priceCap, maxSpend);
     }
 
-    function resolveVWAPCallback(uint256 requestId, uint64 clearVWAP, bytes[] memory signatures) public override {
-        super.resolveVWAPCallback(requestId, clearVWAP, signatures);
-        uint256 auctionId = 0; // not available here; UI can use base VWAPDecrypted event.
-        emit VWAPFinal(auctionId, uint256(clearVWAP), "sBRL per kit");
+    /// @notice Encrypted-caps variant: the price cap is encrypted alongside the price (reported as 0).
+    function submitMunicipalityBidEncryptedCap(
+        uint256 auctionId,
+        externalEuint64 encPriceSBRL,
+        externalEuint64 encCapSBRL,
+        bytes calldata inputProof,
+        uint256 kitsRequested,
+        uint256 maxSpend
+    ) external payable {
+        submitBidEncryptedCap(auctionId, encPriceSBRL, encCapSBRL, inputProof, kitsRequested, maxSpend);
+        emit MunicipalityBid(auctionId, msg.sender, kitsRequested, 0, maxSpend);
+    }
+
+    /// @notice Confidential-quantity variant: the kits requested are encrypted alongside the price (reported as 0).
+    function submitMunicipalityBidConfidentialQty(
+        uint256 auctionId,
+        externalEuint64 encPriceSBRL,
+        externalEuint64 encKits,
+        bytes calldata inputProof,
+        uint256 priceCap,
+        uint256 maxSpend
+    ) external payable {
+        submitBidConfidentialQty(auctionId, encPriceSBRL, encKits, inputProof, priceCap, maxSpend);
+        emit MunicipalityBid(auctionId, msg.sender, 0, priceCap, maxSpend);
+    }
+
+    function _authorizeSeller() internal view override {
+        require(address(registry) == address(0) || registry.isSupplier(msg.sender), "not a supplier");
+    }
+
+    function _authorizeBidder(uint256 auctionId) internal view override {
+        super._authorizeBidder(auctionId);
+        require(address(registry) == address(0) || registry.isMunicipality(msg.sender), "not a municipality");
+    }
+
+    /// @dev Registry auditors may audit every auction, on top of the one appointed by its supplier
+    function _isAuditor(uint256 auctionId, address account) internal view override returns (bool) {
+        return super._isAuditor(auctionId, account) || (address(registry) != address(0) && registry.isAuditor(account));
+    }
+
+    /// @dev VWAPFinal carries the priceUnit of the creation options. Auctions created without one, series windows
+    /// included, get "<quote symbol> per kit"; the unit is only empty when the quote token has no symbol.
+    function _afterVWAPDecrypted(uint256 auctionId) internal override {
+        string memory unit = priceUnit[auctionId];
+        if (bytes(unit).length == 0) {
+            try IERC20Metadata(address(auctions[auctionId].quoteToken)).symbol() returns (string memory symbol) {
+                unit = string.concat(symbol, " per kit");
+            } catch {}
+        }
+        emit VWAPFinal(auctionId, auctions[auctionId].vwap, unit);
     }
 }
 
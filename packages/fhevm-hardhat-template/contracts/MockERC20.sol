@@ -15,7 +15,7 @@ contract MockERC20 is ERC20 {
         _mint(to, amount);
     }
 
-    function decimals() public view override returns (uint8) {
+    function decimals() public view virtual override returns (uint8) {
         // Use 0 decimals so on-chain integers map 1:1 to token units (demo-friendly)
         return 0;
     }
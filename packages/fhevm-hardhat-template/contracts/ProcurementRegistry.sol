@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+
+/// @title ProcurementRegistry
+/// @notice Who may take part in medicine procurement. Admins (DEFAULT_ADMIN_ROLE) grant and revoke the roles with
+/// grantRole / revokeRole; MedicineAuction checks suppliers on create and municipalities on bid.
+contract ProcurementRegistry is AccessControl {
+    bytes32 public constant SUPPLIER_ROLE = keccak256("SUPPLIER_ROLE");
+    bytes32 public constant MUNICIPALITY_ROLE = keccak256("MUNICIPALITY_ROLE");
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+
+    constructor(address admin) {
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+    }
+
+    function isSupplier(address account) external view returns (bool) {
+        return hasRole(SUPPLIER_ROLE, account);
+    }
+
+    function isMunicipality(address account) external view returns (bool) {
+        return hasRole(MUNICIPALITY_ROLE, account);
+    }
+
+    function isAuditor(address account) external view returns (bool) {
+        return hasRole(AUDITOR_ROLE, account);
+    }
+}
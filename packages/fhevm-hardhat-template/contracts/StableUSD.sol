@@ -2,17 +2,19 @@
 pragma solidity ^0.8.24;
 
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
 /// @title Stable USD (sUSD)
 /// @notice Simple ERC20 to represent a USD-pegged stable token for the demo.
-contract StableUSD is ERC20 {
-    constructor(uint256 initialSupply) ERC20("Stable USD", "sUSD") {
+/// Supports EIP-2612 permit, so bids can be escrowed with a signature instead of an approve transaction.
+contract StableUSD is ERC20, ERC20Permit {
+    constructor(uint256 initialSupply) ERC20("Stable USD", "sUSD") ERC20Permit("Stable USD") {
         _mint(msg.sender, initialSupply);
     }
 
     function decimals() public view override returns (uint8) {
-        // Demo-friendly: display whole units (no fractional part)
-        return 0;
+        // Same as the common USD stablecoins, so the demo exercises decimal-aware amounts
+        return 6;
     }
 
     // Demo faucet
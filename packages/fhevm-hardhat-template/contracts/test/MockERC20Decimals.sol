@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {MockERC20} from "../MockERC20.sol";
+
+/// @title MockERC20Decimals
+/// @notice MockERC20 with configurable decimals, to test amounts of 6- and 18-decimal tokens.
+contract MockERC20Decimals is MockERC20 {
+    uint8 private immutable _decimals;
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint256 initialSupply,
+        uint8 decimals_
+    ) MockERC20(name_, symbol_, initialSupply) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+}
@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {IPermit2} from "../IPermit2.sol";
+
+/// @title MockPermit2
+/// @notice AllowanceTransfer subset of Uniswap's Permit2 with the same EIP-712 domain and types, for tests. Its code
+/// is placed at the canonical Permit2 address with hardhat_setCode, so the domain uses address(this).
+contract MockPermit2 is IPermit2 {
+    using SafeERC20 for IERC20;
+
+    bytes32 private constant _DETAILS_TYPEHASH =
+        keccak256("PermitDetails(address token,uint160 amount,uint48 expiration,uint48 nonce)");
+    bytes32 private constant _SINGLE_TYPEHASH =
+        keccak256(
+            "PermitSingle(PermitDetails details,address spender,uint256 sigDeadline)"
+            "PermitDetails(address token,uint160 amount,uint48 expiration,uint48 nonce)"
+        );
+
+    struct Allowance {
+        uint160 amount;
+        uint48 expiration;
+        uint48 nonce;
+    }
+
+    // owner => token => spender
+    mapping(address => mapping(address => mapping(address => Allowance))) private _allowances;
+
+    function permit(address owner, PermitSingle memory permitSingle, bytes calldata signature) external {
+        require(block.timestamp <= permitSingle.sigDeadline, "signature expired");
+        PermitDetails memory d = permitSingle.details;
+        bytes32 structHash = keccak256(
+            abi.encode(
+                _SINGLE_TYPEHASH,
+                keccak256(abi.encode(_DETAILS_TYPEHASH, d.token, d.amount, d.expiration, d.nonce)),
+                permitSingle.spender,
+                permitSingle.sigDeadline
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", _domainSeparator(), structHash));
+        require(ECDSA.recover(digest, signature) == owner, "invalid signer");
+
+        Allowance storage allowed = _allowances[owner][d.token][permitSingle.spender];
+        require(d.nonce == allowed.nonce, "invalid nonce");
+        allowed.amount = d.amount;
+        allowed.expiration = d.expiration;
+        allowed.nonce = d.nonce + 1;
+    }
+
+    function transferFrom(address from, address to, uint160 amount, address token) external {
+        Allowance storage allowed = _allowances[from][token][msg.sender];
+        require(block.timestamp <= allowed.expiration, "allowance expired");
+        require(allowed.amount >= amount, "insufficient allowance");
+        if (allowed.amount != type(uint160).max) {
+            allowed.amount -= amount;
+        }
+        IERC20(token).safeTransferFrom(from, to, amount);
+    }
+
+    function allowance(
+        address owner,
+        address token,
+        address spender
+    ) external view returns (uint160 amount, uint48 expiration, uint48 nonce) {
+        Allowance storage allowed = _allowances[owner][token][spender];
+        return (allowed.amount, allowed.expiration, allowed.nonce);
+    }
+
+    function _domainSeparator() private view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    keccak256("EIP712Domain(string name,uint256 chainId,address verifyingContract)"),
+                    keccak256("Permit2"),
+                    block.chainid,
+                    address(this)
+                )
+            );
+    }
+}
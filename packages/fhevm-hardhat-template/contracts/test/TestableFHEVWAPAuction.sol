@@ -2,10 +2,13 @@
 pragma solidity ^0.8.24;
 
 import {FHEVWAPAuction} from "../FHEVWAPAuction.sol";
+import {IWETH} from "../IWETH.sol";
 
 /// @title TestableFHEVWAPAuction
 /// @notice Exposes helpers to set VWAP in tests without requiring oracle signatures.
 contract TestableFHEVWAPAuction is FHEVWAPAuction {
+    constructor(IWETH weth_) FHEVWAPAuction(weth_) {}
+
     function testSetVWAP(uint256 auctionId, uint256 clearVWAP) external {
         Auction storage a = auctions[auctionId];
         require(a.seller != address(0), "no auction");
@@ -1,9 +1,18 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+// Canonical WETH of public networks; elsewhere a WETH9 is deployed
+const CANONICAL_WETH: Record<string, string> = {
+  sepolia: "0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14",
+};
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, execute } = hre.deployments;
+
+  // Wrapped ether backing native ETH bids; the site reads it back from the auctions' weth()
+  const weth =
+    CANONICAL_WETH[hre.network.name] ?? (await deploy("WETH", { from: deployer, contract: "WETH9", log: true })).address;
 
     // Deploy legacy demo (generic) as well
     const baseToken = await deploy("BaseToken", {
@@ -22,37 +31,57 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   
     const fheVwapAuction = await deploy("FHEVWAPAuction", {
       from: deployer,
+      args: [weth],
       log: true,
     });
 
-  // Deploy use-case ERC20s
+  // Deploy use-case ERC20s, 100M whole tokens each in the token's own decimals
   const mtk = await deploy("MedicineToken", {
     from: deployer,
     contract: "MedicineToken",
-    args: [hre.ethers.parseUnits("100000000", 2)],
+    args: [hre.ethers.parseUnits("100000000", 0)], // kits are indivisible
     log: true,
   });
 
   const susd = await deploy("StableUSD", {
     from: deployer,
     contract: "StableUSD",
-    args: [hre.ethers.parseUnits("100000000", 2)],
+    args: [hre.ethers.parseUnits("100000000", 6)], // StableUSD.decimals()
+    log: true,
+  });
+
+  // Roles of the medicine auction: suppliers create, municipalities bid, auditors review
+  const registry = await deploy("ProcurementRegistry", {
+    from: deployer,
+    contract: "ProcurementRegistry",
+    args: [deployer],
     log: true,
   });
+  const roles = ["SUPPLIER_ROLE"];
+  if (hre.network.name === "hardhat" || hre.network.name === "localhost") {
+    // Local demos run every step from the deployer account
+    roles.push("MUNICIPALITY_ROLE", "AUDITOR_ROLE");
+  }
+  for (const role of roles) {
+    await execute("ProcurementRegistry", { from: deployer, log: true }, "grantRole", hre.ethers.id(role), deployer);
+  }
 
   // Deploy medicine auction (inherits FHEVWAPAuction)
   const auction = await deploy("MedicineAuction", {
     from: deployer,
     contract: "MedicineAuction",
+    args: [weth, registry.address],
     log: true,
   });
 
   console.log(`MedicineToken (MTK): `, mtk.address);
   console.log(`StableUSD (sUSD): `, susd.address);
   console.log(`MedicineAuction: `, auction.address);
+  console.log(`ProcurementRegistry: `, registry.address);
   console.log(`BaseToken: `, baseToken.address);
   console.log(`QuoteToken: `, quoteToken.address);
   console.log(`FHEVWAPAuction: `, fheVwapAuction.address);
+  console.log(`WETH: `, weth);
 };
 export default func;
 func.id = "deploy_medicineAuction"; // id required to prevent reexecution
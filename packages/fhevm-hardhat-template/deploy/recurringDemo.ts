@@ -0,0 +1,47 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/*
+  Optional demo data for local development: opens a recurring MedicineAuction series so the
+  Medicine UI has windows to browse right after `npx hardhat node`.
+
+  Enabled with DEMO_SERIES=<windows> (and optionally DEMO_SERIES_WINDOW=<seconds>, default 600):
+    DEMO_SERIES=3 npx hardhat node
+*/
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { get } = hre.deployments;
+
+  const windows = Number(process.env.DEMO_SERIES ?? 0);
+  const windowLength = Number(process.env.DEMO_SERIES_WINDOW ?? 600);
+  const supplyPerWindow = 100n;
+
+  const signer = await hre.ethers.getSigner(deployer);
+  const auctionDep = await get("MedicineAuction");
+  const med = await hre.ethers.getContractAt("MedicineToken", (await get("MedicineToken")).address, signer);
+  const auction = await hre.ethers.getContractAt("MedicineAuction", auctionDep.address, signer);
+
+  await (await med.approve(auctionDep.address, supplyPerWindow * BigInt(windows))).wait();
+  const start = (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+  const receipt = await (
+    await auction.createRecurringAuction(
+      await med.getAddress(),
+      (await get("StableUSD")).address,
+      supplyPerWindow,
+      start,
+      windowLength,
+      windows,
+    )
+  ).wait();
+
+  console.log(
+    `Demo series: ${windows} windows of ${windowLength}s selling ${supplyPerWindow} kits (tx ${receipt?.hash})`,
+  );
+};
+export default func;
+func.id = "deploy_recurringDemo";
+func.tags = ["RecurringDemo"];
+func.dependencies = ["MedicineAuction"];
+// Only on local chains, and only when asked for
+func.skip = async (hre: HardhatRuntimeEnvironment) =>
+  !process.env.DEMO_SERIES || !["hardhat", "localhost"].includes(hre.network.name);
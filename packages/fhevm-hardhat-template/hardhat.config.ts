@@ -10,7 +10,11 @@ import { vars } from "hardhat/config";
 import "solidity-coverage";
 
 import "./tasks/accounts";
+import "./tasks/auction";
+import "./tasks/indexer";
 import "./tasks/mint";
+import "./tasks/registry";
+import "./tasks/scenario";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
@@ -74,9 +78,10 @@ const config: HardhatUserConfig = {
       },
       // Disable the optimizer when debugging
       // https://hardhat.org/hardhat-network/#solidity-optimizer-support
+      // Sized for bytecode rather than call gas: FHEVWAPAuction and MedicineAuction sit close to the 24 KB limit
       optimizer: {
         enabled: true,
-        runs: 800,
+        runs: 200,
       },
       evmVersion: "cancun",
     },
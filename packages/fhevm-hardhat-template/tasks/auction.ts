@@ -0,0 +1,1005 @@
+import * as fs from "fs/promises";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { AuctionClient } from "@fhevwap/auction/AuctionClient";
+import { ALL_OR_NOTHING } from "@fhevwap/auction/allocation";
+import { deriveAuctionPhase } from "@fhevwap/auction/auctionPhase";
+import { QtyReveal, ReserveCheck, type AuctionVariant } from "@fhevwap/auction/auctionTypes";
+import { formatAmount, maxSpendFor, parseAmount } from "@fhevwap/auction/amounts";
+import { validateAuctionMetadata } from "@fhevwap/auction/auctionMetadata";
+import { buildAllowlist, parseAddressList, type Allowlist } from "@fhevwap/auction/allowlist";
+import { checkBidLimits, MAX_UINT64 } from "@fhevwap/auction/bidLimits";
+import { BPS, hasBidderLimits, maxBidderQty } from "@fhevwap/auction/bidderLimits";
+import { readAuditDecryption, verifyAudit } from "@fhevwap/auction/audit";
+import { JsonFileAuctionMetadataStore } from "@fhevwap/auction/storage/JsonFileAuctionMetadataStore";
+import { summarizeSeries } from "@fhevwap/auction/series";
+
+/*
+  Drive the whole auction lifecycle from the CLI (no Next.js UI needed).
+  Contracts are resolved through hardhat-deploy, so run `npx hardhat deploy` (or a node) first.
+  Amounts are whole tokens ("2.5"), scaled by each token's decimals; prices and caps are quote
+  tokens per whole base token. --json output keeps raw units.
+
+  Usage examples:
+    - npx hardhat --network localhost auction:create --supply 100 --duration 600
+    - npx hardhat --network localhost auction:create --supply 100 --unit "sUSD per kit" --metadata lot.json
+    - npx hardhat --network localhost auction:create --supply 100 --max-bids 3 --max-share 25
+    - npx hardhat --network localhost auction:create --supply 100 --allowed 0xabc...,0xdef... --allowlist-out allowlist.json
+    - npx hardhat --network localhost auction:create-series --supply 100 --windows 12 --window-length 2592000
+    - npx hardhat --network localhost auction:bid --id 1 --price 100 --qty 30 --cap 120 --signer 1
+    - npx hardhat --network localhost auction:amend-bid --id 1 --index 0 --price 110 --qty 20 --cap 130 --signer 1
+    - npx hardhat --network localhost auction:cancel-bid --id 1 --index 0 --signer 1
+    - npx hardhat --network localhost auction:set-min-fill --id 1 --index 0 --min 20 --signer 1
+    - npx hardhat --network localhost auction:join-allowlist --id 1 --allowlist allowlist.json --signer 1
+    - npx hardhat --network localhost auction:request-sumq --id 1
+    - npx hardhat --network localhost auction:compute-vwap --id 1
+    - npx hardhat --network localhost auction:check-reserve --id 1
+    - npx hardhat --network localhost auction:request-decryption --id 1
+    - npx hardhat --network localhost auction:request-eligibility --id 1
+    - npx hardhat --network localhost auction:request-allocations --id 1
+    - npx hardhat --network localhost auction:settle --id 1
+    - npx hardhat --network localhost auction:settle-batches --id 1 --batch 100
+    - npx hardhat --network localhost auction:claim --id 1 --signer 1
+    - npx hardhat --network localhost auction:list --json
+    - npx hardhat --network localhost auction:bids --id 1 --contract FHEVWAPAuction
+    - npx hardhat --network localhost auction:series
+    - npx hardhat --network localhost auction:close-empty --id 1
+
+  Common parameters:
+    --contract : Deployed auction name (MedicineAuction | FHEVWAPAuction). Default MedicineAuction
+    --signer   : Index into `ethers.getSigners()` used to send transactions. Default 0 (deployer)
+    --json     : Print a machine-readable JSON result instead of human-readable lines
+*/
+
+type CommonArgs = { contract: string; signer: number; json: boolean };
+
+const DEFAULT_TOKENS: Record<string, { base: string; quote: string }> = {
+  MedicineAuction: { base: "MedicineToken", quote: "StableUSD" },
+  FHEVWAPAuction: { base: "BaseToken", quote: "QuoteToken" },
+};
+
+function variantOf(contract: string): AuctionVariant {
+  return contract === "MedicineAuction" ? "medicine" : "generic";
+}
+
+// bigint is not JSON serializable; print it as a decimal string
+function printJson(value: unknown) {
+  console.log(JSON.stringify(value, (_k, v) => (typeof v === "bigint" ? v.toString() : v), 2));
+}
+
+async function auctionClient(hre: HardhatRuntimeEnvironment, args: CommonArgs) {
+  const { deployments, ethers } = hre;
+  const dep = await deployments.get(args.contract);
+  const signer = (await ethers.getSigners())[args.signer];
+  if (!signer) {
+    throw new Error(`No signer at index ${args.signer}`);
+  }
+  const client = new AuctionClient({
+    address: dep.address as `0x${string}`,
+    runner: signer,
+    variant: variantOf(args.contract),
+    log: args.json ? undefined : (m) => console.log(m),
+  });
+  return { client, signer };
+}
+
+// Accepts either a hardhat-deploy name (e.g. StableUSD) or a raw address
+async function resolveToken(hre: HardhatRuntimeEnvironment, nameOrAddress: string): Promise<`0x${string}`> {
+  if (hre.ethers.isAddress(nameOrAddress)) {
+    return nameOrAddress as `0x${string}`;
+  }
+  return (await hre.deployments.get(nameOrAddress)).address as `0x${string}`;
+}
+
+function parseTokenAmount(value: string, decimals: number, name: string): bigint {
+  const amount = parseAmount(value, decimals);
+  if (amount === undefined) {
+    throw new Error(`Invalid ${name} ${value}: expected an amount with at most ${decimals} decimals`);
+  }
+  return amount;
+}
+
+// Same directory as the site's dev metadata route, so the UI shows lots created from the CLI
+const METADATA_DIR = "../site/.auction-metadata";
+
+function withCommonParams(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam("contract", "Deployed auction contract name", "MedicineAuction")
+    .addOptionalParam("signer", "Signer index used to send transactions", 0, types.int)
+    .addFlag("json", "Print JSON output");
+}
+
+/*
+  Create an auction escrowing `--supply` base tokens (approval is sent when needed).
+
+    --supply   : Base tokens to sell (S)
+    --base     : Base token name or address. Defaults to MedicineToken / BaseToken
+    --quote    : Quote token name or address. Defaults to StableUSD / QuoteToken
+    --start    : Unix start time. Defaults to the latest block timestamp
+    --duration : Window length in seconds. Default 3600
+    --pull     : Record settlement amounts for participants to `auction:claim` instead of pushing them
+    --encrypted-caps : Bidders submit their price cap encrypted; eligibility is decrypted per bid after the VWAP
+    --confidential-qty : Bidders submit their quantity encrypted; only sumQ, the eligible demand and each
+                         allocation are decrypted
+    --reserve  : Reserve price (quote per whole base token), encrypted client-side. Below it the auction fails
+    --unit     : Price label stored with the auction, e.g. "sUSD per kit" (at most 32 bytes)
+    --metadata : JSON file with the lot details (title, drug, dosage, deliveryTerms, documentHash; see
+                 packages/auction/auctionMetadata.ts). Saved to the dev metadata store; only its hash goes on-chain
+    --max-bids : Live bids per address
+    --max-qty  : Total live qty per address (base tokens)
+    --max-share: Total live qty per address as a percentage of S, e.g. 25 or 12.5
+    --auditor  : Account allowed to decrypt every bid price once the encrypted VWAP is computed (auction:audit)
+    --allowed  : Only these addresses may bid (comma or whitespace separated, or a file of them). Only the
+                 Merkle root goes on-chain; publish the `--allowlist-out` file (root and one proof per address)
+                 to the bidders, who prove membership once with `auction:join-allowlist`
+*/
+withCommonParams("auction:create", "Create an auction")
+  .addParam("supply", "Base tokens to sell (S)")
+  .addOptionalParam("base", "Base token deployment name or address")
+  .addOptionalParam("quote", "Quote token deployment name or address")
+  .addOptionalParam("start", "Unix start time (defaults to latest block timestamp)", undefined, types.int)
+  .addOptionalParam("duration", "Window length in seconds", 3600, types.int)
+  .addFlag("pull", "Use pull payments (participants claim after settlement)")
+  .addFlag("encryptedCaps", "Keep bid price caps encrypted")
+  .addFlag("confidentialQty", "Keep bid quantities encrypted")
+  .addOptionalParam("reserve", "Encrypted reserve price (quote per whole base token)")
+  .addOptionalParam("unit", 'Price label, e.g. "sUSD per kit"')
+  .addOptionalParam("metadata", "Lot details JSON file")
+  .addOptionalParam("metadataDir", "Metadata store directory", METADATA_DIR)
+  .addOptionalParam("maxBids", "Live bids per address", 0, types.int)
+  .addOptionalParam("maxQty", "Total live qty per address")
+  .addOptionalParam("maxShare", "Total live qty per address, in percent of the supply")
+  .addOptionalParam("auditor", "Account allowed to audit the bid prices")
+  .addOptionalParam("allowed", "Addresses allowed to bid, or a file listing them")
+  .addOptionalParam("allowlistOut", "Where to write the allowlist (root and proofs) JSON")
+  .setAction(async (args, hre) => {
+    const {
+      supply,
+      base,
+      quote,
+      start,
+      duration,
+      pull,
+      encryptedCaps,
+      confidentialQty,
+      reserve,
+      unit,
+      metadata,
+      metadataDir,
+      maxBids,
+      maxQty,
+      maxShare,
+      auditor,
+      allowed,
+      allowlistOut,
+      ...common
+    } = args as CommonArgs & {
+      supply: string;
+      base?: string;
+      quote?: string;
+      start?: number;
+      duration: number;
+      pull: boolean;
+      encryptedCaps: boolean;
+      confidentialQty: boolean;
+      reserve?: string;
+      unit?: string;
+      metadata?: string;
+      metadataDir: string;
+      maxBids: number;
+      maxQty?: string;
+      maxShare?: string;
+      auditor?: string;
+      allowed?: string;
+      allowlistOut?: string;
+    };
+    const { fhevm } = hre;
+    const defaults = DEFAULT_TOKENS[common.contract] ?? DEFAULT_TOKENS.FHEVWAPAuction;
+    const { client, signer } = await auctionClient(hre, common);
+
+    const startTs = start ?? Number((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+    const baseToken = await resolveToken(hre, base ?? defaults.base);
+    const quoteToken = await resolveToken(hre, quote ?? defaults.quote);
+    let encryptedReserve;
+    if (reserve !== undefined) {
+      const rawReserve = parseTokenAmount(reserve, await client.getTokenDecimals(quoteToken), "reserve");
+      if (rawReserve > MAX_UINT64) {
+        throw new Error(`reserve would exceed ${MAX_UINT64}`);
+      }
+      await fhevm.initializeCLIApi();
+      const enc = await fhevm.createEncryptedInput(client.address, signer.address).add64(rawReserve).encrypt();
+      encryptedReserve = { handle: enc.handles[0], inputProof: enc.inputProof };
+    }
+    let metadataHash: `0x${string}` | undefined;
+    if (metadata !== undefined) {
+      const checked = validateAuctionMetadata(JSON.parse(await fs.readFile(metadata, "utf-8")));
+      if (!checked.ok) {
+        throw new Error(`Invalid metadata in ${metadata}: ${checked.errors.join("; ")}`);
+      }
+      metadataHash = await new JsonFileAuctionMetadataStore(metadataDir).put(checked.metadata);
+    }
+    let allowlist: Allowlist | undefined;
+    if (allowed !== undefined) {
+      const text = await fs.readFile(allowed, "utf-8").catch(() => allowed);
+      const { addresses: members, invalid } = parseAddressList(text);
+      if (invalid.length > 0) {
+        throw new Error(`Invalid addresses: ${invalid.join(", ")}`);
+      }
+      allowlist = buildAllowlist(members);
+    }
+    const baseDecimals = await client.getTokenDecimals(baseToken);
+    const maxShareBps = maxShare !== undefined ? Math.round(Number(maxShare) * (BPS / 100)) : 0;
+    if (!Number.isFinite(maxShareBps)) {
+      throw new Error(`Invalid maxShare ${maxShare}: expected a percentage`);
+    }
+    const params = {
+      baseToken,
+      quoteToken,
+      S: parseTokenAmount(supply, baseDecimals, "supply"),
+      start: startTs,
+      end: startTs + duration,
+      pullPayments: pull,
+      encryptedCaps,
+      confidentialQuantities: confidentialQty,
+      priceUnit: unit,
+      metadataHash,
+      bidderLimits: {
+        maxBids,
+        maxQty: maxQty !== undefined ? parseTokenAmount(maxQty, baseDecimals, "maxQty") : 0n,
+        maxShareBps,
+      },
+      auditor: auditor !== undefined ? (hre.ethers.getAddress(auditor) as `0x${string}`) : undefined,
+      allowlistRoot: allowlist?.root,
+    };
+    const { auctionId, receipt } = await client.approveAndCreateAuction({ ...params, encryptedReserve });
+    if (allowlist !== undefined && allowlistOut !== undefined) {
+      await fs.writeFile(allowlistOut, JSON.stringify(allowlist, null, 2), "utf-8");
+    }
+
+    if (common.json) {
+      printJson({
+        auctionId,
+        seller: signer.address,
+        ...params,
+        reserve: encryptedReserve !== undefined,
+        txHash: receipt.hash,
+      });
+      return;
+    }
+    const modes = [
+      pull && "pull payments",
+      encryptedCaps && "encrypted caps",
+      confidentialQty && "confidential quantities",
+      encryptedReserve && "encrypted reserve",
+      hasBidderLimits(params.bidderLimits) && "bidder limits",
+      params.auditor && `auditor ${params.auditor}`,
+      allowlist && `allowlist of ${Object.keys(allowlist.proofs).length} addresses, root ${allowlist.root}`,
+    ].filter(Boolean);
+    console.log(`Created auction #${auctionId} on ${common.contract} (S=${[supply, ...modes].join(", ")})`);
+    console.log(
+      `Window: ${new Date(params.start * 1000).toISOString()} -> ${new Date(params.end * 1000).toISOString()}`,
+    );
+    if (allowlist !== undefined && allowlistOut !== undefined) {
+      console.log(`Allowlist proofs written to ${allowlistOut}`);
+    }
+  });
+
+/*
+  Create a recurring series: `--windows` back-to-back auctions of `--window-length` seconds selling
+  `--supply` each. The whole schedule (supply * windows) is escrowed upfront and unsold base rolls
+  into the next window.
+
+    --supply        : Base tokens per window
+    --windows       : Number of windows (max 52)
+    --window-length : Window length in seconds
+    --start         : Unix start of the first window. Defaults to the latest block timestamp
+    --base / --quote: Same as auction:create
+*/
+withCommonParams("auction:create-series", "Create a recurring multi-window auction")
+  .addParam("supply", "Base tokens per window")
+  .addParam("windows", "Number of windows", undefined, types.int)
+  .addParam("windowLength", "Window length in seconds", undefined, types.int)
+  .addOptionalParam("base", "Base token deployment name or address")
+  .addOptionalParam("quote", "Quote token deployment name or address")
+  .addOptionalParam("start", "Unix start time of the first window", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { supply, windows, windowLength, base, quote, start, ...common } = args as CommonArgs & {
+      supply: string;
+      windows: number;
+      windowLength: number;
+      base?: string;
+      quote?: string;
+      start?: number;
+    };
+    const defaults = DEFAULT_TOKENS[common.contract] ?? DEFAULT_TOKENS.FHEVWAPAuction;
+    const { client, signer } = await auctionClient(hre, common);
+
+    const baseToken = await resolveToken(hre, base ?? defaults.base);
+    const params = {
+      baseToken,
+      quoteToken: await resolveToken(hre, quote ?? defaults.quote),
+      supplyPerWindow: parseTokenAmount(supply, await client.getTokenDecimals(baseToken), "supply"),
+      firstStart: start ?? Number((await hre.ethers.provider.getBlock("latest"))!.timestamp),
+      windowLength,
+      windows,
+    };
+    const { seriesId, auctionIds, receipt } = await client.approveAndCreateRecurringAuction(params);
+
+    if (common.json) {
+      printJson({ seriesId, auctionIds, seller: signer.address, ...params, txHash: receipt.hash });
+      return;
+    }
+    console.log(`Created series #${seriesId} on ${common.contract}: auctions #${auctionIds[0]}..#${auctionIds.at(-1)}`);
+  });
+
+/*
+  Submit a bid with the price encrypted by the fhevm hardhat plugin.
+  The quote escrow (`--max-spend`, default qty * cap) is approved when needed.
+
+    --id        : Auction id
+    --price     : Clear price, encrypted client-side before submission
+    --qty       : Quantity of base units (encrypted on confidential-quantities auctions)
+    --cap       : Public price cap
+    --max-spend : Quote escrow. Defaults to qty * cap
+*/
+withCommonParams("auction:bid", "Submit an encrypted bid")
+  .addParam("id", "Auction id", undefined, types.int)
+  .addParam("price", "Clear price (encrypted before submission)")
+  .addParam("qty", "Quantity")
+  .addParam("cap", "Price cap (encrypted on encrypted-caps auctions)")
+  .addOptionalParam("maxSpend", "Quote escrow (defaults to qty * cap)")
+  .setAction(async (args, hre) => {
+    const { id, price, qty, cap, maxSpend, ...common } = args as CommonArgs & {
+      id: number;
+      price: string;
+      qty: string;
+      cap: string;
+      maxSpend?: string;
+    };
+    const { fhevm } = hre;
+    const { client, signer } = await auctionClient(hre, common);
+
+    const a = await client.getAuction(id);
+    const d = await client.getAuctionDecimals(a);
+    const rawPrice = parseTokenAmount(price, d.quote, "price");
+    const rawQty = parseTokenAmount(qty, d.base, "qty");
+    const rawCap = parseTokenAmount(cap, d.quote, "cap");
+    const params = {
+      auctionId: id,
+      qty: rawQty,
+      priceCap: rawCap,
+      maxSpend:
+        maxSpend !== undefined
+          ? parseTokenAmount(maxSpend, d.quote, "maxSpend")
+          : maxSpendFor(rawQty, rawCap, a.baseUnit),
+    };
+    const overflow = checkBidLimits(a, { price: rawPrice, ...params });
+    if (overflow) {
+      throw new Error(`Bid ${overflow} would exceed ${MAX_UINT64} on auction #${id}`);
+    }
+    await client.ensureAllowance(a.quoteToken, params.maxSpend);
+
+    await fhevm.initializeCLIApi();
+    const input = fhevm.createEncryptedInput(client.address, signer.address).add64(rawPrice);
+    let receipt;
+    if (a.encryptedCaps) {
+      // Price and cap share one encrypted input; the cap never appears in clear on-chain
+      const enc = await input.add64(params.priceCap).encrypt();
+      receipt = await client.submitBidEncryptedCap({
+        ...params,
+        encrypted: { handle: enc.handles[0], capHandle: enc.handles[1], inputProof: enc.inputProof },
+      });
+    } else if (a.confidentialQuantities) {
+      // Price and qty share one encrypted input; a qty maxSpend cannot pay at the cap is voided to 0
+      const enc = await input.add64(params.qty).encrypt();
+      receipt = await client.submitBidConfidentialQty({
+        ...params,
+        encrypted: { handle: enc.handles[0], qtyHandle: enc.handles[1], inputProof: enc.inputProof },
+      });
+    } else {
+      const enc = await input.encrypt();
+      receipt = await client.submitBid({
+        ...params,
+        encryptedPrice: { handle: enc.handles[0], inputProof: enc.inputProof },
+      });
+    }
+
+    if (common.json) {
+      printJson({ bidder: signer.address, ...params, txHash: receipt.hash });
+      return;
+    }
+    console.log(
+      `Bid on #${id} from ${signer.address}: qty=${qty} cap=${cap} maxSpend=${formatAmount(params.maxSpend, d.quote)}`,
+    );
+  });
+
+withCommonParams("auction:amend-bid", "Replace one of the signer's bids while the window is open")
+  .addParam("id", "Auction id", undefined, types.int)
+  .addParam("index", "Bid index (see auction:bids)", undefined, types.int)
+  .addParam("price", "New clear price (encrypted before submission)")
+  .addParam("qty", "New quantity")
+  .addParam("cap", "New public price cap")
+  .addOptionalParam("maxSpend", "New quote escrow (defaults to qty * cap)")
+  .setAction(async (args, hre) => {
+    const { id, index, price, qty, cap, maxSpend, ...common } = args as CommonArgs & {
+      id: number;
+      index: number;
+      price: string;
+      qty: string;
+      cap: string;
+      maxSpend?: string;
+    };
+    const { fhevm } = hre;
+    const { client, signer } = await auctionClient(hre, common);
+
+    const [a, bids] = await Promise.all([client.getAuction(id), client.getBids(id)]);
+    const d = await client.getAuctionDecimals(a);
+    const rawPrice = parseTokenAmount(price, d.quote, "price");
+    const rawQty = parseTokenAmount(qty, d.base, "qty");
+    const rawCap = parseTokenAmount(cap, d.quote, "cap");
+    const params = {
+      auctionId: id,
+      bidIndex: index,
+      qty: rawQty,
+      priceCap: rawCap,
+      maxSpend:
+        maxSpend !== undefined
+          ? parseTokenAmount(maxSpend, d.quote, "maxSpend")
+          : maxSpendFor(rawQty, rawCap, a.baseUnit),
+    };
+    const overflow = checkBidLimits(a, { price: rawPrice, ...params }, bids[index]?.qty ?? 0n);
+    if (overflow) {
+      throw new Error(`Bid ${overflow} would exceed ${MAX_UINT64} on auction #${id}`);
+    }
+    const previous = bids[index]?.maxSpend ?? 0n;
+    if (params.maxSpend > previous) {
+      await client.ensureAllowance(a.quoteToken, params.maxSpend - previous);
+    }
+
+    await fhevm.initializeCLIApi();
+    const enc = await fhevm.createEncryptedInput(client.address, signer.address).add64(rawPrice).encrypt();
+    const receipt = await client.amendBid({
+      ...params,
+      encryptedPrice: { handle: enc.handles[0], inputProof: enc.inputProof },
+    });
+
+    if (common.json) {
+      printJson({ bidder: signer.address, ...params, previousMaxSpend: previous, txHash: receipt.hash });
+      return;
+    }
+    console.log(
+      `Amended bid ${index} on #${id}: qty=${qty} cap=${cap} maxSpend=${formatAmount(params.maxSpend, d.quote)}` +
+        ` (was ${formatAmount(previous, d.quote)})`,
+    );
+  });
+
+withCommonParams("auction:cancel-bid", "Cancel one of the signer's bids while the window is open")
+  .addParam("id", "Auction id", undefined, types.int)
+  .addParam("index", "Bid index (see auction:bids)", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { id, index, ...common } = args as CommonArgs & { id: number; index: number };
+    const { client } = await auctionClient(hre, common);
+
+    const receipt = await client.cancelBid(id, index);
+    const refund = (await client.getBids(id))[index].maxSpend;
+
+    if (common.json) {
+      printJson({ auctionId: id, bidIndex: index, refund, txHash: receipt.hash });
+      return;
+    }
+    console.log(`Cancelled bid ${index} on #${id}, refunded ${refund}`);
+  });
+
+withCommonParams("auction:join-allowlist", "Prove the signer is on an auction's allowlist")
+  .addParam("id", "Auction id", undefined, types.int)
+  .addParam("allowlist", "Allowlist JSON written by auction:create --allowlist-out")
+  .setAction(async (args, hre) => {
+    const { id, allowlist, ...common } = args as CommonArgs & { id: number; allowlist: string };
+    const { client, signer } = await auctionClient(hre, common);
+    const list = JSON.parse(await fs.readFile(allowlist, "utf-8")) as Allowlist;
+    const proof = list.proofs[signer.address.toLowerCase()];
+    if (!proof) {
+      throw new Error(`${signer.address} is not in ${allowlist}`);
+    }
+    const receipt = await client.joinAllowlist(id, proof);
+
+    if (common.json) {
+      printJson({ auctionId: id, account: signer.address, txHash: receipt.hash });
+      return;
+    }
+    console.log(`${signer.address} joined the allowlist of #${id}`);
+  });
+
+/*
+  Clear-quantity auctions, while the window is open: the smallest allocation one of the signer's bids
+  accepts (`--min`, whole base tokens; 0 clears it), or `--aon` for all or nothing. When supply falls
+  short, settle refunds bids whose pro-rata share is below their minimum and shares their qty out.
+*/
+withCommonParams("auction:set-min-fill", "Set the minimum fill of one of the signer's bids")
+  .addParam("id", "Auction id", undefined, types.int)
+  .addParam("index", "Bid index (see auction:bids)", undefined, types.int)
+  .addOptionalParam("min", "Smallest acceptable allocation")
+  .addFlag("aon", "All or nothing: only the full qty")
+  .setAction(async (args, hre) => {
+    const { id, index, min, aon, ...common } = args as CommonArgs & {
+      id: number;
+      index: number;
+      min?: string;
+      aon: boolean;
+    };
+    if (aon === (min !== undefined)) {
+      throw new Error("Pass exactly one of --min and --aon");
+    }
+    const { client } = await auctionClient(hre, common);
+
+    const a = await client.getAuction(id);
+    const d = await client.getAuctionDecimals(a);
+    const minFill = aon ? ALL_OR_NOTHING : parseTokenAmount(min!, d.base, "min");
+    const receipt = await client.setMinFill(id, index, minFill);
+
+    if (common.json) {
+      printJson({ auctionId: id, bidIndex: index, minFill, txHash: receipt.hash });
+      return;
+    }
+    console.log(`Bid ${index} on #${id} now accepts ${aon ? "all or nothing" : `at least ${min}`}`);
+  });
+
+withCommonParams("auction:compute-vwap", "Compute the encrypted VWAP of a closed auction")
+  .addParam("id", "Auction id", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { id, ...common } = args as CommonArgs & { id: number };
+    const { client } = await auctionClient(hre, common);
+
+    const receipt = await client.computeEncryptedVWAP(id);
+    const handle = await client.getEncryptedVWAP(id);
+
+    if (common.json) {
+      printJson({ auctionId: id, encVWAP: handle, txHash: receipt.hash });
+      return;
+    }
+    console.log(`Encrypted VWAP computed for #${id}: ${handle}`);
+  });
+
+/*
+  Reserve-price auctions only: computes the encrypted VWAP if needed and requests the decryption of
+  `VWAP >= reserve` (seller, or anyone after the grace period). Neither value is revealed; when the
+  reserve is not met the VWAP stays encrypted and `auction:settle` (anyone) refunds every bid.
+*/
+withCommonParams("auction:check-reserve", "Request the reserve price check of a closed auction")
+  .addParam("id", "Auction id", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { id, ...common } = args as CommonArgs & { id: number };
+    const { fhevm } = hre;
+    const { client } = await auctionClient(hre, common);
+
+    await fhevm.initializeCLIApi();
+    const receipt = await client.computeAndRequestReserveCheck(id);
+    if (fhevm.isMock) {
+      await fhevm.awaitDecryptionOracle();
+    }
+    const { reserveCheck } = await client.getAuction(id);
+
+    if (common.json) {
+      printJson({ auctionId: id, reserveCheck, txHash: receipt.hash });
+      return;
+    }
+    console.log(
+      reserveCheck === ReserveCheck.Met
+        ? `Reserve met for #${id}; the VWAP can be decrypted`
+        : reserveCheck === ReserveCheck.NotMet
+          ? `Reserve not met for #${id}; settle refunds every bid`
+          : `Reserve check requested for #${id}; waiting for the oracle callback`,
+    );
+  });
+
+/*
+  Request the public decryption of the VWAP (seller only). On the mock network the decryption
+  oracle is awaited so the revealed VWAP is printed right away.
+*/
+withCommonParams("auction:request-decryption", "Request on-chain decryption of the VWAP")
+  .addParam("id", "Auction id", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { id, ...common } = args as CommonArgs & { id: number };
+    const { fhevm } = hre;
+    const { client } = await auctionClient(hre, common);
+
+    await fhevm.initializeCLIApi();
+    const receipt = await client.computeAndRequestVWAPDecryption(id);
+    if (fhevm.isMock) {
+      await fhevm.awaitDecryptionOracle();
+    }
+    const a = await client.getAuction(id);
+
+    if (common.json) {
+      printJson({ auctionId: id, vwapSet: a.vwapSet, vwap: a.vwapSet ? a.vwap : null, txHash: receipt.hash });
+      return;
+    }
+    const d = await client.getAuctionDecimals(a);
+    console.log(
+      a.vwapSet
+        ? `VWAP for #${id}: ${formatAmount(a.vwap, d.quote)}${a.priceUnit && ` ${a.priceUnit}`}`
+        : `Decryption requested for #${id}; waiting for the oracle callback`,
+    );
+  });
+
+/*
+  Confidential-quantities auctions only: once the window closed, request the decryption of the total
+  demand (anyone). The VWAP cannot be computed before it is public.
+*/
+withCommonParams("auction:request-sumq", "Request sumQ decryption of a confidential-quantities auction")
+  .addParam("id", "Auction id", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { id, ...common } = args as CommonArgs & { id: number };
+    const { fhevm } = hre;
+    const { client } = await auctionClient(hre, common);
+
+    await fhevm.initializeCLIApi();
+    const receipt = await client.requestSumQDecryption(id);
+    if (fhevm.isMock) {
+      await fhevm.awaitDecryptionOracle();
+    }
+    const a = await client.getAuction(id);
+    const revealed = a.qtyReveal >= QtyReveal.SumQRevealed;
+
+    if (common.json) {
+      printJson({ auctionId: id, revealed, sumQ: revealed ? a.sumQ : null, txHash: receipt.hash });
+      return;
+    }
+    const d = await client.getAuctionDecimals(a);
+    console.log(
+      revealed
+        ? `sumQ for #${id}: ${formatAmount(a.sumQ, d.base)}`
+        : `sumQ decryption requested for #${id}; waiting for the oracle callback`,
+    );
+  });
+
+/*
+  Confidential-quantities auctions only: once the VWAP is public, request the decryption of the eligible
+  demand (anyone) and then of every eligible bid's allocation (seller, or anyone after the grace period).
+  Settlement waits for all results. Run again if the eligible demand was still pending on a live network.
+*/
+withCommonParams(
+  "auction:request-allocations",
+  "Request eligible demand and per-bid allocation decryption of a confidential-quantities auction",
+)
+  .addParam("id", "Auction id", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { id, ...common } = args as CommonArgs & { id: number };
+    const { fhevm } = hre;
+    const { client } = await auctionClient(hre, common);
+
+    await fhevm.initializeCLIApi();
+    let a = await client.getAuction(id);
+    let receipt;
+    if (a.qtyReveal === QtyReveal.SumQRevealed) {
+      receipt = await client.requestEligibleDemandDecryption(id);
+      if (fhevm.isMock) {
+        await fhevm.awaitDecryptionOracle();
+      }
+      a = await client.getAuction(id);
+    }
+    if (a.qtyReveal === QtyReveal.EligibleQRevealed) {
+      receipt = await client.requestAllocationDecryption(id);
+      if (fhevm.isMock) {
+        await fhevm.awaitDecryptionOracle();
+      }
+      a = await client.getAuction(id);
+    }
+    const allocations = (await client.getBids(id))
+      .filter((b) => b.allocation > 0n)
+      .map((b) => ({ index: b.index, allocation: b.allocation }));
+
+    if (common.json) {
+      printJson({
+        auctionId: id,
+        eligibleQ: a.eligibleQ,
+        pending: a.pendingAllocations,
+        allocations,
+        txHash: receipt?.hash ?? null,
+      });
+      return;
+    }
+    if (a.qtyReveal < QtyReveal.AllocationsRequested) {
+      console.log(`Eligible demand of #${id} not revealed yet; run again once the oracle answered`);
+    } else if (a.pendingAllocations > 0) {
+      console.log(`Allocations requested for #${id}; ${a.pendingAllocations} decryption(s) pending`);
+    } else {
+      console.log(
+        `Allocations for #${id} resolved (eligibleQ=${a.eligibleQ}): ${allocations.map((x) => `[${x.index}]=${x.allocation}`).join(" ") || "none"}`,
+      );
+    }
+  });
+
+/*
+  Encrypted-caps auctions only: once the VWAP is public, request the decryption of `cap >= VWAP`
+  for every bid (seller, or anyone after the grace period). Settlement waits for all results.
+  --batch requests at most that many bids per transaction, for bid sets too large for one block.
+*/
+withCommonParams("auction:request-eligibility", "Request per-bid eligibility decryption of an encrypted-caps auction")
+  .addParam("id", "Auction id", undefined, types.int)
+  .addOptionalParam("batch", "Bids per requestEligibilityBatch transaction (default: all in one)", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { id, batch, ...common } = args as CommonArgs & { id: number; batch?: number };
+    const { fhevm } = hre;
+    const { client } = await auctionClient(hre, common);
+
+    await fhevm.initializeCLIApi();
+    const receipts =
+      batch === undefined
+        ? [await client.requestEligibilityDecryption(id)]
+        : await client.requestEligibilityInBatches(id, batch);
+    if (fhevm.isMock) {
+      await fhevm.awaitDecryptionOracle();
+    }
+    const a = await client.getAuction(id);
+    const eligible = (await client.getBids(id)).filter((b) => !b.cancelled && b.capMet).map((b) => b.index);
+
+    if (common.json) {
+      printJson({ auctionId: id, pending: a.pendingEligibility, eligible, txHashes: receipts.map((r) => r.hash) });
+      return;
+    }
+    console.log(
+      a.pendingEligibility === 0
+        ? `Eligibility for #${id} resolved: eligible bids [${eligible.join(", ")}]`
+        : `Eligibility requested for #${id}; ${a.pendingEligibility} decryption(s) pending`,
+    );
+  });
+
+withCommonParams("auction:settle", "Settle allocations and payments (seller, or anyone after the grace period)")
+  .addParam("id", "Auction id", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { id, ...common } = args as CommonArgs & { id: number };
+    const { client } = await auctionClient(hre, common);
+
+    const receipt = await client.settle(id);
+    const events = receipt.logs
+      .map((l) => {
+        try {
+          return client.contract.interface.parseLog(l);
+        } catch {
+          return null;
+        }
+      })
+      .filter((e) => e !== null)
+      .map((e) => ({ name: e.name, args: Object.fromEntries(e.fragment.inputs.map((p, i) => [p.name, e.args[i]])) }));
+
+    if (common.json) {
+      printJson({ auctionId: id, txHash: receipt.hash, events });
+      return;
+    }
+    console.log(`Settled #${id}`);
+    for (const e of events) {
+      console.log(
+        `  ${e.name} ${Object.entries(e.args)
+          .map(([k, v]) => `${k}=${String(v)}`)
+          .join(" ")}`,
+      );
+    }
+  });
+
+/*
+  Settle a large auction over several transactions, `--batch` bids at a time, starting from the
+  on-chain cursor (so an interrupted run can simply be restarted).
+
+    --id    : Auction id
+    --batch : Bids settled per transaction. Default 100
+*/
+withCommonParams("auction:settle-batches", "Settle an auction in gas-bounded batches")
+  .addParam("id", "Auction id", undefined, types.int)
+  .addOptionalParam("batch", "Bids per settleBatch transaction", 100, types.int)
+  .setAction(async (args, hre) => {
+    const { id, batch, ...common } = args as CommonArgs & { id: number; batch: number };
+    const { client } = await auctionClient(hre, common);
+
+    const batches: { cursor: number; gasUsed: bigint; txHash: string }[] = [];
+    await client.settleInBatches(id, batch, (progress, receipt) => {
+      batches.push({ cursor: progress.cursor, gasUsed: receipt.gasUsed, txHash: receipt.hash });
+    });
+    const progress = await client.getSettlementProgress(id);
+
+    if (common.json) {
+      printJson({ auctionId: id, ...progress, batches });
+      return;
+    }
+    console.log(`Settled #${id}: ${progress.bidCount} bids in ${batches.length} batch(es)`);
+    for (const b of batches) {
+      console.log(`  -> ${b.cursor} (gas ${b.gasUsed})`);
+    }
+  });
+
+withCommonParams("auction:claim", "Withdraw the signer's settlement amounts of a pull-payment auction")
+  .addParam("id", "Auction id", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { id, ...common } = args as CommonArgs & { id: number };
+    const { client, signer } = await auctionClient(hre, common);
+
+    const { base, quote } = await client.getClaimable(id, signer.address);
+    const receipt = await client.claim(id);
+
+    if (common.json) {
+      printJson({ auctionId: id, account: signer.address, base, quote, txHash: receipt.hash });
+      return;
+    }
+    console.log(`Claimed ${base} base + ${quote} quote from #${id} for ${signer.address}`);
+  });
+
+withCommonParams("auction:close-empty", "Refund the bids and release the base of a window that closed without demand")
+  .addParam("id", "Auction id", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { id, ...common } = args as CommonArgs & { id: number };
+    const { client } = await auctionClient(hre, common);
+
+    const receipt = await client.closeEmptyAuction(id);
+    const released = receipt.logs
+      .map((l) => client.contract.interface.parseLog(l))
+      .find((e) => e?.name === "BaseRolledOver" || e?.name === "BaseRemainderReturned");
+
+    if (common.json) {
+      printJson({
+        auctionId: id,
+        rolledInto: released?.name === "BaseRolledOver" ? Number(released.args.nextAuctionId) : null,
+        amount: released?.args.amount,
+        txHash: receipt.hash,
+      });
+      return;
+    }
+    console.log(
+      released?.name === "BaseRolledOver"
+        ? `Closed #${id}: ${released.args.amount} rolled into #${released.args.nextAuctionId}`
+        : `Closed #${id}: ${released?.args.amount} returned to the seller`,
+    );
+  });
+
+/*
+  Audit an auction's VWAP as the signer, who must be its auditor (or, on MedicineAuction, a registry
+  auditor): grants the signer access to every live bid's encrypted price, encSumPQ and encVWAP, decrypts
+  them and checks that sum(price * qty) / sumQ matches the encrypted and the revealed VWAP.
+
+    --id    : Auction id (its encrypted VWAP must be computed)
+    --batch : Bids granted per transaction. Default 50
+*/
+withCommonParams("auction:audit", "Decrypt every bid price of an auction and verify its VWAP")
+  .addParam("id", "Auction id", undefined, types.int)
+  .addOptionalParam("batch", "Bids per grantAuditAccess transaction", 50, types.int)
+  .setAction(async (args, hre) => {
+    const { id, batch, ...common } = args as CommonArgs & { id: number; batch: number };
+    const { fhevm } = hre;
+    const { client, signer } = await auctionClient(hre, common);
+
+    if (!(await client.canAudit(id, signer.address))) {
+      throw new Error(`${signer.address} may not audit auction #${id}`);
+    }
+    const [a, handles] = await Promise.all([client.getAuction(id), client.getAuditHandles(id)]);
+    await client.grantAuditAccessInBatches(id, batch);
+
+    await fhevm.initializeCLIApi();
+    const results: Record<string, bigint> = {};
+    const decrypt = async (type: FhevmType.euint64 | FhevmType.euint128, handle: string) => {
+      results[handle] = await fhevm.userDecryptEuint(type, handle, client.address, signer);
+    };
+    await decrypt(FhevmType.euint128, handles.encSumPQ);
+    await decrypt(FhevmType.euint64, handles.encVWAP);
+    for (const b of handles.bids) {
+      await decrypt(FhevmType.euint64, b.price);
+      if (b.qtyHandle) {
+        await decrypt(FhevmType.euint64, b.qtyHandle);
+      }
+    }
+    const report = verifyAudit(a, readAuditDecryption(handles, results));
+
+    if (common.json) {
+      printJson({ auctionId: id, auditor: signer.address, ...report });
+      return;
+    }
+    for (const b of report.bids) {
+      console.log(`  [${b.index}] ${b.buyer} price=${b.price} qty=${b.qty}`);
+    }
+    console.log(`Recomputed: sum(p*q)=${report.sumPQ} sumQ=${report.sumQ} vwap=${report.vwap}`);
+    const mark = (ok: boolean | undefined) => (ok === undefined ? "not revealed" : ok ? "ok" : "MISMATCH");
+    console.log(
+      `sumQ ${mark(report.sumQMatches)}, encSumPQ ${mark(report.sumPQMatches)}, ` +
+        `encVWAP ${mark(report.encVWAPMatches)}, revealed VWAP ${mark(report.vwapMatches)}`,
+    );
+    console.log(report.ok ? `Auction #${id}: VWAP verified` : `Auction #${id}: VWAP does NOT match the bids`);
+  });
+
+withCommonParams("auction:series", "List recurring series and the state of each window").setAction(
+  async (args, hre) => {
+    const common = args as CommonArgs;
+    const { client } = await auctionClient(hre, common);
+
+    const now = Number((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+    const [seriesList, auctions] = await Promise.all([client.listSeries(), client.listAuctions()]);
+    const summaries = seriesList.map((s) => summarizeSeries(s, auctions, now));
+
+    if (common.json) {
+      printJson(summaries);
+      return;
+    }
+    if (summaries.length === 0) {
+      console.log(`No series on ${common.contract}`);
+    }
+    for (const { series, windows, current } of summaries) {
+      console.log(
+        `Series #${series.id} seller=${series.seller} ${series.windows}x${series.supplyPerWindow} every ${series.windowLength}s` +
+          (current ? ` (current: #${current.auctionId})` : ""),
+      );
+      for (const w of windows) {
+        const rolled = w.rolledIn > 0n ? ` (+${w.rolledIn} rolled in)` : "";
+        console.log(`  [${w.index}] #${w.auctionId} [${w.phase}] S=${w.S}${rolled}`);
+      }
+    }
+  },
+);
+
+withCommonParams("auction:list", "List auctions with their lifecycle phase")
+  .addOptionalParam("metadataDir", "Metadata store directory", METADATA_DIR)
+  .setAction(async (args, hre) => {
+    const { metadataDir, ...common } = args as CommonArgs & { metadataDir: string };
+    const { client } = await auctionClient(hre, common);
+    const store = new JsonFileAuctionMetadataStore(metadataDir);
+
+    const now = Number((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+    const auctions = (await client.listAuctions()).map((a) => ({ ...a, phase: deriveAuctionPhase(a, now).phase }));
+
+    if (common.json) {
+      printJson(auctions);
+      return;
+    }
+    if (auctions.length === 0) {
+      console.log(`No auctions on ${common.contract}`);
+    }
+    for (const a of auctions) {
+      const d = await client.getAuctionDecimals(a);
+      const vwap = a.vwapSet ? ` vwap=${formatAmount(a.vwap, d.quote)}${a.priceUnit && ` ${a.priceUnit}`}` : "";
+      const pull = a.pullPayments ? " (pull payments)" : "";
+      const caps = a.encryptedCaps ? " (encrypted caps)" : "";
+      const hidden = a.confidentialQuantities && a.qtyReveal < QtyReveal.SumQRevealed;
+      const qty = a.confidentialQuantities ? " (confidential quantities)" : "";
+      const lot = a.metadataHash !== hre.ethers.ZeroHash ? await store.get(a.metadataHash) : undefined;
+      const title = lot ? ` "${lot.title}" (${lot.drug}, ${lot.dosage})` : "";
+      const maxQtyPerBidder = maxBidderQty(a.S, a.bidderLimits);
+      const limits = [
+        a.bidderLimits.maxBids !== 0 && `${a.bidderLimits.maxBids} bids`,
+        maxQtyPerBidder !== undefined && `qty ${formatAmount(maxQtyPerBidder, d.base)}`,
+      ].filter(Boolean);
+      const perBidder = limits.length > 0 ? ` (per bidder: ${limits.join(", ")})` : "";
+      console.log(
+        `#${a.id}${title} [${a.phase}] seller=${a.seller} S=${formatAmount(a.S, d.base)}` +
+          ` sumQ=${hidden ? "encrypted" : formatAmount(a.sumQ, d.base)}${vwap}${pull}${caps}${qty}${perBidder}`,
+      );
+    }
+  });
+
+withCommonParams("auction:bids", "List the bids of an auction")
+  .addParam("id", "Auction id", undefined, types.int)
+  .setAction(async (args, hre) => {
+    const { id, ...common } = args as CommonArgs & { id: number };
+    const { client } = await auctionClient(hre, common);
+
+    const [a, bids] = await Promise.all([client.getAuction(id), client.getBids(id)]);
+
+    if (common.json) {
+      printJson(bids);
+      return;
+    }
+    const d = await client.getAuctionDecimals(a);
+    const base = (v: bigint) => formatAmount(v, d.base);
+    const quote = (v: bigint) => formatAmount(v, d.quote);
+    if (bids.length === 0) {
+      console.log(`No bids on #${id}`);
+    }
+    for (const b of bids) {
+      const cap = b.encryptedCap ? `encrypted${b.capMet ? " (met)" : ""}` : quote(b.priceCap);
+      const qty = b.confidentialQty
+        ? `encrypted${b.allocation > 0n ? ` (alloc ${base(b.allocation)})` : ""}`
+        : base(b.qty);
+      const minFill = b.minFill === 0n ? "" : ` minFill=${b.minFill >= b.qty ? "all" : base(b.minFill)}`;
+      console.log(
+        `[${b.index}] buyer=${b.buyer} qty=${qty} cap=${cap} maxSpend=${quote(b.maxSpend)}${minFill}` +
+          `${b.minFillExcluded ? " (below min fill)" : ""}${b.cancelled ? " (cancelled)" : b.settled ? " (settled)" : ""}`,
+      );
+    }
+  });
@@ -0,0 +1,44 @@
+import { task, types } from "hardhat/config";
+
+import { AuctionIndexer } from "@fhevwap/auction/AuctionIndexer";
+import { JsonFileAuctionIndexStorage } from "@fhevwap/auction/storage/JsonFileAuctionIndexStorage";
+
+/*
+  Replay auction events into a local JSON projection (resumable, reorg-aware) and print a summary.
+  The same indexer backs the Medicine UI (IndexedDB in the browser).
+
+  Usage examples:
+    - npx hardhat --network localhost auction:index
+    - npx hardhat --network sepolia auction:index --contract MedicineAuction --from 8900000
+
+  Parameters:
+    --contract : Deployed auction name (MedicineAuction | FHEVWAPAuction). Default MedicineAuction
+    --from     : Start block. Defaults to the deployment block
+    --dir      : Snapshot directory. Default ./cache/auction-index
+*/
+task("auction:index", "Sync the local auction event index and print a summary")
+  .addOptionalParam("contract", "Deployed auction contract name", "MedicineAuction")
+  .addOptionalParam("from", "Start block (defaults to deployment block)", undefined, types.int)
+  .addOptionalParam("dir", "Directory for JSON snapshots", "./cache/auction-index")
+  .setAction(async (args, hre) => {
+    const { deployments, ethers } = hre;
+    const { contract, from, dir } = args as { contract: string; from?: number; dir: string };
+
+    const dep = await deployments.get(contract);
+    const { chainId } = await ethers.provider.getNetwork();
+    const indexer = new AuctionIndexer({
+      runner: ethers.provider,
+      address: dep.address as `0x${string}`,
+      chainId: Number(chainId),
+      startBlock: from ?? dep.receipt?.blockNumber ?? 0,
+      storage: new JsonFileAuctionIndexStorage(dir),
+      log: (m) => console.log(m),
+    });
+
+    await indexer.sync();
+    console.log(`Indexed ${contract} at ${dep.address} up to block ${indexer.lastBlock}`);
+    for (const a of indexer.auctions()) {
+      const status = a.settled ? "settled" : a.vwapSet ? `vwap=${a.vwap}` : "pending";
+      console.log(`#${a.id} seller=${a.seller} S=${a.S} sumQ=${a.sumQ} bids=${a.bidCount} ${status}`);
+    }
+  });
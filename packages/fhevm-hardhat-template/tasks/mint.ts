@@ -1,4 +1,5 @@
 import { task, types } from "hardhat/config";
+import { formatAmount, parseAmount } from "@fhevwap/auction/amounts";
 
 /*
   Mint tokens to a target address.
@@ -26,22 +27,20 @@ task("mint:token", "Mint tokens to an address")
     const signer = (await ethers.getSigners())[0];
     const ctr = await ethers.getContractAt(token, dep.address, signer);
 
-    let value: bigint;
-    if (scaled) {
-      const decimals: number = await ctr.decimals();
-      value = ethers.parseUnits(String(amount), decimals);
-    } else {
-      value = BigInt(amount);
+    const decimals = Number(await ctr.decimals());
+    const value = parseAmount(String(amount), scaled ? decimals : 0);
+    if (value === undefined) {
+      throw new Error(`Invalid amount ${amount} for ${token} (${scaled ? decimals : 0} decimals)`);
     }
 
     const tx = await ctr.mint(to, value);
     console.log(`Mint tx: ${tx.hash}`);
     await tx.wait();
-    console.log(`Minted ${amount}${scaled ? " (scaled)" : ""} on ${token} to ${to}`);
+    console.log(`Minted ${formatAmount(value, decimals)} ${token} (${value} raw units) to ${to}`);
   });
 
 /*
-  Mint 100000 units of MedicineToken and StableUSD to a target address in one shot.
+  Mint 100000 whole tokens of MedicineToken and StableUSD (scaled by each token's decimals) to a target address.
 
   Usage:
     npx hardhat --network localhost mint:all --to 0xYourAddr
@@ -58,13 +57,13 @@ task("mint:all", "Mint 100000 MED and 100000 USD to an address")
     const med = await ethers.getContractAt("MedicineToken", medDep.address, signer);
     const usd = await ethers.getContractAt("StableUSD", usdDep.address, signer);
 
-    const amount = 100000n; // decimals = 0, demo-friendly
+    const amount = "100000";
 
-    const tx1 = await med.mint(to, amount);
+    const tx1 = await med.mint(to, parseAmount(amount, Number(await med.decimals()))!);
     console.log(`MedicineToken mint tx: ${tx1.hash}`);
     await tx1.wait();
 
-    const tx2 = await usd.mint(to, amount);
+    const tx2 = await usd.mint(to, parseAmount(amount, Number(await usd.decimals()))!);
     console.log(`StableUSD mint tx: ${tx2.hash}`);
     await tx2.wait();
 
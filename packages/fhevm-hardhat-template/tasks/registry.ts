@@ -0,0 +1,59 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { PROCUREMENT_ROLES, procurementRoleId, type ProcurementRole } from "@fhevwap/auction/registry";
+
+/*
+  Manage the ProcurementRegistry behind MedicineAuction: suppliers create auctions, municipalities bid,
+  auditors review. Transactions are sent by the registry admin (the deployer).
+
+  Usage examples:
+    - npx hardhat --network localhost registry:grant --role municipality --account 0xabc...
+    - npx hardhat --network localhost registry:revoke --role supplier --account 0xabc...
+    - npx hardhat --network localhost registry:roles --account 0xabc...
+*/
+
+function parseRole(role: string): ProcurementRole {
+  if (!(PROCUREMENT_ROLES as readonly string[]).includes(role)) {
+    throw new Error(`Unknown role ${role}: expected one of ${PROCUREMENT_ROLES.join(", ")}`);
+  }
+  return role as ProcurementRole;
+}
+
+async function registryContract(hre: HardhatRuntimeEnvironment) {
+  const dep = await hre.deployments.get("ProcurementRegistry");
+  const signer = (await hre.ethers.getSigners())[0];
+  return hre.ethers.getContractAt("ProcurementRegistry", dep.address, signer);
+}
+
+task("registry:grant", "Grant a procurement role to an account")
+  .addParam("role", `One of ${PROCUREMENT_ROLES.join(", ")}`)
+  .addParam("account", "Account address")
+  .setAction(async ({ role, account }: { role: string; account: string }, hre) => {
+    const registry = await registryContract(hre);
+    const tx = await registry.grantRole(procurementRoleId(parseRole(role)), account);
+    console.log(`Grant tx: ${tx.hash}`);
+    await tx.wait();
+    console.log(`${account} is now a ${role}`);
+  });
+
+task("registry:revoke", "Revoke a procurement role from an account")
+  .addParam("role", `One of ${PROCUREMENT_ROLES.join(", ")}`)
+  .addParam("account", "Account address")
+  .setAction(async ({ role, account }: { role: string; account: string }, hre) => {
+    const registry = await registryContract(hre);
+    const tx = await registry.revokeRole(procurementRoleId(parseRole(role)), account);
+    console.log(`Revoke tx: ${tx.hash}`);
+    await tx.wait();
+    console.log(`${account} is no longer a ${role}`);
+  });
+
+task("registry:roles", "Print the procurement roles of an account")
+  .addParam("account", "Account address")
+  .setAction(async ({ account }: { account: string }, hre) => {
+    const registry = await registryContract(hre);
+    for (const role of PROCUREMENT_ROLES) {
+      const has = await registry.hasRole(procurementRoleId(role), account);
+      console.log(`${role.padEnd(12)} ${has ? "yes" : "no"}`);
+    }
+  });
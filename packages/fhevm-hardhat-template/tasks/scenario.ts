@@ -0,0 +1,292 @@
+import type { ContractTransactionReceipt } from "ethers";
+import * as fs from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/*
+  Replay a declarative auction scenario against a fresh deployment on a local `npx hardhat node`
+  (mocked FHEVM) and diff the outcome against expectations. The example files under `scenarios/`
+  also run as part of `npx hardhat test` (see test/Scenarios.ts).
+
+  Usage examples:
+    - npx hardhat --network localhost scenario:run --file scenarios/three-municipalities.json
+    - npx hardhat --network localhost scenario:run --file scenarios/oversubscribed.json
+
+  Scenario file (amounts are plain integers, bidders are free-form labels mapped to signers):
+    {
+      "contract": "MedicineAuction" | "TestableFHEVWAPAuction",
+      "supply": 100,
+      "window": { "startOffset": 0, "duration": 3600 },
+      "steps": [
+        { "bid": { "bidder": "alice", "price": 100, "qty": 30, "cap": 120, "maxSpend": 3600 } },
+        { "advance": 4000 }
+      ],
+      "vwapOverride": 98,            // optional, TestableFHEVWAPAuction only (skips the oracle)
+      "expect": {
+        "vwap": 98,
+        "allocations": { "alice": { "alloc": 30, "spend": 2940, "refund": 660 } },
+        "sellerProceeds": 2940,
+        "baseReturned": 70,
+        "revert": "insufficient escrow" // optional, expected settle() revert reason
+      }
+    }
+*/
+
+type ScenarioBidStep = { bid: { bidder: string; price: number; qty: number; cap: number; maxSpend?: number } };
+type ScenarioAdvanceStep = { advance: number };
+type ScenarioStep = ScenarioBidStep | ScenarioAdvanceStep;
+
+type ExpectedAllocation = { alloc?: number; spend?: number; refund?: number };
+
+export type AuctionScenario = {
+  contract: "MedicineAuction" | "TestableFHEVWAPAuction";
+  supply: number;
+  window?: { startOffset?: number; duration?: number };
+  steps: ScenarioStep[];
+  vwapOverride?: number;
+  expect: {
+    vwap?: number;
+    allocations?: Record<string, ExpectedAllocation>;
+    sellerProceeds?: number;
+    baseReturned?: number;
+    revert?: string;
+  };
+};
+
+export type ScenarioCheck = { field: string; expected: string; actual: string; ok: boolean };
+
+export type ScenarioResult = { name: string; passed: boolean; checks: ScenarioCheck[] };
+
+function isInt(v: unknown): v is number {
+  return typeof v === "number" && Number.isSafeInteger(v) && v >= 0;
+}
+
+/** Validates a parsed scenario file, reporting the first offending path. */
+export function parseScenario(json: unknown): AuctionScenario {
+  const fail = (path: string, msg: string): never => {
+    throw new Error(`Invalid scenario: ${path} ${msg}`);
+  };
+  const s = json as AuctionScenario;
+  if (typeof s !== "object" || s === null) fail("<root>", "must be an object");
+  if (s.contract !== "MedicineAuction" && s.contract !== "TestableFHEVWAPAuction") {
+    fail("contract", "must be MedicineAuction or TestableFHEVWAPAuction");
+  }
+  if (!isInt(s.supply) || s.supply === 0) fail("supply", "must be a positive integer");
+  if (!Array.isArray(s.steps)) fail("steps", "must be an array");
+  s.steps.forEach((step, i) => {
+    if ("advance" in step) {
+      if (!isInt(step.advance)) fail(`steps[${i}].advance`, "must be a non-negative integer");
+    } else if ("bid" in step) {
+      const b = step.bid;
+      if (typeof b.bidder !== "string" || b.bidder.length === 0) fail(`steps[${i}].bid.bidder`, "must be a label");
+      for (const k of ["price", "qty", "cap"] as const) {
+        if (!isInt(b[k])) fail(`steps[${i}].bid.${k}`, "must be a non-negative integer");
+      }
+      if (b.maxSpend !== undefined && !isInt(b.maxSpend)) fail(`steps[${i}].bid.maxSpend`, "must be an integer");
+    } else {
+      fail(`steps[${i}]`, "must be a bid or advance step");
+    }
+  });
+  if (s.vwapOverride !== undefined && s.contract !== "TestableFHEVWAPAuction") {
+    fail("vwapOverride", "is only supported with TestableFHEVWAPAuction");
+  }
+  if (typeof s.expect !== "object" || s.expect === null) fail("expect", "must be an object");
+  return s;
+}
+
+function bidders(scenario: AuctionScenario): string[] {
+  const labels: string[] = [];
+  for (const step of scenario.steps) {
+    if ("bid" in step && !labels.includes(step.bid.bidder)) labels.push(step.bid.bidder);
+  }
+  return labels;
+}
+
+/**
+ * Deploys fresh tokens and auction, replays the steps with the mocked FHE flow used by the tests
+ * (client-side encryption, `requestVWAPDecryption` + `awaitDecryptionOracle`), settles and
+ * compares balances and events with `scenario.expect`.
+ */
+export async function runScenario(
+  hre: HardhatRuntimeEnvironment,
+  scenario: AuctionScenario,
+  name = "scenario",
+): Promise<ScenarioResult> {
+  const { ethers, fhevm } = hre;
+  // The in-process network is only initialized by the plugin's `test` task
+  if (hre.network.name !== "hardhat") {
+    await fhevm.initializeCLIApi();
+  }
+  if (!fhevm.isMock) {
+    throw new Error("Scenarios require a mocked FHEVM network (local hardhat node)");
+  }
+
+  const labels = bidders(scenario);
+  const [deployer, seller, ...rest] = await ethers.getSigners();
+  if (rest.length < labels.length) {
+    throw new Error(`Scenario uses ${labels.length} bidders but only ${rest.length} signers are available`);
+  }
+  const signerOf = Object.fromEntries(labels.map((l, i) => [l, rest[i]]));
+
+  const erc20 = await ethers.getContractFactory("MockERC20", deployer);
+  const base = await erc20.deploy("BaseToken", "BASE", 0n);
+  const quote = await erc20.deploy("QuoteToken", "QUOTE", 0n);
+  // No WETH, and for MedicineAuction no role registry: every signer may create and bid
+  const args =
+    scenario.contract === "MedicineAuction" ? [ethers.ZeroAddress, ethers.ZeroAddress] : [ethers.ZeroAddress];
+  const auction = await (await ethers.getContractFactory(scenario.contract, deployer)).deploy(...args);
+  const auctionAddress = await auction.getAddress();
+
+  const supply = BigInt(scenario.supply);
+  await (await base.mint(seller.address, supply)).wait();
+  await (await base.connect(seller).approve(auctionAddress, supply)).wait();
+
+  const now = Number((await ethers.provider.getBlock("latest"))!.timestamp);
+  const start = now + (scenario.window?.startOffset ?? 0);
+  const end = start + (scenario.window?.duration ?? 3600);
+  const createMethod = scenario.contract === "MedicineAuction" ? "createMedicineAuction" : "createAuction";
+  const bidMethod = scenario.contract === "MedicineAuction" ? "submitMunicipalityBid" : "submitBid";
+  const createReceipt = await (
+    await auction.connect(seller).getFunction(createMethod)(
+      await base.getAddress(),
+      await quote.getAddress(),
+      supply,
+      start,
+      end,
+    )
+  ).wait();
+  const created = (createReceipt as ContractTransactionReceipt).logs
+    .map((l) => auction.interface.parseLog(l))
+    .find((e) => e?.name === "AuctionCreated");
+  const auctionId: bigint = created!.args.auctionId;
+
+  for (const step of scenario.steps) {
+    if ("advance" in step) {
+      await ethers.provider.send("evm_increaseTime", [step.advance]);
+      await ethers.provider.send("evm_mine", []);
+      continue;
+    }
+    const b = step.bid;
+    const signer = signerOf[b.bidder];
+    const maxSpend = BigInt(b.maxSpend ?? b.qty * b.cap);
+    await (await quote.mint(signer.address, maxSpend)).wait();
+    await (await quote.connect(signer).approve(auctionAddress, maxSpend)).wait();
+    const enc = await fhevm.createEncryptedInput(auctionAddress, signer.address).add64(b.price).encrypt();
+    await (
+      await auction.connect(signer).getFunction(bidMethod)(
+        auctionId,
+        enc.handles[0],
+        enc.inputProof,
+        b.qty,
+        b.cap,
+        maxSpend,
+      )
+    ).wait();
+  }
+
+  // Close the window if the steps did not
+  const latest = Number((await ethers.provider.getBlock("latest"))!.timestamp);
+  if (latest <= end) {
+    await ethers.provider.send("evm_increaseTime", [end - latest + 1]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  const checks: ScenarioCheck[] = [];
+  const check = (field: string, expected: unknown, actual: unknown) => {
+    if (expected === undefined) return;
+    checks.push({ field, expected: String(expected), actual: String(actual), ok: String(expected) === String(actual) });
+  };
+
+  const a = await auction.getFunction("auctions")(auctionId);
+  if (a.sumQ > 0n) {
+    await (await auction.getFunction("computeEncryptedVWAP")(auctionId)).wait();
+    if (scenario.vwapOverride !== undefined) {
+      await (await auction.getFunction("testSetVWAP")(auctionId, scenario.vwapOverride)).wait();
+    } else {
+      await (await auction.connect(seller).getFunction("requestVWAPDecryption")(auctionId)).wait();
+      await fhevm.awaitDecryptionOracle();
+    }
+  }
+  const revealed = await auction.getFunction("auctions")(auctionId);
+  check("vwap", scenario.expect.vwap, revealed.vwapSet ? revealed.vwap : "unset");
+  if (!revealed.vwapSet) {
+    check("settle", scenario.expect.revert, "no vwap");
+    return { name, passed: checks.every((c) => c.ok), checks };
+  }
+
+  let settleReceipt;
+  try {
+    settleReceipt = await (await auction.connect(seller).getFunction("settle")(auctionId)).wait();
+    check("settle", scenario.expect.revert, "ok");
+  } catch (e) {
+    const reason = (e as Error).message.match(/reverted with reason string '([^']*)'/)?.[1] ?? (e as Error).message;
+    checks.push({
+      field: "settle",
+      expected: scenario.expect.revert ?? "ok",
+      actual: reason,
+      ok: reason === scenario.expect.revert,
+    });
+    return { name, passed: checks.every((c) => c.ok), checks };
+  }
+
+  // Aggregate settlement events per bidder label
+  const labelOf = Object.fromEntries(labels.map((l) => [signerOf[l].address.toLowerCase(), l]));
+  const actual: Record<string, { alloc: bigint; spend: bigint; refund: bigint }> = Object.fromEntries(
+    labels.map((l) => [l, { alloc: 0n, spend: 0n, refund: 0n }]),
+  );
+  let sellerProceeds = 0n;
+  let baseReturned = 0n;
+  for (const log of settleReceipt!.logs) {
+    const e = auction.interface.parseLog(log);
+    if (!e) continue;
+    if (e.name === "Allocated") {
+      const r = actual[labelOf[e.args.buyer.toLowerCase()]];
+      r.alloc += e.args.alloc;
+      r.spend += e.args.spend;
+    } else if (e.name === "Refunded") {
+      actual[labelOf[e.args.buyer.toLowerCase()]].refund += e.args.amount;
+    } else if (e.name === "SellerPaid") {
+      sellerProceeds = e.args.amount;
+    } else if (e.name === "BaseRemainderReturned") {
+      baseReturned = e.args.amount;
+    }
+  }
+
+  for (const [label, exp] of Object.entries(scenario.expect.allocations ?? {})) {
+    const got = actual[label];
+    if (!got) {
+      checks.push({ field: `${label}`, expected: "a bidder", actual: "unknown label", ok: false });
+      continue;
+    }
+    check(`${label}.alloc`, exp.alloc, got.alloc);
+    check(`${label}.spend`, exp.spend, got.spend);
+    check(`${label}.refund`, exp.refund, got.refund);
+  }
+  check("sellerProceeds", scenario.expect.sellerProceeds, sellerProceeds);
+  check("baseReturned", scenario.expect.baseReturned, baseReturned);
+
+  return { name, passed: checks.every((c) => c.ok), checks };
+}
+
+function printResult(result: ScenarioResult) {
+  console.log(`Scenario ${result.name}: ${result.passed ? "PASS" : "FAIL"}`);
+  for (const c of result.checks) {
+    const line = c.ok ? `  ✔ ${c.field} = ${c.actual}` : `  ✘ ${c.field}: expected ${c.expected}, got ${c.actual}`;
+    console.log(line);
+  }
+}
+
+task("scenario:run", "Replay a declarative auction scenario and diff it against expectations")
+  .addParam("file", "Path to the scenario JSON file")
+  .setAction(async ({ file }: { file: string }, hre) => {
+    if (hre.network.name === "hardhat") {
+      throw new Error("Start `npx hardhat node` and run scenario:run with --network localhost");
+    }
+    const scenario = parseScenario(JSON.parse(fs.readFileSync(file, "utf-8")));
+    const result = await runScenario(hre, scenario, file);
+    printResult(result);
+    if (!result.passed) {
+      process.exitCode = 1;
+    }
+    return result;
+  });
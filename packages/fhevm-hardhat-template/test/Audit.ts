@@ -0,0 +1,230 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+import { verifyAudit } from "@fhevwap/auction/audit";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("FHEVWAPAuction auditor access", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let auditor: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+  let auctionAddress: string;
+
+  const S = 100n;
+  const CAP = 200n;
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, alice, bob, auditor] = await ethers.getSigners();
+  });
+
+  async function deploy(contractName: string, args: unknown[], options: Parameters<typeof auctionOptions>[0] = {}) {
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, 1_000_000n)).wait();
+    auction = await (await ethers.getContractFactory(contractName, deployer)).deploy(...args);
+    auctionAddress = await auction.getAddress();
+    for (const b of [alice, bob]) {
+      await (await typed(quote).mint(b.address, 1_000_000n)).wait();
+      await (await typed(quote).connect(b).approve(auctionAddress, 1_000_000n)).wait();
+    }
+
+    await (await typed(base).connect(seller).approve(auctionAddress, S)).wait();
+    const ts = await latestTimestamp();
+    return typed(auction)
+      .connect(seller)
+      .createAuctionWithOptions(
+        await base.getAddress(),
+        await quote.getAddress(),
+        S,
+        ts - 1,
+        ts + 3600,
+        auctionOptions(options),
+      );
+  }
+
+  async function bid(signer: HardhatEthersSigner, price: bigint, qty: bigint) {
+    const enc = await fhevm.createEncryptedInput(auctionAddress, signer.address).add64(price).encrypt();
+    return typed(auction)
+      .connect(signer)
+      .submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, qty, CAP, qty * CAP);
+  }
+
+  async function computeVWAP() {
+    await increaseTime(3601);
+    await (await typed(auction).computeEncryptedVWAP(AUCTION_ID)).wait();
+  }
+
+  function decrypt(type: FhevmType.euint64 | FhevmType.euint128, handle: string, signer = auditor) {
+    return fhevm.userDecryptEuint(type, handle, auctionAddress, signer);
+  }
+
+  describe("appointed by the seller", () => {
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+      const created = await deploy("TestableFHEVWAPAuction", [ethers.ZeroAddress], {
+        auditor: auditor.address as `0x${string}`,
+      });
+      await expect(created).to.emit(auction, "AuditorSet").withArgs(AUCTION_ID, auditor.address);
+    });
+
+    it("decrypts every live bid price and recomputes the revealed VWAP", async () => {
+      await (await bid(alice, 90n, 30n)).wait();
+      await (await bid(bob, 120n, 50n)).wait();
+      await (await bid(alice, 150n, 10n)).wait();
+      // The audited price follows amendments; cancelled bids are left out
+      const enc = await fhevm.createEncryptedInput(auctionAddress, alice.address).add64(100n).encrypt();
+      await (
+        await typed(auction)
+          .connect(alice)
+          .amendBid(AUCTION_ID, 0, enc.handles[0], enc.inputProof, 30n, CAP, 30n * CAP)
+      ).wait();
+      await (await typed(auction).connect(alice).cancelBid(AUCTION_ID, 2)).wait();
+      await computeVWAP();
+      await (await typed(auction).connect(seller).requestVWAPDecryption(AUCTION_ID)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(typed(auction).connect(auditor).grantAuditAccess(AUCTION_ID, 0, 10))
+        .to.emit(auction, "AuditAccessGranted")
+        .withArgs(AUCTION_ID, auditor.address, 0, 3);
+
+      const a = await typed(auction).auctions(AUCTION_ID);
+      const [b0, b1, cancelled] = await typed(auction).getBids(AUCTION_ID);
+      await expect(decrypt(FhevmType.euint64, cancelled.encPrice)).to.be.rejected;
+      const bids = [
+        { index: 0, buyer: b0.buyer, price: await decrypt(FhevmType.euint64, b0.encPrice), qty: b0.qty },
+        { index: 1, buyer: b1.buyer, price: await decrypt(FhevmType.euint64, b1.encPrice), qty: b1.qty },
+      ];
+      expect(bids.map((b) => b.price)).to.deep.eq([100n, 120n]);
+
+      const report = verifyAudit(
+        { sumQ: a.sumQ, vwap: a.vwap, vwapSet: a.vwapSet },
+        {
+          bids,
+          encSumPQ: await decrypt(FhevmType.euint128, a.encSumPQ),
+          encVWAP: await decrypt(FhevmType.euint64, a.encVWAP),
+        },
+      );
+      // (100*30 + 120*50) / 80 = 112.5
+      expect(report.vwap).to.eq(112n);
+      expect(report.vwapMatches).to.eq(true);
+      expect(report.ok).to.eq(true);
+    });
+
+    it("grants bids in batches", async () => {
+      await (await bid(alice, 90n, 30n)).wait();
+      await (await bid(bob, 120n, 50n)).wait();
+      await computeVWAP();
+
+      await (await typed(auction).connect(auditor).grantAuditAccess(AUCTION_ID, 0, 1)).wait();
+      const [b0, b1] = await typed(auction).getBids(AUCTION_ID);
+      expect(await decrypt(FhevmType.euint64, b0.encPrice)).to.eq(90n);
+      await expect(decrypt(FhevmType.euint64, b1.encPrice)).to.be.rejected;
+
+      await expect(typed(auction).connect(auditor).grantAuditAccess(AUCTION_ID, 1, 1))
+        .to.emit(auction, "AuditAccessGranted")
+        .withArgs(AUCTION_ID, auditor.address, 1, 2);
+      expect(await decrypt(FhevmType.euint64, b1.encPrice)).to.eq(120n);
+    });
+
+    it("only grants the auditor, once the encrypted VWAP is computed", async () => {
+      await (await bid(alice, 90n, 30n)).wait();
+      await expect(typed(auction).connect(alice).grantAuditAccess(AUCTION_ID, 0, 10)).to.be.revertedWith(
+        "not an auditor",
+      );
+      await expect(typed(auction).connect(auditor).grantAuditAccess(AUCTION_ID, 0, 10)).to.be.revertedWith(
+        "not computed",
+      );
+      // Nobody else is allowed on the stored prices, not even the bidder
+      const [b0] = await typed(auction).getBids(AUCTION_ID);
+      await expect(decrypt(FhevmType.euint64, b0.encPrice, alice)).to.be.rejected;
+    });
+
+    it("is only taken at creation", async () => {
+      expect(typed(auction).setAuditor).to.eq(undefined);
+      // deploy replaces `auction`, so only look it up once the create transaction is sent
+      const created = await deploy("TestableFHEVWAPAuction", [ethers.ZeroAddress]);
+      await expect(created).not.to.emit(auction, "AuditorSet");
+      expect(await typed(auction).auditor(AUCTION_ID)).to.eq(ethers.ZeroAddress);
+    });
+
+    it("also grants the encrypted quantities of confidential-quantity bids", async () => {
+      await (
+        await deploy("TestableFHEVWAPAuction", [ethers.ZeroAddress], {
+          confidentialQuantities: true,
+          auditor: auditor.address as `0x${string}`,
+        })
+      ).wait();
+      const enc = await fhevm.createEncryptedInput(auctionAddress, alice.address).add64(110n).add64(40n).encrypt();
+      await (
+        await typed(auction)
+          .connect(alice)
+          .submitBidConfidentialQty(AUCTION_ID, enc.handles[0], enc.handles[1], enc.inputProof, CAP, 40n * CAP)
+      ).wait();
+      await increaseTime(3601);
+      await (await typed(auction).requestSumQDecryption(AUCTION_ID)).wait();
+      await fhevm.awaitDecryptionOracle();
+      await (await typed(auction).computeEncryptedVWAP(AUCTION_ID)).wait();
+
+      await (await typed(auction).connect(auditor).grantAuditAccess(AUCTION_ID, 0, 10)).wait();
+      const [b0] = await typed(auction).getBids(AUCTION_ID);
+      expect(await decrypt(FhevmType.euint64, b0.encPrice)).to.eq(110n);
+      expect(await decrypt(FhevmType.euint64, b0.encQty)).to.eq(40n);
+    });
+  });
+
+  describe("on MedicineAuction", () => {
+    let registry: BaseContract;
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+      const [admin] = await ethers.getSigners();
+      registry = await (await ethers.getContractFactory("ProcurementRegistry", admin)).deploy(admin.address);
+      await (await typed(registry).grantRole(ethers.id("SUPPLIER_ROLE"), seller.address)).wait();
+      for (const b of [alice, bob]) {
+        await (await typed(registry).grantRole(ethers.id("MUNICIPALITY_ROLE"), b.address)).wait();
+      }
+      await (await deploy("MedicineAuction", [ethers.ZeroAddress, await registry.getAddress()])).wait();
+    });
+
+    it("lets registry auditors audit every auction", async () => {
+      await (await bid(alice, 90n, 30n)).wait();
+      await computeVWAP();
+      await expect(typed(auction).connect(auditor).grantAuditAccess(AUCTION_ID, 0, 10)).to.be.revertedWith(
+        "not an auditor",
+      );
+
+      await (await typed(registry).grantRole(ethers.id("AUDITOR_ROLE"), auditor.address)).wait();
+      await (await typed(auction).connect(auditor).grantAuditAccess(AUCTION_ID, 0, 10)).wait();
+      const [b0] = await typed(auction).getBids(AUCTION_ID);
+      expect(await decrypt(FhevmType.euint64, b0.encPrice)).to.eq(90n);
+    });
+  });
+});
@@ -0,0 +1,337 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("FHEVWAPAuction batched settlement", function () {
+  let seller: HardhatEthersSigner;
+  let bidders: HardhatEthersSigner[];
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, ...bidders] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, 1_000_000n)).wait();
+    for (const b of bidders) {
+      await (await typed(quote).mint(b.address, 10_000_000n)).wait();
+    }
+    auction = await (await ethers.getContractFactory("TestableFHEVWAPAuction", deployer)).deploy(ethers.ZeroAddress);
+  });
+
+  async function create(S: bigint, duration = 3600, encryptedCaps = false) {
+    await (
+      await typed(base)
+        .connect(seller)
+        .approve(await auction.getAddress(), S)
+    ).wait();
+    const ts = await latestTimestamp();
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuctionWithOptions(
+          await base.getAddress(),
+          await quote.getAddress(),
+          S,
+          ts - 1,
+          ts + duration,
+          auctionOptions({ encryptedCaps }),
+        )
+    ).wait();
+  }
+
+  async function bid(signer: HardhatEthersSigner, price: number, qty: number, cap: number) {
+    await (
+      await typed(quote)
+        .connect(signer)
+        .approve(await auction.getAddress(), BigInt(qty * cap))
+    ).wait();
+    const enc = await fhevm
+      .createEncryptedInput(await auction.getAddress(), signer.address)
+      .add64(price)
+      .encrypt();
+    await (
+      await typed(auction)
+        .connect(signer)
+        .submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, qty, cap, qty * cap)
+    ).wait();
+  }
+
+  it("settles pro-rata across batches exactly like a single settle", async () => {
+    const [alice, bob, carol] = bidders;
+    await create(60n);
+    await bid(alice, 100, 40, 120);
+    await bid(bob, 90, 20, 80); // below the VWAP: refunded
+    await bid(carol, 110, 40, 130);
+    await bid(alice, 105, 20, 110);
+    await increaseTime(3601);
+    await (await typed(auction).testSetVWAP(AUCTION_ID, 100)).wait();
+
+    // Eligible demand 40 + 40 + 20 = 100 for S = 60
+    expect(await typed(auction).eligibleDemand(AUCTION_ID, 100)).to.eq(100n);
+
+    await expect(typed(auction).connect(seller).settleBatch(AUCTION_ID, 0, 2))
+      .to.emit(auction, "SettlementProgress")
+      .withArgs(AUCTION_ID, 2, 4)
+      .and.not.to.emit(auction, "SellerPaid");
+    expect(await typed(base).balanceOf(alice.address)).to.eq(24n);
+    expect((await typed(auction).auctions(AUCTION_ID)).settled).to.eq(false);
+
+    await expect(typed(auction).connect(seller).settleBatch(AUCTION_ID, 0, 2)).to.be.revertedWith("bad cursor");
+
+    await expect(typed(auction).connect(seller).settleBatch(AUCTION_ID, 2, 10))
+      .to.emit(auction, "SellerPaid")
+      .withArgs(AUCTION_ID, seller.address, 60n * 100n);
+    expect(await typed(base).balanceOf(alice.address)).to.eq(24n + 12n);
+    expect(await typed(base).balanceOf(carol.address)).to.eq(24n);
+    expect(await typed(quote).balanceOf(bob.address)).to.eq(10_000_000n);
+    expect(await typed(base).balanceOf(await auction.getAddress())).to.eq(0n);
+
+    const progress = await typed(auction).settlements(AUCTION_ID);
+    expect([progress.cursor, progress.eligibleQ]).to.deep.eq([4n, 100n]);
+    await expect(typed(auction).connect(seller).settleBatch(AUCTION_ID, 4, 1)).to.be.revertedWith("settled");
+  });
+
+  it("settle finishes a settlement started with settleBatch", async () => {
+    const [alice, bob] = bidders;
+    await create(100n);
+    await bid(alice, 100, 30, 120);
+    await bid(bob, 80, 50, 90);
+    await increaseTime(3601);
+    await (await typed(auction).testSetVWAP(AUCTION_ID, 87)).wait();
+
+    await (await typed(auction).connect(seller).settleBatch(AUCTION_ID, 0, 1)).wait();
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID))
+      .to.emit(auction, "BaseRemainderReturned")
+      .withArgs(AUCTION_ID, seller.address, 100n - 30n - 50n);
+    expect(await typed(base).balanceOf(bob.address)).to.eq(50n);
+  });
+
+  it("keeps the precomputed eligible demand in sync with amendments and cancellations", async () => {
+    const [alice, bob] = bidders;
+    await create(100n);
+    await bid(alice, 100, 10, 120);
+    await bid(bob, 100, 5, 120);
+    expect(await typed(auction).eligibleDemand(AUCTION_ID, 120)).to.eq(15n);
+
+    const enc = await fhevm
+      .createEncryptedInput(await auction.getAddress(), alice.address)
+      .add64(100)
+      .encrypt();
+    await (
+      await typed(auction).connect(alice).amendBid(AUCTION_ID, 0, enc.handles[0], enc.inputProof, 8, 90, 1200)
+    ).wait();
+    await (await typed(auction).connect(bob).cancelBid(AUCTION_ID, 1)).wait();
+
+    expect(await typed(auction).eligibleDemand(AUCTION_ID, 120)).to.eq(0n);
+    expect(await typed(auction).eligibleDemand(AUCTION_ID, 90)).to.eq(8n);
+    expect(await typed(auction).eligibleDemand(AUCTION_ID, 0)).to.eq(8n);
+  });
+
+  it("frees the cap level of demand cancelled or amended away", async function () {
+    this.timeout(10 * 60 * 1000);
+    const [alice, bob] = bidders;
+    const capLevels = Number(await typed(auction).MAX_CAP_LEVELS());
+    await create(100n);
+    await (
+      await typed(quote)
+        .connect(alice)
+        .approve(await auction.getAddress(), ethers.MaxUint256)
+    ).wait();
+    async function bidAt(signer: HardhatEthersSigner, cap: number) {
+      const enc = await fhevm
+        .createEncryptedInput(await auction.getAddress(), signer.address)
+        .add64(100)
+        .encrypt();
+      return typed(auction).connect(signer).submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, 1, cap, 1);
+    }
+    // One address fills every level with the smallest possible bids
+    for (let cap = 1; cap <= capLevels; cap++) {
+      await (await bidAt(alice, cap)).wait();
+    }
+    await (
+      await typed(quote)
+        .connect(bob)
+        .approve(await auction.getAddress(), ethers.MaxUint256)
+    ).wait();
+    await expect(bidAt(bob, 1000)).to.be.revertedWith("too many caps");
+
+    await (await typed(auction).connect(alice).cancelBid(AUCTION_ID, 0)).wait();
+    await (await bidAt(bob, 1000)).wait();
+    await expect(bidAt(bob, 1001)).to.be.revertedWith("too many caps");
+
+    // Moving bid 1 (cap 2) onto the cap of bid 2 leaves no demand at cap 2
+    const enc = await fhevm
+      .createEncryptedInput(await auction.getAddress(), alice.address)
+      .add64(100)
+      .encrypt();
+    await (await typed(auction).connect(alice).amendBid(AUCTION_ID, 1, enc.handles[0], enc.inputProof, 1, 3, 1)).wait();
+    await (await bidAt(bob, 1001)).wait();
+
+    expect(await typed(auction).eligibleDemand(AUCTION_ID, 1001)).to.eq(1n);
+    expect(await typed(auction).eligibleDemand(AUCTION_ID, 4)).to.eq(BigInt(capLevels - 1));
+    expect(await typed(auction).eligibleDemand(AUCTION_ID, 0)).to.eq(BigInt(capLevels + 1));
+  });
+
+  it("refunds every bid in batches when none is eligible", async () => {
+    const [alice, bob] = bidders;
+    await create(100n);
+    await bid(alice, 100, 10, 80);
+    await bid(bob, 100, 10, 90);
+    await increaseTime(3601);
+    await (await typed(auction).testSetVWAP(AUCTION_ID, 100)).wait();
+
+    await expect(typed(auction).connect(seller).settleBatch(AUCTION_ID, 0, 0)).to.be.revertedWith("count=0");
+    await (await typed(auction).connect(seller).settleBatch(AUCTION_ID, 0, 1)).wait();
+    await expect(typed(auction).connect(seller).settleBatch(AUCTION_ID, 1, 1))
+      .to.emit(auction, "BaseRemainderReturned")
+      .withArgs(AUCTION_ID, seller.address, 100n)
+      .and.not.to.emit(auction, "SellerPaid");
+    expect(await typed(quote).balanceOf(alice.address)).to.eq(10_000_000n);
+  });
+
+  // Run with REPORT_GAS=true (npm run test:gas) to get the per-method gas table from hardhat-gas-reporter
+  it("settles 1,000 bids over the most cap levels in batches below the block gas limit", async function () {
+    this.timeout(30 * 60 * 1000);
+    const BIDS = 1000;
+    const BATCH = 100;
+    const blockGasLimit = (await ethers.provider.getBlock("latest"))!.gasLimit;
+    const capLevels = Number(await typed(auction).MAX_CAP_LEVELS());
+
+    await create(BigInt(BIDS) * 5n, 24 * 3600);
+    const bidSigners = bidders.slice(0, 10);
+    for (const signer of bidSigners) {
+      await (
+        await typed(quote)
+          .connect(signer)
+          .approve(await auction.getAddress(), ethers.MaxUint256)
+      ).wait();
+    }
+    async function bidAt(signer: HardhatEthersSigner, cap: number) {
+      const enc = await fhevm
+        .createEncryptedInput(await auction.getAddress(), signer.address)
+        .add64(100)
+        .encrypt();
+      return typed(auction)
+        .connect(signer)
+        .submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, 10, cap, 10 * cap);
+    }
+    for (let i = 0; i < BIDS; i++) {
+      // Every cap level in use: worst case for the eligible-demand buckets
+      await (await bidAt(bidSigners[i % bidSigners.length], 100 + (i % capLevels))).wait();
+    }
+    await expect(bidAt(bidSigners[0], 100 + capLevels)).to.be.revertedWith("too many caps");
+    await increaseTime(24 * 3600 + 1);
+    await (await typed(auction).testSetVWAP(AUCTION_ID, 100)).wait();
+
+    // Demand 10,000 for S = 5,000: every bid is allocated pro-rata. One settle would not fit in a block
+    await expect(typed(auction).connect(seller).settle.estimateGas(AUCTION_ID)).to.be.rejected;
+
+    let cursor = 0;
+    let maxGas = 0n;
+    while (cursor < BIDS) {
+      const receipt = await (await typed(auction).connect(seller).settleBatch(AUCTION_ID, cursor, BATCH)).wait();
+      if (receipt.gasUsed > maxGas) maxGas = receipt.gasUsed;
+      cursor = Number((await typed(auction).settlements(AUCTION_ID)).cursor);
+    }
+
+    expect(maxGas).to.be.lt(blockGasLimit / 2n);
+    expect((await typed(auction).auctions(AUCTION_ID)).settled).to.eq(true);
+    expect(await typed(base).balanceOf(bidSigners[0].address)).to.eq(100n * 5n);
+    expect(await typed(base).balanceOf(await auction.getAddress())).to.eq(0n);
+  });
+
+  it("requests eligibility of 1,000 encrypted-cap bids and settles them in batches below the block gas limit", async function () {
+    this.timeout(30 * 60 * 1000);
+    const BIDS = 1000;
+    const BATCH = 100;
+    // An oracle request per bid costs more than settling it
+    const ELIGIBILITY_BATCH = 50;
+    const blockGasLimit = (await ethers.provider.getBlock("latest"))!.gasLimit;
+
+    await create(BigInt(BIDS) * 5n, 24 * 3600, true);
+    const bidSigners = bidders.slice(0, 10);
+    for (const signer of bidSigners) {
+      await (
+        await typed(quote)
+          .connect(signer)
+          .approve(await auction.getAddress(), ethers.MaxUint256)
+      ).wait();
+    }
+    for (let i = 0; i < BIDS; i++) {
+      const signer = bidSigners[i % bidSigners.length];
+      // Every other bid caps below the VWAP
+      const cap = i % 2 === 0 ? 120 : 90;
+      const enc = await fhevm
+        .createEncryptedInput(await auction.getAddress(), signer.address)
+        .add64(100)
+        .add64(cap)
+        .encrypt();
+      await (
+        await typed(auction)
+          .connect(signer)
+          .submitBidEncryptedCap(AUCTION_ID, enc.handles[0], enc.handles[1], enc.inputProof, 10, 10 * 120)
+      ).wait();
+    }
+    await increaseTime(24 * 3600 + 1);
+    await (await typed(auction).testSetVWAP(AUCTION_ID, 100)).wait();
+
+    // One FHE comparison and oracle request per bid: all of them would not fit in a block
+    await expect(typed(auction).connect(seller).requestEligibilityDecryption.estimateGas(AUCTION_ID)).to.be.rejected;
+
+    let maxGas = 0n;
+    let cursor = 0;
+    while (cursor < BIDS) {
+      const receipt = await (
+        await typed(auction).connect(seller).requestEligibilityBatch(AUCTION_ID, cursor, ELIGIBILITY_BATCH)
+      ).wait();
+      if (receipt.gasUsed > maxGas) maxGas = receipt.gasUsed;
+      cursor = Number(await typed(auction).eligibilityCursor(AUCTION_ID));
+    }
+    expect(await typed(auction).pendingEligibility(AUCTION_ID)).to.eq(BigInt(BIDS));
+    await fhevm.awaitDecryptionOracle();
+    expect(await typed(auction).pendingEligibility(AUCTION_ID)).to.eq(0n);
+    // Eligible demand 500 * 10 = 5,000 = S: every eligible bid is filled, the others refunded
+    expect(await typed(auction).decryptedEligibleQ(AUCTION_ID)).to.eq(BigInt(BIDS / 2) * 10n);
+
+    cursor = 0;
+    while (cursor < BIDS) {
+      const receipt = await (await typed(auction).connect(seller).settleBatch(AUCTION_ID, cursor, BATCH)).wait();
+      if (receipt.gasUsed > maxGas) maxGas = receipt.gasUsed;
+      cursor = Number((await typed(auction).settlements(AUCTION_ID)).cursor);
+    }
+
+    expect(maxGas).to.be.lt(blockGasLimit / 2n);
+    expect((await typed(auction).auctions(AUCTION_ID)).settled).to.eq(true);
+    expect(await typed(base).balanceOf(bidSigners[0].address)).to.eq(100n * 10n);
+    expect(await typed(base).balanceOf(bidSigners[1].address)).to.eq(0n);
+    expect(await typed(base).balanceOf(await auction.getAddress())).to.eq(0n);
+  });
+});
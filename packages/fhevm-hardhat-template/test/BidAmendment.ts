@@ -0,0 +1,193 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("FHEVWAPAuction bid amendment and cancellation", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+
+  const S = 100n;
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, 1_000_000n)).wait();
+    await (await typed(quote).mint(alice.address, 1_000_000n)).wait();
+    await (await typed(quote).mint(bob.address, 1_000_000n)).wait();
+    // Real oracle decryption: the revealed VWAP is derived from the encrypted aggregate
+    auction = await (await ethers.getContractFactory("FHEVWAPAuction", deployer)).deploy(ethers.ZeroAddress);
+
+    await (
+      await typed(base)
+        .connect(seller)
+        .approve(await auction.getAddress(), S)
+    ).wait();
+    const ts = await latestTimestamp();
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuction(await base.getAddress(), await quote.getAddress(), S, ts - 1, ts + 3600)
+    ).wait();
+  });
+
+  async function encrypt(signer: HardhatEthersSigner, price: number) {
+    return fhevm
+      .createEncryptedInput(await auction.getAddress(), signer.address)
+      .add64(price)
+      .encrypt();
+  }
+
+  async function bid(signer: HardhatEthersSigner, price: number, qty: number, cap: number, maxSpend = qty * cap) {
+    await (
+      await typed(quote)
+        .connect(signer)
+        .approve(await auction.getAddress(), BigInt(maxSpend))
+    ).wait();
+    const enc = await encrypt(signer, price);
+    await (
+      await typed(auction).connect(signer).submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, qty, cap, maxSpend)
+    ).wait();
+  }
+
+  async function amend(
+    signer: HardhatEthersSigner,
+    index: number,
+    price: number,
+    qty: number,
+    cap: number,
+    maxSpend: number,
+  ) {
+    const enc = await encrypt(signer, price);
+    return typed(auction)
+      .connect(signer)
+      .amendBid(AUCTION_ID, index, enc.handles[0], enc.inputProof, qty, cap, maxSpend);
+  }
+
+  async function encSumPQ(): Promise<bigint> {
+    const a = await typed(auction).auctions(AUCTION_ID);
+    return fhevm.debugger.decryptEuint(FhevmType.euint128, a.encSumPQ);
+  }
+
+  async function revealVWAP(): Promise<bigint> {
+    await increaseTime(3601);
+    await (await typed(auction).computeEncryptedVWAP(AUCTION_ID)).wait();
+    await (await typed(auction).connect(seller).requestVWAPDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    return (await typed(auction).auctions(AUCTION_ID)).vwap;
+  }
+
+  it("amendBid replaces the encrypted contribution and tops up or refunds escrow", async () => {
+    await bid(alice, 100, 10, 120);
+    await bid(bob, 200, 5, 220);
+    expect(await encSumPQ()).to.eq(100n * 10n + 200n * 5n);
+
+    // Larger order: the difference in maxSpend is pulled
+    await (
+      await typed(quote)
+        .connect(alice)
+        .approve(await auction.getAddress(), 3000n - 1200n)
+    ).wait();
+    const aliceBefore = await typed(quote).balanceOf(alice.address);
+    await expect(amend(alice, 0, 150, 20, 150, 3000))
+      .to.emit(auction, "BidAmended")
+      .withArgs(AUCTION_ID, 0, alice.address, 20, 150, 3000);
+    expect(aliceBefore - (await typed(quote).balanceOf(alice.address))).to.eq(1800n);
+    expect(await encSumPQ()).to.eq(150n * 20n + 200n * 5n);
+    expect((await typed(auction).auctions(AUCTION_ID)).sumQ).to.eq(25n);
+
+    // Smaller order: the excess escrow is refunded
+    await expect(amend(bob, 1, 180, 4, 200, 800))
+      .to.emit(auction, "Refunded")
+      .withArgs(AUCTION_ID, bob.address, 300);
+    expect(await encSumPQ()).to.eq(150n * 20n + 180n * 4n);
+
+    const bids = await typed(auction).getBids(AUCTION_ID);
+    expect([bids[0].qty, bids[0].priceCap, bids[0].maxSpend]).to.deep.eq([20n, 150n, 3000n]);
+    expect([bids[1].qty, bids[1].priceCap, bids[1].maxSpend]).to.deep.eq([4n, 200n, 800n]);
+
+    // (150*20 + 180*4) / 24 = 155
+    expect(await revealVWAP()).to.eq(155n);
+  });
+
+  it("cancelBid removes the bid from the aggregate and refunds its escrow", async () => {
+    await bid(alice, 100, 10, 120);
+    await bid(bob, 200, 5, 220);
+    await bid(alice, 300, 5, 300);
+
+    const aliceBefore = await typed(quote).balanceOf(alice.address);
+    await expect(typed(auction).connect(alice).cancelBid(AUCTION_ID, 2))
+      .to.emit(auction, "BidCancelled")
+      .withArgs(AUCTION_ID, 2, alice.address, 1500);
+    expect((await typed(quote).balanceOf(alice.address)) - aliceBefore).to.eq(1500n);
+    expect(await encSumPQ()).to.eq(100n * 10n + 200n * 5n);
+    expect((await typed(auction).auctions(AUCTION_ID)).sumQ).to.eq(15n);
+
+    const bids = await typed(auction).getBids(AUCTION_ID);
+    expect([bids[2].cancelled, bids[2].settled]).to.deep.eq([true, true]);
+
+    // (100*10 + 200*5) / 15 = 133; the cancelled bid is skipped at settlement
+    expect(await revealVWAP()).to.eq(133n);
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID))
+      .to.emit(auction, "SellerPaid")
+      .withArgs(AUCTION_ID, seller.address, 5n * 133n);
+    expect(await typed(base).balanceOf(alice.address)).to.eq(0n);
+    expect(await typed(base).balanceOf(bob.address)).to.eq(5n);
+  });
+
+  it("lets an auction whose bids were all cancelled close as empty", async () => {
+    await bid(alice, 100, 10, 120);
+    await (await typed(auction).connect(alice).cancelBid(AUCTION_ID, 0)).wait();
+    expect(await encSumPQ()).to.eq(0n);
+
+    await increaseTime(3601);
+    await expect(typed(auction).closeEmptyAuction(AUCTION_ID))
+      .to.emit(auction, "BaseRemainderReturned")
+      .withArgs(AUCTION_ID, seller.address, S);
+  });
+
+  it("only the buyer can change an open, uncancelled bid", async () => {
+    await bid(alice, 100, 10, 120);
+
+    await expect(typed(auction).connect(bob).cancelBid(AUCTION_ID, 0)).to.be.revertedWith("only buyer");
+    await expect(typed(auction).connect(alice).cancelBid(AUCTION_ID, 1)).to.be.revertedWith("no bid");
+    await expect(amend(alice, 0, 100, 0, 120, 1200)).to.be.revertedWith("qty=0");
+
+    await (await typed(auction).connect(alice).cancelBid(AUCTION_ID, 0)).wait();
+    await expect(typed(auction).connect(alice).cancelBid(AUCTION_ID, 0)).to.be.revertedWith("cancelled");
+    await expect(amend(alice, 0, 100, 10, 120, 1200)).to.be.revertedWith("cancelled");
+
+    await bid(alice, 100, 10, 120);
+    await increaseTime(3601);
+    await expect(typed(auction).connect(alice).cancelBid(AUCTION_ID, 1)).to.be.revertedWith("not in window");
+  });
+});
@@ -0,0 +1,145 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+describe("FHEVWAPAuction bidder limits", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+  let auctionAddress: string;
+
+  const S = 100n;
+  const CAP = 120n;
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, 1_000_000n)).wait();
+    auction = await (await ethers.getContractFactory("TestableFHEVWAPAuction", deployer)).deploy(ethers.ZeroAddress);
+    auctionAddress = await auction.getAddress();
+    for (const b of [alice, bob]) {
+      await (await typed(quote).mint(b.address, 1_000_000n)).wait();
+      await (await typed(quote).connect(b).approve(auctionAddress, 1_000_000n)).wait();
+    }
+  });
+
+  async function create(maxBids: number, maxQty: bigint, maxShareBps: number, confidentialQuantities = false) {
+    await (await typed(base).connect(seller).approve(auctionAddress, S)).wait();
+    const ts = await latestTimestamp();
+    return typed(auction)
+      .connect(seller)
+      .createAuctionWithOptions(
+        await base.getAddress(),
+        await quote.getAddress(),
+        S,
+        ts - 1,
+        ts + 3600,
+        auctionOptions({ confidentialQuantities, bidderLimits: { maxBids, maxQty, maxShareBps } }),
+      );
+  }
+
+  async function bid(signer: HardhatEthersSigner, qty: bigint) {
+    const enc = await fhevm.createEncryptedInput(auctionAddress, signer.address).add64(100n).encrypt();
+    return typed(auction)
+      .connect(signer)
+      .submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, qty, CAP, qty * CAP);
+  }
+
+  async function amend(signer: HardhatEthersSigner, bidIndex: number, qty: bigint) {
+    const enc = await fhevm.createEncryptedInput(auctionAddress, signer.address).add64(100n).encrypt();
+    return typed(auction)
+      .connect(signer)
+      .amendBid(AUCTION_ID, bidIndex, enc.handles[0], enc.inputProof, qty, CAP, qty * CAP);
+  }
+
+  async function usage(signer: HardhatEthersSigner) {
+    const u = await typed(auction).bidderUsage(AUCTION_ID, signer.address);
+    return [Number(u.bids), u.qty];
+  }
+
+  it("stops one address from splitting its demand past its share of S", async () => {
+    await expect(create(0, 0n, 2500))
+      .to.emit(auction, "BidderLimitsSet")
+      .withArgs(AUCTION_ID, 0, 0, 2500);
+
+    for (let i = 0; i < 5; i++) {
+      await (await bid(alice, 5n)).wait();
+    }
+    await expect(bid(alice, 1n)).to.be.revertedWith("bidder qty limit");
+    expect(await usage(alice)).to.deep.eq([5, 25n]);
+    // Other buyers keep their own quota
+    await expect(bid(bob, 25n)).to.emit(auction, "BidSubmitted");
+  });
+
+  it("takes the tighter of maxQty and the share of S", async () => {
+    await (await create(0, 10n, 5000)).wait();
+    await (await bid(alice, 6n)).wait();
+    await expect(bid(alice, 5n)).to.be.revertedWith("bidder qty limit");
+    await expect(bid(alice, 4n)).to.emit(auction, "BidSubmitted");
+  });
+
+  it("caps live bids per address; cancelling frees a slot", async () => {
+    await (await create(2, 0n, 0)).wait();
+    await (await bid(alice, 1n)).wait();
+    await (await bid(alice, 1n)).wait();
+    await expect(bid(alice, 1n)).to.be.revertedWith("bidder bid limit");
+
+    await (await typed(auction).connect(alice).cancelBid(AUCTION_ID, 0)).wait();
+    expect(await usage(alice)).to.deep.eq([1, 1n]);
+    await expect(bid(alice, 1n)).to.emit(auction, "BidSubmitted");
+  });
+
+  it("checks amendments against the buyer's other live bids", async () => {
+    await (await create(0, 20n, 0)).wait();
+    await (await bid(alice, 10n)).wait();
+    await (await bid(alice, 5n)).wait();
+
+    await expect(amend(alice, 1, 11n)).to.be.revertedWith("bidder qty limit");
+    await (await amend(alice, 1, 10n)).wait();
+    expect(await usage(alice)).to.deep.eq([2, 20n]);
+    await (await amend(alice, 0, 2n)).wait();
+    expect(await usage(alice)).to.deep.eq([2, 12n]);
+  });
+
+  it("is only taken at creation", async () => {
+    await expect(create(0, 0n, 10_001)).to.be.revertedWith("invalid share");
+    await expect(create(0, 0n, 0)).not.to.emit(auction, "BidderLimitsSet");
+    expect(typed(auction).setBidderLimits).to.eq(undefined);
+
+    await (await bid(alice, 1n)).wait();
+    // Without limits nothing is tracked
+    expect(await usage(alice)).to.deep.eq([0, 0n]);
+  });
+
+  it("keeps quantity caps off confidential-quantity auctions", async () => {
+    await expect(create(0, 10n, 0, true)).to.be.revertedWith("confidential qty");
+    await expect(create(0, 0n, 2500, true)).to.be.revertedWith("confidential qty");
+    await expect(create(3, 0n, 0, true))
+      .to.emit(auction, "BidderLimitsSet")
+      .withArgs(AUCTION_ID, 3, 0, 0);
+  });
+});
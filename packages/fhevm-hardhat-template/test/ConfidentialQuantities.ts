@@ -0,0 +1,295 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors FHEVWAPAuctionStorage.QtyReveal
+const QtyReveal = { Hidden: 0, SumQRequested: 1, SumQRevealed: 2, EligibleQRevealed: 4, AllocationsRequested: 5 };
+
+describe("FHEVWAPAuction confidential quantities", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+
+  const S = 100n;
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  async function deploy(contractName: string, confidential = true) {
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, 1_000_000n)).wait();
+    for (const b of [alice, bob, carol]) {
+      await (await typed(quote).mint(b.address, 1_000_000n)).wait();
+    }
+    // Real oracle decryption: sumQ, VWAP, eligible demand and allocations all go through callbacks
+    // MedicineAuction also takes its role registry; none leaves creating and bidding open
+    const args = contractName === "MedicineAuction" ? [ethers.ZeroAddress, ethers.ZeroAddress] : [ethers.ZeroAddress];
+    auction = await (await ethers.getContractFactory(contractName, deployer)).deploy(...args);
+
+    await (
+      await typed(base)
+        .connect(seller)
+        .approve(await auction.getAddress(), S)
+    ).wait();
+    const ts = await latestTimestamp();
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuctionWithOptions(
+          await base.getAddress(),
+          await quote.getAddress(),
+          S,
+          ts - 1,
+          ts + 3600,
+          auctionOptions({ confidentialQuantities: confidential }),
+        )
+    ).wait();
+  }
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    await deploy("FHEVWAPAuction");
+  });
+
+  // Price and qty are encrypted in a single input: both handles share one proof
+  async function encryptBid(signer: HardhatEthersSigner, price: number, qty: number) {
+    return fhevm
+      .createEncryptedInput(await auction.getAddress(), signer.address)
+      .add64(price)
+      .add64(qty)
+      .encrypt();
+  }
+
+  async function bid(signer: HardhatEthersSigner, price: number, qty: number, cap: number, maxSpend = qty * cap) {
+    await (
+      await typed(quote)
+        .connect(signer)
+        .approve(await auction.getAddress(), BigInt(maxSpend))
+    ).wait();
+    const enc = await encryptBid(signer, price, qty);
+    return typed(auction)
+      .connect(signer)
+      .submitBidConfidentialQty(AUCTION_ID, enc.handles[0], enc.handles[1], enc.inputProof, cap, maxSpend);
+  }
+
+  async function revealVWAP(): Promise<bigint> {
+    await (await typed(auction).requestSumQDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    await (await typed(auction).computeEncryptedVWAP(AUCTION_ID)).wait();
+    await (await typed(auction).connect(seller).requestVWAPDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    return (await typed(auction).auctions(AUCTION_ID)).vwap;
+  }
+
+  async function revealAllocations() {
+    await (await typed(auction).requestEligibleDemandDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    await (await typed(auction).connect(seller).requestAllocationDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  it("aggregates encrypted quantities and settles on decrypted per-bid allocations", async () => {
+    await expect(bid(alice, 100, 60, 120))
+      .to.emit(auction, "BidSubmitted")
+      .withArgs(AUCTION_ID, alice.address, 0, 120, 7200);
+    await (await bid(bob, 60, 40, 70)).wait();
+    await (await bid(carol, 110, 50, 115)).wait();
+    expect((await typed(auction).auctions(AUCTION_ID)).sumQ).to.eq(0n);
+    expect((await typed(auction).getBids(AUCTION_ID)).map((b: any) => b.qty)).to.deep.eq([0n, 0n, 0n]);
+
+    await increaseTime(3601);
+    await expect(typed(auction).computeEncryptedVWAP(AUCTION_ID)).to.be.revertedWith("sumQ hidden");
+    await (await typed(auction).connect(carol).requestSumQDecryption(AUCTION_ID)).wait();
+    expect(await typed(auction).qtyReveal(AUCTION_ID)).to.eq(QtyReveal.SumQRequested);
+    await expect(typed(auction).requestSumQDecryption(AUCTION_ID)).to.be.revertedWith("already requested");
+    await fhevm.awaitDecryptionOracle();
+    expect((await typed(auction).auctions(AUCTION_ID)).sumQ).to.eq(150n);
+
+    // (100*60 + 60*40 + 110*50) / 150 = 92
+    await (await typed(auction).computeEncryptedVWAP(AUCTION_ID)).wait();
+    await (await typed(auction).connect(seller).requestVWAPDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    expect((await typed(auction).auctions(AUCTION_ID)).vwap).to.eq(92n);
+
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID)).to.be.revertedWith("allocations pending");
+    await expect(typed(auction).connect(seller).requestAllocationDecryption(AUCTION_ID)).to.be.revertedWith(
+      "eligible demand hidden",
+    );
+    await (await typed(auction).requestEligibleDemandDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    // Bob's cap (70) is below the VWAP: eligible demand 60 + 50
+    expect(await typed(auction).decryptedEligibleQ(AUCTION_ID)).to.eq(110n);
+
+    await expect(typed(auction).connect(alice).requestAllocationDecryption(AUCTION_ID)).to.be.revertedWith(
+      "only seller",
+    );
+    await expect(typed(auction).connect(seller).requestAllocationDecryption(AUCTION_ID))
+      .to.emit(auction, "AllocationDecryptionRequested")
+      .withArgs(AUCTION_ID, 2);
+    await fhevm.awaitDecryptionOracle();
+    expect(await typed(auction).pendingAllocations(AUCTION_ID)).to.eq(0n);
+    // floor(60*100/110) = 54 and floor(50*100/110) = 45
+    const bids = await typed(auction).getBids(AUCTION_ID);
+    expect(bids.map((b: any) => b.allocation)).to.deep.eq([54n, 0n, 45n]);
+
+    await (await typed(auction).connect(seller).settle(AUCTION_ID)).wait();
+    expect(await typed(base).balanceOf(alice.address)).to.eq(54n);
+    expect(await typed(base).balanceOf(carol.address)).to.eq(45n);
+    expect(await typed(base).balanceOf(bob.address)).to.eq(0n);
+    expect(await typed(quote).balanceOf(bob.address)).to.eq(1_000_000n);
+    expect(await typed(quote).balanceOf(seller.address)).to.eq((54n + 45n) * 92n);
+    expect(await typed(base).balanceOf(seller.address)).to.eq(1_000_000n - 99n);
+  });
+
+  it("voids a quantity the escrow cannot pay for at the cap, visible only to the bidder", async () => {
+    // maxSpend 1200 at cap 120 covers at most 10 units: 100 is voided to 0 instead of reverting
+    await (await bid(alice, 100, 100, 120, 1200)).wait();
+    await (await bid(bob, 90, 10, 100)).wait();
+
+    const [voided, kept] = await typed(auction).getBids(AUCTION_ID);
+    const addr = await auction.getAddress();
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, voided.encQty, addr, alice)).to.eq(0n);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, kept.encQty, addr, bob)).to.eq(10n);
+
+    await increaseTime(3601);
+    expect(await revealVWAP()).to.eq(90n);
+    expect((await typed(auction).auctions(AUCTION_ID)).sumQ).to.eq(10n);
+    await revealAllocations();
+
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID))
+      .to.emit(auction, "Refunded")
+      .withArgs(AUCTION_ID, alice.address, 1200n);
+    expect(await typed(base).balanceOf(alice.address)).to.eq(0n);
+    expect(await typed(quote).balanceOf(alice.address)).to.eq(1_000_000n);
+    expect(await typed(base).balanceOf(bob.address)).to.eq(10n);
+    expect(await typed(quote).balanceOf(seller.address)).to.eq(900n);
+  });
+
+  it("keeps confidential and clear quantity entry points apart", async () => {
+    const clear = await fhevm
+      .createEncryptedInput(await auction.getAddress(), alice.address)
+      .add64(100)
+      .encrypt();
+    await expect(
+      typed(auction).connect(alice).submitBid(AUCTION_ID, clear.handles[0], clear.inputProof, 10, 120, 1200),
+    ).to.be.revertedWith("confidential qty");
+    await expect(bid(alice, 100, 10, 0, 1200)).to.be.revertedWith("cap=0");
+
+    await (await bid(alice, 100, 10, 120)).wait();
+    await expect(
+      typed(auction).connect(alice).amendBid(AUCTION_ID, 0, clear.handles[0], clear.inputProof, 10, 120, 1200),
+    ).to.be.revertedWith("confidential qty");
+
+    await deploy("FHEVWAPAuction", false);
+    await expect(bid(alice, 100, 10, 120)).to.be.revertedWith("clear qty");
+
+    // Encrypted caps and confidential quantities do not combine
+    await (
+      await typed(base)
+        .connect(seller)
+        .approve(await auction.getAddress(), S)
+    ).wait();
+    const ts = await latestTimestamp();
+    await expect(
+      typed(auction)
+        .connect(seller)
+        .createAuctionWithOptions(
+          await base.getAddress(),
+          await quote.getAddress(),
+          S,
+          ts,
+          ts + 3600,
+          auctionOptions({ encryptedCaps: true, confidentialQuantities: true }),
+        ),
+    ).to.be.revertedWith("incompatible modes");
+  });
+
+  it("drops cancelled bids from sumQ and closes an auction whose revealed demand is zero", async () => {
+    await (await bid(alice, 100, 10, 120)).wait();
+    await (await typed(auction).connect(alice).cancelBid(AUCTION_ID, 0)).wait();
+    await increaseTime(3601);
+
+    await expect(typed(auction).closeEmptyAuction(AUCTION_ID)).to.be.revertedWith("sumQ hidden");
+    await (await typed(auction).requestSumQDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    await expect(typed(auction).closeEmptyAuction(AUCTION_ID))
+      .to.emit(auction, "BaseRemainderReturned")
+      .withArgs(AUCTION_ID, seller.address, S);
+
+    // Without any bid there is nothing to decrypt: sumQ is revealed as 0 right away
+    await deploy("FHEVWAPAuction");
+    await increaseTime(3601);
+    await expect(typed(auction).requestSumQDecryption(AUCTION_ID))
+      .to.emit(auction, "SumQDecrypted")
+      .withArgs(AUCTION_ID, 0);
+    expect(await typed(auction).qtyReveal(AUCTION_ID)).to.eq(QtyReveal.SumQRevealed);
+  });
+
+  it("refunds every live bid when closing an auction whose revealed demand is zero", async () => {
+    // A qty of 0 holds its escrow like any other bid
+    await (await bid(alice, 100, 0, 120, 1200)).wait();
+    await (await bid(bob, 90, 0, 100, 1000)).wait();
+    await increaseTime(3601);
+    await (await typed(auction).requestSumQDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    expect((await typed(auction).auctions(AUCTION_ID)).sumQ).to.eq(0n);
+    await expect(typed(auction).computeEncryptedVWAP(AUCTION_ID)).to.be.revertedWith("no demand");
+
+    await expect(typed(auction).connect(carol).closeEmptyAuction(AUCTION_ID))
+      .to.emit(auction, "Refunded")
+      .withArgs(AUCTION_ID, alice.address, 1200n)
+      .and.to.emit(auction, "Refunded")
+      .withArgs(AUCTION_ID, bob.address, 1000n)
+      .and.to.emit(auction, "BaseRemainderReturned")
+      .withArgs(AUCTION_ID, seller.address, S);
+    expect(await typed(quote).balanceOf(alice.address)).to.eq(1_000_000n);
+    expect(await typed(quote).balanceOf(bob.address)).to.eq(1_000_000n);
+    expect(await typed(quote).balanceOf(await auction.getAddress())).to.eq(0n);
+    await expect(typed(auction).closeEmptyAuction(AUCTION_ID)).to.be.revertedWith("settled");
+  });
+
+  it("MedicineAuction forwards confidential-quantity municipality bids", async () => {
+    await deploy("MedicineAuction");
+    await (
+      await typed(quote)
+        .connect(alice)
+        .approve(await auction.getAddress(), 1200n)
+    ).wait();
+    const enc = await encryptBid(alice, 100, 10);
+    await expect(
+      typed(auction)
+        .connect(alice)
+        .submitMunicipalityBidConfidentialQty(AUCTION_ID, enc.handles[0], enc.handles[1], enc.inputProof, 120, 1200),
+    )
+      .to.emit(auction, "MunicipalityBid")
+      .withArgs(AUCTION_ID, alice.address, 0, 120, 1200);
+  });
+});
@@ -0,0 +1,244 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("FHEVWAPAuction encrypted caps", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+
+  const S = 100n;
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  async function deploy(contractName: string, encryptedCaps = true) {
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, 1_000_000n)).wait();
+    for (const b of [alice, bob, carol]) {
+      await (await typed(quote).mint(b.address, 1_000_000n)).wait();
+    }
+    // Real oracle decryption: both the VWAP and the per-bid eligibility go through callbacks
+    // MedicineAuction also takes its role registry; none leaves creating and bidding open
+    const args = contractName === "MedicineAuction" ? [ethers.ZeroAddress, ethers.ZeroAddress] : [ethers.ZeroAddress];
+    auction = await (await ethers.getContractFactory(contractName, deployer)).deploy(...args);
+
+    await (
+      await typed(base)
+        .connect(seller)
+        .approve(await auction.getAddress(), S)
+    ).wait();
+    const ts = await latestTimestamp();
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuctionWithOptions(
+          await base.getAddress(),
+          await quote.getAddress(),
+          S,
+          ts - 1,
+          ts + 3600,
+          auctionOptions({ encryptedCaps }),
+        )
+    ).wait();
+  }
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    await deploy("FHEVWAPAuction");
+  });
+
+  // Price and cap are encrypted in a single input: both handles share one proof
+  async function encryptBid(signer: HardhatEthersSigner, price: number, cap: number) {
+    return fhevm
+      .createEncryptedInput(await auction.getAddress(), signer.address)
+      .add64(price)
+      .add64(cap)
+      .encrypt();
+  }
+
+  async function bid(signer: HardhatEthersSigner, price: number, qty: number, cap: number) {
+    await (
+      await typed(quote)
+        .connect(signer)
+        .approve(await auction.getAddress(), BigInt(qty * cap))
+    ).wait();
+    const enc = await encryptBid(signer, price, cap);
+    return typed(auction)
+      .connect(signer)
+      .submitBidEncryptedCap(AUCTION_ID, enc.handles[0], enc.handles[1], enc.inputProof, qty, qty * cap);
+  }
+
+  async function revealVWAP(): Promise<bigint> {
+    await increaseTime(3601);
+    await (await typed(auction).computeEncryptedVWAP(AUCTION_ID)).wait();
+    await (await typed(auction).connect(seller).requestVWAPDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    return (await typed(auction).auctions(AUCTION_ID)).vwap;
+  }
+
+  it("decides eligibility homomorphically and settles on the decrypted per-bid results", async () => {
+    expect(await typed(auction).encryptedCaps(AUCTION_ID)).to.eq(true);
+
+    await expect(bid(alice, 100, 60, 120))
+      .to.emit(auction, "BidSubmitted")
+      .withArgs(AUCTION_ID, alice.address, 60, 0, 7200);
+    await (await bid(bob, 60, 40, 70)).wait();
+    await (await bid(carol, 110, 50, 115)).wait();
+
+    // (100*60 + 60*40 + 110*50) / 150 = 92
+    expect(await revealVWAP()).to.eq(92n);
+    const bids = await typed(auction).getBids(AUCTION_ID);
+    expect(bids.map((b: any) => b.priceCap)).to.deep.eq([0n, 0n, 0n]);
+
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID)).to.be.revertedWith("eligibility pending");
+    await expect(typed(auction).connect(seller).requestEligibilityDecryption(AUCTION_ID))
+      .to.emit(auction, "EligibilityDecryptionRequested")
+      .withArgs(AUCTION_ID, 3, 3);
+    expect(await typed(auction).pendingEligibility(AUCTION_ID)).to.eq(3n);
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID)).to.be.revertedWith("eligibility pending");
+
+    await fhevm.awaitDecryptionOracle();
+    expect(await typed(auction).pendingEligibility(AUCTION_ID)).to.eq(0n);
+    const resolved = await typed(auction).getBids(AUCTION_ID);
+    expect(resolved.map((b: any) => b.capMet)).to.deep.eq([true, false, true]);
+
+    // Eligible demand 60 + 50 = 110 > S: pro-rata floor(60*100/110) = 54 and floor(50*100/110) = 45
+    await (await typed(auction).connect(seller).settle(AUCTION_ID)).wait();
+    expect(await typed(base).balanceOf(alice.address)).to.eq(54n);
+    expect(await typed(base).balanceOf(carol.address)).to.eq(45n);
+    expect(await typed(base).balanceOf(bob.address)).to.eq(0n);
+    expect(await typed(quote).balanceOf(bob.address)).to.eq(1_000_000n);
+    expect(await typed(quote).balanceOf(seller.address)).to.eq((54n + 45n) * 92n);
+  });
+
+  it("keeps clear and encrypted cap entry points apart", async () => {
+    await deploy("FHEVWAPAuction", false);
+    await expect(bid(alice, 100, 10, 120)).to.be.revertedWith("clear caps");
+
+    await deploy("FHEVWAPAuction");
+    await (
+      await typed(quote)
+        .connect(alice)
+        .approve(await auction.getAddress(), 10_000n)
+    ).wait();
+    const clear = await fhevm
+      .createEncryptedInput(await auction.getAddress(), alice.address)
+      .add64(100)
+      .encrypt();
+    await expect(
+      typed(auction).connect(alice).submitBid(AUCTION_ID, clear.handles[0], clear.inputProof, 10, 120, 1200),
+    ).to.be.revertedWith("encrypted caps");
+
+    await (await bid(alice, 100, 10, 120)).wait();
+    const amend = await fhevm
+      .createEncryptedInput(await auction.getAddress(), alice.address)
+      .add64(90)
+      .encrypt();
+    await expect(
+      typed(auction).connect(alice).amendBid(AUCTION_ID, 0, amend.handles[0], amend.inputProof, 10, 120, 1200),
+    ).to.be.revertedWith("encrypted caps");
+  });
+
+  it("skips cancelled bids and only lets the seller request eligibility during the grace period", async () => {
+    await (await bid(alice, 100, 10, 120)).wait();
+    await (await bid(bob, 90, 10, 100)).wait();
+    await (await typed(auction).connect(bob).cancelBid(AUCTION_ID, 1)).wait();
+
+    expect(await revealVWAP()).to.eq(100n);
+    await expect(typed(auction).connect(alice).requestEligibilityDecryption(AUCTION_ID)).to.be.revertedWith(
+      "only seller",
+    );
+    await expect(typed(auction).connect(seller).requestEligibilityDecryption(AUCTION_ID))
+      .to.emit(auction, "EligibilityDecryptionRequested")
+      .withArgs(AUCTION_ID, 1, 2);
+    await expect(typed(auction).connect(seller).requestEligibilityDecryption(AUCTION_ID)).to.be.revertedWith(
+      "already requested",
+    );
+    await fhevm.awaitDecryptionOracle();
+
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID))
+      .to.emit(auction, "SellerPaid")
+      .withArgs(AUCTION_ID, seller.address, 10n * 100n);
+  });
+
+  it("requests eligibility in batches from the persisted cursor", async () => {
+    await (await bid(alice, 100, 60, 120)).wait();
+    await (await bid(bob, 60, 40, 70)).wait();
+    await (await bid(carol, 110, 50, 115)).wait();
+    expect(await revealVWAP()).to.eq(92n);
+
+    await expect(typed(auction).connect(seller).requestEligibilityBatch(AUCTION_ID, 0, 0)).to.be.revertedWith(
+      "count=0",
+    );
+    await expect(typed(auction).connect(seller).requestEligibilityBatch(AUCTION_ID, 0, 2))
+      .to.emit(auction, "EligibilityDecryptionRequested")
+      .withArgs(AUCTION_ID, 2, 2);
+    await fhevm.awaitDecryptionOracle();
+    expect(await typed(auction).eligibilityCursor(AUCTION_ID)).to.eq(2n);
+    expect(await typed(auction).eligibilityRequested(AUCTION_ID)).to.eq(false);
+    // Every callback so far came back, but bid 2 was never requested
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID)).to.be.revertedWith("eligibility pending");
+
+    await expect(typed(auction).connect(seller).requestEligibilityBatch(AUCTION_ID, 0, 2)).to.be.revertedWith(
+      "bad cursor",
+    );
+    // The one-shot request picks up from the cursor
+    await expect(typed(auction).connect(seller).requestEligibilityDecryption(AUCTION_ID))
+      .to.emit(auction, "EligibilityDecryptionRequested")
+      .withArgs(AUCTION_ID, 1, 3);
+    expect(await typed(auction).eligibilityRequested(AUCTION_ID)).to.eq(true);
+    await expect(typed(auction).connect(seller).requestEligibilityBatch(AUCTION_ID, 3, 1)).to.be.revertedWith(
+      "already requested",
+    );
+    await fhevm.awaitDecryptionOracle();
+
+    await (await typed(auction).connect(seller).settle(AUCTION_ID)).wait();
+    expect(await typed(base).balanceOf(alice.address)).to.eq(54n);
+    expect(await typed(base).balanceOf(carol.address)).to.eq(45n);
+  });
+
+  it("MedicineAuction forwards encrypted-cap municipality bids", async () => {
+    await deploy("MedicineAuction");
+    await (
+      await typed(quote)
+        .connect(alice)
+        .approve(await auction.getAddress(), 1200n)
+    ).wait();
+    const enc = await encryptBid(alice, 100, 120);
+    await expect(
+      typed(auction)
+        .connect(alice)
+        .submitMunicipalityBidEncryptedCap(AUCTION_ID, enc.handles[0], enc.handles[1], enc.inputProof, 10, 1200),
+    )
+      .to.emit(auction, "MunicipalityBid")
+      .withArgs(AUCTION_ID, alice.address, 10, 0, 1200);
+  });
+});
@@ -48,7 +48,7 @@ describe("FHEVWAPAuction", function () {
     await (await typed(quote).mint(signers.alice.address, 1_000_000n)).wait();
     await (await typed(quote).mint(signers.bob.address, 1_000_000n)).wait();
 
-    auction = await (await ethers.getContractFactory("TestableFHEVWAPAuction", signers.deployer)).deploy();
+    auction = await (await ethers.getContractFactory("TestableFHEVWAPAuction", signers.deployer)).deploy(ethers.ZeroAddress);
   });
 
   it("create reverts on invalid params and same token", async () => {
@@ -0,0 +1,209 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+// alice 3*2^30 x 2^40 and bob 2^30 x 2^40: sum(price*qty) = 2^72, which an euint64 aggregate wraps to 0
+const QTY = 2n ** 40n;
+const ALICE_PRICE = 3n * 2n ** 30n;
+const BOB_PRICE = 2n ** 30n;
+const CAP = 2n ** 32n;
+const VWAP = 2n ** 31n;
+// Half of the 2^41 demand: allocations are floor(2^40 * 2^40 / 2^41) = 2^39, with Q * S past 2^64
+const S = 2n ** 40n;
+
+describe("FHEVWAPAuction aggregates beyond 64 bits", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  async function deploy(confidential: boolean) {
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, S)).wait();
+    for (const b of [alice, bob, carol]) {
+      await (await typed(quote).mint(b.address, 2n ** 100n)).wait();
+    }
+    // Real oracle decryption so the revealed VWAP comes from the 128-bit aggregate
+    auction = await (await ethers.getContractFactory("FHEVWAPAuction", deployer)).deploy(ethers.ZeroAddress);
+
+    await (
+      await typed(base)
+        .connect(seller)
+        .approve(await auction.getAddress(), S)
+    ).wait();
+    const ts = await latestTimestamp();
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuctionWithOptions(
+          await base.getAddress(),
+          await quote.getAddress(),
+          S,
+          ts - 1,
+          ts + 3600,
+          auctionOptions({ confidentialQuantities: confidential }),
+        )
+    ).wait();
+  }
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  async function approve(signer: HardhatEthersSigner, amount: bigint) {
+    await (
+      await typed(quote)
+        .connect(signer)
+        .approve(await auction.getAddress(), amount)
+    ).wait();
+  }
+
+  async function bid(signer: HardhatEthersSigner, price: bigint, qty: bigint, cap: bigint, maxSpend = qty * cap) {
+    await approve(signer, maxSpend);
+    const enc = await fhevm
+      .createEncryptedInput(await auction.getAddress(), signer.address)
+      .add64(price)
+      .encrypt();
+    return typed(auction).connect(signer).submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, qty, cap, maxSpend);
+  }
+
+  async function bidConfidential(
+    signer: HardhatEthersSigner,
+    price: bigint,
+    qty: bigint,
+    cap: bigint,
+    maxSpend: bigint,
+  ) {
+    await approve(signer, maxSpend);
+    const enc = await fhevm
+      .createEncryptedInput(await auction.getAddress(), signer.address)
+      .add64(price)
+      .add64(qty)
+      .encrypt();
+    return typed(auction)
+      .connect(signer)
+      .submitBidConfidentialQty(AUCTION_ID, enc.handles[0], enc.handles[1], enc.inputProof, cap, maxSpend);
+  }
+
+  async function revealVWAP(): Promise<bigint> {
+    await (await typed(auction).computeEncryptedVWAP(AUCTION_ID)).wait();
+    await (await typed(auction).connect(seller).requestVWAPDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    return (await typed(auction).auctions(AUCTION_ID)).vwap;
+  }
+
+  it("aggregates price*qty past 2^64 on 128 bits and reveals the exact VWAP", async () => {
+    await deploy(false);
+    await (await bid(alice, ALICE_PRICE, QTY, CAP)).wait();
+    await (await bid(bob, BOB_PRICE, QTY, CAP)).wait();
+
+    const a = await typed(auction).auctions(AUCTION_ID);
+    expect(await fhevm.debugger.decryptEuint(FhevmType.euint128, a.encSumPQ)).to.eq(2n ** 72n);
+
+    await increaseTime(3601);
+    expect(await revealVWAP()).to.eq(VWAP);
+
+    await (await typed(auction).connect(seller).settle(AUCTION_ID)).wait();
+    expect(await typed(base).balanceOf(alice.address)).to.eq(2n ** 39n);
+    expect(await typed(base).balanceOf(bob.address)).to.eq(2n ** 39n);
+    expect(await typed(quote).balanceOf(seller.address)).to.eq(S * VWAP);
+  });
+
+  it("caps the clear sumQ at 2^64 - 1 so the aggregate cannot wrap", async () => {
+    await deploy(false);
+    await (await bid(alice, 1n, MAX_UINT64 - 1n, 1n)).wait();
+    await (await bid(bob, 1n, 1n, 1n)).wait();
+    expect((await typed(auction).auctions(AUCTION_ID)).sumQ).to.eq(MAX_UINT64);
+    await expect(bid(carol, 1n, 1n, 1n)).to.be.revertedWith("sumQ overflow");
+
+    // Amending counts the new qty against the same limit
+    const enc = await fhevm
+      .createEncryptedInput(await auction.getAddress(), bob.address)
+      .add64(1)
+      .encrypt();
+    await approve(bob, 2n);
+    await expect(
+      typed(auction).connect(bob).amendBid(AUCTION_ID, 1, enc.handles[0], enc.inputProof, 2n, 1n, 2n),
+    ).to.be.revertedWith("sumQ overflow");
+  });
+
+  it("keeps confidential quantities exact past 2^64 and voids a qty that would wrap sumQ", async () => {
+    await deploy(true);
+    await (await bidConfidential(alice, ALICE_PRICE, QTY, CAP, QTY * CAP)).wait();
+    await (await bidConfidential(bob, BOB_PRICE, QTY, CAP, QTY * CAP)).wait();
+    // The escrow covers it, but 2^41 + (2^64 - 1) does not fit the encrypted sumQ
+    await (await bidConfidential(carol, BOB_PRICE, MAX_UINT64, CAP, MAX_UINT64 * CAP)).wait();
+    const carolBid = (await typed(auction).getBids(AUCTION_ID))[2];
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, carolBid.encQty, await auction.getAddress(), carol)).to.eq(
+      0n,
+    );
+
+    await increaseTime(3601);
+    await (await typed(auction).requestSumQDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    expect((await typed(auction).auctions(AUCTION_ID)).sumQ).to.eq(2n * QTY);
+    expect(await revealVWAP()).to.eq(VWAP);
+
+    await (await typed(auction).requestEligibleDemandDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    await (await typed(auction).connect(seller).requestAllocationDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    const bids = await typed(auction).getBids(AUCTION_ID);
+    expect(bids.map((b: any) => b.allocation)).to.deep.eq([2n ** 39n, 2n ** 39n, 0n]);
+
+    await (await typed(auction).connect(seller).settle(AUCTION_ID)).wait();
+    expect(await typed(quote).balanceOf(seller.address)).to.eq(S * VWAP);
+    expect(await typed(quote).balanceOf(carol.address)).to.eq(2n ** 100n);
+  });
+
+  it("refunds a bid voided to keep sumQ from wrapping when no demand is left", async () => {
+    await deploy(true);
+    await (await bidConfidential(alice, ALICE_PRICE, QTY, CAP, QTY * CAP)).wait();
+    await (await bidConfidential(carol, BOB_PRICE, MAX_UINT64, CAP, MAX_UINT64 * CAP)).wait();
+    await (await typed(auction).connect(alice).cancelBid(AUCTION_ID, 0)).wait();
+
+    await increaseTime(3601);
+    await (await typed(auction).requestSumQDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    expect((await typed(auction).auctions(AUCTION_ID)).sumQ).to.eq(0n);
+
+    await expect(typed(auction).connect(bob).closeEmptyAuction(AUCTION_ID))
+      .to.emit(auction, "Refunded")
+      .withArgs(AUCTION_ID, carol.address, MAX_UINT64 * CAP);
+    expect(await typed(quote).balanceOf(carol.address)).to.eq(2n ** 100n);
+    expect(await typed(base).balanceOf(seller.address)).to.eq(S);
+  });
+});
@@ -2,6 +2,7 @@
 import { expect } from "chai";
 import { ethers, fhevm } from "hardhat";
 import { Contract } from "ethers";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
 
 function typed(contract: Contract) {
   return contract as unknown as Contract & { [key: string]: any };
@@ -24,7 +25,7 @@ describe("MedicineAuction wrappers", function () {
 
     mtk = await (await ethers.getContractFactory("MedicineToken", deployer)).deploy(0n);
     usd = await (await ethers.getContractFactory("StableUSD", deployer)).deploy(0n);
-    auction = await (await ethers.getContractFactory("MedicineAuction", deployer)).deploy();
+    auction = await (await ethers.getContractFactory("MedicineAuction", deployer)).deploy(ethers.ZeroAddress, ethers.ZeroAddress);
 
     await (await typed(mtk).mint(seller.address, 1_000_000n)).wait();
     await (await typed(usd).mint(alice.address, 1_000_000n)).wait();
@@ -47,6 +48,88 @@ describe("MedicineAuction wrappers", function () {
         .submitMunicipalityBid(1, enc.handles[0], enc.inputProof, 5, 120, 600)
     ).wait();
   });
+
+  async function createAndBid(price: number, options: Parameters<typeof auctionOptions>[0] = {}) {
+    const S = 50n;
+    await (await typed(mtk).connect(seller).approve(await auction.getAddress(), S)).wait();
+    const ts = Number((await ethers.provider.getBlock("latest"))!.timestamp);
+    const created = await typed(auction)
+      .connect(seller)
+      .createAuctionWithOptions(
+        await mtk.getAddress(),
+        await usd.getAddress(),
+        S,
+        ts - 1,
+        ts + 600,
+        auctionOptions(options),
+      );
+    await created.wait();
+    const id = Number(await typed(auction).auctionsCount());
+    return {
+      id,
+      created,
+      bid: async () => {
+        const enc = await fhevm.createEncryptedInput(await auction.getAddress(), alice.address).add64(price).encrypt();
+        await (await typed(usd).connect(alice).approve(await auction.getAddress(), 1000n)).wait();
+        await (
+          await typed(auction)
+            .connect(alice)
+            .submitMunicipalityBid(id, enc.handles[0], enc.inputProof, 5, 200, 1000)
+        ).wait();
+      },
+    };
+  }
+
+  it("emits VWAPFinal with the decrypted auction's id and price unit", async () => {
+    await createAndBid(100);
+    const second = await createAndBid(150, { priceUnit: "sUSD per kit" });
+    await expect(second.created).to.emit(auction, "PriceUnitSet").withArgs(second.id, "sUSD per kit");
+    await second.bid();
+
+    await ethers.provider.send("evm_increaseTime", [601]);
+    await ethers.provider.send("evm_mine", []);
+    await (await typed(auction).computeEncryptedVWAP(second.id)).wait();
+    await (await typed(auction).connect(seller).requestVWAPDecryption(second.id)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    const a = await typed(auction).auctions(second.id);
+    expect(a.vwapSet).to.eq(true);
+    expect(a.vwap).to.eq(150n);
+    const [log] = await auction.queryFilter(auction.filters.VWAPFinal());
+    expect(log.args.auctionId).to.eq(BigInt(second.id));
+    expect(log.args.vwap).to.eq(150n);
+    expect(log.args.unit).to.eq("sUSD per kit");
+  });
+
+  it("labels VWAPFinal with the quote token's symbol when no price unit was given", async () => {
+    const { id, bid } = await createAndBid(120);
+    await bid();
+
+    await ethers.provider.send("evm_increaseTime", [601]);
+    await ethers.provider.send("evm_mine", []);
+    await (await typed(auction).computeEncryptedVWAP(id)).wait();
+    await (await typed(auction).connect(seller).requestVWAPDecryption(id)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    const [log] = await auction.queryFilter(auction.filters.VWAPFinal());
+    expect(log.args.auctionId).to.eq(BigInt(id));
+    expect(log.args.vwap).to.eq(120n);
+    expect(log.args.unit).to.eq("sUSD per kit");
+  });
+
+  it("bounds the price unit given at creation", async () => {
+    await expect(createAndBid(100, { priceUnit: "x".repeat(33) })).to.be.revertedWith("unit too long");
+    const { id, created } = await createAndBid(100);
+    await expect(created).not.to.emit(auction, "PriceUnitSet");
+    expect(await typed(auction).priceUnit(id)).to.eq("");
+  });
+
+  it("commits to the hash of the off-chain lot details at creation", async () => {
+    const hash = ethers.keccak256(ethers.toUtf8Bytes('{"version":1,"title":"Amoxicillin lot"}')) as `0x${string}`;
+    const { id, created } = await createAndBid(100, { metadataHash: hash });
+    await expect(created).to.emit(auction, "MetadataSet").withArgs(id, hash);
+    expect(await typed(auction).metadataHash(id)).to.eq(hash);
+  });
 });
 
 
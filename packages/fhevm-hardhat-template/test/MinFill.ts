@@ -0,0 +1,201 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+const ALL_OR_NOTHING = ethers.MaxUint256;
+
+describe("FHEVWAPAuction minimum fills", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+  let auctionAddress: string;
+
+  const S = 100n;
+  const VWAP = 100n;
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, 1_000_000n)).wait();
+    for (const b of [alice, bob, carol]) {
+      await (await typed(quote).mint(b.address, 1_000_000n)).wait();
+    }
+    auction = await (await ethers.getContractFactory("TestableFHEVWAPAuction", deployer)).deploy(ethers.ZeroAddress);
+    auctionAddress = await auction.getAddress();
+
+    await (await typed(base).connect(seller).approve(auctionAddress, S)).wait();
+    const ts = await latestTimestamp();
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuction(await base.getAddress(), await quote.getAddress(), S, ts - 1, ts + 3600)
+    ).wait();
+  });
+
+  async function bid(signer: HardhatEthersSigner, qty: bigint, minFill?: bigint) {
+    const cap = 120n;
+    await (
+      await typed(quote)
+        .connect(signer)
+        .approve(auctionAddress, qty * cap)
+    ).wait();
+    const enc = await fhevm.createEncryptedInput(auctionAddress, signer.address).add64(VWAP).encrypt();
+    await (
+      await typed(auction)
+        .connect(signer)
+        .submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, qty, cap, qty * cap)
+    ).wait();
+    if (minFill !== undefined) {
+      const bidIndex = (await typed(auction).getBids(AUCTION_ID)).length - 1;
+      await (await typed(auction).connect(signer).setMinFill(AUCTION_ID, bidIndex, minFill)).wait();
+    }
+  }
+
+  async function closeWithVWAP() {
+    await increaseTime(3601);
+    await (await typed(auction).computeEncryptedVWAP(AUCTION_ID)).wait();
+    await (await typed(auction).testSetVWAP(AUCTION_ID, VWAP)).wait();
+  }
+
+  it("refunds a bid whose pro-rata share is below its minimum and gives its share to the others", async () => {
+    await bid(alice, 60n);
+    await bid(bob, 60n, 55n);
+    await bid(carol, 40n);
+    await closeWithVWAP();
+
+    // Q = 160: Bob's share floor(60 * 100 / 160) = 37 < 55. Without him Q = 100 fits in full
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID))
+      .to.emit(auction, "MinFillExcluded")
+      .withArgs(AUCTION_ID, 1)
+      .and.to.emit(auction, "Refunded")
+      .withArgs(AUCTION_ID, bob.address, 60n * 120n);
+    expect(await typed(base).balanceOf(alice.address)).to.eq(60n);
+    expect(await typed(base).balanceOf(bob.address)).to.eq(0n);
+    expect(await typed(base).balanceOf(carol.address)).to.eq(40n);
+    expect(await typed(quote).balanceOf(bob.address)).to.eq(1_000_000n);
+    expect((await typed(auction).getBids(AUCTION_ID))[1].minFillExcluded).to.eq(true);
+  });
+
+  it("settles an all-or-nothing bid in full or not at all", async () => {
+    await bid(alice, 80n, ALL_OR_NOTHING);
+    await bid(bob, 50n, 20n);
+    await bid(carol, 30n);
+    await closeWithVWAP();
+
+    // Q = 160: Alice would get 50 of 80; Bob's 31 clears his 20. Q = 80 then fits and 20 base goes back
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID))
+      .to.emit(auction, "BaseRemainderReturned")
+      .withArgs(AUCTION_ID, seller.address, 20n);
+    expect(await typed(base).balanceOf(alice.address)).to.eq(0n);
+    expect(await typed(base).balanceOf(bob.address)).to.eq(50n);
+    expect(await typed(base).balanceOf(carol.address)).to.eq(30n);
+  });
+
+  it("leaves minimum fills alone when supply covers demand", async () => {
+    await bid(alice, 60n, ALL_OR_NOTHING);
+    await bid(bob, 40n, 40n);
+    await closeWithVWAP();
+
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID)).not.to.emit(auction, "MinFillExcluded");
+    expect(await typed(base).balanceOf(alice.address)).to.eq(60n);
+    expect(await typed(base).balanceOf(bob.address)).to.eq(40n);
+  });
+
+  it("excludes in the first batch and refunds the bid in a later one", async () => {
+    await bid(alice, 60n);
+    await bid(carol, 40n);
+    await bid(bob, 60n, 55n);
+    await closeWithVWAP();
+
+    await expect(typed(auction).connect(seller).settleBatch(AUCTION_ID, 0, 1))
+      .to.emit(auction, "MinFillExcluded")
+      .withArgs(AUCTION_ID, 2);
+    expect((await typed(auction).settlements(AUCTION_ID)).eligibleQ).to.eq(100n);
+    await (await typed(auction).connect(seller).settleBatch(AUCTION_ID, 1, 2)).wait();
+    expect(await typed(base).balanceOf(carol.address)).to.eq(40n);
+    expect(await typed(base).balanceOf(bob.address)).to.eq(0n);
+    expect(await typed(quote).balanceOf(bob.address)).to.eq(1_000_000n);
+  });
+
+  it("lists a bid whose minimum is cleared and set again only once", async () => {
+    await bid(alice, 60n);
+    const maxListed = Number(await typed(auction).MAX_MIN_FILL_BIDS());
+    for (let i = 0; i < maxListed; i++) {
+      await (await typed(auction).connect(alice).setMinFill(AUCTION_ID, 0, 55n)).wait();
+      await (await typed(auction).connect(alice).setMinFill(AUCTION_ID, 0, 0n)).wait();
+    }
+    await (await typed(auction).connect(alice).setMinFill(AUCTION_ID, 0, 55n)).wait();
+    await bid(bob, 60n, 50n);
+    await bid(carol, 40n);
+    await closeWithVWAP();
+
+    // Q = 160: both shares of 37 fall short; Carol's 40 is all that is left
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID))
+      .to.emit(auction, "MinFillExcluded")
+      .withArgs(AUCTION_ID, 0)
+      .and.to.emit(auction, "MinFillExcluded")
+      .withArgs(AUCTION_ID, 1);
+    expect(await typed(base).balanceOf(carol.address)).to.eq(40n);
+  });
+
+  it("only lets the buyer set a minimum on a live bid of an open clear-quantity auction", async () => {
+    await bid(alice, 60n);
+    await expect(typed(auction).connect(alice).setMinFill(AUCTION_ID, 0, 30n))
+      .to.emit(auction, "MinFillSet")
+      .withArgs(AUCTION_ID, 0, 30n);
+    await expect(typed(auction).connect(bob).setMinFill(AUCTION_ID, 0, 30n)).to.be.revertedWith("only buyer");
+    await expect(typed(auction).connect(alice).setMinFill(AUCTION_ID, 1, 30n)).to.be.revertedWith("no bid");
+    await (await typed(auction).connect(alice).cancelBid(AUCTION_ID, 0)).wait();
+    await expect(typed(auction).connect(alice).setMinFill(AUCTION_ID, 0, 30n)).to.be.revertedWith("cancelled");
+
+    await bid(bob, 10n);
+    await increaseTime(3601);
+    await expect(typed(auction).connect(bob).setMinFill(AUCTION_ID, 1, 5n)).to.be.revertedWith("not in window");
+
+    await (await typed(base).connect(seller).approve(auctionAddress, S)).wait();
+    const ts = await latestTimestamp();
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuctionWithOptions(
+          await base.getAddress(),
+          await quote.getAddress(),
+          S,
+          ts - 1,
+          ts + 3600,
+          auctionOptions({ confidentialQuantities: true }),
+        )
+    ).wait();
+    await expect(typed(auction).connect(bob).setMinFill(2, 0, 5n)).to.be.revertedWith("confidential qty");
+  });
+});
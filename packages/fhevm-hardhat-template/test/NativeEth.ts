@@ -0,0 +1,138 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Auctions quoted in WETH take bids in native ETH: wrapped into escrow, unwrapped on every payout
+describe("FHEVWAPAuction native ETH", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let base: BaseContract;
+  let weth: BaseContract;
+  let auction: BaseContract;
+  let auctionAddress: string;
+
+  const AUCTION_ID = 1;
+  const S = 10n;
+
+  before(async () => {
+    [, seller, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    weth = await (await ethers.getContractFactory("WETH9", deployer)).deploy();
+    await (await typed(base).mint(seller.address, 1_000n)).wait();
+    auction = await (
+      await ethers.getContractFactory("TestableFHEVWAPAuction", deployer)
+    ).deploy(await weth.getAddress());
+    auctionAddress = await auction.getAddress();
+
+    await (await typed(base).connect(seller).approve(auctionAddress, S)).wait();
+    const ts = await latestTimestamp();
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuction(await base.getAddress(), await weth.getAddress(), S, ts - 1, ts + 3600)
+    ).wait();
+  });
+
+  async function bidEth(signer: HardhatEthersSigner, qty: bigint, cap: bigint, value = qty * cap) {
+    const enc = await fhevm.createEncryptedInput(auctionAddress, signer.address).add64(100).encrypt();
+    return typed(auction)
+      .connect(signer)
+      .submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, qty, cap, qty * cap, { value });
+  }
+
+  it("escrows attached ETH as WETH and pays the seller and the refund in ETH", async () => {
+    await expect(bidEth(alice, 4n, 120n)).to.changeEtherBalances([alice, auction], [-480n, 0n]);
+    expect(await typed(weth).balanceOf(auctionAddress)).to.eq(480n);
+
+    await increaseTime(3601);
+    await (await typed(auction).testSetVWAP(AUCTION_ID, 100)).wait();
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID)).to.changeEtherBalances(
+      [seller, alice],
+      [400n, 80n],
+    );
+    expect(await typed(base).balanceOf(alice.address)).to.eq(4n);
+    expect(await typed(weth).balanceOf(auctionAddress)).to.eq(0n);
+  });
+
+  it("tops up and refunds an amended bid in ETH", async () => {
+    await (await bidEth(alice, 4n, 120n)).wait();
+    let enc = await fhevm.createEncryptedInput(auctionAddress, alice.address).add64(100).encrypt();
+    await expect(
+      typed(auction)
+        .connect(alice)
+        .amendBid(AUCTION_ID, 0, enc.handles[0], enc.inputProof, 5n, 120n, 600n, { value: 120n }),
+    ).to.changeEtherBalance(alice, -120n);
+
+    enc = await fhevm.createEncryptedInput(auctionAddress, alice.address).add64(100).encrypt();
+    await expect(
+      typed(auction)
+        .connect(alice)
+        .amendBid(AUCTION_ID, 0, enc.handles[0], enc.inputProof, 2n, 120n, 240n, { value: 1n }),
+    ).to.be.revertedWith("value != amount");
+    await expect(
+      typed(auction).connect(alice).amendBid(AUCTION_ID, 0, enc.handles[0], enc.inputProof, 2n, 120n, 240n),
+    ).to.changeEtherBalance(alice, 360n);
+
+    await expect(typed(auction).connect(alice).cancelBid(AUCTION_ID, 0)).to.changeEtherBalance(alice, 240n);
+  });
+
+  it("rejects ETH that does not match the escrow or the quote token", async () => {
+    await expect(bidEth(alice, 4n, 120n, 479n)).to.be.revertedWith("value != amount");
+    await expect(alice.sendTransaction({ to: auctionAddress, value: 1n })).to.be.revertedWith("only weth");
+
+    // A second auction quoted in an ERC20 refuses ETH
+    const quote = await (await ethers.getContractFactory("MockERC20")).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).connect(seller).approve(auctionAddress, S)).wait();
+    const ts = await latestTimestamp();
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuction(await base.getAddress(), await quote.getAddress(), S, ts - 1, ts + 3600)
+    ).wait();
+    const enc = await fhevm.createEncryptedInput(auctionAddress, alice.address).add64(100).encrypt();
+    await expect(
+      typed(auction)
+        .connect(alice)
+        .submitBid(AUCTION_ID + 1, enc.handles[0], enc.inputProof, 4n, 120n, 480n, { value: 480n }),
+    ).to.be.revertedWith("quote not weth");
+  });
+
+  it("pays WETH to a recipient that rejects ETH", async () => {
+    await (await bidEth(alice, 4n, 120n)).wait();
+    await (await bidEth(bob, 4n, 90n)).wait();
+    // bob's account now reverts on any call, like a contract without receive()
+    await ethers.provider.send("hardhat_setCode", [bob.address, "0x60006000fd"]);
+
+    await increaseTime(3601);
+    await (await typed(auction).testSetVWAP(AUCTION_ID, 100)).wait();
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID))
+      .to.emit(auction, "Refunded")
+      .withArgs(AUCTION_ID, bob.address, 360n);
+    expect(await typed(weth).balanceOf(bob.address)).to.eq(360n);
+    expect(await typed(weth).balanceOf(auctionAddress)).to.eq(0n);
+  });
+});
@@ -0,0 +1,233 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+import { PERMIT2_ADDRESS, signErc2612Permit, signPermit2 } from "@fhevwap/auction/permits";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+// One signature replaces the approve transaction: EIP-2612 on StableUSD, Permit2 for plain ERC20s
+describe("FHEVWAPAuction permits", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let relayer: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+  let auctionAddress: string;
+  let start: number;
+
+  const S = 100n;
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, alice, relayer] = await ethers.getSigners();
+    // Permit2 lives at a fixed address on real chains
+    const mock = await (await ethers.getContractFactory("MockPermit2")).deploy();
+    const code = await ethers.provider.getCode(await mock.getAddress());
+    await ethers.provider.send("hardhat_setCode", [PERMIT2_ADDRESS, code]);
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("StableUSD", deployer)).deploy(0n);
+    await (await typed(base).mint(seller.address, 1_000n)).wait();
+    await (await typed(quote).mint(alice.address, 1_000_000n)).wait();
+    auction = await (
+      await ethers.getContractFactory("MedicineAuction", deployer)
+    ).deploy(ethers.ZeroAddress, ethers.ZeroAddress);
+    auctionAddress = await auction.getAddress();
+    start = (await latestTimestamp()) - 1;
+  });
+
+  async function deadline() {
+    return BigInt((await latestTimestamp()) + 600);
+  }
+
+  async function createWithPermit2() {
+    // One-time approval of Permit2, then every auction only needs a signature
+    await (await typed(base).connect(seller).approve(PERMIT2_ADDRESS, ethers.MaxUint256)).wait();
+    const permit = await signPermit2(seller, await base.getAddress(), auctionAddress, S, await deadline());
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuctionWithPermit(
+          await base.getAddress(),
+          await quote.getAddress(),
+          S,
+          start,
+          start + 3600,
+          auctionOptions({ priceUnit: "sUSD per kit" }),
+          permit,
+        )
+    ).wait();
+    return permit;
+  }
+
+  async function encryptPrice(signer: HardhatEthersSigner, price: number) {
+    return fhevm.createEncryptedInput(auctionAddress, signer.address).add64(price).encrypt();
+  }
+
+  it("creates an auction through a Permit2 signature and rejects its replay", async () => {
+    const permit = await createWithPermit2();
+    expect(await typed(base).balanceOf(auctionAddress)).to.eq(S);
+    expect(await typed(base).allowance(seller.address, auctionAddress)).to.eq(0n);
+    expect(await typed(auction).priceUnit(1)).to.eq("sUSD per kit");
+    const [remaining, , nonce] = await typed(await ethers.getContractAt("MockPermit2", PERMIT2_ADDRESS)).allowance(
+      seller.address,
+      await base.getAddress(),
+      auctionAddress,
+    );
+    expect(remaining).to.eq(0n);
+    expect(nonce).to.eq(1n);
+
+    await expect(
+      typed(auction)
+        .connect(seller)
+        .createAuctionWithPermit(
+          await base.getAddress(),
+          await quote.getAddress(),
+          S,
+          start,
+          start + 3600,
+          auctionOptions({}),
+          permit,
+        ),
+    ).to.be.revertedWith("invalid nonce");
+  });
+
+  it("escrows a bid with an EIP-2612 signature in a single transaction", async () => {
+    await createWithPermit2();
+    const nonceBefore = await ethers.provider.getTransactionCount(alice.address);
+    const maxSpend = 10n * 120n;
+    const permit = await signErc2612Permit(alice, await quote.getAddress(), auctionAddress, maxSpend, await deadline());
+    expect(permit?.usePermit2).to.eq(false);
+
+    const enc = await encryptPrice(alice, 100);
+    await expect(
+      typed(auction)
+        .connect(alice)
+        .submitMunicipalityBidWithPermit(AUCTION_ID, enc.handles[0], enc.inputProof, 10n, 120n, maxSpend, permit),
+    )
+      .to.emit(auction, "MunicipalityBid")
+      .withArgs(AUCTION_ID, alice.address, 10n, 120n, maxSpend);
+
+    expect(await ethers.provider.getTransactionCount(alice.address)).to.eq(nonceBefore + 1);
+    expect(await typed(quote).balanceOf(auctionAddress)).to.eq(maxSpend);
+    expect(await typed(quote).allowance(alice.address, auctionAddress)).to.eq(0n);
+  });
+
+  it("still bids when the EIP-2612 permit was front-run, but not without an allowance", async () => {
+    await createWithPermit2();
+    const maxSpend = 10n * 120n;
+    const permit = (await signErc2612Permit(
+      alice,
+      await quote.getAddress(),
+      auctionAddress,
+      maxSpend,
+      await deadline(),
+    ))!;
+    // Anyone can submit the signed permit first, which consumes its nonce
+    await (
+      await typed(quote)
+        .connect(relayer)
+        .permit(alice.address, auctionAddress, maxSpend, permit.deadline, permit.v, permit.r, permit.s)
+    ).wait();
+
+    let enc = await encryptPrice(alice, 100);
+    await (
+      await typed(auction)
+        .connect(alice)
+        .submitBidWithPermit(AUCTION_ID, enc.handles[0], enc.inputProof, 10n, 120n, maxSpend, permit)
+    ).wait();
+    expect(await typed(quote).balanceOf(auctionAddress)).to.eq(maxSpend);
+
+    // Replayed once the allowance is spent: the permit fails and nothing covers the escrow
+    enc = await encryptPrice(alice, 100);
+    await expect(
+      typed(auction)
+        .connect(alice)
+        .submitBidWithPermit(AUCTION_ID, enc.handles[0], enc.inputProof, 10n, 120n, maxSpend, permit),
+    ).to.be.revertedWith("permit failed");
+  });
+
+  it("reports a short allowance or a missing Permit2 on chains without Permit2", async () => {
+    await createWithPermit2();
+    const sellerPermit = await signPermit2(seller, await base.getAddress(), auctionAddress, S, await deadline());
+    const bidPermit = await signPermit2(alice, await quote.getAddress(), auctionAddress, 1_200n, await deadline());
+    const permit2Code = await ethers.provider.getCode(PERMIT2_ADDRESS);
+    await ethers.provider.send("hardhat_setCode", [PERMIT2_ADDRESS, "0x"]);
+    try {
+      const enc = await encryptPrice(alice, 100);
+      await expect(
+        typed(auction).connect(alice).submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, 10n, 120n, 1_200n),
+      ).to.be.revertedWith("allowance too low");
+      await expect(
+        typed(auction)
+          .connect(alice)
+          .submitBidWithPermit(AUCTION_ID, enc.handles[0], enc.inputProof, 10n, 120n, 1_200n, bidPermit),
+      ).to.be.revertedWith("no permit2");
+      await expect(
+        typed(auction)
+          .connect(seller)
+          .createAuctionWithPermit(
+            await base.getAddress(),
+            await quote.getAddress(),
+            S,
+            start,
+            start + 3600,
+            auctionOptions({}),
+            sellerPermit,
+          ),
+      ).to.be.revertedWith("no permit2");
+    } finally {
+      await ethers.provider.send("hardhat_setCode", [PERMIT2_ADDRESS, permit2Code]);
+    }
+  });
+
+  it("pulls bid escrow through a standing Permit2 allowance without a new signature", async () => {
+    await createWithPermit2();
+    const permit2 = await ethers.getContractAt("MockPermit2", PERMIT2_ADDRESS);
+    await (await typed(quote).connect(alice).approve(PERMIT2_ADDRESS, ethers.MaxUint256)).wait();
+    const permit = await signPermit2(alice, await quote.getAddress(), auctionAddress, 5_000n, await deadline());
+    await (
+      await typed(permit2)
+        .connect(alice)
+        .permit(
+          alice.address,
+          {
+            details: {
+              token: await quote.getAddress(),
+              amount: permit.amount,
+              expiration: permit.deadline,
+              nonce: permit.nonce,
+            },
+            spender: auctionAddress,
+            sigDeadline: permit.deadline,
+          },
+          ethers.Signature.from({ r: permit.r, s: permit.s, v: permit.v }).serialized,
+        )
+    ).wait();
+
+    const enc = await encryptPrice(alice, 100);
+    await (
+      await typed(auction).connect(alice).submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, 10n, 120n, 1_200n)
+    ).wait();
+    expect(await typed(quote).balanceOf(auctionAddress)).to.eq(1_200n);
+    const [remaining] = await typed(permit2).allowance(alice.address, await quote.getAddress(), auctionAddress);
+    expect(remaining).to.eq(3_800n);
+  });
+});
@@ -0,0 +1,196 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTo(timestamp: number) {
+  await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("FHEVWAPAuction grace period and pull payments", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let keeper: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+  let start: number;
+  let end: number;
+  let grace: number;
+
+  const S = 100n;
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, alice, bob, keeper] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, 1_000_000n)).wait();
+    await (await typed(quote).mint(alice.address, 1_000_000n)).wait();
+    await (await typed(quote).mint(bob.address, 1_000_000n)).wait();
+    // Real oracle decryption so requestVWAPDecryption is exercised by a non-seller
+    auction = await (await ethers.getContractFactory("FHEVWAPAuction", deployer)).deploy(ethers.ZeroAddress);
+    grace = Number(await typed(auction).SETTLEMENT_GRACE_PERIOD());
+
+    await (
+      await typed(base)
+        .connect(seller)
+        .approve(await auction.getAddress(), 2n * S)
+    ).wait();
+    const ts = await latestTimestamp();
+    start = ts - 1;
+    end = ts + 3600;
+  });
+
+  async function create(options: Parameters<typeof auctionOptions>[0] = {}) {
+    return typed(auction)
+      .connect(seller)
+      .createAuctionWithOptions(
+        await base.getAddress(),
+        await quote.getAddress(),
+        S,
+        start,
+        end,
+        auctionOptions(options),
+      );
+  }
+
+  async function bid(signer: HardhatEthersSigner, price: number, qty: number, cap: number) {
+    await (
+      await typed(quote)
+        .connect(signer)
+        .approve(await auction.getAddress(), BigInt(qty * cap))
+    ).wait();
+    const enc = await fhevm
+      .createEncryptedInput(await auction.getAddress(), signer.address)
+      .add64(price)
+      .encrypt();
+    await (
+      await typed(auction)
+        .connect(signer)
+        .submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, qty, cap, qty * cap)
+    ).wait();
+  }
+
+  async function revealAs(signer: HardhatEthersSigner) {
+    await (await typed(auction).connect(signer).computeEncryptedVWAP(AUCTION_ID)).wait();
+    await (await typed(auction).connect(signer).requestVWAPDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  it("lets anyone decrypt and settle once the grace period has elapsed", async () => {
+    await (await create()).wait();
+    await bid(alice, 100, 30, 120);
+    await bid(bob, 80, 50, 90);
+
+    await increaseTo(end + 1);
+    await (await typed(auction).connect(keeper).computeEncryptedVWAP(AUCTION_ID)).wait();
+    await expect(typed(auction).connect(keeper).requestVWAPDecryption(AUCTION_ID)).to.be.revertedWith("only seller");
+
+    await increaseTo(end + grace + 1);
+    await (await typed(auction).connect(keeper).requestVWAPDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    // (100*30 + 80*50) / 80 = 87
+    expect((await typed(auction).auctions(AUCTION_ID)).vwap).to.eq(87n);
+
+    const sellerBefore = await typed(quote).balanceOf(seller.address);
+    await expect(typed(auction).connect(keeper).settle(AUCTION_ID))
+      .to.emit(auction, "SellerPaid")
+      .withArgs(AUCTION_ID, seller.address, 80n * 87n);
+    // Push mode: funds go to the participants, never to the keeper
+    expect((await typed(quote).balanceOf(seller.address)) - sellerBefore).to.eq(80n * 87n);
+    expect(await typed(base).balanceOf(alice.address)).to.eq(30n);
+    expect(await typed(quote).balanceOf(keeper.address)).to.eq(0n);
+  });
+
+  it("keeps settlement seller-only during the grace period", async () => {
+    await (await create()).wait();
+    await bid(alice, 100, 30, 120);
+    await increaseTo(end + 1);
+    await revealAs(seller);
+
+    // Next block lands exactly on end + grace: still the seller's turn
+    await increaseTo(end + grace - 1);
+    await expect(typed(auction).connect(alice).settle(AUCTION_ID)).to.be.revertedWith("only seller");
+    await increaseTo(end + grace + 1);
+    await (await typed(auction).connect(alice).settle(AUCTION_ID)).wait();
+    expect((await typed(auction).auctions(AUCTION_ID)).settled).to.eq(true);
+  });
+
+  it("records allocations on settle and pays each participant on claim", async () => {
+    await (await create({ pullPayments: true })).wait();
+    await bid(alice, 100, 80, 120);
+    await bid(bob, 60, 40, 70);
+    await increaseTo(end + 1);
+    await revealAs(seller);
+    // (100*80 + 60*40) / 120 = 86: bob's cap is below it
+    const vwap = 86n;
+
+    const quoteBefore = await typed(quote).balanceOf(await auction.getAddress());
+    await (await typed(auction).connect(seller).settle(AUCTION_ID)).wait();
+    expect(await typed(quote).balanceOf(await auction.getAddress())).to.eq(quoteBefore);
+    expect(await typed(base).balanceOf(alice.address)).to.eq(0n);
+
+    expect(await typed(auction).claimableBase(AUCTION_ID, alice.address)).to.eq(80n);
+    expect(await typed(auction).claimableQuote(AUCTION_ID, alice.address)).to.eq(80n * 120n - 80n * vwap);
+    expect(await typed(auction).claimableQuote(AUCTION_ID, bob.address)).to.eq(40n * 70n);
+    expect(await typed(auction).claimableQuote(AUCTION_ID, seller.address)).to.eq(80n * vwap);
+    expect(await typed(auction).claimableBase(AUCTION_ID, seller.address)).to.eq(20n);
+
+    await expect(typed(auction).connect(alice).claim(AUCTION_ID))
+      .to.emit(auction, "Claimed")
+      .withArgs(AUCTION_ID, alice.address, 80n, 80n * 120n - 80n * vwap);
+    expect(await typed(base).balanceOf(alice.address)).to.eq(80n);
+
+    const sellerQuote = await typed(quote).balanceOf(seller.address);
+    await (await typed(auction).connect(seller).claim(AUCTION_ID)).wait();
+    expect((await typed(quote).balanceOf(seller.address)) - sellerQuote).to.eq(80n * vwap);
+
+    await (await typed(auction).connect(bob).claim(AUCTION_ID)).wait();
+    expect(await typed(quote).balanceOf(await auction.getAddress())).to.eq(0n);
+    expect(await typed(base).balanceOf(await auction.getAddress())).to.eq(0n);
+  });
+
+  it("rejects double claims and early claims", async () => {
+    await (await create({ pullPayments: true })).wait();
+    await bid(alice, 100, 10, 120);
+    await expect(typed(auction).connect(alice).claim(AUCTION_ID)).to.be.revertedWith("not settled");
+
+    await increaseTo(end + 1);
+    await revealAs(seller);
+    await (await typed(auction).connect(seller).settle(AUCTION_ID)).wait();
+
+    await (await typed(auction).connect(alice).claim(AUCTION_ID)).wait();
+    await expect(typed(auction).connect(alice).claim(AUCTION_ID)).to.be.revertedWith("nothing to claim");
+    await expect(typed(auction).connect(keeper).claim(AUCTION_ID)).to.be.revertedWith("nothing to claim");
+  });
+
+  it("takes the payment mode at creation", async () => {
+    await expect(create({ pullPayments: true }))
+      .to.emit(auction, "PullPaymentsSet")
+      .withArgs(AUCTION_ID, true);
+    expect(await typed(auction).pullPayments(AUCTION_ID)).to.eq(true);
+    await expect(create()).not.to.emit(auction, "PullPaymentsSet");
+    expect(await typed(auction).pullPayments(AUCTION_ID + 1)).to.eq(false);
+  });
+});
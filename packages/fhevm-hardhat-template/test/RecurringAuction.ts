@@ -0,0 +1,160 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTo(timestamp: number) {
+  await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("FHEVWAPAuction recurring series", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+
+  const SUPPLY = 100n;
+  const WINDOW = 1000;
+
+  before(async () => {
+    [, seller, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, 1_000_000n)).wait();
+    await (await typed(quote).mint(alice.address, 1_000_000n)).wait();
+    auction = await (await ethers.getContractFactory("TestableFHEVWAPAuction", deployer)).deploy(ethers.ZeroAddress);
+  });
+
+  async function createSeries(windows: number, firstStart: number) {
+    await (
+      await typed(base)
+        .connect(seller)
+        .approve(await auction.getAddress(), SUPPLY * BigInt(windows))
+    ).wait();
+    return typed(auction)
+      .connect(seller)
+      .createRecurringAuction(await base.getAddress(), await quote.getAddress(), SUPPLY, firstStart, WINDOW, windows);
+  }
+
+  async function bid(auctionId: number, qty: number, cap: number) {
+    await (
+      await typed(quote)
+        .connect(alice)
+        .approve(await auction.getAddress(), BigInt(qty * cap))
+    ).wait();
+    const enc = await fhevm
+      .createEncryptedInput(await auction.getAddress(), alice.address)
+      .add64(cap)
+      .encrypt();
+    await (
+      await typed(auction)
+        .connect(alice)
+        .submitBid(auctionId, enc.handles[0], enc.inputProof, qty, cap, qty * cap)
+    ).wait();
+  }
+
+  it("escrows the whole schedule and creates back-to-back windows", async () => {
+    const start = (await latestTimestamp()) + 10;
+    const sellerBefore = await typed(base).balanceOf(seller.address);
+    await expect(createSeries(3, start))
+      .to.emit(auction, "SeriesCreated")
+      .withArgs(1, seller.address, 1, 3, SUPPLY, WINDOW);
+
+    expect(sellerBefore - (await typed(base).balanceOf(seller.address))).to.eq(3n * SUPPLY);
+    expect(await typed(auction).auctionsCount()).to.eq(3n);
+    for (let i = 0; i < 3; i++) {
+      const a = await typed(auction).auctions(i + 1);
+      expect(a.S).to.eq(SUPPLY);
+      expect(a.start).to.eq(BigInt(start + i * WINDOW));
+      expect(a.end).to.eq(BigInt(start + (i + 1) * WINDOW));
+      expect(await typed(auction).seriesOfAuction(i + 1)).to.eq(1n);
+    }
+    expect(await typed(auction).nextWindowOf(1)).to.eq(2n);
+    expect(await typed(auction).nextWindowOf(3)).to.eq(0n);
+  });
+
+  it("rolls unsold base into the next window and returns the last remainder to the seller", async () => {
+    const start = (await latestTimestamp()) + 10;
+    await (await createSeries(2, start)).wait();
+
+    // Window 1: 40 of 100 sold
+    await increaseTo(start + 1);
+    await bid(1, 40, 10);
+    await increaseTo(start + WINDOW + 1);
+    await (await typed(auction).computeEncryptedVWAP(1)).wait();
+    await (await typed(auction).testSetVWAP(1, 10)).wait();
+    await expect(typed(auction).connect(seller).settle(1)).to.emit(auction, "BaseRolledOver").withArgs(1, 2, 60);
+    expect((await typed(auction).auctions(2)).S).to.eq(160n);
+
+    // Window 2: 150 requested, 160 available
+    await bid(2, 150, 10);
+    await increaseTo(start + 2 * WINDOW + 1);
+    await (await typed(auction).computeEncryptedVWAP(2)).wait();
+    await (await typed(auction).testSetVWAP(2, 10)).wait();
+    const sellerBefore = await typed(base).balanceOf(seller.address);
+    await expect(typed(auction).connect(seller).settle(2))
+      .to.emit(auction, "BaseRemainderReturned")
+      .withArgs(2, seller.address, 10);
+    expect((await typed(base).balanceOf(seller.address)) - sellerBefore).to.eq(10n);
+    expect(await typed(base).balanceOf(alice.address)).to.eq(190n);
+  });
+
+  it("closes empty windows permissionlessly, rolling their supply forward", async () => {
+    const start = (await latestTimestamp()) + 10;
+    await (await createSeries(2, start)).wait();
+
+    await expect(typed(auction).connect(alice).closeEmptyAuction(1)).to.be.revertedWith("too early");
+    await increaseTo(start + WINDOW + 1);
+    await expect(typed(auction).connect(alice).closeEmptyAuction(1))
+      .to.emit(auction, "BaseRolledOver")
+      .withArgs(1, 2, SUPPLY);
+    expect((await typed(auction).auctions(1)).settled).to.eq(true);
+    expect((await typed(auction).auctions(2)).S).to.eq(2n * SUPPLY);
+    await expect(typed(auction).closeEmptyAuction(1)).to.be.revertedWith("settled");
+
+    await bid(2, 1, 10);
+    await increaseTo(start + 2 * WINDOW + 1);
+    await expect(typed(auction).closeEmptyAuction(2)).to.be.revertedWith("has demand");
+  });
+
+  it("returns base to the seller when the next window is already settled", async () => {
+    const start = (await latestTimestamp()) + 10;
+    await (await createSeries(2, start)).wait();
+    await increaseTo(start + 2 * WINDOW + 1);
+
+    await (await typed(auction).closeEmptyAuction(2)).wait();
+    const sellerBefore = await typed(base).balanceOf(seller.address);
+    await expect(typed(auction).closeEmptyAuction(1)).to.emit(auction, "BaseRemainderReturned");
+    expect((await typed(base).balanceOf(seller.address)) - sellerBefore).to.eq(SUPPLY);
+  });
+
+  it("validates the schedule", async () => {
+    const start = (await latestTimestamp()) + 10;
+    await expect(createSeries(0, start)).to.be.revertedWith("invalid windows");
+    await expect(createSeries(53, start)).to.be.revertedWith("invalid windows");
+    await expect(
+      typed(auction)
+        .connect(seller)
+        .createRecurringAuction(await base.getAddress(), await base.getAddress(), SUPPLY, start, WINDOW, 2),
+    ).to.be.revertedWith("same token");
+  });
+});
@@ -0,0 +1,171 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+
+import { buildAllowlist } from "@fhevwap/auction/allowlist";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+const SUPPLIER_ROLE = ethers.id("SUPPLIER_ROLE");
+const MUNICIPALITY_ROLE = ethers.id("MUNICIPALITY_ROLE");
+
+describe("MedicineAuction roles and allowlists", function () {
+  let admin: HardhatEthersSigner;
+  let supplier: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let registry: BaseContract;
+  let mtk: BaseContract;
+  let susd: BaseContract;
+  let auction: BaseContract;
+  let auctionAddress: string;
+
+  const S = 100n;
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [admin, supplier, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    registry = await (await ethers.getContractFactory("ProcurementRegistry", admin)).deploy(admin.address);
+    mtk = await (await ethers.getContractFactory("MockERC20", admin)).deploy("MedicineToken", "MTK", 0n);
+    susd = await (await ethers.getContractFactory("MockERC20", admin)).deploy("StableUSD", "sUSD", 0n);
+    auction = await (
+      await ethers.getContractFactory("MedicineAuction", admin)
+    ).deploy(ethers.ZeroAddress, await registry.getAddress());
+    auctionAddress = await auction.getAddress();
+
+    await (await typed(mtk).mint(supplier.address, 1_000n)).wait();
+    await (await typed(mtk).connect(supplier).approve(auctionAddress, 1_000n)).wait();
+    for (const b of [alice, bob]) {
+      await (await typed(susd).mint(b.address, 1_000_000n)).wait();
+      await (await typed(susd).connect(b).approve(auctionAddress, 1_000_000n)).wait();
+    }
+  });
+
+  async function create(signer = supplier) {
+    const ts = await latestTimestamp();
+    return typed(auction)
+      .connect(signer)
+      .createMedicineAuction(await mtk.getAddress(), await susd.getAddress(), S, ts - 1, ts + 3600);
+  }
+
+  async function bid(signer: HardhatEthersSigner) {
+    const enc = await fhevm.createEncryptedInput(auctionAddress, signer.address).add64(100n).encrypt();
+    return typed(auction)
+      .connect(signer)
+      .submitMunicipalityBid(AUCTION_ID, enc.handles[0], enc.inputProof, 10n, 120n, 1_200n);
+  }
+
+  it("only lets suppliers create auctions", async () => {
+    await expect(create()).to.be.revertedWith("not a supplier");
+    await (await typed(registry).grantRole(SUPPLIER_ROLE, supplier.address)).wait();
+    await expect(create()).to.emit(auction, "AuctionCreated");
+  });
+
+  it("only lets suppliers create auctions with lot details and applies them", async () => {
+    const hash = ethers.keccak256(ethers.toUtf8Bytes('{"version":1,"title":"Amoxicillin lot"}'));
+    const createWithOptions = async () => {
+      const ts = await latestTimestamp();
+      return typed(auction)
+        .connect(supplier)
+        .createMedicineAuctionWithOptions(
+          await mtk.getAddress(),
+          await susd.getAddress(),
+          S,
+          ts - 1,
+          ts + 3600,
+          auctionOptions({ priceUnit: "sUSD per kit", metadataHash: hash as `0x${string}` }),
+        );
+    };
+    await expect(createWithOptions()).to.be.revertedWith("not a supplier");
+
+    await (await typed(registry).grantRole(SUPPLIER_ROLE, supplier.address)).wait();
+    await expect(createWithOptions())
+      .to.emit(auction, "AuctionCreated")
+      .and.to.emit(auction, "MetadataSet")
+      .withArgs(AUCTION_ID, hash)
+      .and.to.emit(auction, "PriceUnitSet")
+      .withArgs(AUCTION_ID, "sUSD per kit");
+    expect(await typed(auction).metadataHash(AUCTION_ID)).to.eq(hash);
+    expect(await typed(auction).priceUnit(AUCTION_ID)).to.eq("sUSD per kit");
+  });
+
+  it("only lets municipalities bid, and revoking the role blocks new bids", async () => {
+    await (await typed(registry).grantRole(SUPPLIER_ROLE, supplier.address)).wait();
+    await (await create()).wait();
+    await expect(bid(alice)).to.be.revertedWith("not a municipality");
+
+    await (await typed(registry).grantRole(MUNICIPALITY_ROLE, alice.address)).wait();
+    await expect(bid(alice)).to.emit(auction, "MunicipalityBid");
+
+    await (await typed(registry).revokeRole(MUNICIPALITY_ROLE, alice.address)).wait();
+    await expect(bid(alice)).to.be.revertedWith("not a municipality");
+  });
+
+  it("only lets registry admins manage roles", async () => {
+    await expect(typed(registry).connect(alice).grantRole(MUNICIPALITY_ROLE, alice.address)).to.be.reverted;
+  });
+
+  describe("allowlists", () => {
+    beforeEach(async () => {
+      await (await typed(registry).grantRole(SUPPLIER_ROLE, supplier.address)).wait();
+      for (const b of [alice, bob]) {
+        await (await typed(registry).grantRole(MUNICIPALITY_ROLE, b.address)).wait();
+      }
+    });
+
+    async function createWithAllowlist(allowlistRoot?: `0x${string}`) {
+      const ts = await latestTimestamp();
+      return typed(auction)
+        .connect(supplier)
+        .createAuctionWithOptions(
+          await mtk.getAddress(),
+          await susd.getAddress(),
+          S,
+          ts - 1,
+          ts + 3600,
+          auctionOptions({ allowlistRoot }),
+        );
+    }
+
+    it("limits bids to members who joined with a valid proof", async () => {
+      const list = buildAllowlist([alice.address, supplier.address, admin.address]);
+      await expect(createWithAllowlist(list.root)).to.emit(auction, "AllowlistSet").withArgs(AUCTION_ID, list.root);
+      await expect(bid(alice)).to.be.revertedWith("not allowlisted");
+
+      const aliceProof = list.proofs[alice.address.toLowerCase()];
+      await expect(typed(auction).connect(bob).joinAllowlist(AUCTION_ID, aliceProof)).to.be.revertedWith(
+        "invalid proof",
+      );
+      await expect(typed(auction).connect(alice).joinAllowlist(AUCTION_ID, aliceProof))
+        .to.emit(auction, "AllowlistJoined")
+        .withArgs(AUCTION_ID, alice.address);
+      expect(await typed(auction).allowlisted(AUCTION_ID, alice.address)).to.eq(true);
+
+      await expect(bid(alice)).to.emit(auction, "MunicipalityBid");
+      await expect(bid(bob)).to.be.revertedWith("not allowlisted");
+    });
+
+    it("is only taken at creation", async () => {
+      await expect(createWithAllowlist()).not.to.emit(auction, "AllowlistSet");
+      expect(typed(auction).setAllowlist).to.eq(undefined);
+      await expect(typed(auction).connect(alice).joinAllowlist(AUCTION_ID, [])).to.be.revertedWith("no allowlist");
+      await expect(bid(bob)).to.emit(auction, "MunicipalityBid");
+    });
+  });
+});
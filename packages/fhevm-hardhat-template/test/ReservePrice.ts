@@ -0,0 +1,161 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// ReserveCheck enum of FHEVWAPAuctionStorage
+const None = 0n;
+const Unchecked = 1n;
+const Met = 3n;
+const NotMet = 4n;
+
+describe("FHEVWAPAuction reserve price", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+  let auctionAddress: string;
+
+  const S = 100n;
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, 1_000_000n)).wait();
+    for (const b of [alice, bob]) {
+      await (await typed(quote).mint(b.address, 1_000_000n)).wait();
+    }
+    // Real oracle decryption: the reserve check and the VWAP both go through callbacks
+    auction = await (await ethers.getContractFactory("FHEVWAPAuction", deployer)).deploy(ethers.ZeroAddress);
+    auctionAddress = await auction.getAddress();
+  });
+
+  async function create(reserve?: number) {
+    let encryptedReserve;
+    if (reserve !== undefined) {
+      const enc = await fhevm.createEncryptedInput(auctionAddress, seller.address).add64(reserve).encrypt();
+      encryptedReserve = { handle: enc.handles[0], inputProof: enc.inputProof };
+    }
+    await (await typed(base).connect(seller).approve(auctionAddress, S)).wait();
+    const ts = await latestTimestamp();
+    return typed(auction)
+      .connect(seller)
+      .createAuctionWithOptions(
+        await base.getAddress(),
+        await quote.getAddress(),
+        S,
+        ts - 1,
+        ts + 3600,
+        auctionOptions({ encryptedReserve }),
+      );
+  }
+
+  async function bid(signer: HardhatEthersSigner, price: number, qty: number, cap: number) {
+    await (
+      await typed(quote)
+        .connect(signer)
+        .approve(auctionAddress, BigInt(qty * cap))
+    ).wait();
+    const enc = await fhevm.createEncryptedInput(auctionAddress, signer.address).add64(price).encrypt();
+    await (
+      await typed(auction)
+        .connect(signer)
+        .submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, qty, cap, qty * cap)
+    ).wait();
+  }
+
+  async function closeAndCheckReserve() {
+    await increaseTime(3601);
+    await (await typed(auction).computeEncryptedVWAP(AUCTION_ID)).wait();
+    await expect(typed(auction).connect(seller).requestVWAPDecryption(AUCTION_ID)).to.be.revertedWith(
+      "reserve not met",
+    );
+    await (await typed(auction).connect(seller).requestReserveCheck(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  it("reveals the VWAP and settles normally when the reserve is met", async () => {
+    await expect(create(90)).to.emit(auction, "ReservePriceSet").withArgs(AUCTION_ID);
+    expect(await typed(auction).reserveCheck(AUCTION_ID)).to.eq(Unchecked);
+    await bid(alice, 100, 60, 120);
+    await bid(bob, 80, 20, 100);
+
+    // (100*60 + 80*20) / 80 = 95 >= 90
+    await closeAndCheckReserve();
+    expect(await typed(auction).reserveCheck(AUCTION_ID)).to.eq(Met);
+    await expect(typed(auction).connect(seller).requestReserveCheck(AUCTION_ID)).to.be.revertedWith(
+      "no pending reserve",
+    );
+
+    await (await typed(auction).connect(seller).requestVWAPDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    expect((await typed(auction).auctions(AUCTION_ID)).vwap).to.eq(95n);
+
+    await expect(typed(auction).connect(seller).settle(AUCTION_ID))
+      .to.emit(auction, "SellerPaid")
+      .withArgs(AUCTION_ID, seller.address, 60n * 95n + 20n * 95n);
+    expect(await typed(base).balanceOf(alice.address)).to.eq(60n);
+    expect(await typed(base).balanceOf(bob.address)).to.eq(20n);
+  });
+
+  it("fails the auction without revealing the VWAP when the reserve is not met", async () => {
+    await (await create(96)).wait();
+    await bid(alice, 100, 60, 120);
+    await bid(bob, 80, 20, 100);
+
+    await closeAndCheckReserve();
+    expect(await typed(auction).reserveCheck(AUCTION_ID)).to.eq(NotMet);
+    await expect(typed(auction).connect(seller).requestVWAPDecryption(AUCTION_ID)).to.be.revertedWith(
+      "reserve not met",
+    );
+
+    // Anyone may settle a failed auction: every bid is refunded and the base goes back to the seller
+    await expect(typed(auction).connect(alice).settle(AUCTION_ID))
+      .to.emit(auction, "BaseRemainderReturned")
+      .withArgs(AUCTION_ID, seller.address, S)
+      .and.not.to.emit(auction, "SellerPaid");
+    const a = await typed(auction).auctions(AUCTION_ID);
+    expect([a.vwapSet, a.settled]).to.deep.eq([false, true]);
+    expect(await typed(quote).balanceOf(alice.address)).to.eq(1_000_000n);
+    expect(await typed(quote).balanceOf(bob.address)).to.eq(1_000_000n);
+    expect(await typed(base).balanceOf(seller.address)).to.eq(1_000_000n);
+    expect(await typed(quote).balanceOf(auctionAddress)).to.eq(0n);
+  });
+
+  it("only takes a reserve at creation", async () => {
+    await expect(create()).not.to.emit(auction, "ReservePriceSet");
+    expect(typed(auction).setReservePrice).to.eq(undefined);
+    await bid(alice, 100, 10, 120);
+    expect(await typed(auction).reserveCheck(AUCTION_ID)).to.eq(None);
+    await expect(typed(auction).connect(seller).requestReserveCheck(AUCTION_ID)).to.be.revertedWith(
+      "no pending reserve",
+    );
+  });
+});
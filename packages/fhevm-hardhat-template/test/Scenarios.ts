@@ -0,0 +1,69 @@
+/* eslint-disable */
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import hre, { fhevm } from "hardhat";
+
+import { parseScenario, runScenario } from "../tasks/scenario";
+
+const SCENARIO_DIR = path.join(__dirname, "..", "scenarios");
+
+describe("Scenarios", function () {
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  for (const file of fs.readdirSync(SCENARIO_DIR).filter((f) => f.endsWith(".json"))) {
+    it(`replays ${file}`, async () => {
+      const scenario = parseScenario(JSON.parse(fs.readFileSync(path.join(SCENARIO_DIR, file), "utf-8")));
+      const result = await runScenario(hre, scenario, file);
+      const failed = result.checks.filter((c) => !c.ok);
+      expect(failed, JSON.stringify(failed)).to.deep.eq([]);
+      expect(result.passed).to.eq(true);
+    });
+  }
+
+  it("reports mismatches instead of throwing", async () => {
+    const result = await runScenario(
+      hre,
+      parseScenario({
+        contract: "TestableFHEVWAPAuction",
+        supply: 10,
+        steps: [{ bid: { bidder: "alice", price: 100, qty: 5, cap: 120 } }],
+        vwapOverride: 100,
+        expect: { vwap: 99, allocations: { alice: { alloc: 5 } } },
+      }),
+    );
+    expect(result.passed).to.eq(false);
+    expect(result.checks.map((c) => [c.field, c.ok])).to.deep.eq([
+      ["vwap", false],
+      ["alice.alloc", true],
+    ]);
+  });
+
+  it("matches an expected settle revert", async () => {
+    const result = await runScenario(
+      hre,
+      parseScenario({
+        contract: "TestableFHEVWAPAuction",
+        supply: 10,
+        steps: [{ bid: { bidder: "alice", price: 100, qty: 5, cap: 120, maxSpend: 10 } }],
+        vwapOverride: 100,
+        expect: { revert: "insufficient escrow" },
+      }),
+    );
+    expect(result.passed).to.eq(true);
+  });
+
+  it("rejects malformed scenario files", () => {
+    expect(() => parseScenario({ contract: "Nope", supply: 1, steps: [], expect: {} })).to.throw("contract");
+    expect(() =>
+      parseScenario({ contract: "MedicineAuction", supply: 1, steps: [{ bid: { bidder: "a", qty: 1 } }], expect: {} }),
+    ).to.throw("steps[0].bid.price");
+    expect(() =>
+      parseScenario({ contract: "MedicineAuction", supply: 1, steps: [], vwapOverride: 1, expect: {} }),
+    ).to.throw("vwapOverride");
+  });
+});
@@ -0,0 +1,251 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+
+import { QtyReveal, ReserveCheck, type OnChainBid } from "@fhevwap/auction/auctionTypes";
+import { ALL_OR_NOTHING } from "@fhevwap/auction/allocation";
+import { simulateSettlement } from "@fhevwap/auction/simulateSettlement";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+type ScenarioBid = { bidder: number; qty: bigint; priceCap: bigint; maxSpend?: bigint; minFill?: bigint };
+type Scenario = { name: string; S: bigint; vwap: bigint; bids: ScenarioBid[] };
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: "S >= Q with an ineligible bid",
+    S: 100n,
+    vwap: 98n,
+    bids: [
+      { bidder: 0, qty: 30n, priceCap: 120n },
+      { bidder: 1, qty: 50n, priceCap: 90n },
+      { bidder: 2, qty: 10n, priceCap: 98n },
+    ],
+  },
+  {
+    name: "pro-rata with rounding dust",
+    S: 10n,
+    vwap: 100n,
+    bids: [
+      { bidder: 0, qty: 4n, priceCap: 100n },
+      { bidder: 1, qty: 4n, priceCap: 150n },
+      { bidder: 2, qty: 4n, priceCap: 200n },
+      { bidder: 0, qty: 7n, priceCap: 99n },
+    ],
+  },
+  {
+    name: "pro-rata with uneven demand and loose escrow",
+    S: 77n,
+    vwap: 13n,
+    bids: [
+      { bidder: 0, qty: 31n, priceCap: 20n, maxSpend: 1000n },
+      { bidder: 1, qty: 59n, priceCap: 13n },
+      { bidder: 2, qty: 3n, priceCap: 50n },
+      { bidder: 1, qty: 11n, priceCap: 14n, maxSpend: 500n },
+    ],
+  },
+  {
+    name: "nobody eligible",
+    S: 50n,
+    vwap: 100n,
+    bids: [
+      { bidder: 0, qty: 5n, priceCap: 60n },
+      { bidder: 1, qty: 8n, priceCap: 99n },
+    ],
+  },
+  {
+    name: "insufficient escrow",
+    S: 100n,
+    vwap: 100n,
+    bids: [
+      { bidder: 0, qty: 10n, priceCap: 150n },
+      { bidder: 1, qty: 10n, priceCap: 120n, maxSpend: 999n },
+    ],
+  },
+  {
+    name: "minimum fill above the pro-rata share",
+    S: 100n,
+    vwap: 100n,
+    bids: [
+      { bidder: 0, qty: 60n, priceCap: 120n },
+      { bidder: 1, qty: 60n, priceCap: 120n, minFill: 55n },
+      { bidder: 2, qty: 40n, priceCap: 120n },
+    ],
+  },
+  {
+    name: "all-or-nothing and minimum fills still oversubscribed",
+    S: 100n,
+    vwap: 10n,
+    bids: [
+      { bidder: 0, qty: 100n, priceCap: 20n, minFill: 40n },
+      { bidder: 1, qty: 100n, priceCap: 15n, minFill: ALL_OR_NOTHING },
+      { bidder: 2, qty: 50n, priceCap: 10n, minFill: 10n },
+      { bidder: 1, qty: 30n, priceCap: 9n, minFill: ALL_OR_NOTHING },
+    ],
+  },
+];
+
+describe("simulateSettlement vs FHEVWAPAuction.settle", function () {
+  let seller: HardhatEthersSigner;
+  let bidders: HardhatEthersSigner[];
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+
+  before(async () => {
+    const [, s, ...rest] = await ethers.getSigners();
+    seller = s;
+    bidders = rest.slice(0, 3);
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [deployer] = await ethers.getSigners();
+    base = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("BaseToken", "BASE", 0n);
+    quote = await (await ethers.getContractFactory("MockERC20", deployer)).deploy("QuoteToken", "QUOTE", 0n);
+    await (await typed(base).mint(seller.address, 1_000_000n)).wait();
+    for (const b of bidders) {
+      await (await typed(quote).mint(b.address, 1_000_000n)).wait();
+    }
+    auction = await (await ethers.getContractFactory("TestableFHEVWAPAuction", deployer)).deploy(ethers.ZeroAddress);
+  });
+
+  async function runUntilSettle(sc: Scenario) {
+    const addr = await auction.getAddress();
+    await (await typed(base).connect(seller).approve(addr, sc.S)).wait();
+    const ts = await latestTimestamp();
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuction(await base.getAddress(), await quote.getAddress(), sc.S, ts - 1, ts + 3600)
+    ).wait();
+    const auctionId = 1;
+
+    for (const b of sc.bids) {
+      const signer = bidders[b.bidder];
+      const maxSpend = b.maxSpend ?? b.qty * b.priceCap;
+      await (await typed(quote).connect(signer).approve(addr, maxSpend)).wait();
+      const enc = await fhevm.createEncryptedInput(addr, signer.address).add64(sc.vwap).encrypt();
+      await (
+        await typed(auction)
+          .connect(signer)
+          .submitBid(auctionId, enc.handles[0], enc.inputProof, b.qty, b.priceCap, maxSpend)
+      ).wait();
+      if (b.minFill !== undefined) {
+        const bidIndex = sc.bids.indexOf(b);
+        await (await typed(auction).connect(signer).setMinFill(auctionId, bidIndex, b.minFill)).wait();
+      }
+    }
+
+    await increaseTime(4000);
+    await (await typed(auction).computeEncryptedVWAP(auctionId)).wait();
+    await (await typed(auction).testSetVWAP(auctionId, sc.vwap)).wait();
+
+    const raw = await typed(auction).getBids(auctionId);
+    const bids: OnChainBid[] = raw.map((b: any, index: number) => ({
+      index,
+      buyer: b.buyer,
+      qty: b.qty,
+      priceCap: b.priceCap,
+      maxSpend: b.maxSpend,
+      settled: b.settled,
+      cancelled: b.cancelled,
+      encryptedCap: false,
+      capMet: b.capMet,
+      confidentialQty: false,
+      allocation: b.allocation,
+      minFill: b.minFill,
+      minFillExcluded: b.minFillExcluded,
+    }));
+    const a = await typed(auction).auctions(auctionId);
+    const sim = simulateSettlement(
+      {
+        seller: a.seller,
+        S: a.S,
+        end: Number(a.end),
+        sumQ: a.sumQ,
+        vwap: a.vwap,
+        vwapSet: a.vwapSet,
+        settled: a.settled,
+        encryptedCaps: false,
+        eligibilityRequested: false,
+        pendingEligibility: 0,
+        confidentialQuantities: false,
+        qtyReveal: QtyReveal.Hidden,
+        pendingAllocations: 0,
+        eligibleQ: 0n,
+        baseUnit: 1n,
+        reserveCheck: ReserveCheck.None,
+      },
+      bids,
+    );
+    return { auctionId, sim };
+  }
+
+  async function balances() {
+    const who = [seller, ...bidders];
+    return Promise.all(
+      who.map(async (s) => ({
+        base: (await typed(base).balanceOf(s.address)) as bigint,
+        quote: (await typed(quote).balanceOf(s.address)) as bigint,
+      })),
+    );
+  }
+
+  for (const sc of SCENARIOS) {
+    it(`matches on-chain settlement: ${sc.name}`, async () => {
+      const { auctionId, sim } = await runUntilSettle(sc);
+
+      if (!sim.ok) {
+        await expect(typed(auction).connect(seller).settle(auctionId)).to.be.revertedWith(sim.reason);
+        return;
+      }
+
+      const before = await balances();
+      const receipt = await (await typed(auction).connect(seller).settle(auctionId)).wait();
+      const after = await balances();
+
+      // Per-wallet deltas
+      const expected = [seller, ...bidders].map(() => ({ base: 0n, quote: 0n }));
+      expected[0].base = sim.baseReturned;
+      expected[0].quote = sim.sellerProceeds;
+      for (const b of sim.bids) {
+        const i = 1 + bidders.findIndex((s) => s.address === b.buyer);
+        expected[i].base += b.allocation;
+        expected[i].quote += b.refund;
+      }
+      expect(after.map((x, i) => ({ base: x.base - before[i].base, quote: x.quote - before[i].quote }))).to.deep.eq(
+        expected,
+      );
+
+      // Allocated events, in bid order, for eligible bids only
+      const allocated = receipt.logs
+        .map((l: any) => {
+          try {
+            return typed(auction).interface.parseLog(l);
+          } catch {
+            return null;
+          }
+        })
+        .filter((e: any) => e?.name === "Allocated")
+        .map((e: any) => [e.args.buyer, e.args.alloc, e.args.spend]);
+      expect(allocated).to.deep.eq(sim.bids.filter((b) => b.eligible).map((b) => [b.buyer, b.allocation, b.spend]));
+    });
+  }
+});
@@ -0,0 +1,171 @@
+/* eslint-disable */
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseContract } from "ethers";
+import { auctionOptions } from "@fhevwap/auction/auctionOptions";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+function typed(contract: BaseContract) {
+  return contract as unknown as { [key: string]: any };
+}
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return Number(block!.timestamp);
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Prices and caps are quote units per whole base token: spend = alloc * vwap / 10^baseDecimals
+describe("FHEVWAPAuction with decimal tokens", function () {
+  let seller: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let base: BaseContract;
+  let quote: BaseContract;
+  let auction: BaseContract;
+
+  const AUCTION_ID = 1;
+
+  before(async () => {
+    [, seller, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  async function deploy(baseDecimals: number, quoteDecimals: number, S: bigint, confidential = false) {
+    const [deployer] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("MockERC20Decimals", deployer);
+    base = await factory.deploy("BaseToken", "BASE", 0n, baseDecimals);
+    quote = await factory.deploy("QuoteToken", "QUOTE", 0n, quoteDecimals);
+    await (await typed(base).mint(seller.address, S)).wait();
+    for (const b of [alice, bob]) {
+      await (await typed(quote).mint(b.address, ethers.parseUnits("1000", quoteDecimals))).wait();
+    }
+    auction = await (await ethers.getContractFactory("FHEVWAPAuction", deployer)).deploy(ethers.ZeroAddress);
+
+    await (
+      await typed(base)
+        .connect(seller)
+        .approve(await auction.getAddress(), S)
+    ).wait();
+    const ts = await latestTimestamp();
+    await (
+      await typed(auction)
+        .connect(seller)
+        .createAuctionWithOptions(
+          await base.getAddress(),
+          await quote.getAddress(),
+          S,
+          ts - 1,
+          ts + 3600,
+          auctionOptions({ confidentialQuantities: confidential }),
+        )
+    ).wait();
+  }
+
+  async function approve(signer: HardhatEthersSigner, amount: bigint) {
+    await (
+      await typed(quote)
+        .connect(signer)
+        .approve(await auction.getAddress(), amount)
+    ).wait();
+  }
+
+  async function revealVWAP(): Promise<bigint> {
+    await (await typed(auction).computeEncryptedVWAP(AUCTION_ID)).wait();
+    await (await typed(auction).connect(seller).requestVWAPDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    return (await typed(auction).auctions(AUCTION_ID)).vwap;
+  }
+
+  it("settles an 18-decimal base against a 6-decimal quote per whole base token", async () => {
+    const units = (v: string) => ethers.parseUnits(v, 18);
+    const usd = (v: string) => ethers.parseUnits(v, 6);
+    await deploy(18, 6, units("10"));
+    expect(await typed(auction).baseUnit(AUCTION_ID)).to.eq(10n ** 18n);
+
+    const bids: [HardhatEthersSigner, bigint, bigint][] = [
+      [alice, usd("2.5"), usd("3")],
+      [bob, usd("1.5"), usd("2")],
+    ];
+    for (const [signer, price, cap] of bids) {
+      // 6 tokens at the cap: 6 * cap quote units
+      const maxSpend = (units("6") * cap) / 10n ** 18n;
+      await approve(signer, maxSpend);
+      const enc = await fhevm
+        .createEncryptedInput(await auction.getAddress(), signer.address)
+        .add64(price)
+        .encrypt();
+      await (
+        await typed(auction)
+          .connect(signer)
+          .submitBid(AUCTION_ID, enc.handles[0], enc.inputProof, units("6"), cap, maxSpend)
+      ).wait();
+    }
+
+    await increaseTime(3601);
+    expect(await revealVWAP()).to.eq(usd("2"));
+
+    // 12 tokens wanted for 10: 5 each at 2 USD = 10 USD
+    await (await typed(auction).connect(seller).settle(AUCTION_ID)).wait();
+    expect(await typed(base).balanceOf(alice.address)).to.eq(units("5"));
+    expect(await typed(base).balanceOf(bob.address)).to.eq(units("5"));
+    expect(await typed(quote).balanceOf(seller.address)).to.eq(usd("20"));
+    expect(await typed(quote).balanceOf(alice.address)).to.eq(usd("990"));
+    expect(await typed(quote).balanceOf(bob.address)).to.eq(usd("990"));
+  });
+
+  it("bounds confidential quantities by maxSpend * baseUnit / priceCap", async () => {
+    const units = (v: string) => ethers.parseUnits(v, 6);
+    const eth = (v: string) => ethers.parseUnits(v, 18);
+    await deploy(6, 18, units("10"), true);
+
+    // alice escrows exactly 3.5 * 1.5; bob's 2.9 cannot pay 2 tokens at 1.5 and is voided
+    const bids: [HardhatEthersSigner, bigint, bigint][] = [
+      [alice, units("3.5"), eth("5.25")],
+      [bob, units("2"), eth("2.9")],
+    ];
+    for (const [signer, qty, maxSpend] of bids) {
+      await approve(signer, maxSpend);
+      const enc = await fhevm
+        .createEncryptedInput(await auction.getAddress(), signer.address)
+        .add64(eth("1.2"))
+        .add64(qty)
+        .encrypt();
+      await (
+        await typed(auction)
+          .connect(signer)
+          .submitBidConfidentialQty(AUCTION_ID, enc.handles[0], enc.handles[1], enc.inputProof, eth("1.5"), maxSpend)
+      ).wait();
+    }
+    const stored = await typed(auction).getBids(AUCTION_ID);
+    const auctionAddress = await auction.getAddress();
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, stored[0].encQty, auctionAddress, alice)).to.eq(
+      units("3.5"),
+    );
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, stored[1].encQty, auctionAddress, bob)).to.eq(0n);
+
+    await increaseTime(3601);
+    await (await typed(auction).requestSumQDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    expect(await revealVWAP()).to.eq(eth("1.2"));
+    await (await typed(auction).requestEligibleDemandDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+    await (await typed(auction).connect(seller).requestAllocationDecryption(AUCTION_ID)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    await (await typed(auction).connect(seller).settle(AUCTION_ID)).wait();
+    expect(await typed(base).balanceOf(alice.address)).to.eq(units("3.5"));
+    expect(await typed(quote).balanceOf(seller.address)).to.eq(eth("4.2"));
+    expect(await typed(quote).balanceOf(bob.address)).to.eq(eth("1000"));
+  });
+});
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { canonicalAuctionMetadata } from "@fhevwap/auction/auctionMetadata";
+import { metadataStore } from "../store";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ hash: string }> }) {
+  const metadata = await metadataStore.get((await params).hash);
+  if (!metadata) {
+    return NextResponse.json({ errors: ["not found"] }, { status: 404 });
+  }
+  return new NextResponse(canonicalAuctionMetadata(metadata), { headers: { "Content-Type": "application/json" } });
+}
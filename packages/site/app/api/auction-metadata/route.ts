@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { validateAuctionMetadata } from "@fhevwap/auction/auctionMetadata";
+import { metadataStore } from "./store";
+
+export async function POST(request: Request) {
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch {
+    return NextResponse.json({ errors: ["body must be JSON"] }, { status: 400 });
+  }
+  const result = validateAuctionMetadata(raw);
+  if (!result.ok) {
+    return NextResponse.json({ errors: result.errors }, { status: 400 });
+  }
+  return NextResponse.json({ hash: await metadataStore.put(result.metadata) });
+}
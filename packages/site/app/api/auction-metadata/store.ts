@@ -0,0 +1,5 @@
+import * as path from "path";
+import { JsonFileAuctionMetadataStore } from "@fhevwap/auction/storage/JsonFileAuctionMetadataStore";
+
+// Development store shared with the hardhat `auction:create --metadata` task (packages/site/.auction-metadata)
+export const metadataStore = new JsonFileAuctionMetadataStore(path.join(process.cwd(), ".auction-metadata"));
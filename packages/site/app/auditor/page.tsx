@@ -0,0 +1,11 @@
+import { AuditorApp } from "@/components/AuditorApp";
+
+export default function Auditor() {
+  return (
+    <main className="">
+      <div className="flex flex-col gap-8 items-center sm:items-start w-full px-3 md:px-0">
+        <AuditorApp />
+      </div>
+    </main>
+  );
+}
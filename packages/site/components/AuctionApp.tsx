@@ -5,24 +5,27 @@ import { useMetaMaskEthersSigner } from "../hooks/metamask/useMetaMaskEthersSign
 import { ethers } from "ethers";
 import { useCallback, useEffect, useMemo, useState } from "react";
 
-import { FHEVWAPAuctionABI } from "@/abi/FHEVWAPAuctionABI";
+import { AuctionClient } from "@fhevwap/auction/AuctionClient";
+import { AuctionIndexer } from "@fhevwap/auction/AuctionIndexer";
+import { ReserveCheck, type Claimable, type OnChainAuction, type OnChainBid, type TokenAccount, type TokenInfo } from "@fhevwap/auction/auctionTypes";
+import type { AuctionIndexProjection } from "@fhevwap/auction/indexerTypes";
+import { buildMyBids } from "@fhevwap/auction/myBids";
+import { MAX_UINT64, parseBidAmount } from "@fhevwap/auction/bidLimits";
+import { formatAmount, maxSpendFor, parseAmount, type TokenDecimals } from "@fhevwap/auction/amounts";
+import { ALL_OR_NOTHING } from "@fhevwap/auction/allocation";
+import { IndexedDBAuctionIndexStorage } from "@fhevwap/auction/storage/IndexedDBAuctionIndexStorage";
+import { MyBidsPanel, type BidAmendment } from "./MyBidsPanel";
+import type { MyBidRow } from "@fhevwap/auction/myBids";
+import { SettlementPreview } from "./SettlementPreview";
+import { TokenPicker } from "./TokenPicker";
+import { useTokenList } from "../hooks/useTokenList";
+import { findToken, isEthQuoted, nativeEthToken, validateTokenPair } from "@fhevwap/auction/tokenList";
+import { AuctionPhase, canPerform, deriveAuctionPhase } from "@fhevwap/auction/auctionPhase";
 import { FHEVWAPAuctionAddresses } from "@/abi/FHEVWAPAuctionAddresses";
-import { BaseTokenABI } from "@/abi/BaseTokenABI";
 import { BaseTokenAddresses } from "@/abi/BaseTokenAddresses";
-import { QuoteTokenABI } from "@/abi/QuoteTokenABI";
 import { QuoteTokenAddresses } from "@/abi/QuoteTokenAddresses";
 
-type AuctionView = {
-  id: number;
-  seller: string;
-  S: bigint;
-  start: number;
-  end: number;
-  vwap: bigint;
-  vwapSet: boolean;
-  settled: boolean;
-  sumQ: bigint;
-};
+type AuctionView = OnChainAuction & { decimals: TokenDecimals };
 
 export const AuctionApp = () => {
   const { provider, chainId, isConnected, connect, ethersSigner, ethersReadonlyProvider } = useMetaMaskEthersSigner();
@@ -44,12 +47,13 @@ export const AuctionApp = () => {
       | undefined;
   }, [chainId]);
 
-  const baseAddress = useMemo(() => {
+  // Deployed demo tokens: preselected, but any ERC20 pair can be picked
+  const defaultBaseAddress = useMemo(() => {
     if (!chainId) return undefined;
     return BaseTokenAddresses[String(chainId) as keyof typeof BaseTokenAddresses]?.address as `0x${string}` | undefined;
   }, [chainId]);
 
-  const quoteAddress = useMemo(() => {
+  const defaultQuoteAddress = useMemo(() => {
     if (!chainId) return undefined;
     return QuoteTokenAddresses[String(chainId) as keyof typeof QuoteTokenAddresses]?.address as
       | `0x${string}`
@@ -58,23 +62,61 @@ export const AuctionApp = () => {
 
   const auctionReadonly = useMemo(() => {
     if (!auctionAddress || !ethersReadonlyProvider) return undefined;
-    return new ethers.Contract(auctionAddress, FHEVWAPAuctionABI.abi, ethersReadonlyProvider);
+    return new AuctionClient({ address: auctionAddress, runner: ethersReadonlyProvider, variant: "generic" });
   }, [auctionAddress, ethersReadonlyProvider]);
 
   const auctionSigner = useMemo(() => {
     if (!auctionAddress || !ethersSigner) return undefined;
-    return new ethers.Contract(auctionAddress, FHEVWAPAuctionABI.abi, ethersSigner);
-  }, [auctionAddress, ethersSigner]);
+    return new AuctionClient({ address: auctionAddress, runner: ethersSigner, variant: "generic", log: addLog });
+  }, [auctionAddress, ethersSigner, addLog]);
 
-  const baseToken = useMemo(() => {
-    if (!baseAddress || !ethersSigner) return undefined;
-    return new ethers.Contract(baseAddress, BaseTokenABI.abi, ethersSigner);
-  }, [baseAddress, ethersSigner]);
+  const { tokens, remember, forget } = useTokenList(chainId);
+  const [baseToken, setBaseToken] = useState<TokenInfo | undefined>(undefined);
+  const [quoteToken, setQuoteToken] = useState<TokenInfo | undefined>(undefined);
+  useEffect(() => {
+    setBaseToken(undefined);
+    setQuoteToken(undefined);
+    if (!auctionReadonly) return;
+    const preselect = (address: `0x${string}` | undefined, select: typeof setBaseToken) => {
+      if (!address) return;
+      auctionReadonly.getTokenInfo(address).then((token) => {
+        remember(token);
+        select((prev) => prev ?? token);
+      }, () => {});
+    };
+    preselect(defaultBaseAddress, setBaseToken);
+    preselect(defaultQuoteAddress, setQuoteToken);
+  }, [auctionReadonly, defaultBaseAddress, defaultQuoteAddress, remember]);
 
-  const quoteToken = useMemo(() => {
-    if (!quoteAddress || !ethersSigner) return undefined;
-    return new ethers.Contract(quoteAddress, QuoteTokenABI.abi, ethersSigner);
-  }, [quoteAddress, ethersSigner]);
+  // Auctions quoted in the contract's WETH take native ETH, offered as a quote choice
+  const [weth, setWeth] = useState<`0x${string}` | undefined>(undefined);
+  useEffect(() => {
+    setWeth(undefined);
+    auctionReadonly?.weth().then(setWeth, () => {});
+  }, [auctionReadonly]);
+  const nativeToken = useMemo(() => (weth ? nativeEthToken(weth) : undefined), [weth]);
+
+  // The create form and balances are in whole tokens of the selected pair
+  const tokenDecimals = useMemo<TokenDecimals>(() => ({ base: baseToken?.decimals ?? 0, quote: quoteToken?.decimals ?? 0 }), [baseToken, quoteToken]);
+  const baseLabel = baseToken?.symbol ?? "BASE";
+  const quoteLabel = quoteToken?.symbol ?? "QUOTE";
+  const tokenLabel = useCallback(
+    (address: string) =>
+      isEthQuoted(address, weth) ? "ETH" : findToken(tokens, address)?.symbol ?? `${address.slice(0, 6)}…${address.slice(-4)}`,
+    [tokens, weth]
+  );
+
+  const indexer = useMemo(() => {
+    if (!auctionAddress || !chainId || !ethersReadonlyProvider) return undefined;
+    const entry = FHEVWAPAuctionAddresses[String(chainId) as keyof typeof FHEVWAPAuctionAddresses] as { deployBlock?: number } | undefined;
+    return new AuctionIndexer({
+      runner: ethersReadonlyProvider,
+      address: auctionAddress,
+      chainId,
+      startBlock: entry?.deployBlock ?? 0,
+      storage: new IndexedDBAuctionIndexStorage(),
+    });
+  }, [auctionAddress, chainId, ethersReadonlyProvider]);
 
   const connectedAddressShort = useMemo(() => {
     const addr = ethersSigner?.address as string | undefined;
@@ -82,35 +124,35 @@ export const AuctionApp = () => {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
   }, [ethersSigner]);
 
+  const [bidsByAuction, setBidsByAuction] = useState<Record<number, OnChainBid[]>>({});
+  const [projection, setProjection] = useState<AuctionIndexProjection | undefined>(undefined);
+  // Bumped on every refresh so token balances and allowances are re-read after transactions
+  const [refreshKey, setRefreshKey] = useState<number>(0);
   const refreshAuctions = useCallback(async () => {
     if (!auctionReadonly) return;
     try {
       setIsLoading(true);
-      const count: bigint = await auctionReadonly.auctionsCount();
-      const list: AuctionView[] = [];
-      for (let i = 1n; i <= count; i++) {
-        const a = await auctionReadonly.auctions(i);
-        list.push({
-          id: Number(i),
-          seller: a.seller as string,
-          S: a.S as bigint,
-          start: Number(a.start),
-          end: Number(a.end),
-          vwap: a.vwap as bigint,
-          vwapSet: a.vwapSet as boolean,
-          settled: a.settled as boolean,
-          sumQ: a.sumQ as bigint,
-        });
-      }
+      const direct = await auctionReadonly.listAuctions();
+      const [decimals, bidLists] = await Promise.all([
+        Promise.all(direct.map((a) => auctionReadonly.getAuctionDecimals(a))),
+        Promise.all(direct.map((a) => auctionReadonly.getBids(a.id))),
+      ]);
+      const list = direct.map((a, i) => ({ ...a, decimals: decimals[i] }));
       setAuctions(list);
+      setBidsByAuction(Object.fromEntries(list.map((a, i) => [a.id, bidLists[i]])));
+      if (indexer) {
+        // Only needed for settlement details (allocation/spend/refund per bid)
+        indexer.sync().then(setProjection, (e) => addLog(`Indexer sync failed: ${(e as Error).message}`));
+      }
       addLog(`Refreshed auctions (count=${list.length}).`);
     } catch (e) {
       setMessage("Failed to load auctions: " + (e as Error).message);
       addLog(`Failed to load auctions: ${(e as Error).message}`);
     } finally {
       setIsLoading(false);
+      setRefreshKey((k) => k + 1);
     }
-  }, [auctionReadonly, addLog]);
+  }, [auctionReadonly, indexer, addLog]);
 
   useEffect(() => {
     refreshAuctions();
@@ -124,34 +166,61 @@ export const AuctionApp = () => {
       addLog(`Oracle callback: VWAPDecrypted(auctionId=${Number(auctionId)}, vwap=${String(vwap)})`);
       refreshAuctions();
     };
-    auctionSigner.on("VWAPDecrypted", handler);
+    const events = auctionSigner.contract;
+    events.on("VWAPDecrypted", handler);
     return () => {
       try {
-        auctionSigner.off("VWAPDecrypted", handler);
+        events.off("VWAPDecrypted", handler);
       } catch {}
     };
   }, [auctionSigner, refreshAuctions, addLog]);
 
+  const [now, setNow] = useState<number>(() => Math.floor(Date.now() / 1000));
+  useEffect(() => {
+    const t = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 10_000);
+    return () => clearInterval(t);
+  }, []);
+
   const [formS, setFormS] = useState<string>("100");
   const [formStartMins, setFormStartMins] = useState<string>("0");
   const [formEndMins, setFormEndMins] = useState<string>("10");
+  const [formPull, setFormPull] = useState<boolean>(false);
+  const [formEncCaps, setFormEncCaps] = useState<boolean>(false);
+  const [formConfQty, setFormConfQty] = useState<boolean>(false);
+  // Optional, in quote per whole base token; encrypted, so bidders never learn it
+  const [formReserve, setFormReserve] = useState<string>("");
   const [actionBusy, setActionBusy] = useState<boolean>(false);
 
   const onCreateAuction = useCallback(async () => {
-    if (!auctionSigner || !baseToken || !baseAddress || !quoteAddress) return;
+    if (!auctionSigner) return;
+    const pairError = validateTokenPair(baseToken?.address, quoteToken?.address);
+    if (!baseToken || !quoteToken || pairError) {
+      setMessage(pairError === "same" ? "Base and quote must be different tokens" : "Pick a base and a quote token");
+      return;
+    }
     try {
       setActionBusy(true);
-      const S = BigInt(formS || "0");
+      const S = parseAmount(formS || "0", tokenDecimals.base);
+      if (S === undefined) {
+        setMessage(`S must be an amount with at most ${tokenDecimals.base} decimals`);
+        return;
+      }
+      const reserve = formReserve ? parseBidAmount(formReserve, tokenDecimals.quote) : undefined;
+      if (formReserve && reserve === undefined) {
+        setMessage(`Reserve needs at most ${tokenDecimals.quote} decimals and ${MAX_UINT64} raw units`);
+        return;
+      }
+      if (reserve !== undefined && !instance) {
+        setMessage("FHEVM instance not ready to encrypt the reserve");
+        return;
+      }
       const now = Math.floor(Date.now() / 1000);
       const start = now + Number(formStartMins || 0) * 60;
       const end = now + Number(formEndMins || 0) * 60;
-      addLog(`Approving BaseToken allowance to auction...`);
-      await (await baseToken.approve(auctionSigner.target, S)).wait();
-      addLog(`BaseToken approved.`);
-      const tx = await auctionSigner.createAuction(baseAddress, quoteAddress, S, start, end);
-      addLog(`createAuction sent: tx=${tx.hash}`);
-      await tx.wait();
-      addLog(`createAuction confirmed.`);
+      const encryptedReserve = reserve !== undefined && instance ? await auctionSigner.encryptPrice(instance, reserve) : undefined;
+      // Permit-capable tokens (EIP-2612 or Permit2) skip the approve transaction
+      addLog(`Escrowing ${baseToken.symbol} with a permit or an allowance...`);
+      await auctionSigner.permitAndCreateAuction({ baseToken: baseToken.address, quoteToken: quoteToken.address, S, start, end, pullPayments: formPull, encryptedCaps: formEncCaps, confidentialQuantities: formConfQty, encryptedReserve });
       setMessage("Auction created!");
       await refreshAuctions();
     } catch (e) {
@@ -160,35 +229,38 @@ export const AuctionApp = () => {
     } finally {
       setActionBusy(false);
     }
-  }, [auctionSigner, baseToken, baseAddress, quoteAddress, formS, formStartMins, formEndMins, refreshAuctions, addLog]);
+  }, [auctionSigner, instance, baseToken, quoteToken, formS, formStartMins, formEndMins, formPull, formEncCaps, formConfQty, formReserve, tokenDecimals, refreshAuctions, addLog]);
 
   const [bidAuctionId, setBidAuctionId] = useState<string>("1");
   const [bidPrice, setBidPrice] = useState<string>("100");
   const [bidQty, setBidQty] = useState<string>("10");
   const [bidCap, setBidCap] = useState<string>("120");
+  // Smallest acceptable allocation; all-or-nothing asks for the full qty
+  const [bidMinFill, setBidMinFill] = useState<string>("");
+  const [bidAon, setBidAon] = useState<boolean>(false);
   const [bidBusy, setBidBusy] = useState<boolean>(false);
+  // On WETH-quoted auctions: attach the escrow as ETH rather than approving WETH
+  const [payInEth, setPayInEth] = useState<boolean>(true);
 
   const onSubmitBid = useCallback(async () => {
-    if (!auctionSigner || !instance || !quoteToken || !ethersSigner) return;
+    if (!auctionSigner || !instance || !ethersSigner) return;
     try {
       setBidBusy(true);
       const auctionId = Number(bidAuctionId || "1");
-      const price = Number(bidPrice || "0");
-      const qty = Number(bidQty || "0");
-      const cap = Number(bidCap || "0");
-      const maxSpend = BigInt(cap * qty);
-      addLog(`Approving QuoteToken allowance (maxSpend=${maxSpend})...`);
-      await (await quoteToken.approve(auctionSigner.target, maxSpend)).wait();
-      addLog(`QuoteToken approved.`);
-      addLog(`Encrypting price with FHE (WASM)...`);
-      const input = instance.createEncryptedInput(auctionSigner.target as `0x${string}`, ethersSigner.address);
-      input.add64(price);
-      const enc = await input.encrypt();
-      addLog(`Encryption done. handle=${String(enc.handles[0])}, proofBytes=${enc.inputProof?.length ?? 0}`);
-      const tx = await auctionSigner.submitBid(auctionId, enc.handles[0], enc.inputProof, qty, cap, maxSpend);
-      addLog(`submitBid sent: tx=${tx.hash}`);
-      await tx.wait();
-      addLog(`submitBid confirmed.`);
+      const a = await auctionSigner.getAuction(auctionId);
+      const d = await auctionSigner.getAuctionDecimals(a);
+      const price = parseBidAmount(bidPrice || "0", d.quote);
+      const qty = parseBidAmount(bidQty || "0", d.base);
+      const cap = parseBidAmount(bidCap || "0", d.quote);
+      const minFill = bidAon ? ALL_OR_NOTHING : bidMinFill ? parseBidAmount(bidMinFill, d.base) : 0n;
+      if (price === undefined || qty === undefined || cap === undefined || minFill === undefined) {
+        setMessage(`Price and cap need at most ${d.quote} decimals, qty and min fill at most ${d.base}, all up to ${MAX_UINT64} raw units`);
+        return;
+      }
+      const maxSpend = maxSpendFor(qty, cap, a.baseUnit);
+      const payWithEth = payInEth && isEthQuoted(a.quoteToken, weth);
+      addLog(payWithEth ? `Escrowing ETH (maxSpend=${maxSpend})...` : `Escrowing ${tokenLabel(a.quoteToken)} with a permit or an allowance (maxSpend=${maxSpend})...`);
+      await auctionSigner.permitAndSubmitBid(instance, { auctionId, price, qty, priceCap: cap, maxSpend, payWithEth, minFill });
       setMessage("Bid submitted!");
       await refreshAuctions();
     } catch (e) {
@@ -197,7 +269,43 @@ export const AuctionApp = () => {
     } finally {
       setBidBusy(false);
     }
-  }, [auctionSigner, instance, quoteToken, ethersSigner, bidAuctionId, bidPrice, bidQty, bidCap, refreshAuctions, addLog]);
+  }, [auctionSigner, instance, ethersSigner, bidAuctionId, bidPrice, bidQty, bidCap, bidMinFill, bidAon, payInEth, weth, tokenLabel, refreshAuctions, addLog]);
+
+  const onAmendBid = useCallback(async (row: MyBidRow, amendment: BidAmendment) => {
+    if (!auctionSigner || !instance) return;
+    try {
+      const a = await auctionSigner.getAuction(row.auctionId);
+      const d = await auctionSigner.getAuctionDecimals(a);
+      const price = parseBidAmount(amendment.price || "0", d.quote);
+      const qty = parseBidAmount(amendment.qty || "0", d.base);
+      const cap = parseBidAmount(amendment.cap || "0", d.quote);
+      if (price === undefined || qty === undefined || cap === undefined) {
+        setMessage(`Price and cap need at most ${d.quote} decimals, qty at most ${d.base}, all up to ${MAX_UINT64} raw units`);
+        return;
+      }
+      const maxSpend = maxSpendFor(qty, cap, a.baseUnit);
+      addLog(`Amending bid ${row.index} of #${row.auctionId} (maxSpend=${maxSpend})...`);
+      const payWithEth = payInEth && isEthQuoted(a.quoteToken, weth);
+      await auctionSigner.approveAndAmendBid(instance, { auctionId: row.auctionId, bidIndex: row.index, price, qty, priceCap: cap, maxSpend, payWithEth });
+      setMessage("Bid amended!");
+      await refreshAuctions();
+    } catch (e) {
+      setMessage("Amend failed: " + (e as Error).message);
+      addLog(`Amend failed: ${(e as Error).message}`);
+    }
+  }, [auctionSigner, instance, payInEth, weth, refreshAuctions, addLog]);
+
+  const onCancelBid = useCallback(async (row: MyBidRow) => {
+    if (!auctionSigner) return;
+    try {
+      await auctionSigner.cancelBid(row.auctionId, row.index);
+      setMessage("Bid cancelled, escrow refunded.");
+      await refreshAuctions();
+    } catch (e) {
+      setMessage("Cancel failed: " + (e as Error).message);
+      addLog(`Cancel failed: ${(e as Error).message}`);
+    }
+  }, [auctionSigner, refreshAuctions, addLog]);
 
   const [settleId, setSettleId] = useState<string>("1");
   const [settleBusy, setSettleBusy] = useState<boolean>(false);
@@ -210,10 +318,7 @@ export const AuctionApp = () => {
     try {
       setSettleBusy(true);
       const id = Number(settleId || "1");
-      const tx = await auctionSigner.settle(id);
-      addLog(`settle sent: tx=${tx.hash}`);
-      await tx.wait();
-      addLog(`settle confirmed.`);
+      await auctionSigner.settle(id);
       setMessage("Settled!");
       await refreshAuctions();
     } catch (e) {
@@ -224,25 +329,98 @@ export const AuctionApp = () => {
     }
   }, [auctionSigner, settleId, refreshAuctions, addLog]);
 
-  const [balances, setBalances] = useState<{ base?: bigint; quote?: bigint }>({});
-  const refreshBalances = useCallback(async () => {
-    if (!ethersSigner || !baseAddress || !quoteAddress || !ethersReadonlyProvider) return;
+  // Totals only add up within one pair, so My Bids follows the selected tokens
+  const pairAuctions = useMemo(
+    () =>
+      auctions.filter(
+        (a) => a.baseToken.toLowerCase() === baseToken?.address.toLowerCase() && a.quoteToken.toLowerCase() === quoteToken?.address.toLowerCase()
+      ),
+    [auctions, baseToken, quoteToken]
+  );
+  const myBids = useMemo(
+    () => (ethersSigner?.address ? buildMyBids(ethersSigner.address, pairAuctions, bidsByAuction, projection, now) : undefined),
+    [ethersSigner, pairAuctions, bidsByAuction, projection, now]
+  );
+
+  const pairError = validateTokenPair(baseToken?.address, quoteToken?.address);
+  const bidAuction = auctions.find((a) => a.id === Number(bidAuctionId || "1"));
+  const bidBlocked = bidAuction !== undefined && !canPerform(bidAuction, ethersSigner?.address, "bid", now);
+  const settleBlocked = currentAuction !== undefined && !canPerform(currentAuction, ethersSigner?.address, "settle", now);
+
+  // What the connected wallet can withdraw from the selected pull-payment auction
+  const [claimable, setClaimable] = useState<Claimable | undefined>(undefined);
+  useEffect(() => {
+    setClaimable(undefined);
+    if (!auctionReadonly || !ethersSigner || !currentAuction?.pullPayments || !currentAuction.settled) return;
+    auctionReadonly.getClaimable(currentAuction.id, ethersSigner.address).then(setClaimable, () => {});
+  }, [auctionReadonly, ethersSigner, currentAuction]);
+  const canClaim =
+    currentAuction !== undefined &&
+    canPerform(currentAuction, ethersSigner?.address, "claim", now) &&
+    claimable !== undefined &&
+    (claimable.base > 0n || claimable.quote > 0n);
+  const onClaim = useCallback(async () => {
+    if (!auctionSigner || !currentAuction) return;
     try {
-      const baseRO = new ethers.Contract(baseAddress, BaseTokenABI.abi, ethersReadonlyProvider);
-      const quoteRO = new ethers.Contract(quoteAddress, QuoteTokenABI.abi, ethersReadonlyProvider);
-      const [b, q] = await Promise.all([
-        baseRO.balanceOf(ethersSigner.address),
-        quoteRO.balanceOf(ethersSigner.address),
-      ]);
-      setBalances({ base: b as bigint, quote: q as bigint });
-    } catch {
-      // ignore
+      setSettleBusy(true);
+      await auctionSigner.claim(currentAuction.id);
+      setMessage("Claimed!");
+      await refreshAuctions();
+    } catch (e) {
+      setMessage("Claim failed: " + (e as Error).message);
+      addLog(`Claim failed: ${(e as Error).message}`);
+    } finally {
+      setSettleBusy(false);
     }
-  }, [ethersSigner, baseAddress, quoteAddress, ethersReadonlyProvider]);
+  }, [auctionSigner, currentAuction, refreshAuctions, addLog]);
 
+  const canRequestEligibility =
+    currentAuction !== undefined && canPerform(currentAuction, ethersSigner?.address, "requestEligibilityDecryption", now);
+  const onRequestEligibility = useCallback(async () => {
+    if (!auctionSigner || !currentAuction) return;
+    try {
+      setSettleBusy(true);
+      await auctionSigner.requestEligibilityDecryption(currentAuction.id);
+      setMessage("Eligibility decryption requested.");
+      await refreshAuctions();
+    } catch (e) {
+      setMessage("Eligibility request failed: " + (e as Error).message);
+      addLog(`Eligibility request failed: ${(e as Error).message}`);
+    } finally {
+      setSettleBusy(false);
+    }
+  }, [auctionSigner, currentAuction, refreshAuctions, addLog]);
+
+  // Confidential quantities: the next decryption the connected wallet may request, if any
+  const revealStep = (["requestSumQDecryption", "requestEligibleDemandDecryption", "requestAllocationDecryption"] as const).find(
+    (step) => currentAuction !== undefined && canPerform(currentAuction, ethersSigner?.address, step, now)
+  );
+  const onRevealQuantities = useCallback(async () => {
+    if (!auctionSigner || !currentAuction || !revealStep) return;
+    try {
+      setSettleBusy(true);
+      await auctionSigner[revealStep](currentAuction.id);
+      setMessage("Decryption requested.");
+      await refreshAuctions();
+    } catch (e) {
+      setMessage("Decryption request failed: " + (e as Error).message);
+      addLog(`${revealStep} failed: ${(e as Error).message}`);
+    } finally {
+      setSettleBusy(false);
+    }
+  }, [auctionSigner, currentAuction, revealStep, refreshAuctions, addLog]);
+
+  const [balances, setBalances] = useState<{ base?: TokenAccount; quote?: TokenAccount }>({});
   useEffect(() => {
-    refreshBalances();
-  }, [refreshBalances]);
+    setBalances({});
+    if (!auctionReadonly || !ethersSigner || !baseToken || !quoteToken) return;
+    Promise.all([
+      auctionReadonly.getTokenAccount(baseToken.address, ethersSigner.address),
+      quoteToken.native
+        ? auctionReadonly.getEthBalance(ethersSigner.address).then((balance) => ({ balance, allowance: balance }))
+        : auctionReadonly.getTokenAccount(quoteToken.address, ethersSigner.address),
+    ]).then(([base, quote]) => setBalances({ base, quote }), () => {});
+  }, [auctionReadonly, ethersSigner, baseToken, quoteToken, refreshKey]);
 
   const buttonClass =
     "inline-flex items-center justify-center rounded-xl bg-black px-4 py-3 font-semibold text-white shadow-sm transition-colors duration-200 hover:bg-blue-700 active:bg-blue-800 disabled:opacity-50 disabled:pointer-events-none";
@@ -280,12 +458,15 @@ export const AuctionApp = () => {
         <div className={panelClass}>
           <p className={titleClass}>Balances</p>
           <p className="text-black">Wallet: <span className="font-mono">{connectedAddressShort ?? "-"}</span></p>
-          <p className="text-black">Base: <span className="font-mono">{String(balances.base ?? 0n)}</span></p>
-          <p className="text-black">Quote: <span className="font-mono">{String(balances.quote ?? 0n)}</span></p>
+          <p className="text-black">{baseLabel}: <span className="font-mono">{formatAmount(balances.base?.balance ?? 0n, tokenDecimals.base)}</span></p>
+          <p className="text-black">{quoteLabel}: <span className="font-mono">{formatAmount(balances.quote?.balance ?? 0n, tokenDecimals.quote)}</span></p>
         </div>
         <div className={panelClass}>
           <p className={titleClass}>Create Auction</p>
-          <label htmlFor="s" className={labelClass}>Base amount</label>
+          <TokenPicker id="baseToken" label="Base token (sold)" client={auctionReadonly} account={ethersSigner?.address} tokens={tokens} selected={baseToken} onSelect={setBaseToken} onRemember={remember} onForget={forget} refreshKey={refreshKey} labelClass={labelClass} inputClass={inputClass} />
+          <TokenPicker id="quoteToken" label="Quote token (paid)" client={auctionReadonly} account={ethersSigner?.address} tokens={tokens} nativeToken={nativeToken} selected={quoteToken} onSelect={setQuoteToken} onRemember={remember} onForget={forget} refreshKey={refreshKey} labelClass={labelClass} inputClass={inputClass} />
+          {pairError === "same" && <p className="text-xs text-red-600 mt-1">Base and quote must be different tokens.</p>}
+          <label htmlFor="s" className={`${labelClass} mt-2`}>Base amount ({baseLabel})</label>
           <input id="s" className={inputClass} value={formS} onChange={(e) => setFormS(e.target.value)} />
           <div className="grid grid-cols-2 gap-2 mt-2">
             <div>
@@ -297,7 +478,21 @@ export const AuctionApp = () => {
               <input id="endM" className={inputClass} value={formEndMins} onChange={(e) => setFormEndMins(e.target.value)} />
             </div>
           </div>
-          <button type="button" className={`${buttonClass} mt-3`} disabled={actionBusy} onClick={onCreateAuction}>
+          <label className={`${labelClass} mt-2 flex items-center gap-2`}>
+            <input type="checkbox" checked={formPull} onChange={(e) => setFormPull(e.target.checked)} />
+            Pull payments (participants claim after settle)
+          </label>
+          <label className={`${labelClass} mt-2 flex items-center gap-2`}>
+            <input type="checkbox" checked={formEncCaps} disabled={formConfQty} onChange={(e) => setFormEncCaps(e.target.checked)} />
+            Encrypted price caps
+          </label>
+          <label className={`${labelClass} mt-2 flex items-center gap-2`}>
+            <input type="checkbox" checked={formConfQty} disabled={formEncCaps} onChange={(e) => setFormConfQty(e.target.checked)} />
+            Confidential quantities
+          </label>
+          <label htmlFor="reserve" className={`${labelClass} mt-2`}>Reserve price, optional ({quoteLabel} per {baseLabel}, encrypted)</label>
+          <input id="reserve" className={inputClass} value={formReserve} placeholder="none" onChange={(e) => setFormReserve(e.target.value.trim())} />
+          <button type="button" className={`${buttonClass} mt-3`} disabled={actionBusy || pairError !== undefined} onClick={onCreateAuction}>
             {actionBusy ? "Creating..." : "Create"}
           </button>
         </div>
@@ -311,7 +506,7 @@ export const AuctionApp = () => {
               <input id="price" className={inputClass} value={bidPrice} onChange={(e) => setBidPrice(e.target.value)} />
             </div>
             <div>
-              <label htmlFor="qty" className={labelClass}>Qty</label>
+              <label htmlFor="qty" className={labelClass}>Qty{bidAuction?.confidentialQuantities ? " (enc)" : ""}</label>
               <input id="qty" className={inputClass} value={bidQty} onChange={(e) => setBidQty(e.target.value)} />
             </div>
             <div>
@@ -319,7 +514,26 @@ export const AuctionApp = () => {
               <input id="cap" className={inputClass} value={bidCap} onChange={(e) => setBidCap(e.target.value)} />
             </div>
           </div>
-          <button type="button" className={`${buttonClass} mt-3`} disabled={bidBusy} onClick={onSubmitBid}>
+          {!bidAuction?.confidentialQuantities && (
+            <div className="grid grid-cols-2 gap-2 mt-2 items-end">
+              <div>
+                <label htmlFor="minFill" className={labelClass}>Min fill, optional</label>
+                <input id="minFill" className={inputClass} value={bidAon ? bidQty : bidMinFill} placeholder="any" disabled={bidAon} onChange={(e) => setBidMinFill(e.target.value.trim())} />
+              </div>
+              <label className={`${labelClass} flex items-center gap-2`}>
+                <input type="checkbox" checked={bidAon} onChange={(e) => setBidAon(e.target.checked)} />
+                All or nothing
+              </label>
+            </div>
+          )}
+          {bidAuction && isEthQuoted(bidAuction.quoteToken, weth) && (
+            <label className={`${labelClass} mt-2 flex items-center gap-2`}>
+              <input type="checkbox" checked={payInEth} onChange={(e) => setPayInEth(e.target.checked)} />
+              Pay in ETH (refunds and proceeds are paid in ETH)
+            </label>
+          )}
+          {bidBlocked && <p className="text-xs text-red-600 mt-2">Auction is {deriveAuctionPhase(bidAuction, now).phase}; bidding is closed.</p>}
+          <button type="button" className={`${buttonClass} mt-3`} disabled={bidBusy || bidBlocked} onClick={onSubmitBid}>
             {bidBusy ? "Submitting..." : "Submit Bid"}
           </button>
         </div>
@@ -331,17 +545,34 @@ export const AuctionApp = () => {
           <label htmlFor="settleId" className={labelClass}>Auction ID</label>
           <input id="settleId" className={inputClass} value={settleId} onChange={(e) => setSettleId(e.target.value)} />
           <label htmlFor="vwapOnChain" className={`${labelClass} mt-2`}>VWAP (on-chain)</label>
-          <input id="vwapOnChain" className={inputClass} value={currentAuction?.vwapSet ? String(currentAuction.vwap) : "-"} readOnly />
-          <button type="button" className={`${buttonClass} mt-3`} disabled={settleBusy} onClick={onSettle}>
+          <input id="vwapOnChain" className={inputClass} value={currentAuction?.vwapSet ? formatAmount(currentAuction.vwap, currentAuction.decimals.quote) : "-"} readOnly />
+          {currentAuction && <p className="text-xs text-black mt-2">Phase: {deriveAuctionPhase(currentAuction, now).phase}</p>}
+          {canRequestEligibility && (
+            <button type="button" className={`${buttonClass} mt-3 mr-2`} disabled={settleBusy} onClick={onRequestEligibility}>
+              Decrypt Eligibility
+            </button>
+          )}
+          {revealStep && (
+            <button type="button" className={`${buttonClass} mt-3 mr-2`} disabled={settleBusy} onClick={onRevealQuantities}>
+              {revealStep === "requestSumQDecryption" ? "Decrypt Demand" : revealStep === "requestEligibleDemandDecryption" ? "Decrypt Eligible Demand" : "Decrypt Allocations"}
+            </button>
+          )}
+          <button type="button" className={`${buttonClass} mt-3`} disabled={settleBusy || settleBlocked} onClick={onSettle}>
             {settleBusy ? "Settling..." : "Settle"}
           </button>
+          {canClaim && (
+            <button type="button" className={`${buttonClass} mt-3 ml-2`} disabled={settleBusy} onClick={onClaim}>
+              Claim {formatAmount(claimable.base, currentAuction.decimals.base)} {tokenLabel(currentAuction.baseToken)} +{" "}
+              {formatAmount(claimable.quote, currentAuction.decimals.quote)} {tokenLabel(currentAuction.quoteToken)}
+            </button>
+          )}
         </div>
         <div className={`${panelClass} col-span-2`}>
           <p className={titleClass}>Status</p>
           <p className="text-black">ChainId: <span className="font-mono">{String(chainId)}</span></p>
           <p className="text-black">Auction: <span className="font-mono">{auctionAddress}</span></p>
-          <p className="text-black">Base: <span className="font-mono">{baseAddress}</span></p>
-          <p className="text-black">Quote: <span className="font-mono">{quoteAddress}</span></p>
+          <p className="text-black">Base: <span className="font-mono">{baseToken?.address ?? "-"}</span></p>
+          <p className="text-black">Quote: <span className="font-mono">{quoteToken?.address ?? "-"}</span></p>
           <p className="text-black mt-2">{message}</p>
         </div>
       </div>
@@ -369,22 +600,26 @@ export const AuctionApp = () => {
             {auctions.map((a) => (
               <div key={a.id} className="rounded-md border p-3 text-black">
                 <div className="grid grid-cols-6 gap-2">
-                  <div><span className="font-semibold">ID</span>: {a.id}</div>
+                  <div><span className="font-semibold">ID</span>: {a.id} <span className={deriveAuctionPhase(a, now).phase === AuctionPhase.Open ? "text-green-700" : "text-gray-600"}>({deriveAuctionPhase(a, now).phase})</span></div>
                   <div><span className="font-semibold">Seller</span>: {a.seller}</div>
-                  <div><span className="font-semibold">S</span>: {String(a.S)}</div>
-                  <div><span className="font-semibold">sumQ</span>: {String(a.sumQ)}</div>
-                  <div><span className="font-semibold">VWAP</span>: {a.vwapSet ? String(a.vwap) : "-"}</div>
-                  <div><span className="font-semibold">Settled</span>: {a.settled ? "yes" : "no"}</div>
+                  <div><span className="font-semibold">S</span>: {formatAmount(a.S, a.decimals.base)} {tokenLabel(a.baseToken)}</div>
+                  <div><span className="font-semibold">sumQ</span>: {formatAmount(a.sumQ, a.decimals.base)}</div>
+                  <div><span className="font-semibold">VWAP</span>: {a.vwapSet ? `${formatAmount(a.vwap, a.decimals.quote)} ${tokenLabel(a.quoteToken)}` : "-"}</div>
+                  <div><span className="font-semibold">Settled</span>: {a.settled ? "yes" : "no"}{a.pullPayments ? " (pull payments)" : ""}</div>
                 </div>
                 <div className="grid grid-cols-2 gap-2 mt-1">
                   <div><span className="font-semibold">Start</span>: {new Date(a.start * 1000).toLocaleString()}</div>
                   <div><span className="font-semibold">End</span>: {new Date(a.end * 1000).toLocaleString()}</div>
                 </div>
+                <SettlementPreview auction={a} bids={bidsByAuction[a.id]} decimals={a.decimals} baseLabel={tokenLabel(a.baseToken)} quoteLabel={tokenLabel(a.quoteToken)} />
               </div>
             ))}
           </div>
         </div>
       </div>
+      <div className="col-span-full mx-20">
+        <MyBidsPanel panelClass={panelClass} titleClass={titleClass} summary={myBids} decimals={tokenDecimals} baseLabel={baseLabel} quoteLabel={quoteLabel} isLoading={isLoading} onAmend={onAmendBid} onCancel={onCancelBid} />
+      </div>
       <div className="col-span-full mx-20">
         <div className={panelClass}>
           <p className={titleClass}>Activity Log</p>
@@ -405,8 +640,8 @@ function RequestDecVWAP(props: {
   buttonClass: string;
   inputClass: string;
   labelClass: string;
-  auctionSigner: ethers.Contract | undefined;
-  auctionReadonly: ethers.Contract | undefined;
+  auctionSigner: AuctionClient | undefined;
+  auctionReadonly: AuctionClient | undefined;
   setMessage: (m: string) => void;
   addLog: (m: string) => void;
 }) {
@@ -418,35 +653,20 @@ function RequestDecVWAP(props: {
     try {
       setBusy(true);
       const auctionId = Number(id || "1");
-      // If already computed by someone else, skip compute step to avoid 'already computed'
-      let alreadyComputed = false;
-      if (auctionReadonly) {
-        try {
-          const handle = await auctionReadonly.getEncryptedVWAP(auctionId);
-          if (handle && handle !== ethers.ZeroHash) {
-            alreadyComputed = true;
-            addLog(`encVWAP already computed (handle exists).`);
-          }
-        } catch {
-          // not computed yet -> proceed to compute
-        }
-      }
-      if (!alreadyComputed) {
-        const tx1 = await auctionSigner.computeEncryptedVWAP(auctionId);
-        addLog(`computeEncryptedVWAP sent: tx=${tx1.hash}`);
-        await tx1.wait();
-        addLog(`computeEncryptedVWAP confirmed.`);
+      if ((await auctionSigner.getAuction(auctionId)).reserveCheck === ReserveCheck.Unchecked) {
+        // The VWAP may only be decrypted once it is known to meet the reserve
+        await auctionSigner.computeAndRequestReserveCheck(auctionId);
+        setMessage("Reserve check requested on-chain. Request again once the reserve is met.");
+        return;
       }
-      const tx2 = await auctionSigner.requestVWAPDecryption(auctionId);
-      addLog(`requestVWAPDecryption sent: tx=${tx2.hash}`);
-      await tx2.wait();
-      addLog(`requestVWAPDecryption confirmed.`);
+      // Skips the compute step if someone else already computed the encrypted VWAP
+      await auctionSigner.computeAndRequestVWAPDecryption(auctionId);
       setMessage("VWAP decryption requested on-chain.");
       // Optional immediate poll (in case event misses): try to fetch updated vwap after short delay
       if (auctionReadonly) {
         setTimeout(async () => {
           try {
-            const a = await auctionReadonly.auctions(auctionId);
+            const a = await auctionReadonly.getAuction(auctionId);
             if (a.vwapSet) {
               addLog(`Polled VWAP updated on-chain: ${String(a.vwap)}`);
             }
@@ -0,0 +1,189 @@
+"use client";
+
+import { useFhevm } from "../fhevm/useFhevm";
+import { useMetaMaskEthersSigner } from "../hooks/metamask/useMetaMaskEthersSigner";
+import { useInMemoryStorage } from "../hooks/useInMemoryStorage";
+import { ethers } from "ethers";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { AuctionClient } from "@fhevwap/auction/AuctionClient";
+import type { AuctionVariant, OnChainAuction } from "@fhevwap/auction/auctionTypes";
+import type { AuditReport } from "@fhevwap/auction/audit";
+import { formatAmount, type TokenDecimals } from "@fhevwap/auction/amounts";
+import { FHEVWAPAuctionAddresses } from "@/abi/FHEVWAPAuctionAddresses";
+import { MedicineAuctionAddresses } from "@/abi/MedicineAuctionAddresses";
+
+type AuditView = OnChainAuction & { decimals: TokenDecimals; canAudit: boolean };
+
+// Checks of an AuditReport, in the order the panel lists them
+const CHECKS: { key: "sumQMatches" | "sumPQMatches" | "encVWAPMatches" | "vwapMatches"; label: string }[] = [
+  { key: "sumQMatches", label: "Σ qty equals the public sumQ" },
+  { key: "sumPQMatches", label: "Σ price × qty equals the decrypted encSumPQ" },
+  { key: "encVWAPMatches", label: "Σ price × qty / sumQ equals the decrypted encVWAP" },
+  { key: "vwapMatches", label: "…and the VWAP revealed on-chain" },
+];
+
+export const AuditorApp = () => {
+  const { provider, chainId, isConnected, connect, ethersSigner, ethersReadonlyProvider } = useMetaMaskEthersSigner();
+  const { instance } = useFhevm({ provider, chainId, enabled: true });
+  // Decryption signatures are cached here so auditing several auctions asks for one signature
+  const { storage } = useInMemoryStorage();
+
+  const [variant, setVariant] = useState<AuctionVariant>("medicine");
+  const [auctions, setAuctions] = useState<AuditView[]>([]);
+  const [reports, setReports] = useState<Record<number, AuditReport>>({});
+  const [busy, setBusy] = useState<number | undefined>(undefined);
+  const [message, setMessage] = useState<string>("");
+  const [logs, setLogs] = useState<string[]>([]);
+  const addLog = useCallback((m: string) => {
+    setLogs((prev) => [...prev, `${new Date().toISOString()} — ${m}`]);
+  }, []);
+
+  const auctionAddress = useMemo(() => {
+    if (!chainId) return undefined;
+    const addresses = variant === "medicine" ? MedicineAuctionAddresses : FHEVWAPAuctionAddresses;
+    return addresses[String(chainId) as keyof typeof addresses]?.address as `0x${string}` | undefined;
+  }, [chainId, variant]);
+
+  const auctionReadonly = useMemo(() => (auctionAddress && ethersReadonlyProvider ? new AuctionClient({ address: auctionAddress, runner: ethersReadonlyProvider, variant }) : undefined), [auctionAddress, ethersReadonlyProvider, variant]);
+  const auctionSigner = useMemo(() => (auctionAddress && ethersSigner ? new AuctionClient({ address: auctionAddress, runner: ethersSigner, variant, log: addLog }) : undefined), [auctionAddress, ethersSigner, variant, addLog]);
+
+  const account = ethersSigner?.address;
+  const refreshAuctions = useCallback(async () => {
+    if (!auctionReadonly || !account) return;
+    try {
+      // Only auctions whose encrypted VWAP exists can be audited
+      const list = (await auctionReadonly.listAuctions()).filter((a) => a.encVWAPComputed);
+      const views = await Promise.all(
+        list.map(async (a) => ({
+          ...a,
+          decimals: await auctionReadonly.getAuctionDecimals(a),
+          canAudit: await auctionReadonly.canAudit(a.id, account),
+        }))
+      );
+      setAuctions(views.reverse());
+    } catch (e) {
+      addLog("Loading auctions failed: " + ((e as Error).message ?? String(e)));
+    }
+  }, [auctionReadonly, account, addLog]);
+  useEffect(() => {
+    setReports({});
+    refreshAuctions();
+  }, [refreshAuctions]);
+
+  const auditFor = useCallback(async (id: number) => {
+    if (!auctionSigner || !instance) return;
+    try {
+      setBusy(id);
+      setMessage("");
+      addLog(`Audit of #${id} started`);
+      const report = await auctionSigner.auditAuction(instance, id, storage);
+      setReports((prev) => ({ ...prev, [id]: report }));
+      addLog(`Audit of #${id}: ${report.ok ? "VWAP verified" : "MISMATCH"}`);
+    } catch (e) {
+      const msg = (e as Error).message ?? String(e);
+      setMessage(`Audit of #${id} failed: ${msg}`);
+      addLog(`Audit of #${id} failed: ${msg}`);
+    } finally {
+      setBusy(undefined);
+    }
+  }, [auctionSigner, instance, storage, addLog]);
+
+  const button = "inline-flex items-center justify-center rounded-xl bg-amber-600 px-4 py-3 font-semibold text-white shadow-sm transition-colors duration-200 hover:bg-amber-700 active:bg-amber-800 disabled:opacity-50 disabled:pointer-events-none";
+  const panel = "rounded-xl bg-white/90 backdrop-blur border-2 border-amber-900 p-5";
+  const title = "font-bold text-amber-900 text-lg mb-2";
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen w-full bg-gradient-to-b from-amber-50 to-yellow-50">
+        <div className="mx-auto mt-28 flex items-center justify-center">
+          <button type="button" className={button} onClick={connect}>
+            Connect Wallet
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-b from-amber-50 to-yellow-50">
+      <div className="mx-8 mt-6 flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-4xl font-black text-amber-900">VWAP Audit</h1>
+          <p className="text-amber-800 mt-1">Decrypt every bid price of a closed auction and check the VWAP it produced, without making any price public.</p>
+        </div>
+        <select aria-label="Auction contract" className="rounded-md border px-3 py-2 text-black" value={variant} onChange={(e) => setVariant(e.target.value as AuctionVariant)}>
+          <option value="medicine">Medicine auctions</option>
+          <option value="generic">Generic auctions</option>
+        </select>
+      </div>
+
+      {!auctionAddress && <p className="mx-8 mt-4 text-red-800">No {variant} auction contract is deployed on chain {chainId}.</p>}
+      {message && <p className="mx-8 mt-4 text-red-800">{message}</p>}
+
+      <div className="mx-8 mt-4 space-y-4">
+        {auctions.length === 0 && <p className="text-black">No auction has computed its encrypted VWAP yet.</p>}
+        {auctions.map((a) => {
+          const report = reports[a.id];
+          return (
+            <div key={a.id} className={panel}>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className={title}>Auction #{a.id}</p>
+                  <p className="text-black text-sm">
+                    sumQ {formatAmount(a.sumQ, a.decimals.base)} · VWAP {a.vwapSet ? `${formatAmount(a.vwap, a.decimals.quote)} ${a.priceUnit}` : "not revealed yet"}
+                  </p>
+                  <p className="text-black text-sm">Appointed auditor: <span className="font-mono">{a.auditor === ethers.ZeroAddress ? "none" : a.auditor}</span></p>
+                </div>
+                <button type="button" className={button} disabled={!a.canAudit || !instance || busy !== undefined} onClick={() => auditFor(a.id)}>
+                  {busy === a.id ? "Auditing…" : "Decrypt & verify"}
+                </button>
+              </div>
+              {!a.canAudit && <p className="text-sm text-amber-900 mt-2">This wallet is neither the auction&apos;s auditor nor a registry auditor.</p>}
+              {report && (
+                <div className="mt-3">
+                  <p className={`font-bold ${report.ok ? "text-green-800" : "text-red-800"}`}>{report.ok ? "VWAP verified" : "VWAP does not match the bids"}</p>
+                  <ul className="text-sm text-black mt-1">
+                    {CHECKS.map((c) => (
+                      <li key={c.key}>
+                        {report[c.key] === undefined ? "–" : report[c.key] ? "✓" : "✗"} {c.label}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-sm text-black mt-1">
+                    Recomputed: Σ price × qty = {report.sumPQ.toString()}, sumQ = {formatAmount(report.sumQ, a.decimals.base)}, VWAP = {formatAmount(report.vwap, a.decimals.quote)}
+                  </p>
+                  <table className="mt-2 w-full text-sm text-black">
+                    <thead>
+                      <tr className="text-left text-amber-900">
+                        <th>Bid</th>
+                        <th>Buyer</th>
+                        <th>Price</th>
+                        <th>Qty</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.bids.map((b) => (
+                        <tr key={b.index}>
+                          <td>{b.index}</td>
+                          <td className="font-mono">{b.buyer}</td>
+                          <td>{formatAmount(b.price, a.decimals.quote)}</td>
+                          <td>{formatAmount(b.qty, a.decimals.base)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className={`${panel} mx-8 mt-4`}>
+        <p className={title}>Activity Log</p>
+        <pre className="text-xs text-black whitespace-pre-wrap">{logs.join("\n")}</pre>
+      </div>
+    </div>
+  );
+};
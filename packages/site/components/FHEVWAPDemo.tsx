@@ -3,7 +3,7 @@
 import { useFhevm } from "../fhevm/useFhevm";
 import { useMetaMaskEthersSigner } from "../hooks/metamask/useMetaMaskEthersSigner";
 import { ethers } from "ethers";
-import { FHEVWAPAuctionABI } from "@/abi/FHEVWAPAuctionABI";
+import { FHEVWAPAuctionABI } from "@fhevwap/auction/abi/FHEVWAPAuctionABI";
 import { FHEVWAPAuctionAddresses } from "@/abi/FHEVWAPAuctionAddresses";
 import { BaseTokenABI } from "@/abi/BaseTokenABI";
 import { BaseTokenAddresses } from "@/abi/BaseTokenAddresses";
@@ -4,24 +4,46 @@ import { useFhevm } from "../fhevm/useFhevm";
 import { useMetaMaskEthersSigner } from "../hooks/metamask/useMetaMaskEthersSigner";
 import { ethers } from "ethers";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 
-import { MedicineAuctionABI } from "@/abi/MedicineAuctionABI";
+import { AuctionClient } from "@fhevwap/auction/AuctionClient";
+import { AuctionIndexer } from "@fhevwap/auction/AuctionIndexer";
+import { IndexedDBAuctionIndexStorage } from "@fhevwap/auction/storage/IndexedDBAuctionIndexStorage";
+import { QtyReveal, ReserveCheck, type Claimable, type OnChainAuction, type OnChainBid, type OnChainSeries } from "@fhevwap/auction/auctionTypes";
+import type { AuctionIndexProjection } from "@fhevwap/auction/indexerTypes";
+import { buildMyBids } from "@fhevwap/auction/myBids";
+import { checkBidLimits, MAX_UINT64, parseBidAmount } from "@fhevwap/auction/bidLimits";
+import { formatAmount, maxSpendFor, parseAmount, unitOf, type TokenDecimals } from "@fhevwap/auction/amounts";
+import { ALL_OR_NOTHING } from "@fhevwap/auction/allocation";
+import { findSeriesOf, summarizeSeries } from "@fhevwap/auction/series";
+import { MyBidsPanel, type BidAmendment } from "./MyBidsPanel";
+import type { MyBidRow } from "@fhevwap/auction/myBids";
+import { SettlementPreview } from "./SettlementPreview";
+import { allowedActions, AuctionPhase, auctionRolesOf, canPerform, deriveAuctionPhase, SETTLEMENT_GRACE_PERIOD } from "@fhevwap/auction/auctionPhase";
 import { MedicineAuctionAddresses } from "@/abi/MedicineAuctionAddresses";
 import { MedicineTokenABI } from "@/abi/MedicineTokenABI";
 import { MedicineTokenAddresses } from "@/abi/MedicineTokenAddresses";
-import { StableUSDABI } from "@/abi/StableUSDABI";
 import { StableUSDAddresses } from "@/abi/StableUSDAddresses";
+import { documentHashOf, validateAuctionMetadata, type AuctionMetadata } from "@fhevwap/auction/auctionMetadata";
+import { HttpAuctionMetadataStore } from "@fhevwap/auction/storage/HttpAuctionMetadataStore";
+import { buildAllowlist, parseAddressList } from "@fhevwap/auction/allowlist";
+import { allowlistAccess, bidBlockReason, type ParticipantRoles } from "@fhevwap/auction/registry";
+import { BPS, checkBidderLimits, hasBidderLimits, maxBidderQty, validateBidderLimits } from "@fhevwap/auction/bidderLimits";
+import type { BidderLimits, BidderUsage } from "@fhevwap/auction/auctionTypes";
 
-type AuctionView = {
-  id: number;
-  seller: string;
+// Stored on chain at creation and carried by VWAPFinal. Recurring series are created without one; their VWAPFinal
+// derives the same label from the sUSD symbol
+const PRICE_UNIT = "sUSD per kit";
+
+// Lot details live off-chain; the auction only stores their hash (dev store: app/api/auction-metadata)
+const metadataStore = new HttpAuctionMetadataStore();
+type LotForm = Pick<AuctionMetadata, "title" | "drug" | "dosage" | "deliveryTerms" | "documentHash">;
+const EMPTY_LOT: LotForm = { title: "", drug: "", dosage: "", deliveryTerms: "", documentHash: "" };
+
+type AuctionView = OnChainAuction & {
   kitsAvailable: bigint;
-  start: number;
-  end: number;
-  vwap: bigint;
-  vwapSet: boolean;
-  settled: boolean;
-  sumQ: bigint;
+  bidCount?: number;
+  decimals: TokenDecimals;
 };
 
 export const MedicineApp = () => {
@@ -59,17 +81,24 @@ export const MedicineApp = () => {
   const mtkAddress = useMemo(() => (chainId ? (MedicineTokenAddresses[String(chainId) as keyof typeof MedicineTokenAddresses]?.address as `0x${string}` | undefined) : undefined), [chainId]);
   const susdAddress = useMemo(() => (chainId ? (StableUSDAddresses[String(chainId) as keyof typeof StableUSDAddresses]?.address as `0x${string}` | undefined) : undefined), [chainId]);
 
-  const auctionReadonly = useMemo(() => (auctionAddress && ethersReadonlyProvider ? new ethers.Contract(auctionAddress, MedicineAuctionABI.abi, ethersReadonlyProvider) : undefined), [auctionAddress, ethersReadonlyProvider]);
-  const auctionSigner = useMemo(() => (auctionAddress && ethersSigner ? new ethers.Contract(auctionAddress, MedicineAuctionABI.abi, ethersSigner) : undefined), [auctionAddress, ethersSigner]);
-  const mtk = useMemo(() => (mtkAddress && ethersSigner ? new ethers.Contract(mtkAddress, MedicineTokenABI.abi, ethersSigner) : undefined), [mtkAddress, ethersSigner]);
-  const susd = useMemo(() => (susdAddress && ethersSigner ? new ethers.Contract(susdAddress, StableUSDABI.abi, ethersSigner) : undefined), [susdAddress, ethersSigner]);
+  const auctionReadonly = useMemo(() => (auctionAddress && ethersReadonlyProvider ? new AuctionClient({ address: auctionAddress, runner: ethersReadonlyProvider, variant: "medicine" }) : undefined), [auctionAddress, ethersReadonlyProvider]);
+  const auctionDeployBlock = useMemo(() => (chainId ? (MedicineAuctionAddresses[String(chainId) as keyof typeof MedicineAuctionAddresses] as { deployBlock?: number } | undefined)?.deployBlock ?? 0 : 0), [chainId]);
+  const indexer = useMemo(() => (auctionAddress && chainId && ethersReadonlyProvider ? new AuctionIndexer({ runner: ethersReadonlyProvider, address: auctionAddress, chainId, startBlock: auctionDeployBlock, storage: new IndexedDBAuctionIndexStorage() }) : undefined), [auctionAddress, chainId, auctionDeployBlock, ethersReadonlyProvider]);
+  const auctionSigner = useMemo(() => (auctionAddress && ethersSigner ? new AuctionClient({ address: auctionAddress, runner: ethersSigner, variant: "medicine", log: addLog }) : undefined), [auctionAddress, ethersSigner, addLog]);
+
+  // Decimals of MTK/sUSD: form inputs and balances are in whole tokens
+  const [tokenDecimals, setTokenDecimals] = useState<TokenDecimals>({ base: 0, quote: 0 });
+  useEffect(() => {
+    if (!auctionReadonly || !mtkAddress || !susdAddress) return;
+    auctionReadonly.getAuctionDecimals({ baseToken: mtkAddress, quoteToken: susdAddress }).then(setTokenDecimals).catch(() => {});
+  }, [auctionReadonly, mtkAddress, susdAddress]);
 
   const [balances, setBalances] = useState<{ mtk?: bigint; susd?: bigint }>({});
   const refreshBalances = useCallback(async () => {
     if (!ethersSigner || !mtkAddress || !susdAddress || !ethersReadonlyProvider) return;
     try {
       const mtkRO = new ethers.Contract(mtkAddress, MedicineTokenABI.abi, ethersReadonlyProvider);
-      const susdRO = new ethers.Contract(susdAddress, StableUSDABI.abi, ethersReadonlyProvider);
+      const susdRO = new ethers.Contract(susdAddress, MedicineTokenABI.abi, ethersReadonlyProvider);
       const [bm, bs] = await Promise.all([
         mtkRO.balanceOf(ethersSigner.address),
         susdRO.balanceOf(ethersSigner.address),
@@ -79,40 +108,78 @@ export const MedicineApp = () => {
   }, [ethersSigner, mtkAddress, susdAddress, ethersReadonlyProvider]);
   useEffect(() => { refreshBalances(); }, [refreshBalances, auctions]);
 
+  const [bidsByAuction, setBidsByAuction] = useState<Record<number, OnChainBid[]>>({});
+  const [projection, setProjection] = useState<AuctionIndexProjection | undefined>(undefined);
+  const [seriesList, setSeriesList] = useState<OnChainSeries[]>([]);
+  const [claimable, setClaimable] = useState<Record<number, Claimable>>({});
+  // undefined: not fetched yet; null: the store has no entry matching the on-chain hash
+  const [lots, setLots] = useState<Record<string, AuctionMetadata | null>>({});
+  const account = ethersSigner?.address;
   const refreshAuctions = useCallback(async () => {
     if (!auctionReadonly) return;
     try {
       setIsLoading(true);
-      const count: bigint = await auctionReadonly.auctionsCount();
-      const list: AuctionView[] = [];
-      for (let i = 1n; i <= count; i++) {
-        const a = await auctionReadonly.auctions(i);
-        list.push({
-          id: Number(i),
-          seller: a.seller as string,
-          kitsAvailable: a.S as bigint,
-          start: Number(a.start),
-          end: Number(a.end),
-          vwap: a.vwap as bigint,
-          vwapSet: a.vwapSet as boolean,
-          settled: a.settled as boolean,
-          sumQ: a.sumQ as bigint,
-        });
+      let list: AuctionView[] | undefined;
+      if (indexer) {
+        try {
+          await indexer.sync();
+          const indexed = indexer.auctions();
+          const decimals = await Promise.all(indexed.map((a) => (a.baseToken && a.quoteToken ? auctionReadonly.getAuctionDecimals({ baseToken: a.baseToken, quoteToken: a.quoteToken }) : { base: 0, quote: 0 })));
+          list = indexed.map((a, i) => ({
+            ...a,
+            baseToken: a.baseToken ?? (ethers.ZeroAddress as `0x${string}`),
+            quoteToken: a.quoteToken ?? (ethers.ZeroAddress as `0x${string}`),
+            kitsAvailable: a.S,
+            decimals: decimals[i],
+            baseUnit: unitOf(decimals[i].base),
+          }));
+          setProjection(indexer.projection);
+        } catch (e) {
+          addLog("Indexer sync failed, falling back to direct reads: " + (e as Error).message);
+        }
+      }
+      if (!list) {
+        const direct = await auctionReadonly.listAuctions();
+        const decimals = await Promise.all(direct.map((a) => auctionReadonly.getAuctionDecimals(a)));
+        list = direct.map((a, i) => ({ ...a, kitsAvailable: a.S, decimals: decimals[i] }));
       }
+      const [bidLists, series] = await Promise.all([
+        Promise.all(list.map((a) => auctionReadonly.getBids(a.id))),
+        auctionReadonly.listSeries(),
+      ]);
       setAuctions(list);
+      setSeriesList(series);
+      setBidsByAuction(Object.fromEntries(list.map((a, i) => [a.id, bidLists[i]])));
+      const hashes = [...new Set(list.map((a) => a.metadataHash).filter((h) => h !== ethers.ZeroHash))];
+      const entries = await Promise.all(hashes.map((h) => metadataStore.get(h)));
+      setLots(Object.fromEntries(hashes.map((h, i) => [h, entries[i] ?? null])));
+      // Pull-payment auctions keep each participant's share until they claim it
+      if (account) {
+        const pulls = list.filter((a) => a.pullPayments && a.settled);
+        const amounts = await Promise.all(pulls.map((a) => auctionReadonly.getClaimable(a.id, account)));
+        setClaimable(Object.fromEntries(pulls.map((a, i) => [a.id, amounts[i]])));
+      }
     } catch (e) {
       setMessage("Failed to load auctions: " + (e as Error).message);
     } finally {
       setIsLoading(false);
     }
-  }, [auctionReadonly]);
+  }, [auctionReadonly, indexer, account, addLog]);
 
   useEffect(() => {
     refreshAuctions();
   }, [refreshAuctions]);
 
+  // Re-derive phases as auction windows open and close
+  const [now, setNow] = useState<number>(() => Math.floor(Date.now() / 1000));
+  useEffect(() => {
+    const t = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 10_000);
+    return () => clearInterval(t);
+  }, []);
+
   useEffect(() => {
     if (!auctionSigner) return;
+    const events = auctionSigner.contract;
     const onCreated = (id: bigint, seller: string, S: bigint, start: bigint, end: bigint) => {
       addLog(`AuctionCreated: #${Number(id)} seller=${seller} S=${String(S)} start=${Number(start)} end=${Number(end)}`);
     };
@@ -125,8 +192,9 @@ export const MedicineApp = () => {
     const onReq = (id: bigint, requestId: bigint) => {
       addLog(`VWAPDecryptionRequested: #${Number(id)} requestId=${String(requestId)}`);
     };
-    const onDec = (id: bigint, v: bigint) => {
-      addLog(`VWAPDecrypted: #${Number(id)} vwap=${String(v)}`);
+    // MedicineAuction's own event: the revealed VWAP with the unit set at creation
+    const onFinal = (id: bigint, v: bigint, unit: string) => {
+      addLog(`VWAPFinal: #${Number(id)} vwap=${String(v)}${unit ? ` ${unit}` : ""}`);
       refreshAuctions();
     };
     const onAlloc = (id: bigint, buyer: string, alloc: bigint, spend: bigint) => {
@@ -137,31 +205,72 @@ export const MedicineApp = () => {
     };
     const onPaid = (id: bigint, seller: string, amount: bigint) => {
       addLog(`SellerPaid: #${Number(id)} seller=${seller} amount=${String(amount)}`);
+      refreshAuctions();
     };
     const onRema = (id: bigint, seller: string, amount: bigint) => {
       addLog(`BaseRemainderReturned: #${Number(id)} seller=${seller} amount=${String(amount)}`);
     };
+    const onAmended = (id: bigint, index: bigint, buyer: string, qty: bigint, priceCap: bigint, maxSpend: bigint) => {
+      addLog(`BidAmended: #${Number(id)} bid=${Number(index)} buyer=${buyer} qty=${String(qty)} cap=${String(priceCap)} maxSpend=${String(maxSpend)}`);
+    };
+    const onCancelled = (id: bigint, index: bigint, buyer: string, refund: bigint) => {
+      addLog(`BidCancelled: #${Number(id)} bid=${Number(index)} buyer=${buyer} refund=${String(refund)}`);
+    };
+    const onRoll = (id: bigint, nextId: bigint, amount: bigint) => {
+      addLog(`BaseRolledOver: #${Number(id)} -> #${Number(nextId)} amount=${String(amount)}`);
+      refreshAuctions();
+    };
+    const onEligibility = (id: bigint, index: bigint, capMet: boolean) => {
+      addLog(`EligibilityDecrypted: #${Number(id)} bid=${Number(index)} capMet=${String(capMet)}`);
+      refreshAuctions();
+    };
+    const onSumQ = (id: bigint, sumQ: bigint) => {
+      addLog(`SumQDecrypted: #${Number(id)} sumQ=${String(sumQ)}`);
+      refreshAuctions();
+    };
+    const onEligibleQ = (id: bigint, eligibleQ: bigint) => {
+      addLog(`EligibleDemandDecrypted: #${Number(id)} eligibleQ=${String(eligibleQ)}`);
+      refreshAuctions();
+    };
+    const onAllocationDec = (id: bigint, index: bigint, allocation: bigint) => {
+      addLog(`AllocationDecrypted: #${Number(id)} bid=${Number(index)} allocation=${String(allocation)}`);
+      refreshAuctions();
+    };
 
-    auctionSigner.on("AuctionCreated", onCreated);
-    auctionSigner.on("BidSubmitted", onBidEv);
-    auctionSigner.on("EncryptedVWAPComputed", onEnc);
-    auctionSigner.on("VWAPDecryptionRequested", onReq);
-    auctionSigner.on("VWAPDecrypted", onDec);
-    auctionSigner.on("Allocated", onAlloc);
-    auctionSigner.on("Refunded", onRefund);
-    auctionSigner.on("SellerPaid", onPaid);
-    auctionSigner.on("BaseRemainderReturned", onRema);
+    events.on("AuctionCreated", onCreated);
+    events.on("BidSubmitted", onBidEv);
+    events.on("EncryptedVWAPComputed", onEnc);
+    events.on("VWAPDecryptionRequested", onReq);
+    events.on("VWAPFinal", onFinal);
+    events.on("Allocated", onAlloc);
+    events.on("Refunded", onRefund);
+    events.on("SellerPaid", onPaid);
+    events.on("BaseRemainderReturned", onRema);
+    events.on("BaseRolledOver", onRoll);
+    events.on("BidAmended", onAmended);
+    events.on("BidCancelled", onCancelled);
+    events.on("EligibilityDecrypted", onEligibility);
+    events.on("SumQDecrypted", onSumQ);
+    events.on("EligibleDemandDecrypted", onEligibleQ);
+    events.on("AllocationDecrypted", onAllocationDec);
     return () => {
       try {
-        auctionSigner.off("AuctionCreated", onCreated);
-        auctionSigner.off("BidSubmitted", onBidEv);
-        auctionSigner.off("EncryptedVWAPComputed", onEnc);
-        auctionSigner.off("VWAPDecryptionRequested", onReq);
-        auctionSigner.off("VWAPDecrypted", onDec);
-        auctionSigner.off("Allocated", onAlloc);
-        auctionSigner.off("Refunded", onRefund);
-        auctionSigner.off("SellerPaid", onPaid);
-        auctionSigner.off("BaseRemainderReturned", onRema);
+        events.off("AuctionCreated", onCreated);
+        events.off("BidSubmitted", onBidEv);
+        events.off("EncryptedVWAPComputed", onEnc);
+        events.off("VWAPDecryptionRequested", onReq);
+        events.off("VWAPFinal", onFinal);
+        events.off("Allocated", onAlloc);
+        events.off("Refunded", onRefund);
+        events.off("SellerPaid", onPaid);
+        events.off("BaseRemainderReturned", onRema);
+        events.off("BaseRolledOver", onRoll);
+        events.off("BidAmended", onAmended);
+        events.off("BidCancelled", onCancelled);
+        events.off("EligibilityDecrypted", onEligibility);
+        events.off("SumQDecrypted", onSumQ);
+        events.off("EligibleDemandDecrypted", onEligibleQ);
+        events.off("AllocationDecrypted", onAllocationDec);
       } catch {}
     };
   }, [auctionSigner, refreshAuctions, addLog]);
@@ -169,28 +278,48 @@ export const MedicineApp = () => {
   const [kits, setKits] = useState<string>("");
   const [startM, setStartM] = useState<string>("");
   const [endM, setEndM] = useState<string>("");
+  const [recurring, setRecurring] = useState<boolean>(false);
+  const [pullMode, setPullMode] = useState<boolean>(false);
+  const [hiddenCaps, setHiddenCaps] = useState<boolean>(false);
+  const [hiddenKits, setHiddenKits] = useState<boolean>(false);
+  const [reserve, setReserve] = useState<string>("");
+  const [lot, setLot] = useState<LotForm>(EMPTY_LOT);
+  // Addresses allowed to bid; empty leaves the auction open to every municipality
+  const [allowedText, setAllowedText] = useState<string>("");
+  // Account allowed to decrypt the bid prices once the VWAP is computed; empty leaves auditing to the registry
+  const [auditorText, setAuditorText] = useState<string>("");
+  // Per-municipality caps against one buyer splitting its demand over many bids; empty fields are unlimited
+  const [limitBids, setLimitBids] = useState<string>("");
+  const [limitKits, setLimitKits] = useState<string>("");
+  const [limitShare, setLimitShare] = useState<string>("");
+  const onTenderFile = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    const hash = documentHashOf(new Uint8Array(await file.arrayBuffer()));
+    setLot((l) => ({ ...l, documentHash: hash }));
+  }, []);
+  const [windowsN, setWindowsN] = useState<string>("");
   const [creating, setCreating] = useState<boolean>(false);
   const onCreate = useCallback(async () => {
-    if (!auctionSigner || !mtk || !mtkAddress || !susdAddress) {
+    if (!auctionSigner || !mtkAddress || !susdAddress || !ethersReadonlyProvider) {
       setMessage("Not ready: missing contracts or addresses. Check Status and run npm run genabi after deploy.");
-      addLog("Create aborted: missing auctionSigner/mtk/addresses.");
+      addLog("Create aborted: missing auctionSigner/addresses.");
       return;
     }
     try {
       setCreating(true);
       // Basic required fields
-      if (!kits || !startM || !endM) {
-        pushToast("error", "Please fill Kits, Start and End.");
+      if (!kits || !startM || !endM || (recurring && !windowsN)) {
+        pushToast("error", recurring ? "Please fill Kits, Start, Window length and Windows." : "Please fill Kits, Start and End.");
         return;
       }
-      const kitsNum = Number(kits);
+      const S = parseAmount(kits, tokenDecimals.base);
       const startNum = Number(startM);
       const endNum = Number(endM);
-      if (!Number.isFinite(kitsNum) || !Number.isFinite(startNum) || !Number.isFinite(endNum)) {
+      const reservePrice = reserve && !recurring ? parseBidAmount(reserve, tokenDecimals.quote) : undefined;
+      if (S === undefined || !Number.isFinite(startNum) || !Number.isFinite(endNum) || (reserve && !recurring && reservePrice === undefined)) {
         pushToast("error", "Inputs must be numeric values.");
         return;
       }
-      const S = BigInt(kitsNum);
       const now = Math.floor(Date.now() / 1000);
       const start = now + startNum * 60;
       const end = now + endNum * 60;
@@ -200,7 +329,7 @@ export const MedicineApp = () => {
         addLog("Validation failed: S == 0");
         return;
       }
-      if (start >= end) {
+      if (recurring ? endNum <= 0 : start >= end) {
         setMessage("Invalid window: start must be before end");
         addLog(`Validation failed: start(${start}) >= end(${end})`);
         return;
@@ -210,22 +339,93 @@ export const MedicineApp = () => {
         addLog("Validation failed: same token addresses");
         return;
       }
-      const bal: bigint = await mtk.balanceOf(ethersSigner!.address);
+      // In recurring mode "End" is the length of each window and S is sold once per window
+      const windows = recurring ? Number(windowsN) : 1;
+      if (recurring && (!Number.isInteger(windows) || windows < 1)) {
+        setMessage("Windows must be a positive integer");
+        addLog(`Validation failed: windows=${windowsN}`);
+        return;
+      }
+      const mtkRO = new ethers.Contract(mtkAddress, MedicineTokenABI.abi, ethersReadonlyProvider);
+      const bal: bigint = await mtkRO.balanceOf(ethersSigner!.address);
+      if (recurring) {
+        const total = S * BigInt(windows);
+        if (bal < total) {
+          setMessage(`Insufficient MED balance. Have ${bal}, need ${total}`);
+          addLog(`Validation failed: balance ${bal} < S*windows ${total}`);
+          return;
+        }
+        addLog(`Ensuring MED allowance: S*windows=${total}`);
+        const { seriesId, auctionIds } = await auctionSigner.approveAndCreateRecurringAuction({
+          baseToken: mtkAddress,
+          quoteToken: susdAddress,
+          supplyPerWindow: S,
+          firstStart: start,
+          windowLength: endNum * 60,
+          windows,
+        });
+        setMessage("Series created!");
+        pushToast("success", `Series #${seriesId} created with auctions #${auctionIds[0]}–#${auctionIds[auctionIds.length - 1]}.`);
+        refreshAuctions();
+        setKits("");
+        setStartM("");
+        setEndM("");
+        setWindowsN("");
+        return;
+      }
       if (bal < S) {
         setMessage(`Insufficient MED balance. Have ${bal}, need ${S}`);
         addLog(`Validation failed: balance ${bal} < S ${S}`);
         return;
       }
-      addLog(`Approving MED allowance: S=${S}`);
-      const apx = await mtk.approve(auctionSigner.target, S);
-      addLog(`approve tx: ${apx.hash}`);
-      await apx.wait();
-      addLog(`approve confirmed`);
-      addLog(`createMedicineAuction start`);
-      const tx = await auctionSigner.createMedicineAuction(mtkAddress, susdAddress, S, start, end);
-      addLog(`create tx: ${tx.hash}`);
-      await tx.wait();
-      addLog(`create confirmed`);
+      if (reservePrice !== undefined && !instance) {
+        setMessage("FHEVM instance not ready to encrypt the reserve price");
+        return;
+      }
+      // Lot details are optional, but once any field is filled the whole lot must validate
+      let metadataHash: `0x${string}` | undefined;
+      if (Object.values(lot).some((v) => v.trim() !== "")) {
+        const checked = validateAuctionMetadata(lot);
+        if (!checked.ok) {
+          setMessage("Invalid lot details: " + checked.errors.join("; "));
+          addLog("Validation failed: " + checked.errors.join("; "));
+          return;
+        }
+        metadataHash = await metadataStore.put(checked.metadata);
+        addLog(`Lot details stored: ${metadataHash}`);
+      }
+      let allowlistRoot: `0x${string}` | undefined;
+      if (allowedText.trim() !== "") {
+        const { addresses, invalid } = parseAddressList(allowedText);
+        if (invalid.length > 0 || addresses.length === 0) {
+          setMessage("Invalid allowed municipalities: " + (invalid.join(", ") || "no address"));
+          addLog("Validation failed: allowlist " + invalid.join(", "));
+          return;
+        }
+        allowlistRoot = buildAllowlist(addresses).root;
+        addLog(`Allowlist of ${addresses.length} addresses: root ${allowlistRoot}. Publish the list to the bidders.`);
+      }
+      if (auditorText !== "" && !ethers.isAddress(auditorText)) {
+        setMessage("Invalid auditor address: " + auditorText);
+        return;
+      }
+      const auditor = auditorText !== "" ? (ethers.getAddress(auditorText) as `0x${string}`) : undefined;
+      const maxBids = limitBids ? Number(limitBids) : 0;
+      const maxQty = limitKits ? parseAmount(limitKits, tokenDecimals.base) : 0n;
+      const maxShareBps = limitShare ? Math.round(Number(limitShare) * 100) : 0;
+      if (!Number.isInteger(maxBids) || maxBids < 0 || maxBids > 2 ** 32 - 1 || maxQty === undefined || !Number.isFinite(maxShareBps)) {
+        pushToast("error", "Bidder limits must be a whole number of bids, an amount of kits and a percentage.");
+        return;
+      }
+      const bidderLimits: BidderLimits = { maxBids, maxQty, maxShareBps };
+      if (validateBidderLimits(bidderLimits, hiddenKits)) {
+        setMessage(hiddenKits ? "Confidential kits only support a bid count limit" : "The share of kits per municipality must be between 0 and 100%");
+        return;
+      }
+      const encryptedReserve = reservePrice !== undefined && instance ? await auctionSigner.encryptPrice(instance, reservePrice) : undefined;
+      // One signature replaces the approve transaction when MED allows it (Permit2), else approve + create
+      addLog(`Escrowing MED: S=${S}`);
+      await auctionSigner.permitAndCreateAuction({ baseToken: mtkAddress, quoteToken: susdAddress, S, start, end, pullPayments: pullMode, encryptedCaps: hiddenCaps, confidentialQuantities: hiddenKits, encryptedReserve, priceUnit: PRICE_UNIT, metadataHash, allowlistRoot, bidderLimits, auditor });
       setMessage("Auction created!");
       pushToast("success", "Auction created successfully.");
       refreshAuctions();
@@ -233,6 +433,16 @@ export const MedicineApp = () => {
       setKits("");
       setStartM("");
       setEndM("");
+      setPullMode(false);
+      setHiddenCaps(false);
+      setHiddenKits(false);
+      setReserve("");
+      setLot(EMPTY_LOT);
+      setAllowedText("");
+      setAuditorText("");
+      setLimitBids("");
+      setLimitKits("");
+      setLimitShare("");
     } catch (e) {
       const msg = (e as Error).message ?? String(e);
       setMessage("Create failed: " + msg);
@@ -241,16 +451,50 @@ export const MedicineApp = () => {
     } finally {
       setCreating(false);
     }
-  }, [auctionSigner, mtk, mtkAddress, susdAddress, kits, startM, endM, refreshAuctions, addLog, ethersSigner, pushToast]);
+  }, [auctionSigner, instance, mtkAddress, susdAddress, ethersReadonlyProvider, kits, startM, endM, recurring, windowsN, pullMode, hiddenCaps, hiddenKits, reserve, lot, allowedText, auditorText, limitBids, limitKits, limitShare, tokenDecimals, refreshAuctions, addLog, ethersSigner, pushToast]);
 
   const [bidId, setBidId] = useState<string>("");
   const [price, setPrice] = useState<string>("");
   const [qty, setQty] = useState<string>("");
   const [cap, setCap] = useState<string>("");
+  // Smallest acceptable allocation: "at least 300 kits", or all or nothing
+  const [minKits, setMinKits] = useState<string>("");
+  const [allOrNothing, setAllOrNothing] = useState<boolean>(false);
   const [bidding, setBidding] = useState<boolean>(false);
+  // Registry roles of the connected wallet, and where it stands with the chosen auction's allowlist
+  const [roles, setRoles] = useState<ParticipantRoles | undefined>(undefined);
+  useEffect(() => {
+    setRoles(undefined);
+    if (!auctionReadonly || !account) return;
+    auctionReadonly.getParticipantRoles(account).then(setRoles).catch(() => {});
+  }, [auctionReadonly, account]);
+  const bidTarget = auctions.find((a) => a.id === Number(bidId));
+  const bidAllowlistRoot = bidTarget?.allowlistRoot ?? ethers.ZeroHash;
+  // Live bids and kits of this wallet on the chosen auction, checked against its bidder limits
+  const [bidderUsage, setBidderUsage] = useState<BidderUsage | undefined>(undefined);
+  const bidTargetLimited = bidTarget !== undefined && hasBidderLimits(bidTarget.bidderLimits);
+  useEffect(() => {
+    setBidderUsage(undefined);
+    if (!auctionReadonly || !account || !bidTargetLimited) return;
+    auctionReadonly.getBidderUsage(Number(bidId), account).then(setBidderUsage).catch(() => {});
+  }, [auctionReadonly, account, bidId, bidTargetLimited, auctions]);
+  const [joined, setJoined] = useState<boolean>(false);
+  useEffect(() => {
+    setJoined(false);
+    if (!auctionReadonly || !account || bidAllowlistRoot === ethers.ZeroHash) return;
+    auctionReadonly.isAllowlisted(Number(bidId), account).then(setJoined).catch(() => {});
+  }, [auctionReadonly, account, bidId, bidAllowlistRoot]);
+  // The address list the supplier published; the wallet's proof is derived from it
+  const [bidListText, setBidListText] = useState<string>("");
+  const bidAllowlist = useMemo(() => {
+    const { addresses } = parseAddressList(bidListText);
+    return addresses.length > 0 ? buildAllowlist(addresses) : undefined;
+  }, [bidListText]);
+  const bidAccess = account ? allowlistAccess(bidAllowlistRoot, joined, bidAllowlist, account) : "open";
+  const bidNotAllowed = roles ? bidBlockReason(roles, bidAccess) : undefined;
   const onBid = useCallback(async () => {
-    if (!auctionSigner || !instance || !susd || !ethersSigner) {
-      addLog("Bid aborted: missing signer/instance/sUSD/signer address");
+    if (!auctionSigner || !instance || !ethersSigner) {
+      addLog("Bid aborted: missing signer/instance/signer address");
       return;
     }
     try {
@@ -260,33 +504,54 @@ export const MedicineApp = () => {
         return;
       }
       const id = Number(bidId);
-      const p = Number(price);
-      const q = Number(qty);
-      const c = Number(cap);
-      if (!Number.isInteger(id) || !Number.isFinite(p) || !Number.isFinite(q) || !Number.isFinite(c)) {
-        pushToast("error", "Inputs must be valid numbers.");
+      if (!Number.isInteger(id)) {
+        pushToast("error", "Auction ID must be a whole number.");
+        return;
+      }
+      const a = await auctionSigner.getAuction(id);
+      const d = await auctionSigner.getAuctionDecimals(a);
+      const p = parseBidAmount(price, d.quote);
+      const q = parseBidAmount(qty, d.base);
+      const c = parseBidAmount(cap, d.quote);
+      const mf = allOrNothing ? ALL_OR_NOTHING : minKits ? parseBidAmount(minKits, d.base) : 0n;
+      if (p === undefined || q === undefined || c === undefined || mf === undefined) {
+        pushToast("error", `Inputs must be amounts with at most ${d.quote} decimals for sUSD and ${d.base} for kits, up to ${MAX_UINT64} raw units.`);
+        return;
+      }
+      if (bidNotAllowed) {
+        pushToast("error", bidNotAllowed);
+        return;
+      }
+      const usage = hasBidderLimits(a.bidderLimits) ? await auctionSigner.getBidderUsage(id, ethersSigner.address) : undefined;
+      const exceeded = usage && checkBidderLimits(a, usage, q);
+      if (exceeded) {
+        pushToast("error", exceeded === "bidder bid limit" ? `Auction #${id} accepts at most ${a.bidderLimits.maxBids} live bids per municipality.` : `Auction #${id} caps the kits per municipality at ${formatAmount(maxBidderQty(a.S, a.bidderLimits)!, d.base)}; you already have ${formatAmount(usage.qty, d.base)} requested.`);
+        return;
+      }
+      if (bidAccess === "canJoin") {
+        addLog(`Joining the allowlist of #${id}`);
+        await auctionSigner.joinAllowlist(id, bidAllowlist!.proofs[ethersSigner.address.toLowerCase()]);
+        setJoined(true);
+      }
+      const ms = maxSpendFor(q, c, a.baseUnit);
+      addLog(`Bid start: auctionId=${id}, price(raw)=${p}, qty=${q}, cap=${c}, maxSpend=${ms}`);
+      if (checkBidLimits(a, { price: p, qty: q, priceCap: c }) === "sumQ") {
+        pushToast("error", `Total kits requested on #${id} would exceed ${MAX_UINT64}. Lower the kits.`);
         return;
       }
-      const ms = BigInt(c * q);
-      addLog(`Bid start: auctionId=${id}, price(plain)=${p}, qty=${q}, cap=${c}, maxSpend=${ms}`);
-      addLog(`Approving sUSD allowance: ${ms}`);
-      const ap = await susd.approve(auctionSigner.target, ms);
-      addLog(`sUSD approve tx: ${ap.hash}`);
-      await ap.wait();
-      addLog(`sUSD approve confirmed`);
-      addLog(`Encrypting price with FHEVM`);
-      const input = instance.createEncryptedInput(auctionSigner.target as `0x${string}`, ethersSigner.address);
-      input.add64(p);
-      const enc = await input.encrypt();
-      const handleHex = ethers.hexlify(enc.handles[0]);
-      const proofHex = ethers.hexlify(enc.inputProof);
-      addLog(`Encrypted handle[0]: ${handleHex}`);
-      addLog(`InputProof length: ${proofHex.length} hex chars, preview: ${proofHex.slice(0, 20)}...`);
-      addLog(`submitMunicipalityBid sending...`);
-      const tx = await auctionSigner.submitMunicipalityBid(id, enc.handles[0], enc.inputProof, q, c, ms);
-      addLog(`bid tx: ${tx.hash}`);
-      const rcpt = await tx.wait();
-      addLog(`bid confirmed (block ${rcpt.blockNumber})`);
+      if (!a.confidentialQuantities) {
+        // sUSD supports EIP-2612: one signature plus the bid transaction, no approve. Encrypted caps keep the
+        // approve, and the cap never goes on-chain in clear: price and cap share one encrypted input.
+        // A minimum fill is set by a second transaction once the bid is in
+        await auctionSigner.permitAndSubmitBid(instance, { auctionId: id, price: p, qty: q, priceCap: c, maxSpend: ms, minFill: mf });
+      } else {
+        addLog(`Ensuring sUSD allowance: ${ms}`);
+        await auctionSigner.ensureAllowance(a.quoteToken, ms);
+        // Only the escrow bounds the kits: qty is encrypted alongside the price
+        const enc = await auctionSigner.encryptPriceAndQty(instance, p, q);
+        addLog(`Encrypted handles: price=${ethers.hexlify(enc.handle)} kits=${ethers.hexlify(enc.qtyHandle)}`);
+        await auctionSigner.submitBidConfidentialQty({ auctionId: id, encrypted: enc, priceCap: c, maxSpend: ms });
+      }
       setMessage("Bid submitted!");
       refreshAuctions();
       // clear inputs
@@ -294,6 +559,9 @@ export const MedicineApp = () => {
       setPrice("");
       setQty("");
       setCap("");
+      setMinKits("");
+      setAllOrNothing(false);
+      setBidListText("");
     } catch (e) {
       const msg = (e as Error).message ?? String(e);
       setMessage("Bid failed: " + msg);
@@ -302,40 +570,35 @@ export const MedicineApp = () => {
     } finally {
       setBidding(false);
     }
-  }, [auctionSigner, instance, susd, ethersSigner, bidId, price, qty, cap, refreshAuctions, addLog, pushToast]);
+  }, [auctionSigner, instance, ethersSigner, bidId, price, qty, cap, minKits, allOrNothing, bidNotAllowed, bidAccess, bidAllowlist, refreshAuctions, addLog, pushToast]);
 
   // Removed standalone decrypt inputs; actions are per-auction
 
   // Removed standalone settle inputs; actions are per-auction
 
   // Per-auction actions (buttons inside the list)
+  const computeFor = useCallback(async (id: number) => {
+    if (!auctionSigner) return;
+    try {
+      addLog(`Compute (list) clicked for #${id}`);
+      await auctionSigner.computeEncryptedVWAP(id);
+      pushToast("success", "Encrypted VWAP computed.");
+      refreshAuctions();
+    } catch (e) {
+      const msg = (e as Error).message ?? String(e);
+      addLog("Compute failed: " + msg);
+      pushToast("error", "Compute failed. Check Activity Log for details.");
+    }
+  }, [auctionSigner, refreshAuctions, addLog, pushToast]);
+
   const decryptFor = useCallback(async (id: number) => {
-    if (!auctionSigner || !auctionReadonly) {
+    if (!auctionSigner) {
       addLog("Decrypt aborted: missing auction contract instances");
       return;
     }
     try {
       addLog(`Decrypt (list) clicked for #${id}`);
-      // compute if needed
-      let computed = false;
-      try {
-        const h = await auctionReadonly.getEncryptedVWAP(id);
-        if (h && h !== ethers.ZeroHash) computed = true;
-      } catch {}
-      if (!computed) {
-        addLog(`computeEncryptedVWAP start for #${id}`);
-        const txc = await auctionSigner.computeEncryptedVWAP(id);
-        addLog(`compute tx: ${txc.hash}`);
-        const rc = await txc.wait();
-        addLog(`compute confirmed (block ${rc.blockNumber})`);
-      } else {
-        addLog(`Encrypted VWAP already computed for #${id}`);
-      }
-      addLog(`requestVWAPDecryption start for #${id}`);
-      const txd = await auctionSigner.requestVWAPDecryption(id);
-      addLog(`decrypt request tx: ${txd.hash}`);
-      const rd = await txd.wait();
-      addLog(`decrypt request confirmed (block ${rd.blockNumber})`);
+      await auctionSigner.computeAndRequestVWAPDecryption(id);
       setMessage("On-chain decryption requested.");
       pushToast("success", "On-chain decryption requested.");
     } catch (e) {
@@ -344,16 +607,58 @@ export const MedicineApp = () => {
       addLog("Decrypt request failed: " + msg);
       pushToast("error", "Decrypt request failed. Check Activity Log for details.");
     }
-  }, [auctionSigner, auctionReadonly, addLog, pushToast]);
+  }, [auctionSigner, addLog, pushToast]);
+
+  const requestReserveCheckFor = useCallback(async (id: number) => {
+    if (!auctionSigner) return;
+    try {
+      addLog(`Check reserve (list) clicked for #${id}`);
+      await auctionSigner.computeAndRequestReserveCheck(id);
+      pushToast("success", "Reserve check requested.");
+      refreshAuctions();
+    } catch (e) {
+      const msg = (e as Error).message ?? String(e);
+      addLog("Reserve check request failed: " + msg);
+      pushToast("error", "Reserve check request failed. Check Activity Log for details.");
+    }
+  }, [auctionSigner, refreshAuctions, addLog, pushToast]);
+
+  const requestEligibilityFor = useCallback(async (id: number) => {
+    if (!auctionSigner) return;
+    try {
+      addLog(`Decrypt eligibility (list) clicked for #${id}`);
+      await auctionSigner.requestEligibilityDecryption(id);
+      pushToast("success", "Eligibility decryption requested.");
+      refreshAuctions();
+    } catch (e) {
+      const msg = (e as Error).message ?? String(e);
+      addLog("Eligibility request failed: " + msg);
+      pushToast("error", "Eligibility request failed. Check Activity Log for details.");
+    }
+  }, [auctionSigner, refreshAuctions, addLog, pushToast]);
+
+  const revealQuantitiesFor = useCallback(async (
+    id: number,
+    step: "requestSumQDecryption" | "requestEligibleDemandDecryption" | "requestAllocationDecryption"
+  ) => {
+    if (!auctionSigner) return;
+    try {
+      addLog(`${step} (list) clicked for #${id}`);
+      await auctionSigner[step](id);
+      pushToast("success", "Decryption requested.");
+      refreshAuctions();
+    } catch (e) {
+      const msg = (e as Error).message ?? String(e);
+      addLog(`${step} failed: ` + msg);
+      pushToast("error", "Decryption request failed. Check Activity Log for details.");
+    }
+  }, [auctionSigner, refreshAuctions, addLog, pushToast]);
 
   const settleFor = useCallback(async (id: number) => {
     if (!auctionSigner) return;
     try {
       addLog(`Settle (list) clicked for #${id}`);
-      const tx = await auctionSigner.settle(id);
-      addLog(`settle tx: ${tx.hash}`);
-      const r = await tx.wait();
-      addLog(`settle confirmed (block ${r.blockNumber})`);
+      await auctionSigner.settle(id);
       setMessage("Settled!");
       pushToast("success", "Auction settled successfully.");
       refreshAuctions();
@@ -365,6 +670,83 @@ export const MedicineApp = () => {
     }
   }, [auctionSigner, refreshAuctions, addLog, pushToast]);
 
+  const amendBid = useCallback(async (row: MyBidRow, amendment: BidAmendment) => {
+    if (!auctionSigner || !instance) return;
+    try {
+      const a = await auctionSigner.getAuction(row.auctionId);
+      const d = await auctionSigner.getAuctionDecimals(a);
+      const p = parseBidAmount(amendment.price, d.quote);
+      const q = parseBidAmount(amendment.qty, d.base);
+      const c = parseBidAmount(amendment.cap, d.quote);
+      if (p === undefined || q === undefined || q === 0n || c === undefined) {
+        pushToast("error", `Please fill a valid Price, Kits and Price Cap (up to ${MAX_UINT64} raw units).`);
+        return;
+      }
+      const ms = maxSpendFor(q, c, a.baseUnit);
+      addLog(`Amend start: #${row.auctionId} bid ${row.index}, qty=${q}, cap=${c}, maxSpend=${ms}`);
+      await auctionSigner.approveAndAmendBid(instance, { auctionId: row.auctionId, bidIndex: row.index, price: p, qty: q, priceCap: c, maxSpend: ms });
+      pushToast("success", "Bid amended.");
+      refreshAuctions();
+    } catch (e) {
+      const msg = (e as Error).message ?? String(e);
+      addLog("Amend failed: " + msg);
+      pushToast("error", "Amend failed. Check Activity Log for details.");
+    }
+  }, [auctionSigner, instance, refreshAuctions, addLog, pushToast]);
+
+  const cancelBid = useCallback(async (row: MyBidRow) => {
+    if (!auctionSigner) return;
+    try {
+      addLog(`Cancel clicked for #${row.auctionId} bid ${row.index}`);
+      await auctionSigner.cancelBid(row.auctionId, row.index);
+      pushToast("success", "Bid cancelled; escrow refunded.");
+      refreshAuctions();
+    } catch (e) {
+      const msg = (e as Error).message ?? String(e);
+      addLog("Cancel failed: " + msg);
+      pushToast("error", "Cancel failed. Check Activity Log for details.");
+    }
+  }, [auctionSigner, refreshAuctions, addLog, pushToast]);
+
+  const claimFor = useCallback(async (id: number) => {
+    if (!auctionSigner) return;
+    try {
+      addLog(`Claim clicked for #${id}`);
+      await auctionSigner.claim(id);
+      pushToast("success", "Claimed your kits and sUSD.");
+      refreshAuctions();
+      refreshBalances();
+    } catch (e) {
+      const msg = (e as Error).message ?? String(e);
+      addLog("Claim failed: " + msg);
+      pushToast("error", "Claim failed. Check Activity Log for details.");
+    }
+  }, [auctionSigner, refreshAuctions, refreshBalances, addLog, pushToast]);
+
+  const closeEmptyFor = useCallback(async (id: number) => {
+    if (!auctionSigner) return;
+    try {
+      addLog(`Close empty (list) clicked for #${id}`);
+      await auctionSigner.closeEmptyAuction(id);
+      pushToast("success", "Empty auction closed; unsold kits released.");
+      refreshAuctions();
+    } catch (e) {
+      const msg = (e as Error).message ?? String(e);
+      addLog("Close empty failed: " + msg);
+      pushToast("error", "Close failed. Check Activity Log for details.");
+    }
+  }, [auctionSigner, refreshAuctions, addLog, pushToast]);
+
+  const seriesSummaries = useMemo(() => seriesList.map((s) => summarizeSeries(s, auctions, now)), [seriesList, auctions, now]);
+
+  const myBids = useMemo(
+    () => (ethersSigner?.address ? buildMyBids(ethersSigner.address, auctions, bidsByAuction, projection, now) : undefined),
+    [ethersSigner, auctions, bidsByAuction, projection, now]
+  );
+
+  const bidAuction = auctions.find((a) => a.id === Number(bidId));
+  const bidBlocked = bidAuction !== undefined && !canPerform(bidAuction, ethersSigner?.address, "bid", now);
+
   const button = "inline-flex items-center justify-center rounded-xl bg-amber-600 px-4 py-3 font-semibold text-white shadow-sm transition-colors duration-200 hover:bg-amber-700 active:bg-amber-800 disabled:opacity-50 disabled:pointer-events-none";
   const panel = "rounded-xl bg-white/90 backdrop-blur border-2 border-amber-900 p-5";
   const title = "font-bold text-amber-900 text-lg mb-2";
@@ -409,8 +791,8 @@ export const MedicineApp = () => {
         <div className="rounded-xl bg-white/80 border-2 border-amber-900 px-4 py-3">
           <p className="text-amber-900 font-bold">Wallet: <span className="font-mono">{connectedAddressShort ?? "-"}</span></p>
           <div className="grid grid-cols-2 gap-3 mt-1">
-            <p className="text-black">MTK: <span className="font-mono">{String(balances.mtk ?? 0n)}</span></p>
-            <p className="text-black">sUSD: <span className="font-mono">{String(balances.susd ?? 0n)}</span></p>
+            <p className="text-black">MTK: <span className="font-mono">{formatAmount(balances.mtk ?? 0n, tokenDecimals.base)}</span></p>
+            <p className="text-black">sUSD: <span className="font-mono">{formatAmount(balances.susd ?? 0n, tokenDecimals.quote)}</span></p>
           </div>
           <div className="mt-2">
             <button type="button" className="inline-flex items-center justify-center rounded-md bg-amber-600 px-3 py-1 text-sm font-semibold text-white hover:bg-amber-700 active:bg-amber-800" onClick={refreshBalances}>
@@ -453,12 +835,89 @@ export const MedicineApp = () => {
               <p className="text-xs text-black mt-1">When the auction becomes active.</p>
             </div>
             <div>
-              <label htmlFor="endM" className={label}>End (minutes from now)</label>
+              <label htmlFor="endM" className={label}>{recurring ? "Window length (minutes)" : "End (minutes from now)"}</label>
               <input id="endM" className={input} value={endM} onChange={(e) => setEndM(e.target.value)} />
-              <p className="text-xs text-black mt-1">Last moment to accept bids.</p>
+              <p className="text-xs text-black mt-1">{recurring ? "Each window accepts bids for this long." : "Last moment to accept bids."}</p>
             </div>
           </div>
-          <button type="button" className={`${button} mt-3`} disabled={creating} onClick={onCreate}>{creating ? "Creating..." : "Create"}</button>
+          <label className={`${label} mt-2 flex items-center gap-2`}>
+            <input type="checkbox" checked={recurring} onChange={(e) => setRecurring(e.target.checked)} />
+            Recurring (back-to-back windows)
+          </label>
+          {!recurring && (
+            <label className={`${label} mt-2 flex items-center gap-2`}>
+              <input type="checkbox" checked={pullMode} onChange={(e) => setPullMode(e.target.checked)} />
+              Pull payments (buyers and supplier claim after settlement)
+            </label>
+          )}
+          {!recurring && (
+            <label className={`${label} mt-2 flex items-center gap-2`}>
+              <input type="checkbox" checked={hiddenCaps} disabled={hiddenKits} onChange={(e) => setHiddenCaps(e.target.checked)} />
+              Encrypted price caps (eligibility decrypted per bid after the VWAP)
+            </label>
+          )}
+          {!recurring && (
+            <label className={`${label} mt-2 flex items-center gap-2`}>
+              <input type="checkbox" checked={hiddenKits} disabled={hiddenCaps} onChange={(e) => setHiddenKits(e.target.checked)} />
+              Confidential kits (only total demand and each allocation are decrypted)
+            </label>
+          )}
+          {!recurring && (
+            <div className="mt-2">
+              <label htmlFor="reserve" className={label}>Reserve price (sUSD per kit, optional)</label>
+              <input id="reserve" className={input} value={reserve} placeholder="none" onChange={(e) => setReserve(e.target.value.trim())} />
+              <p className="text-xs text-black mt-1">Encrypted. Below it the auction fails and every bid is refunded; nobody learns the reserve or the VWAP.</p>
+            </div>
+          )}
+          {!recurring && (
+            <div className="mt-2">
+              <p className={label}>Lot details (optional)</p>
+              <div className="grid grid-cols-2 gap-2">
+                <input aria-label="Title" className={input} value={lot.title} placeholder="Title" onChange={(e) => setLot({ ...lot, title: e.target.value })} />
+                <input aria-label="Drug" className={input} value={lot.drug} placeholder="Drug" onChange={(e) => setLot({ ...lot, drug: e.target.value })} />
+                <input aria-label="Dosage" className={input} value={lot.dosage} placeholder="Dosage, e.g. 500 mg x 30" onChange={(e) => setLot({ ...lot, dosage: e.target.value })} />
+                <input aria-label="Delivery terms" className={input} value={lot.deliveryTerms} placeholder="Delivery terms" onChange={(e) => setLot({ ...lot, deliveryTerms: e.target.value })} />
+              </div>
+              <label htmlFor="tenderHash" className={`${label} mt-2`}>Tender document hash</label>
+              <input id="tenderHash" className={input} value={lot.documentHash} placeholder="0x… or IPFS CID" onChange={(e) => setLot({ ...lot, documentHash: e.target.value.trim() })} />
+              <input type="file" aria-label="Tender document" className="text-xs text-black mt-1" onChange={(e) => onTenderFile(e.target.files?.[0])} />
+              <p className="text-xs text-black mt-1">Pick the tender document to hash it locally (keccak256), or paste an IPFS CID. Only the hash of these details goes on-chain.</p>
+            </div>
+          )}
+          {recurring && (
+            <div className="mt-2">
+              <label htmlFor="windowsN" className={label}>Windows</label>
+              <input id="windowsN" className={input} value={windowsN} onChange={(e) => setWindowsN(e.target.value)} />
+              <p className="text-xs text-black mt-1">Kits are offered in every window; unsold kits roll into the next one.</p>
+            </div>
+          )}
+          {!recurring && (
+            <div className="mt-2">
+              <label htmlFor="allowed" className={label}>Allowed municipalities (optional)</label>
+              <textarea id="allowed" className={input} rows={3} value={allowedText} placeholder="0x… one per line; empty: any municipality" onChange={(e) => setAllowedText(e.target.value)} />
+              <p className="text-xs text-black mt-1">Only the Merkle root goes on-chain. Publish this list: bidders paste it to prove they are on it.</p>
+            </div>
+          )}
+          {!recurring && (
+            <div className="mt-2">
+              <p className={label}>Limits per municipality (optional)</p>
+              <div className="grid grid-cols-3 gap-2">
+                <input aria-label="Max bids" className={input} value={limitBids} placeholder="Bids" onChange={(e) => setLimitBids(e.target.value.trim())} />
+                <input aria-label="Max kits" className={input} value={limitKits} placeholder="Kits" disabled={hiddenKits} onChange={(e) => setLimitKits(e.target.value.trim())} />
+                <input aria-label="Max share of kits (%)" className={input} value={limitShare} placeholder="% of kits" disabled={hiddenKits} onChange={(e) => setLimitShare(e.target.value.trim())} />
+              </div>
+              <p className="text-xs text-black mt-1">Caps each address&apos;s live bids, total kits and share of the kits offered, so one buyer cannot split its demand to dominate the pro-rata allocation.</p>
+            </div>
+          )}
+          {!recurring && (
+            <div className="mt-2">
+              <label htmlFor="auditor" className={label}>Auditor (optional)</label>
+              <input id="auditor" className={input} value={auditorText} placeholder="0x…" onChange={(e) => setAuditorText(e.target.value.trim())} />
+              <p className="text-xs text-black mt-1">May decrypt every bid price once the VWAP is computed, to check it on the <Link href="/auditor" className="underline">auditor page</Link>. Registry auditors may audit any auction.</p>
+            </div>
+          )}
+          {roles && !roles.supplier && <p className="text-xs text-red-800 mt-2">This wallet is not registered as a supplier. Ask a registry admin to grant it the supplier role.</p>}
+          <button type="button" className={`${button} mt-3`} disabled={creating || (roles !== undefined && !roles.supplier)} onClick={onCreate}>{creating ? "Creating..." : "Create"}</button>
         </div>
         <div className={panel}>
           <p className={title}>Submit Municipality Bid</p>
@@ -471,77 +930,277 @@ export const MedicineApp = () => {
               <p className="text-xs text-black mt-1">This value is encrypted before going on-chain.</p>
             </div>
             <div>
-              <label htmlFor="qty" className={label}>Kits</label>
+              <label htmlFor="qty" className={label}>Kits{bidAuction?.confidentialQuantities ? " (encrypted)" : ""}</label>
               <input id="qty" className={input} value={qty} onChange={(e) => setQty(e.target.value)} />
-              <p className="text-xs text-black mt-1">Number of kits requested.</p>
+              <p className="text-xs text-black mt-1">{bidAuction?.confidentialQuantities ? "Kits requested; voided to 0 if Max Spend cannot pay them at your cap." : "Number of kits requested."}</p>
             </div>
             <div>
-              <label htmlFor="cap" className={label}>Price Cap</label>
+              <label htmlFor="cap" className={label}>Price Cap{bidAuction?.encryptedCaps ? " (encrypted)" : ""}</label>
               <input id="cap" className={input} value={cap} onChange={(e) => setCap(e.target.value)} />
-              <p className="text-xs text-black mt-1">Max sUSD you accept per kit.</p>
+              <p className="text-xs text-black mt-1">{bidAuction?.encryptedCaps ? "Max sUSD per kit; only the escrow reveals an upper bound." : "Max sUSD you accept per kit."}</p>
             </div>
           </div>
-          <button type="button" className={`${button} mt-3`} disabled={bidding} onClick={onBid}>{bidding ? "Submitting..." : "Submit Bid"}</button>
+          {!bidAuction?.confidentialQuantities && (
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <div>
+                <label htmlFor="minKits" className={label}>Minimum Kits (optional)</label>
+                <input id="minKits" className={input} value={allOrNothing ? qty : minKits} disabled={allOrNothing} onChange={(e) => setMinKits(e.target.value)} />
+                <p className="text-xs text-black mt-1">If oversubscription would leave you fewer kits, the bid is refunded instead.</p>
+              </div>
+              <label className={`${label} flex items-center gap-2`}>
+                <input type="checkbox" checked={allOrNothing} onChange={(e) => setAllOrNothing(e.target.checked)} />
+                All or nothing
+              </label>
+            </div>
+          )}
+          {bidAllowlistRoot !== ethers.ZeroHash && !joined && (
+            <div className="mt-2">
+              <label htmlFor="bidList" className={label}>Published allowlist</label>
+              <textarea id="bidList" className={input} rows={3} value={bidListText} placeholder="Addresses published by the supplier" onChange={(e) => setBidListText(e.target.value)} />
+              <p className="text-xs text-black mt-1">Auction #{bidId} only accepts bids from its allowlist. Your wallet joins it once, before its first bid.</p>
+            </div>
+          )}
+          {bidTarget && bidTargetLimited && (
+            <p className="text-xs text-black mt-2">
+              Limits per municipality:{bidTarget.bidderLimits.maxBids !== 0 && ` ${bidTarget.bidderLimits.maxBids} bids`}
+              {maxBidderQty(bidTarget.S, bidTarget.bidderLimits) !== undefined && ` ${formatAmount(maxBidderQty(bidTarget.S, bidTarget.bidderLimits)!, bidTarget.decimals.base)} kits`}
+              {bidTarget.bidderLimits.maxShareBps !== 0 && ` (${(bidTarget.bidderLimits.maxShareBps * 100) / BPS}% of the lot)`}
+              {bidderUsage && `. You have ${bidderUsage.bids} live bids for ${formatAmount(bidderUsage.qty, bidTarget.decimals.base)} kits.`}
+            </p>
+          )}
+          {bidNotAllowed && <p className="text-xs text-red-800 mt-2">{bidNotAllowed}</p>}
+          {bidBlocked && <p className="text-xs text-red-800 mt-2">Auction #{bidAuction.id} is {deriveAuctionPhase(bidAuction, now).phase}; bids are only accepted while it is Open.</p>}
+          <button type="button" className={`${button} mt-3`} disabled={bidding || bidBlocked || bidNotAllowed !== undefined} onClick={onBid}>{bidding ? "Submitting..." : "Submit Bid"}</button>
         </div>
         {/* Removed standalone decrypt panel (actions now per auction) */}
       </div>
       {/* Removed standalone settle panel; Status relocated below Log */}
 
+      {seriesSummaries.length > 0 && (
+        <div className="mx-8 mt-4">
+          <div className={panel}>
+            <p className={title}>Recurring Series</p>
+            <div className="grid grid-cols-1 gap-2">
+              {seriesSummaries.map(({ series, windows, current }) => (
+                <div key={series.id} className="rounded-md border-2 border-amber-900 p-4 text-black bg-white/70">
+                  <div className="flex items-center justify-between">
+                    <div className="font-bold text-amber-900">Series #{series.id}</div>
+                    <span className="text-xs">{series.windows} windows × {formatAmount(series.supplyPerWindow, tokenDecimals.base)} kits, {Math.round(series.windowLength / 60)} min each{current ? ` — current: #${current.auctionId}` : ''}</span>
+                  </div>
+                  <div className="grid grid-cols-4 gap-2 mt-2 text-sm">
+                    <span className="font-semibold">Auction</span>
+                    <span className="font-semibold">Phase</span>
+                    <span className="font-semibold">Kits</span>
+                    <span className="font-semibold">Rolled in</span>
+                    {windows.map((w) => (
+                      <div key={w.auctionId} className="contents">
+                        <span>#{w.auctionId}</span>
+                        <span>{w.phase ?? '-'}</span>
+                        <span>{w.S !== undefined ? formatAmount(w.S, tokenDecimals.base) : '-'}</span>
+                        <span>{formatAmount(w.rolledIn, tokenDecimals.base)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="mx-8 mt-4">
         <div className={panel}>
           <p className={title}>Auctions {isLoading ? "(loading...)" : ""}</p>
           <div className="grid grid-cols-1 gap-2">
             {auctions.length === 0 && <p className="text-black">No auctions yet.</p>}
-            {auctions.map((a) => (
+            {auctions.map((a) => {
+              const info = deriveAuctionPhase(a, now);
+              const roles = auctionRolesOf(a, ethersSigner?.address);
+              const actions = allowedActions(info, roles);
+              const isSeller = roles.includes("seller");
+              const inSeries = findSeriesOf(seriesList, a.id);
+              const owed = claimable[a.id];
+              const canClaim = actions.includes("claim") && owed !== undefined && (owed.base > 0n || owed.quote > 0n);
+              const details = lots[a.metadataHash];
+              return (
               <div key={a.id} className="rounded-md border-2 border-amber-900 p-4 text-black bg-white/70">
                 <div className="flex items-center justify-between">
                   <div className="font-bold text-amber-900">Auction #{a.id}</div>
                   <div className="flex items-center gap-2">
+                    {a.pullPayments && <span className="px-2 py-0.5 rounded-md text-xs font-semibold bg-purple-100 text-purple-800">Pull payments</span>}
+                    {a.encryptedCaps && <span className="px-2 py-0.5 rounded-md text-xs font-semibold bg-indigo-100 text-indigo-800">Encrypted caps{a.eligibilityRequested && a.pendingEligibility > 0 ? ` · ${a.pendingEligibility} pending` : ''}</span>}
+                    {a.confidentialQuantities && <span className="px-2 py-0.5 rounded-md text-xs font-semibold bg-indigo-100 text-indigo-800">Confidential kits{a.pendingAllocations > 0 ? ` · ${a.pendingAllocations} pending` : ''}</span>}
+                    {inSeries && <span className="px-2 py-0.5 rounded-md text-xs font-semibold bg-amber-100 text-amber-800">Series #{inSeries.series.id} · window {inSeries.window + 1}/{inSeries.series.windows}</span>}
                     <span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${a.vwapSet ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>{a.vwapSet ? 'VWAP Ready' : 'Pending VWAP'}</span>
-                    <span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${a.settled ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'}`}>{a.settled ? 'Settled' : 'Open'}</span>
+                    <span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${info.phase === AuctionPhase.Settled ? 'bg-blue-100 text-blue-800' : info.phase === AuctionPhase.Open ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>{info.phase}</span>
                   </div>
                 </div>
+                {details && (
+                  <div className="mt-2">
+                    <div className="font-semibold">{details.title}</div>
+                    <div className="grid grid-cols-4 gap-2 text-sm">
+                      <div><span className="font-semibold">Drug</span><div>{details.drug}</div></div>
+                      <div><span className="font-semibold">Dosage</span><div>{details.dosage}</div></div>
+                      <div><span className="font-semibold">Delivery</span><div>{details.deliveryTerms}</div></div>
+                      <div><span className="font-semibold">Tender document</span><div className="font-mono text-xs break-all">{details.documentHash}</div></div>
+                    </div>
+                  </div>
+                )}
+                {details === null && (
+                  <p className="text-xs text-red-700 mt-2">Lot details not found for hash <span className="font-mono">{a.metadataHash}</span></p>
+                )}
                 <div className="grid grid-cols-5 gap-2 mt-2">
                   <div><span className="font-semibold">Seller</span><div className="font-mono text-xs break-all">{a.seller}</div></div>
-                  <div><span className="font-semibold">Kits</span><div>{String(a.kitsAvailable)}</div></div>
-                  <div><span className="font-semibold">sumQ</span><div>{String(a.sumQ)}</div></div>
-                  <div><span className="font-semibold">VWAP</span><div>{a.vwapSet ? `${String(a.vwap)} sUSD/kit` : '-'}</div></div>
+                  <div><span className="font-semibold">Kits</span><div>{formatAmount(a.kitsAvailable, a.decimals.base)}</div></div>
+                  <div><span className="font-semibold">sumQ</span><div>{a.confidentialQuantities && a.qtyReveal < QtyReveal.SumQRevealed ? 'encrypted' : formatAmount(a.sumQ, a.decimals.base)}{a.bidCount !== undefined ? ` (${a.bidCount} bids)` : ''}</div></div>
+                  <div><span className="font-semibold">VWAP</span><div>{a.vwapSet ? `${formatAmount(a.vwap, a.decimals.quote)} ${a.priceUnit || PRICE_UNIT}` : '-'}</div></div>
                   <div><span className="font-semibold">Window</span><div className="text-xs">{new Date(a.start * 1000).toLocaleString()} → {new Date(a.end * 1000).toLocaleString()}</div></div>
                 </div>
                 <div className="flex items-center gap-2 mt-3">
-                  {ethersSigner?.address && a.seller && ethersSigner.address.toLowerCase() === a.seller.toLowerCase() ? (
+                  {actions.includes("requestReserveCheck") && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-700 active:bg-indigo-800"
+                      onClick={() => requestReserveCheckFor(a.id)}
+                      title={'Decrypt only whether the VWAP reached the reserve; the VWAP is decrypted after'}
+                    >
+                      Check Reserve
+                    </button>
+                  )}
+                  {a.reserveCheck === ReserveCheck.NotMet && !a.settled && (
+                    <p className="text-xs text-red-700">Reserve not met: settling refunds every bid.</p>
+                  )}
+                  {actions.includes("requestEligibilityDecryption") && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-700 active:bg-indigo-800"
+                      onClick={() => requestEligibilityFor(a.id)}
+                      title={'Decrypt cap >= VWAP for every bid; settlement needs all results'}
+                    >
+                      Decrypt Eligibility
+                    </button>
+                  )}
+                  {actions.includes("requestSumQDecryption") && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-700 active:bg-indigo-800"
+                      onClick={() => revealQuantitiesFor(a.id, "requestSumQDecryption")}
+                      title={'Decrypt the total kits requested; the VWAP needs it'}
+                    >
+                      Decrypt Demand
+                    </button>
+                  )}
+                  {actions.includes("requestEligibleDemandDecryption") && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-700 active:bg-indigo-800"
+                      onClick={() => revealQuantitiesFor(a.id, "requestEligibleDemandDecryption")}
+                      title={'Decrypt the kits requested by bids whose cap meets the VWAP'}
+                    >
+                      Decrypt Eligible Demand
+                    </button>
+                  )}
+                  {actions.includes("requestAllocationDecryption") && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-700 active:bg-indigo-800"
+                      onClick={() => revealQuantitiesFor(a.id, "requestAllocationDecryption")}
+                      title={'Decrypt the allocation of every eligible bid; settlement needs all results'}
+                    >
+                      Decrypt Allocations
+                    </button>
+                  )}
+                  {actions.includes("closeEmptyAuction") && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center justify-center rounded-md bg-amber-600 px-3 py-2 text-sm font-semibold text-white hover:bg-amber-700 active:bg-amber-800"
+                      onClick={() => closeEmptyFor(a.id)}
+                      title={'No bids were placed: release the kits to the next window or back to the seller'}
+                    >
+                      Close &amp; Release
+                    </button>
+                  )}
+                  {canClaim && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center justify-center rounded-md bg-green-700 px-3 py-2 text-sm font-semibold text-white hover:bg-green-800 active:bg-green-900"
+                      onClick={() => claimFor(a.id)}
+                      title={'Withdraw what settlement recorded for this wallet'}
+                    >
+                      Claim {formatAmount(owed.base, a.decimals.base)} kits + {formatAmount(owed.quote, a.decimals.quote)} sUSD
+                    </button>
+                  )}
+                  {isSeller ? (
                     <>
-                      {!a.vwapSet && (
+                      <button
+                        type="button"
+                        className="inline-flex items-center justify-center rounded-md bg-amber-600 px-3 py-2 text-sm font-semibold text-white hover:bg-amber-700 active:bg-amber-800 disabled:opacity-50 disabled:pointer-events-none"
+                        disabled={!actions.includes("computeEncryptedVWAP") && !actions.includes("requestVWAPDecryption")}
+                        onClick={() => decryptFor(a.id)}
+                        title={'Decrypt final VWAP on-chain'}
+                      >
+                        Decrypt VWAP
+                      </button>
+                      <button
+                        type="button"
+                        className="inline-flex items-center justify-center rounded-md bg-amber-600 px-3 py-2 text-sm font-semibold text-white hover:bg-amber-700 active:bg-amber-800 disabled:opacity-50 disabled:pointer-events-none"
+                        disabled={!actions.includes("settle")}
+                        onClick={() => settleFor(a.id)}
+                        title={'Settle allocations and payments'}
+                      >
+                        Settle
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      {actions.includes("computeEncryptedVWAP") && (
+                        <button
+                          type="button"
+                          className="inline-flex items-center justify-center rounded-md bg-amber-600 px-3 py-2 text-sm font-semibold text-white hover:bg-amber-700 active:bg-amber-800"
+                          onClick={() => computeFor(a.id)}
+                          title={'Compute the encrypted VWAP (anyone can do this after close)'}
+                        >
+                          Compute Encrypted VWAP
+                        </button>
+                      )}
+                      {actions.includes("requestVWAPDecryption") && (
                         <button
                           type="button"
                           className="inline-flex items-center justify-center rounded-md bg-amber-600 px-3 py-2 text-sm font-semibold text-white hover:bg-amber-700 active:bg-amber-800"
                           onClick={() => decryptFor(a.id)}
-                          title={'Decrypt final VWAP on-chain'}
+                          title={'The seller did not act within the grace period: anyone can request decryption'}
                         >
                           Decrypt VWAP
                         </button>
                       )}
-                      {a.vwapSet && !a.settled && (
+                      {actions.includes("settle") && (
                         <button
                           type="button"
                           className="inline-flex items-center justify-center rounded-md bg-amber-600 px-3 py-2 text-sm font-semibold text-white hover:bg-amber-700 active:bg-amber-800"
                           onClick={() => settleFor(a.id)}
-                          title={'Settle allocations and payments'}
+                          title={'The seller did not act within the grace period: anyone can settle'}
                         >
                           Settle
                         </button>
                       )}
+                      {!a.settled && !actions.includes("requestVWAPDecryption") && !actions.includes("settle") && (
+                        <p className="text-xs text-amber-800">Only the seller can decrypt and settle this auction until {new Date((a.end + SETTLEMENT_GRACE_PERIOD) * 1000).toLocaleString()}.</p>
+                      )}
                     </>
-                  ) : (
-                    <p className="text-xs text-amber-800">Only the seller can decrypt and settle this auction.</p>
                   )}
                 </div>
+                <SettlementPreview auction={a} bids={bidsByAuction[a.id]} decimals={a.decimals} baseLabel="kits" quoteLabel="sUSD" />
               </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       </div>
 
+      <div className="mx-8 mt-4">
+        <MyBidsPanel panelClass={panel} titleClass={title} summary={myBids} decimals={tokenDecimals} baseLabel="kits" quoteLabel="sUSD" isLoading={isLoading} onAmend={amendBid} onCancel={cancelBid} />
+      </div>
+
       <div className="mx-8 mt-4 mb-10">
         <div className={panel}>
           <p className={title}>Activity Log</p>
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { AuctionPhase } from "@fhevwap/auction/auctionPhase";
+import { formatAmount, maxSpendFor, unitOf, type TokenDecimals } from "@fhevwap/auction/amounts";
+import type { MyBidRow, MyBidsSummary } from "@fhevwap/auction/myBids";
+
+export type BidAmendment = { price: string; qty: string; cap: string };
+
+const STATUS_CLASS: Record<MyBidRow["status"], string> = {
+  Escrowed: "bg-yellow-100 text-yellow-800",
+  AwaitingVWAP: "bg-gray-100 text-gray-800",
+  AwaitingSettlement: "bg-blue-100 text-blue-800",
+  Allocated: "bg-green-100 text-green-800",
+  Refunded: "bg-red-100 text-red-800",
+  Cancelled: "bg-gray-100 text-gray-500",
+  Settled: "bg-gray-100 text-gray-800",
+};
+
+function fmt(v: bigint | undefined, decimals: number) {
+  return v === undefined ? "-" : formatAmount(v, decimals);
+}
+
+export function MyBidsPanel(props: {
+  panelClass: string;
+  titleClass: string;
+  summary: MyBidsSummary | undefined;
+  // Amendments are typed in whole tokens too
+  decimals: TokenDecimals;
+  baseLabel: string;
+  quoteLabel: string;
+  isLoading?: boolean;
+  // Bids can be changed while their auction window is open
+  onAmend?: (row: MyBidRow, amendment: BidAmendment) => Promise<void>;
+  onCancel?: (row: MyBidRow) => Promise<void>;
+}) {
+  const { panelClass, titleClass, summary, decimals, baseLabel, quoteLabel, isLoading, onAmend, onCancel } = props;
+  const base = (v: bigint) => formatAmount(v, decimals.base);
+  const quote = (v: bigint) => formatAmount(v, decimals.quote);
+  const [selected, setSelected] = useState<string | undefined>(undefined);
+  const [amendment, setAmendment] = useState<BidAmendment>({ price: "", qty: "", cap: "" });
+  const [busy, setBusy] = useState<boolean>(false);
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setSelected(undefined);
+    } finally {
+      setBusy(false);
+    }
+  };
+  const small = "rounded-md border px-2 py-1 text-black w-24";
+  const smallButton = "inline-flex items-center justify-center rounded-md bg-amber-600 px-3 py-1 text-xs font-semibold text-white hover:bg-amber-700 disabled:opacity-50 disabled:pointer-events-none";
+
+  return (
+    <div className={panelClass}>
+      <p className={titleClass}>My Bids {isLoading ? "(loading...)" : ""}</p>
+      {!summary || summary.rows.length === 0 ? (
+        <p className="text-black">No bids from this wallet yet.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-4 gap-2 text-black mb-3">
+            <div><span className="font-semibold">Escrowed</span><div className="font-mono">{quote(summary.escrowed)} {quoteLabel}</div></div>
+            <div><span className="font-semibold">Spent</span><div className="font-mono">{quote(summary.spent)} {quoteLabel}</div></div>
+            <div><span className="font-semibold">Refunded</span><div className="font-mono">{quote(summary.refunded)} {quoteLabel}</div></div>
+            <div><span className="font-semibold">Received</span><div className="font-mono">{base(summary.allocated)} {baseLabel}</div></div>
+          </div>
+          <table className="w-full text-sm text-black">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-1">Auction</th>
+                <th>Bid</th>
+                <th>Qty</th>
+                <th>Cap</th>
+                <th>Max spend</th>
+                <th>Status</th>
+                <th>Allocation</th>
+                <th>Spend</th>
+                <th>Refund</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.rows.map((r) => {
+                const key = `${r.auctionId}-${r.index}`;
+                const open = selected === key;
+                const editable = r.phase === AuctionPhase.Open && r.status === "Escrowed";
+                return [
+                  <tr
+                    key={key}
+                    className="border-b cursor-pointer hover:bg-black/5"
+                    onClick={() => {
+                      setSelected(open ? undefined : key);
+                      setAmendment({ price: "", qty: base(r.qty), cap: quote(r.priceCap) });
+                    }}
+                  >
+                    <td className="py-1">#{r.auctionId}</td>
+                    <td>{r.index}</td>
+                    <td>{r.confidentialQty ? "encrypted" : base(r.qty)}</td>
+                    <td>{r.encryptedCap ? "encrypted" : quote(r.priceCap)}</td>
+                    <td>{quote(r.maxSpend)}</td>
+                    <td><span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${STATUS_CLASS[r.status]}`}>{r.status}</span></td>
+                    <td>{fmt(r.allocation, decimals.base)}</td>
+                    <td>{fmt(r.spend, decimals.quote)}</td>
+                    <td>{fmt(r.refund, decimals.quote)}</td>
+                  </tr>,
+                  open && (
+                    <tr key={`${key}-detail`} className="bg-black/5">
+                      <td colSpan={9} className="p-2 text-xs">
+                        <p>Auction phase: <span className="font-semibold">{r.phase}</span></p>
+                        <p>VWAP: {r.vwap === undefined ? "not revealed" : `${quote(r.vwap)} ${quoteLabel} per ${baseLabel}`}</p>
+                        <p>Eligible (cap ≥ VWAP): {r.eligible === undefined ? "-" : r.eligible ? "yes" : "no"}</p>
+                        {!r.encryptedCap && !r.confidentialQty && <p>Worst-case cost at cap: {quote(maxSpendFor(r.qty, r.priceCap, unitOf(decimals.base)))} {quoteLabel}</p>}
+                        {r.transactionHash && <p>Bid tx: <span className="font-mono break-all">{r.transactionHash}</span> (block {r.blockNumber})</p>}
+                        {editable && (onAmend || onCancel) && (
+                          <div className="flex items-end gap-2 mt-2">
+                            {onAmend && !r.encryptedCap && !r.confidentialQty && (
+                              <>
+                                <label className="flex flex-col">Price (encrypted)<input className={small} value={amendment.price} onChange={(e) => setAmendment({ ...amendment, price: e.target.value })} /></label>
+                                <label className="flex flex-col">Qty<input className={small} value={amendment.qty} onChange={(e) => setAmendment({ ...amendment, qty: e.target.value })} /></label>
+                                <label className="flex flex-col">Cap<input className={small} value={amendment.cap} onChange={(e) => setAmendment({ ...amendment, cap: e.target.value })} /></label>
+                                <button type="button" className={smallButton} disabled={busy} onClick={() => run(() => onAmend(r, amendment))}>Amend</button>
+                              </>
+                            )}
+                            {onCancel && (
+                              <button type="button" className={smallButton} disabled={busy} onClick={() => run(() => onCancel(r))}>Cancel bid</button>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ),
+                ];
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
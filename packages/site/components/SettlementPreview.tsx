@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { formatAmount, parseAmount, type TokenDecimals } from "@fhevwap/auction/amounts";
+import { ReserveCheck, type OnChainAuction, type OnChainBid } from "@fhevwap/auction/auctionTypes";
+import { closedWithoutDemand, simulateSettlement } from "@fhevwap/auction/simulateSettlement";
+
+export function SettlementPreview(props: {
+  auction: OnChainAuction;
+  bids: readonly OnChainBid[] | undefined;
+  decimals: TokenDecimals;
+  baseLabel: string;
+  quoteLabel: string;
+}) {
+  const { auction, bids, decimals, baseLabel, quoteLabel } = props;
+  const base = (v: bigint) => formatAmount(v, decimals.base);
+  const quote = (v: bigint) => formatAmount(v, decimals.quote);
+  const [open, setOpen] = useState(false);
+  const [whatIf, setWhatIf] = useState("");
+
+  if (auction.settled || !bids || bids.length === 0) return null;
+
+  // Before the reveal the preview runs against a hypothetical VWAP typed by the user
+  const now = Math.floor(Date.now() / 1000);
+  const noDemand = closedWithoutDemand(auction, now);
+  const failed = auction.reserveCheck === ReserveCheck.NotMet || noDemand;
+  const vwap = auction.vwapSet ? auction.vwap : parseAmount(whatIf, decimals.quote);
+  const sim = simulateSettlement(auction, bids, vwap, undefined, now);
+
+  return (
+    <div className="mt-3 text-sm">
+      <button type="button" className="underline text-xs" onClick={() => setOpen(!open)}>
+        {open ? "Hide" : "Show"} settlement preview
+      </button>
+      {open && (
+        <div className="mt-2">
+          {!auction.vwapSet && !failed && (
+            <label className="flex items-center gap-2 text-xs mb-2">
+              What-if VWAP ({quoteLabel} per {baseLabel})
+              <input className="border rounded px-2 py-1 w-28" value={whatIf} onChange={(e) => setWhatIf(e.target.value.trim())} />
+            </label>
+          )}
+          {!sim.ok ? (
+            <p className="text-red-700 font-semibold">
+              settle would revert: &quot;{sim.reason}&quot;
+              {sim.bidIndex !== undefined ? ` (bid ${sim.bidIndex})` : ""}
+            </p>
+          ) : (
+            <>
+              <p className="text-xs mb-1">
+                {failed ? `${noDemand ? "No demand" : "Reserve not met"}: every bid is refunded` : `VWAP ${quote(sim.vwap)}`} · eligible demand Q={base(sim.Q)} · S={base(sim.S)} · seller receives{" "}
+                {quote(sim.sellerProceeds)} {quoteLabel} · {base(sim.baseReturned)} {baseLabel} returned
+              </p>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-1">Bid</th>
+                    <th>Buyer</th>
+                    <th>Qty</th>
+                    <th>Cap</th>
+                    <th>Eligible</th>
+                    <th>Allocation</th>
+                    <th>Spend</th>
+                    <th>Refund</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sim.bids.map((b) => (
+                    <tr key={b.index} className={`border-b ${b.skipped ? "opacity-50" : ""}`}>
+                      <td className="py-1">{b.index}</td>
+                      <td className="font-mono">{b.buyer.slice(0, 6)}…{b.buyer.slice(-4)}</td>
+                      <td>{base(b.qty)}</td>
+                      <td>{quote(b.priceCap)}</td>
+                      <td>{b.skipped ? "settled" : b.eligible ? "yes" : b.belowMinFill ? "below min fill" : "no"}</td>
+                      <td>{base(b.allocation)}</td>
+                      <td>{quote(b.spend)}</td>
+                      <td>{quote(b.refund)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
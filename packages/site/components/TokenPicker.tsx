@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AuctionClient } from "@fhevwap/auction/AuctionClient";
+import type { TokenAccount, TokenInfo } from "@fhevwap/auction/auctionTypes";
+import { formatAmount } from "@fhevwap/auction/amounts";
+import { findToken } from "@fhevwap/auction/tokenList";
+
+// Select value of the native ETH entry, which shares its address with WETH
+const NATIVE = "native";
+
+/**
+ * Picks any ERC20 by address. Loaded tokens are remembered in the chain's token list; the selected
+ * one shows its metadata plus the connected wallet's balance and allowance to the auction.
+ * `nativeToken` adds native ETH as a choice, which needs no allowance.
+ */
+export function TokenPicker(props: {
+  id: string;
+  label: string;
+  client: AuctionClient | undefined;
+  account: string | undefined;
+  tokens: readonly TokenInfo[];
+  nativeToken?: TokenInfo;
+  selected: TokenInfo | undefined;
+  onSelect: (token: TokenInfo | undefined) => void;
+  onRemember: (token: TokenInfo) => void;
+  onForget: (address: string) => void;
+  // Bumped by the parent after transactions so balance and allowance are re-read
+  refreshKey?: number;
+  labelClass: string;
+  inputClass: string;
+}) {
+  const { id, label, client, account, tokens, nativeToken, selected, onSelect, onRemember, onForget, refreshKey, labelClass, inputClass } = props;
+  const [address, setAddress] = useState<string>("");
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [position, setPosition] = useState<TokenAccount | undefined>(undefined);
+
+  useEffect(() => {
+    setPosition(undefined);
+    if (!client || !account || !selected) return;
+    const read = selected.native
+      ? client.getEthBalance(account).then((balance) => ({ balance, allowance: balance }))
+      : client.getTokenAccount(selected.address, account);
+    read.then(setPosition, () => {});
+  }, [client, account, selected, refreshKey]);
+
+  const onLoad = async () => {
+    if (!client) return;
+    setBusy(true);
+    setError(undefined);
+    try {
+      const token = await client.getTokenInfo(address.trim());
+      onRemember(token);
+      onSelect(token);
+      setAddress("");
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const smallButton = "rounded-md border px-2 py-1 text-xs text-black disabled:opacity-50";
+
+  return (
+    <div className="mt-2">
+      <label htmlFor={id} className={labelClass}>{label}</label>
+      <div className="flex gap-2">
+        <select id={id} className={inputClass} value={selected?.native ? NATIVE : selected?.address ?? ""} onChange={(e) => onSelect(e.target.value === NATIVE ? nativeToken : findToken(tokens, e.target.value))}>
+          <option value="">Select a token</option>
+          {nativeToken && <option value={NATIVE}>{nativeToken.symbol} (native)</option>}
+          {tokens.map((t) => (
+            <option key={t.address} value={t.address}>{t.symbol} — {t.address.slice(0, 6)}…{t.address.slice(-4)}</option>
+          ))}
+        </select>
+        {selected && !selected.native && (
+          <button type="button" className={smallButton} onClick={() => { onForget(selected.address); onSelect(undefined); }}>
+            Forget
+          </button>
+        )}
+      </div>
+      <div className="flex gap-2 mt-1">
+        <input className={inputClass} placeholder="0x… token address" value={address} onChange={(e) => setAddress(e.target.value)} />
+        <button type="button" className={smallButton} disabled={busy || !client || address.trim() === ""} onClick={onLoad}>
+          {busy ? "Loading..." : "Add"}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      {selected && (
+        <p className="text-xs text-black mt-1">
+          {selected.name} ({selected.symbol}) · {selected.decimals} decimals · balance{" "}
+          {position ? formatAmount(position.balance, selected.decimals) : "-"} ·{" "}
+          {selected.native ? "no approval needed" : <>allowance {position ? formatAmount(position.allowance, selected.decimals) : "-"}</>}
+        </p>
+      )}
+    </div>
+  );
+}
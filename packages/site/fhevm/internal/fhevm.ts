@@ -7,7 +7,7 @@ import type {
 } from "./fhevmTypes";
 import { isFhevmWindowType, RelayerSDKLoader } from "./RelayerSDKLoader";
 import { publicKeyStorageGet, publicKeyStorageSet } from "./PublicKeyStorage";
-import { FhevmInstance, FhevmInstanceConfig } from "../fhevmTypes";
+import { FhevmInstance, FhevmInstanceConfig } from "@fhevwap/auction/fhevm/fhevmTypes";
 
 export class FhevmReactError extends Error {
   code: string;
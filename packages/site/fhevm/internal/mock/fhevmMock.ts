@@ -8,7 +8,7 @@
 
 import { JsonRpcProvider } from "ethers";
 import { MockFhevmInstance } from "@fhevm/mock-utils";
-import { FhevmInstance } from "../../fhevmTypes";
+import { FhevmInstance } from "@fhevwap/auction/fhevm/fhevmTypes";
 
 export const fhevmMockCreateInstance = async (parameters: {
   rpcUrl: string;
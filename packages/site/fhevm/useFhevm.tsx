@@ -1,6 +1,6 @@
 import { ethers } from "ethers";
 import { useCallback, useEffect, useRef, useState } from "react";
-import type { FhevmInstance } from "./fhevmTypes";
+import type { FhevmInstance } from "@fhevwap/auction/fhevm/fhevmTypes";
 import { createFhevmInstance } from "./internal/fhevm";
 
 function _assert(condition: boolean, message?: string): asserts condition {
@@ -2,7 +2,7 @@ import { createContext, ReactNode, useContext, useState } from "react";
 import {
   GenericStringInMemoryStorage,
   GenericStringStorage,
-} from "@/fhevm/GenericStringStorage";
+} from "@fhevwap/auction/fhevm/GenericStringStorage";
 
 interface UseInMemoryStorageState {
   storage: GenericStringStorage;
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from "react";
+import type { TokenInfo } from "@fhevwap/auction/auctionTypes";
+import { addToken, parseTokenList, removeToken, tokenListKey } from "@fhevwap/auction/tokenList";
+
+function loadTokenList(chainId: number): TokenInfo[] {
+  try {
+    return parseTokenList(window.localStorage.getItem(tokenListKey(chainId)));
+  } catch {
+    return [];
+  }
+}
+
+function saveTokenList(chainId: number, list: readonly TokenInfo[]): void {
+  try {
+    window.localStorage.setItem(tokenListKey(chainId), JSON.stringify(list));
+  } catch {
+    // storage full or disabled: the list only lives for this session
+  }
+}
+
+/** Token list of the connected chain, persisted in localStorage (see auction/tokenList.ts). */
+export function useTokenList(chainId: number | undefined) {
+  const [tokens, setTokens] = useState<TokenInfo[]>([]);
+
+  useEffect(() => {
+    setTokens(chainId === undefined ? [] : loadTokenList(chainId));
+  }, [chainId]);
+
+  const update = useCallback(
+    (change: (list: TokenInfo[]) => TokenInfo[]) => {
+      if (chainId === undefined) return;
+      setTokens((prev) => {
+        const next = change(prev);
+        saveTokenList(chainId, next);
+        return next;
+      });
+    },
+    [chainId]
+  );
+
+  const remember = useCallback((token: TokenInfo) => update((list) => addToken(list, token)), [update]);
+  const forget = useCallback((address: string) => update((list) => removeToken(list, address)), [update]);
+
+  return { tokens, remember, forget };
+}
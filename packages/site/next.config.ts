@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // The shared auction SDK is published as TypeScript sources
+  transpilePackages: ["@fhevwap/auction"],
   headers() {
     // Required by FHEVM 
     return Promise.resolve([
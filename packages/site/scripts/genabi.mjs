@@ -17,6 +17,10 @@ const rel = "../fhevm-hardhat-template";
 // <root>/packages/site/components
 const outdir = path.resolve("./abi");
 
+// <root>/packages/auction/abi: the auction ABIs are shared with the hardhat tasks
+const sharedOutdir = path.resolve("../auction/abi");
+const SHARED_CONTRACT_NAMES = ["FHEVWAPAuction", "MedicineAuction"];
+
 if (!fs.existsSync(outdir)) {
   fs.mkdirSync(outdir);
 }
@@ -125,15 +129,17 @@ export const ${CONTRACT_NAME}ABI = ${JSON.stringify({ abi: deployLocalhost.abi }
   Command: 'npm run genabi'
 */
 export const ${CONTRACT_NAME}Addresses = { 
-  "11155111": { address: "${deploySepolia.address}", chainId: 11155111, chainName: "sepolia" },
-  "31337": { address: "${deployLocalhost.address}", chainId: 31337, chainName: "hardhat" },
+  "11155111": { address: "${deploySepolia.address}", chainId: 11155111, chainName: "sepolia", deployBlock: ${deploySepolia.receipt?.blockNumber ?? 0} },
+  "31337": { address: "${deployLocalhost.address}", chainId: 31337, chainName: "hardhat", deployBlock: ${deployLocalhost.receipt?.blockNumber ?? 0} },
 };
 `;
 
-  console.log(`Generated ${path.join(outdir, `${CONTRACT_NAME}ABI.ts`)}`);
+  const abiOutdir = SHARED_CONTRACT_NAMES.includes(CONTRACT_NAME) ? sharedOutdir : outdir;
+
+  console.log(`Generated ${path.join(abiOutdir, `${CONTRACT_NAME}ABI.ts`)}`);
   console.log(`Generated ${path.join(outdir, `${CONTRACT_NAME}Addresses.ts`)}`);
 
-  fs.writeFileSync(path.join(outdir, `${CONTRACT_NAME}ABI.ts`), tsCode, "utf-8");
+  fs.writeFileSync(path.join(abiOutdir, `${CONTRACT_NAME}ABI.ts`), tsCode, "utf-8");
   fs.writeFileSync(
     path.join(outdir, `${CONTRACT_NAME}Addresses.ts`),
     tsAddresses,